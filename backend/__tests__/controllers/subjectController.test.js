@@ -0,0 +1,101 @@
+// __tests__/controllers/subjectController.test.js
+
+const mongoose = require('mongoose');
+const Subject = require('@/models/mongo/Subject');
+const { runWithOrganization } = require('@/lib/tenantContext');
+const { domainEvents, DomainEvents } = require('@/utils/domainEvents');
+const { addSubject, updateSubject, deleteSubject } = require('@/controllers/subjectController');
+
+jest.mock('@/services/SubjectOrderingService', () => ({
+  handleSubjectChange: jest.fn().mockResolvedValue(undefined)
+}));
+jest.mock('@/utils/logger', () => ({ error: jest.fn() }));
+
+const SUBJECT_ID = new mongoose.Types.ObjectId();
+const ADMIN_ID = new mongoose.Types.ObjectId().toString();
+
+const createResponse = () => {
+  const res = {};
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+// Runs a controller in the organization the auth middleware would set
+const call = (controller, req) => {
+  const res = createResponse();
+  const next = jest.fn();
+  return runWithOrganization('acme', () => controller({ user: { id: ADMIN_ID }, params: {}, body: {}, ...req }, res, next))
+    .then(() => ({ res, next }));
+};
+
+describe('subjectController', () => {
+  let publish;
+
+  // The model's queries go to a stubbed collection instead of a database
+  beforeEach(() => {
+    publish = jest.spyOn(domainEvents, 'publish').mockImplementation(() => {});
+    jest.spyOn(Subject.collection, 'insertOne').mockResolvedValue({ acknowledged: true });
+    jest.spyOn(Subject.collection, 'updateOne').mockResolvedValue({ acknowledged: true, matchedCount: 1, modifiedCount: 1 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('publishes new subjects by their curriculum ID', async () => {
+    const { res } = await call(addSubject, { body: { id: 'algebra', title: 'Algebra' } });
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(publish).toHaveBeenCalledWith(DomainEvents.SUBJECT_CREATED, { subjectId: 'algebra' });
+  });
+
+  it('does not publish subjects that are not part of the curriculum', async () => {
+    await call(addSubject, { body: { title: 'Draft' } });
+
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('publishes updates by curriculum ID once the subject is saved', async () => {
+    jest.spyOn(Subject.collection, 'findOne')
+      .mockResolvedValue({ _id: SUBJECT_ID, id: 'algebra', title: 'Algebra', organizationId: 'acme' });
+
+    const { res } = await call(updateSubject, { params: { id: SUBJECT_ID.toString() }, body: { title: 'Algebra I' } });
+
+    expect(Subject.collection.updateOne).toHaveBeenCalled();
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ title: 'Algebra I' }) }));
+    expect(publish).toHaveBeenCalledWith(DomainEvents.SUBJECT_UPDATED, { subjectId: 'algebra' });
+  });
+
+  it('does not publish updates that fail to save', async () => {
+    jest.spyOn(Subject.collection, 'findOne')
+      .mockResolvedValue({ _id: SUBJECT_ID, id: 'algebra', title: 'Algebra', organizationId: 'acme' });
+    Subject.collection.updateOne.mockRejectedValue(new Error('connection lost'));
+
+    const { next } = await call(updateSubject, { params: { id: SUBJECT_ID.toString() }, body: { title: 'Algebra I' } });
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 500 }));
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('publishes deletions by curriculum ID', async () => {
+    jest.spyOn(Subject.collection, 'findOneAndDelete')
+      .mockResolvedValue({ _id: SUBJECT_ID, id: 'algebra', title: 'Algebra', organizationId: 'acme' });
+
+    await call(deleteSubject, { params: { id: SUBJECT_ID.toString() } });
+
+    expect(publish).toHaveBeenCalledWith(DomainEvents.SUBJECT_DELETED, { subjectId: 'algebra' });
+  });
+
+  it('publishes nothing for subjects that do not exist', async () => {
+    jest.spyOn(Subject.collection, 'findOne').mockResolvedValue(null);
+    jest.spyOn(Subject.collection, 'findOneAndDelete').mockResolvedValue(null);
+
+    const update = await call(updateSubject, { params: { id: SUBJECT_ID.toString() }, body: { title: 'Algebra I' } });
+    const removal = await call(deleteSubject, { params: { id: SUBJECT_ID.toString() } });
+
+    expect(update.next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 404 }));
+    expect(removal.next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 404 }));
+    expect(publish).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+// __tests__/lib/db.test.js
+
+const mockClients = [];
+let mockConnectFailures = 0;
+let mockPingError = null;
+
+jest.mock('mongodb', () => ({
+  MongoClient: jest.fn().mockImplementation((uri, options) => {
+    const client = {
+      uri,
+      options,
+      connect: jest.fn(async () => {
+        if (mockConnectFailures > 0) {
+          mockConnectFailures--;
+          throw new Error('connection refused');
+        }
+      }),
+      close: jest.fn(async () => {}),
+      db: jest.fn(name => ({
+        name,
+        collection: jest.fn(collectionName => ({ collectionName })),
+        command: jest.fn(async () => {
+          if (mockPingError) throw mockPingError;
+          return { ok: 1 };
+        })
+      }))
+    };
+    mockClients.push(client);
+    return client;
+  })
+}));
+
+const { db } = require('@/lib/db');
+
+describe('DatabaseService', () => {
+  beforeEach(() => {
+    mockClients.length = 0;
+    mockConnectFailures = 0;
+    mockPingError = null;
+    db.configure({ uri: 'mongodb://test', dbName: 'testdb', connectAttempts: 3, retryDelayMs: 0, maxPoolSize: 7 });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+    jest.restoreAllMocks();
+  });
+
+  describe('connect', () => {
+    it('retries failed attempts with a fresh client', async () => {
+      mockConnectFailures = 2;
+
+      await db.connect();
+
+      expect(mockClients).toHaveLength(3);
+      expect(mockClients[0].close).toHaveBeenCalled();
+      expect(mockClients[2].options).toMatchObject({ maxPoolSize: 7 });
+    });
+
+    it('gives up after the configured number of attempts', async () => {
+      mockConnectFailures = 5;
+
+      await expect(db.connect()).rejects.toThrow('connection refused');
+      expect(mockClients).toHaveLength(3);
+    });
+
+    it('shares one connection between concurrent callers', async () => {
+      await Promise.all([db.connect(), db.connect()]);
+
+      expect(mockClients).toHaveLength(1);
+    });
+  });
+
+  describe('collection', () => {
+    it('connects lazily when connect was never called', () => {
+      expect(db.collection('learning_path_cache')).toEqual({ collectionName: 'learning_path_cache' });
+      expect(mockClients).toHaveLength(1);
+      expect(mockClients[0].db).toHaveBeenCalledWith('testdb');
+    });
+  });
+
+  describe('health', () => {
+    it('reports the ping latency when the database answers', async () => {
+      const health = await db.health();
+
+      expect(health.status).toBe('up');
+      expect(health.latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('reports the error instead of throwing when the database is down', async () => {
+      mockPingError = new Error('server selection timed out');
+
+      expect(await db.health()).toMatchObject({ status: 'down', error: 'server selection timed out' });
+    });
+  });
+});
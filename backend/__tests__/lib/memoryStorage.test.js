@@ -0,0 +1,148 @@
+// __tests__/lib/memoryStorage.test.js
+
+const { db } = require('@/lib/db');
+const { InMemoryStorage } = require('@/lib/memoryStorage');
+const { runWithOrganization } = require('@/lib/tenantContext');
+const fixtures = require('../../fixtures/learning.json');
+
+describe('InMemoryStorage', () => {
+  let storage;
+
+  beforeEach(() => {
+    storage = new InMemoryStorage({
+      subjects: [
+        { id: 'algebra', title: 'Algebra', difficulty: 2, tags: ['math'] },
+        { id: 'calculus', title: 'Calculus', difficulty: 4, tags: ['math'] },
+        { id: 'poetry', title: 'Poetry', difficulty: 1, tags: ['language'] }
+      ]
+    });
+  });
+
+  describe('find', () => {
+    it('supports $in, comparison operators and array fields', async () => {
+      const subjects = storage.collection('subjects');
+
+      expect((await subjects.find({ id: { $in: ['calculus', 'poetry', 'missing'] } }).toArray()).map(s => s.id))
+        .toEqual(['calculus', 'poetry']);
+      expect((await subjects.find({ difficulty: { $lte: 2 } }).toArray()).map(s => s.id)).toEqual(['algebra', 'poetry']);
+      expect((await subjects.find({ tags: 'math', difficulty: { $gt: 2 } }).toArray()).map(s => s.id)).toEqual(['calculus']);
+    });
+
+    it('sorts, limits and projects results', async () => {
+      const results = await storage.collection('subjects')
+        .find({}, { projection: { _id: 0, id: 1 } })
+        .sort({ difficulty: -1 })
+        .limit(2)
+        .toArray();
+
+      expect(results).toEqual([{ id: 'calculus' }, { id: 'algebra' }]);
+    });
+
+    it('returns copies that do not change stored documents', async () => {
+      const subjects = storage.collection('subjects');
+      const algebra = await subjects.findOne({ id: 'algebra' });
+      algebra.tags.push('changed');
+
+      expect((await subjects.findOne({ id: 'algebra' })).tags).toEqual(['math']);
+    });
+
+    it('rejects operators it does not support', async () => {
+      await expect(storage.collection('subjects').find({ tags: { $size: 1 } }).toArray())
+        .rejects.toThrow('Unsupported query operator in the in-memory database: $size');
+    });
+  });
+
+  describe('writes', () => {
+    it('updates fields with $set and $unset', async () => {
+      const subjects = storage.collection('subjects');
+
+      const result = await subjects.updateMany({ tags: 'math' }, { $set: { 'meta.reviewed': true }, $unset: { tags: '' } });
+
+      expect(result).toEqual({ matchedCount: 2, modifiedCount: 2 });
+      expect(await subjects.findOne({ id: 'calculus' }, { projection: { _id: 0 } }))
+        .toEqual({ id: 'calculus', title: 'Calculus', difficulty: 4, meta: { reviewed: true } });
+      expect((await subjects.findOne({ id: 'poetry' })).tags).toEqual(['language']);
+    });
+
+    it('upserts with the equality fields of the filter', async () => {
+      const overrides = storage.collection('learning_path_overrides');
+
+      await overrides.replaceOne({ userId: 'u1' }, { subjectIds: ['a'] }, { upsert: true });
+      await overrides.replaceOne({ userId: 'u1' }, { userId: 'u1', subjectIds: ['b'] }, { upsert: true });
+
+      expect(await overrides.find({}, { projection: { _id: 0 } }).toArray()).toEqual([{ userId: 'u1', subjectIds: ['b'] }]);
+    });
+
+    it('enforces unique indexes', async () => {
+      const versions = storage.collection('learning_path_versions');
+      await versions.createIndex({ userId: 1, version: -1 }, { unique: true });
+      await versions.insertOne({ userId: 'u1', version: 1 });
+
+      await expect(versions.insertOne({ userId: 'u1', version: 1 })).rejects.toMatchObject({ code: 11000 });
+      await expect(versions.insertOne({ userId: 'u1', version: 2 })).resolves.toBeDefined();
+    });
+
+    it('only indexes documents matching a partial filter', async () => {
+      const subjects = storage.collection('subjects');
+      await subjects.insertOne({ title: 'Created by mongoose' });
+      await subjects.createIndex({ id: 1 }, { unique: true, partialFilterExpression: { id: { $exists: true } } });
+
+      await expect(subjects.insertOne({ title: 'Also without an id' })).resolves.toBeDefined();
+      await expect(subjects.insertOne({ id: 'algebra', title: 'Algebra again' })).rejects.toMatchObject({ code: 11000 });
+    });
+
+    it('deletes by regular expression and nested array values', async () => {
+      const cache = storage.collection('learning_path_cache');
+      await cache.insertOne({ _id: 'u1:all', path: { subjects: ['algebra'] } });
+      await cache.insertOne({ _id: 'u10:all', path: { subjects: ['poetry'] } });
+      await cache.insertOne({ _id: 'u2:all', path: { subjects: ['algebra', 'calculus'] } });
+
+      await cache.deleteMany({ _id: { $regex: '^u1(:|$)' } });
+      await cache.deleteMany({ 'path.subjects': { $in: ['calculus'] } });
+
+      expect((await cache.find({}).toArray()).map(entry => entry._id)).toEqual(['u10:all']);
+    });
+  });
+
+  it('stores ISO date strings in fixtures as dates', async () => {
+    storage.seed({ learning_schedules: [{ userId: 'u1', createdAt: '2025-01-06T07:00:00.000Z' }] });
+
+    const schedule = await storage.collection('learning_schedules').findOne({ createdAt: { $lte: new Date('2025-02-01') } });
+
+    expect(schedule.createdAt).toEqual(new Date('2025-01-06T07:00:00Z'));
+  });
+});
+
+describe('DynamicLearningPathService on the in-memory database', () => {
+  const { DynamicLearningPathService } = require('@/services/DynamicLearningPathService');
+
+  beforeEach(async () => {
+    db.useStorage(new InMemoryStorage(fixtures));
+    await DynamicLearningPathService.invalidateAllCaches();
+  });
+
+  afterAll(() => {
+    db.useStorage(null);
+  });
+
+  // The fixture documents belong to the `dev` organization
+  const asDevOrganization = fn => () => runWithOrganization('dev', fn);
+
+  it('builds a path for the fixture learner', asDevOrganization(async () => {
+    const path = await DynamicLearningPathService.createLearningPath('dev-user');
+
+    expect([...path.subjects].sort()).toEqual(fixtures.subjects.map(subject => subject.id).sort());
+    expect(path.remediations).toEqual([
+      { subjectId: 'algebra', currentScore: 68, requiredMastery: 75, requiredFor: ['calculus'] }
+    ]);
+  }));
+
+  it('keeps manual orders between requests', asDevOrganization(async () => {
+    await DynamicLearningPathService.saveManualOrder('dev-user', ['creative-writing', 'geometry']);
+
+    const path = await DynamicLearningPathService.createLearningPath('dev-user');
+
+    expect(path.subjects.indexOf('creative-writing')).toBeLessThan(path.subjects.indexOf('geometry'));
+    expect(path.explanations.find(explanation => explanation.subjectId === 'creative-writing').pinned).toBe(true);
+  }));
+});
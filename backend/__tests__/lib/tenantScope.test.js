@@ -0,0 +1,99 @@
+// __tests__/lib/tenantScope.test.js
+
+const { db } = require('@/lib/db');
+const { InMemoryStorage } = require('@/lib/memoryStorage');
+const { runWithOrganization, MissingOrganizationError } = require('@/lib/tenantContext');
+const { DynamicLearningPathService } = require('@/services/DynamicLearningPathService');
+
+const subject = (organizationId, id, dependencies = []) => ({
+  organizationId,
+  id,
+  title: id,
+  dependencies,
+  estimatedTimeMinutes: 60,
+  difficulty: 2,
+  tags: []
+});
+
+// Two organizations with their own curricula, both teaching an `algebra`
+const fixtures = () => ({
+  subjects: [
+    subject('acme', 'arithmetic'),
+    subject('acme', 'algebra', ['arithmetic']),
+    subject('globex', 'algebra'),
+    subject('globex', 'statistics', ['algebra'])
+  ],
+  user_performance: [
+    { organizationId: 'acme', userId: 'acme-user', subjectPerformance: {}, averageScore: 70, learningRate: 1, completedSubjects: [] },
+    { organizationId: 'globex', userId: 'globex-user', subjectPerformance: {}, averageScore: 70, learningRate: 1, completedSubjects: [] }
+  ]
+});
+
+describe('organization isolation', () => {
+  let storage;
+
+  beforeEach(async () => {
+    storage = new InMemoryStorage(fixtures());
+    db.useStorage(storage);
+    await DynamicLearningPathService.invalidateAllCaches();
+  });
+
+  afterAll(() => {
+    db.useStorage(null);
+  });
+
+  it('only reads the current organization\'s documents', async () => {
+    const acme = await runWithOrganization('acme', () => db.collection('subjects').find({}).toArray());
+    const globex = await runWithOrganization('globex', () => db.collection('subjects').find({}).toArray());
+
+    expect(acme.map(document => document.id)).toEqual(['arithmetic', 'algebra']);
+    expect(globex.map(document => document.id)).toEqual(['algebra', 'statistics']);
+  });
+
+  it('cannot be escaped with an organization in the filter', async () => {
+    const documents = await runWithOrganization('acme', () =>
+      db.collection('subjects').find({ organizationId: 'globex' }).toArray());
+
+    expect(documents.every(document => document.organizationId === 'acme')).toBe(true);
+  });
+
+  it('writes documents into the current organization only', async () => {
+    await runWithOrganization('acme', async () => {
+      const subjects = db.collection('subjects');
+      await subjects.insertOne(subject('globex', 'geometry'));
+      await subjects.updateMany({}, { $set: { organizationId: 'globex', reviewed: true }, $unset: { organizationId: '' } });
+      await subjects.deleteMany({ id: 'algebra' });
+    });
+
+    const all = await storage.collection('subjects').find({}, { projection: { _id: 0, organizationId: 1, id: 1, reviewed: 1 } }).toArray();
+    expect(all).toEqual([
+      { organizationId: 'acme', id: 'arithmetic', reviewed: true },
+      { organizationId: 'globex', id: 'algebra' },
+      { organizationId: 'globex', id: 'statistics' },
+      { organizationId: 'acme', id: 'geometry', reviewed: true }
+    ]);
+  });
+
+  it('refuses scoped collections outside of an organization', async () => {
+    expect(() => db.collection('subjects')).toThrow(MissingOrganizationError);
+    expect(() => runWithOrganization('', () => undefined)).toThrow('An organization ID is required');
+    await expect(db.systemCollection('subjects').find({}).toArray()).resolves.toHaveLength(4);
+  });
+
+  it('builds learning paths from the learner\'s own curriculum', async () => {
+    const acmePath = await runWithOrganization('acme', () => DynamicLearningPathService.createLearningPath('acme-user'));
+    const globexPath = await runWithOrganization('globex', () => DynamicLearningPathService.createLearningPath('globex-user'));
+
+    expect([...acmePath.subjects].sort()).toEqual(['algebra', 'arithmetic']);
+    expect([...globexPath.subjects].sort()).toEqual(['algebra', 'statistics']);
+  });
+
+  it('keeps learners\' writes in their organization', async () => {
+    await runWithOrganization('acme', () => DynamicLearningPathService.saveManualOrder('acme-user', ['algebra']));
+
+    const overrides = await storage.collection('learning_path_overrides').find({}).toArray();
+    expect(overrides.map(override => override.organizationId)).toEqual(['acme']);
+    expect(await runWithOrganization('globex', () => db.collection('learning_path_overrides').findOne({ userId: 'acme-user' })))
+      .toBeNull();
+  });
+});
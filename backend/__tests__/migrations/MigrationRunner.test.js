@@ -0,0 +1,108 @@
+// __tests__/migrations/MigrationRunner.test.js
+
+jest.mock('@/lib/db', () => ({ db: { systemCollection: jest.fn() } }), { virtual: true });
+
+const { db } = require('@/lib/db');
+const { MigrationRunner } = require('@/migrations/MigrationRunner');
+
+// A migration that records when it runs
+const migrationOf = (id, calls) => ({
+  id,
+  description: `Migration ${id}`,
+  up: async () => { calls.push(`up:${id}`); },
+  down: async () => { calls.push(`down:${id}`); }
+});
+
+describe('MigrationRunner', () => {
+  let state;
+  let calls;
+  let runner;
+
+  beforeEach(() => {
+    state = new Map();
+    calls = [];
+    db.systemCollection.mockImplementation(() => ({
+      find: () => ({ toArray: async () => [...state.values()].filter(document => document._id !== 'migration_lock') }),
+      findOne: async ({ _id }) => state.get(_id) || null,
+      insertOne: async document => {
+        if (state.has(document._id)) throw new Error('E11000 duplicate key error');
+        state.set(document._id, document);
+      },
+      deleteOne: async ({ _id }) => {
+        state.delete(_id);
+      }
+    }));
+    runner = new MigrationRunner(
+      [migrationOf('003-c', calls), migrationOf('001-a', calls), migrationOf('002-b', calls)],
+      'schema_migrations',
+      () => {}
+    );
+  });
+
+  it('applies pending migrations in ID order and records them', async () => {
+    const result = await runner.up();
+
+    expect(result).toEqual({ direction: 'up', migrationIds: ['001-a', '002-b', '003-c'], dryRun: false });
+    expect(calls).toEqual(['up:001-a', 'up:002-b', 'up:003-c']);
+    expect((await runner.status()).every(status => status.appliedAt instanceof Date)).toBe(true);
+    expect(state.has('migration_lock')).toBe(false);
+  });
+
+  it('stops at the target migration and skips applied ones later', async () => {
+    await runner.up({ to: '001-a' });
+    await runner.up();
+
+    expect(calls).toEqual(['up:001-a', 'up:002-b', 'up:003-c']);
+  });
+
+  it('rolls back the latest migration, or down to a target', async () => {
+    await runner.up();
+
+    expect((await runner.down()).migrationIds).toEqual(['003-c']);
+    expect((await runner.down({ to: '001-a' })).migrationIds).toEqual(['002-b']);
+    expect((await runner.status()).map(status => status.appliedAt !== null)).toEqual([true, false, false]);
+  });
+
+  it('changes nothing in a dry run', async () => {
+    const result = await runner.up({ dryRun: true });
+
+    expect(result.migrationIds).toEqual(['001-a', '002-b', '003-c']);
+    expect(calls).toEqual([]);
+    expect(state.size).toBe(0);
+  });
+
+  it('does not record a migration that fails', async () => {
+    const failing = { ...migrationOf('002-b', calls), up: async () => { throw new Error('boom'); } };
+    runner = new MigrationRunner([migrationOf('001-a', calls), failing], 'schema_migrations', () => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(runner.up()).rejects.toThrow('Failed to apply migration 002-b');
+    expect([...state.keys()]).toEqual(['001-a']);
+  });
+
+  it('lets migrations drop indexes that are already gone, but not ignore other errors', async () => {
+    const dropIndex = jest.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('index not found with name [id_unique]'), { code: 27 }))
+      .mockRejectedValueOnce(Object.assign(new Error('not authorized'), { code: 13 }));
+    const systemCollection = db.systemCollection.getMockImplementation();
+    db.systemCollection.mockImplementation(name => ({ ...systemCollection(name), dropIndex }));
+    const dropping = id => ({ ...migrationOf(id, calls), up: ({ dropIndexIfExists }) => dropIndexIfExists('subjects', 'id_unique') });
+    runner = new MigrationRunner([dropping('001-a'), dropping('002-b')], 'schema_migrations', () => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(runner.up()).rejects.toThrow('Failed to apply migration 002-b');
+    expect([...state.keys()]).toEqual(['001-a']);
+  });
+
+  it('refuses to run while another migrator holds the lock', async () => {
+    state.set('migration_lock', { _id: 'migration_lock', lockedAt: new Date('2025-01-01T10:00:00Z'), host: 'replica-2' });
+
+    await expect(runner.up()).rejects.toThrow('Migrations are locked by replica-2');
+    expect(calls).toEqual([]);
+  });
+
+  it('rejects duplicate and unknown migration IDs', async () => {
+    expect(() => new MigrationRunner([migrationOf('001-a', calls), migrationOf('001-a', calls)])).toThrow('Duplicate migration ID: 001-a');
+    await expect(runner.up({ to: '999-z' })).rejects.toThrow('Unknown migration: 999-z');
+  });
+});
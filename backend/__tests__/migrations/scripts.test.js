@@ -0,0 +1,43 @@
+// __tests__/migrations/scripts.test.js
+
+const { db } = require('@/lib/db');
+const { InMemoryStorage } = require('@/lib/memoryStorage');
+const { MigrationRunner } = require('@/migrations/MigrationRunner');
+const { migrations } = require('@/migrations');
+
+describe('migration scripts', () => {
+  let runner;
+
+  beforeEach(() => {
+    db.useStorage(new InMemoryStorage({
+      subjects: [{ id: 'algebra', title: 'Algebra' }, { title: 'Created by mongoose' }]
+    }));
+    runner = new MigrationRunner(migrations, 'schema_migrations', () => {});
+  });
+
+  afterAll(() => {
+    db.useStorage(null);
+  });
+
+  it('run again after being applied but not recorded', async () => {
+    await runner.up();
+
+    // As if the process stopped before recording each migration
+    for (const migration of [...migrations].reverse()) {
+      await db.systemCollection('schema_migrations').deleteOne({ _id: migration.id });
+      await expect(runner.up()).resolves.toBeDefined();
+    }
+    expect(await db.systemCollection('organizations').find({}).toArray()).toHaveLength(1);
+  });
+
+  it('roll back again after being rolled back but still recorded', async () => {
+    await runner.up();
+    const applied = await db.systemCollection('schema_migrations').find({}).toArray();
+    await runner.down({ to: migrations[0].id });
+    await runner.down();
+    await Promise.all(applied.map(document => db.systemCollection('schema_migrations').insertOne(document)));
+
+    await expect(runner.down({ to: migrations[0].id })).resolves.toBeDefined();
+    await expect(runner.down()).resolves.toBeDefined();
+  });
+});
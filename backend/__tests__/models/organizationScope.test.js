@@ -0,0 +1,35 @@
+// __tests__/models/organizationScope.test.js
+
+const Subject = require('@/models/mongo/Subject');
+const { runWithOrganization, MissingOrganizationError } = require('@/lib/tenantContext');
+
+describe('organizationScope plugin', () => {
+  let insertOne;
+
+  // Saves go to a stubbed collection instead of a database
+  beforeEach(() => {
+    insertOne = jest.spyOn(Subject.collection, 'insertOne').mockResolvedValue({ acknowledged: true });
+  });
+
+  afterEach(() => {
+    insertOne.mockRestore();
+  });
+
+  it('saves new documents into the current organization', async () => {
+    const subject = await runWithOrganization('acme', () => new Subject({ title: 'Algebra' }).save());
+
+    expect(subject.organizationId).toBe('acme');
+    expect(insertOne).toHaveBeenCalledWith(expect.objectContaining({ title: 'Algebra', organizationId: 'acme' }), expect.anything());
+  });
+
+  it('creates documents with Model.create', async () => {
+    const subject = await runWithOrganization('acme', () => Subject.create({ title: 'Geometry' }));
+
+    expect(subject.organizationId).toBe('acme');
+  });
+
+  it('refuses to save outside an organization', async () => {
+    await expect(new Subject({ title: 'Algebra' }).save()).rejects.toBeInstanceOf(MissingOrganizationError);
+    expect(insertOne).not.toHaveBeenCalled();
+  });
+});
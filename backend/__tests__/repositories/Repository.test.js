@@ -0,0 +1,142 @@
+// __tests__/repositories/Repository.test.js
+
+jest.mock('@/lib/db', () => ({ db: { collection: jest.fn() } }), { virtual: true });
+
+const { db } = require('@/lib/db');
+const { DocumentValidationError } = require('@/repositories/Repository');
+const { subjectRepository } = require('@/repositories/SubjectRepository');
+const { userPerformanceRepository } = require('@/repositories/UserPerformanceRepository');
+const { cognitiveFeedbackRepository } = require('@/repositories/CognitiveFeedbackRepository');
+const { MongoLearningPathCache } = require('@/services/MongoLearningPathCache');
+
+// Serves every collection from the given documents
+const mockCollections = (documents) => {
+  db.collection.mockImplementation(name => ({
+    find: () => ({ toArray: async () => documents[name] || [] }),
+    findOne: async () => (documents[name] || [])[0] || null
+  }));
+};
+
+describe('repositories', () => {
+  describe('SubjectRepository', () => {
+    it('returns valid subjects with their extra fields', async () => {
+      mockCollections({ subjects: [{ _id: 'oid1', id: 'algebra', title: 'Algebra', dependencies: [] }] });
+
+      expect(await subjectRepository.findByIds(['algebra'])).toEqual([
+        { _id: 'oid1', id: 'algebra', title: 'Algebra', dependencies: [] }
+      ]);
+    });
+
+    it('reads the whole curriculum without subjects that have no curriculum ID', async () => {
+      const find = jest.fn(() => ({ toArray: async () => [] }));
+      db.collection.mockReturnValue({ find });
+
+      await subjectRepository.findByIds();
+
+      expect(find).toHaveBeenCalledWith({ id: { $exists: true } });
+    });
+
+    it('names the document and field of a malformed subject', async () => {
+      mockCollections({ subjects: [{ _id: 'oid2', id: 'calculus', title: 'Calculus', dependencies: ['algebra', 7] }] });
+
+      const read = subjectRepository.findByIds();
+
+      await expect(read).rejects.toThrow(DocumentValidationError);
+      await expect(read).rejects.toThrow('Invalid subjects document oid2: dependencies[1] must be a string (got 7)');
+    });
+  });
+
+  describe('UserPerformanceRepository', () => {
+    it('fills in missing lists and scores', async () => {
+      mockCollections({ user_performance: [{ userId: 'newUser' }] });
+
+      expect(await userPerformanceRepository.findByUserId('newUser')).toEqual({
+        userId: 'newUser',
+        subjectPerformance: {},
+        averageScore: 0,
+        learningRate: 1.0,
+        completedSubjects: []
+      });
+    });
+
+    it('rejects subject scores of the wrong type', async () => {
+      mockCollections({
+        user_performance: [{
+          userId: 'badUser',
+          subjectPerformance: { algebra: { attempts: 1, averageScore: '80', difficulty: 2, estimatedTimeMinutes: 20 } }
+        }]
+      });
+
+      await expect(userPerformanceRepository.findByUserId('badUser')).rejects.toThrow(
+        'Invalid user_performance document badUser: subjectPerformance.algebra.averageScore must be a number from 0 to 100 (got "80")'
+      );
+    });
+
+    it('keys documents for many users by user ID', async () => {
+      mockCollections({ user_performance: [{ userId: 'a' }, { userId: 'b' }] });
+
+      const performances = await userPerformanceRepository.findByUserIds(['a', 'b', 'c']);
+
+      expect([...performances.keys()]).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('CognitiveFeedbackRepository', () => {
+    it('rejects optimal times outside the hours of the day', async () => {
+      mockCollections({
+        cognitive_feedback: [{
+          userId: 'nightOwl',
+          optimalTimes: [{ start: 22, end: 25 }],
+          focusMetrics: { averageFocusScore: 0, focusPeaks: [], attentionSpanMinutes: 20 }
+        }]
+      });
+
+      await expect(cognitiveFeedbackRepository.findByUserId('nightOwl')).rejects.toThrow(
+        'optimalTimes[0].end must be an integer from 0 to 23 (got 25)'
+      );
+    });
+
+    it('requires focus metrics', async () => {
+      mockCollections({ cognitive_feedback: [{ userId: 'unfocused' }] });
+
+      await expect(cognitiveFeedbackRepository.findByUserId('unfocused')).rejects.toThrow(
+        'focusMetrics must be an object (got undefined)'
+      );
+    });
+  });
+
+  describe('MongoLearningPathCache', () => {
+    const cachedPath = (overrides = {}) => ({
+      _id: 'cacheUser:all',
+      path: {
+        userId: 'cacheUser',
+        subjects: ['algebra'],
+        explanations: [],
+        recommendations: [],
+        cycleReport: { hasCycles: false, cycles: [] },
+        generatedAt: '2025-01-01T10:00:00.000Z',
+        expiresAt: '2999-01-01T10:00:00.000Z',
+        ...overrides
+      },
+      expiresAt: new Date('2999-01-01T10:00:00Z'),
+      catalogWide: true
+    });
+
+    it('upgrades paths cached before newer fields existed', async () => {
+      mockCollections({ learning_path_cache: [cachedPath()] });
+
+      const path = await new MongoLearningPathCache().get('cacheUser:all');
+
+      expect(path).toMatchObject({ orderConflicts: [], remediations: [], timeZone: 'UTC' });
+      expect(path.generatedAt).toEqual(new Date('2025-01-01T10:00:00Z'));
+    });
+
+    it('treats a malformed entry as a miss', async () => {
+      mockCollections({ learning_path_cache: [cachedPath({ subjects: 'algebra' })] });
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await new MongoLearningPathCache().get('cacheUser:all')).toBeNull();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('path.subjects must be an array'));
+    });
+  });
+});
@@ -0,0 +1,160 @@
+// __tests__/services/AiBudgetService.test.js
+
+jest.mock('@/config', () => ({
+  aiBudget: {
+    userDailySoftUsd: 0.5,
+    userDailyHardUsd: 1,
+    organizationDailySoftUsd: 0,
+    organizationDailyHardUsd: 10
+  }
+}));
+jest.mock('@/models/mongo/AiSpend', () => ({
+  FEATURES: ['tutor', 'quiz'],
+  aggregate: jest.fn(),
+  updateOne: jest.fn(),
+  find: jest.fn()
+}));
+jest.mock('@/models/mongo/Organization', () => ({ findById: jest.fn() }));
+
+const AiSpend = require('@/models/mongo/AiSpend');
+const Organization = require('@/models/mongo/Organization');
+const AiBudgetService = require('@/services/AiBudgetService');
+
+const USER_ID = '64b000000000000000000001';
+const ORGANIZATION_ID = '64b0000000000000000000aa';
+
+// Today's platform spend per user, as the ledger aggregation returns it
+const givenDailySpend = (byUser) => {
+  AiSpend.aggregate.mockResolvedValue(Object.entries(byUser).map(([user, cost]) => ({ _id: user, cost })));
+};
+
+const givenOrganizationBudget = (aiBudget) => {
+  Organization.findById.mockReturnValue({ select: jest.fn().mockResolvedValue(aiBudget ? { aiBudget } : null) });
+};
+
+describe('AiBudgetService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    givenOrganizationBudget(null);
+  });
+
+  describe('checkBudget', () => {
+    it('allows users under their soft budget', async () => {
+      givenDailySpend({ [USER_ID]: 0.2, other: 3 });
+
+      const budget = await AiBudgetService.checkBudget(USER_ID, ORGANIZATION_ID, new Date('2025-06-20T15:00:00Z'));
+
+      expect(budget).toMatchObject({ status: 'ok', message: null, spent: { user: 0.2, organization: 3.2 } });
+      expect(budget.resetsAt).toEqual(new Date('2025-06-21T00:00:00Z'));
+      expect(AiSpend.aggregate.mock.calls[0][0][0]).toEqual({ $match: { day: '2025-06-20', billedTo: 'platform' } });
+    });
+
+    it('moves users past their soft budget to cheaper models', async () => {
+      givenDailySpend({ [USER_ID]: 0.6 });
+
+      const budget = await AiBudgetService.checkBudget(USER_ID, ORGANIZATION_ID);
+
+      expect(budget.status).toBe('soft');
+    });
+
+    it('stops users at their hard budget', async () => {
+      givenDailySpend({ [USER_ID]: 1 });
+
+      await expect(AiBudgetService.assertWithinBudget(USER_ID, ORGANIZATION_ID)).rejects.toMatchObject({
+        statusCode: 429,
+        message: expect.stringContaining('your AI budget')
+      });
+    });
+
+    it("stops everyone once the organization's hard budget is reached", async () => {
+      givenDailySpend({ [USER_ID]: 0.1, other: 9.9 });
+
+      const budget = await AiBudgetService.checkBudget(USER_ID, ORGANIZATION_ID);
+
+      expect(budget.status).toBe('hard');
+      expect(budget.message).toContain('Your organization');
+    });
+
+    it("applies the organization's own budgets, where 0 turns a limit off", async () => {
+      givenOrganizationBudget({ userDailySoftUsd: 0, userDailyHardUsd: 5 });
+      givenDailySpend({ [USER_ID]: 2 });
+
+      const budget = await AiBudgetService.checkBudget(USER_ID, ORGANIZATION_ID);
+
+      expect(budget.status).toBe('ok');
+      expect(budget.budgets).toEqual({
+        userDailySoftUsd: 0,
+        userDailyHardUsd: 5,
+        organizationDailySoftUsd: 0,
+        organizationDailyHardUsd: 10
+      });
+    });
+  });
+
+  describe('recordUsage', () => {
+    it("adds requests to the day's entry of the feature and payer", async () => {
+      await AiBudgetService.recordUsage(USER_ID, {
+        feature: 'quiz',
+        tokens: { prompt: 300, completion: 200, total: 500 },
+        cost: 0.009,
+        userKey: true,
+        at: new Date('2025-06-20T23:59:00Z')
+      });
+
+      expect(AiSpend.updateOne).toHaveBeenCalledWith(
+        { user: USER_ID, day: '2025-06-20', feature: 'quiz', billedTo: 'user' },
+        { $inc: { requests: 1, promptTokens: 300, completionTokens: 200, totalTokens: 500, cost: 0.009 } },
+        { upsert: true }
+      );
+    });
+
+    it("retries once when a concurrent request created the day's entry first", async () => {
+      AiSpend.updateOne.mockRejectedValueOnce(Object.assign(new Error('E11000 duplicate key error'), { code: 11000 }));
+
+      await AiBudgetService.recordUsage(USER_ID, { feature: 'tutor', tokens: { prompt: 1, completion: 1, total: 2 }, cost: 0.001 });
+
+      expect(AiSpend.updateOne).toHaveBeenCalledTimes(2);
+      expect(AiSpend.updateOne.mock.calls[1]).toEqual(AiSpend.updateOne.mock.calls[0]);
+    });
+
+    it('rejects unknown features and invalid amounts', async () => {
+      const tokens = { prompt: 1, completion: 1, total: 2 };
+
+      await expect(AiBudgetService.recordUsage(USER_ID, { feature: 'essay', tokens, cost: 0 })).rejects.toMatchObject({ statusCode: 400 });
+      await expect(AiBudgetService.recordUsage(USER_ID, { feature: 'tutor', tokens, cost: -1 })).rejects.toMatchObject({ statusCode: 400 });
+      expect(AiSpend.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUsageSummary', () => {
+    it('adds up the ledger per feature and per day', async () => {
+      const entry = (day, feature, billedTo, totalTokens, cost) => ({
+        day, feature, billedTo, requests: 1, promptTokens: totalTokens / 2, completionTokens: totalTokens / 2, totalTokens, cost
+      });
+      AiSpend.find.mockReturnValue({
+        sort: () => ({
+          lean: () => Promise.resolve([
+            entry('2025-06-19', 'tutor', 'platform', 100, 0.01),
+            entry('2025-06-20', 'tutor', 'user', 200, 0.02),
+            entry('2025-06-20', 'quiz', 'platform', 400, 0.04)
+          ])
+        })
+      });
+      givenDailySpend({});
+
+      const summary = await AiBudgetService.getUsageSummary(USER_ID, ORGANIZATION_ID, { days: 7 });
+
+      expect(summary.features).toEqual([
+        expect.objectContaining({ feature: 'tutor', requests: 2, totalTokens: 300, ownKeyCost: 0.02 }),
+        expect.objectContaining({ feature: 'quiz', requests: 1, totalTokens: 400, ownKeyCost: 0 })
+      ]);
+      expect(summary.days.map(day => [day.day, day.totalTokens])).toEqual([['2025-06-19', 100], ['2025-06-20', 600]]);
+      expect(summary.totals.totalTokens).toBe(700);
+      expect(summary.budget.status).toBe('ok');
+    });
+
+    it('rejects periods outside 1 to 90 days', async () => {
+      await expect(AiBudgetService.getUsageSummary(USER_ID, ORGANIZATION_ID, { days: 365 })).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+});
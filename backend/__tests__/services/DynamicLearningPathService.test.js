@@ -0,0 +1,502 @@
+// __tests__/services/DynamicLearningPathService.test.js
+
+const fc = require('fast-check');
+
+// The ordering logic under test never touches the database
+jest.mock('@/lib/db', () => ({ db: { collection: jest.fn() } }), { virtual: true });
+
+const { db } = require('@/lib/db');
+const { DynamicLearningPathService } = require('@/services/DynamicLearningPathService');
+const { fixedClock, systemClock } = require('@/utils/clock');
+
+// Hour of the day the ordering is personalized for
+const CURRENT_HOUR = 12;
+
+// Random DAG over n subjects: edges only run from lower to higher index, and the
+// labels are shuffled so the curriculum order does not leak into the subject IDs
+const dagArbitrary = fc.integer({ min: 1, max: 12 }).chain(n => fc.record({
+  labels: fc.shuffledSubarray([...Array(n).keys()], { minLength: n, maxLength: n }),
+  edges: fc.array(fc.boolean(), { minLength: (n * (n - 1)) / 2, maxLength: (n * (n - 1)) / 2 }),
+  completed: fc.array(fc.boolean(), { minLength: n, maxLength: n }),
+  performance: fc.array(fc.record({
+    attempts: fc.integer({ min: 0, max: 5 }),
+    averageScore: fc.integer({ min: 0, max: 100 }),
+    difficulty: fc.integer({ min: 1, max: 5 }),
+    estimatedTimeMinutes: fc.integer({ min: 5, max: 60 })
+  }), { minLength: n, maxLength: n }),
+  attentionSpanMinutes: fc.integer({ min: 5, max: 45 }),
+  peakHoursNow: fc.boolean()
+}));
+
+// Builds the service inputs for a generated DAG
+const buildScenario = ({ labels, edges, completed, performance, attentionSpanMinutes, peakHoursNow }) => {
+  const ids = labels.map(label => `subject-${label}`);
+  const subjects = ids.map(id => ({ id, title: id, dependencies: [] }));
+
+  let edgeIndex = 0;
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      if (edges[edgeIndex++]) subjects[j].dependencies.push(ids[i]);
+    }
+  }
+
+  const userPerformance = {
+    userId: 'testUserId',
+    subjectPerformance: Object.fromEntries(ids.map((id, index) => [id, performance[index]])),
+    averageScore: 0,
+    learningRate: 1.0,
+    completedSubjects: ids.filter((id, index) => completed[index])
+  };
+
+  const cognitiveFeedback = {
+    userId: 'testUserId',
+    optimalTimes: peakHoursNow ? [{ start: 0, end: 23 }] : [],
+    focusMetrics: { averageFocusScore: 0, focusPeaks: [], attentionSpanMinutes },
+    preferredAudioPresets: [],
+    learningStyles: []
+  };
+
+  return { subjects, userPerformance, cognitiveFeedback };
+};
+
+// Runs the same pipeline as createLearningPath up to the personalized order
+const personalize = ({ subjects, userPerformance, cognitiveFeedback }) => {
+  const graph = DynamicLearningPathService.buildDependencyGraph(subjects);
+  const { order } = DynamicLearningPathService.topologicalSort(graph);
+  return DynamicLearningPathService.personalizeOrdering(order, graph, userPerformance, cognitiveFeedback, CURRENT_HOUR);
+};
+
+describe('DynamicLearningPathService', () => {
+  describe('personalizeOrdering', () => {
+    it('always places prerequisites before the subjects that depend on them', () => {
+      fc.assert(fc.property(dagArbitrary, input => {
+        const scenario = buildScenario(input);
+        const order = personalize(scenario);
+        const position = new Map(order.map((id, index) => [id, index]));
+
+        scenario.subjects.forEach(subject => {
+          subject.dependencies.forEach(prerequisiteId => {
+            expect(position.get(prerequisiteId)).toBeLessThan(position.get(subject.id));
+          });
+        });
+      }));
+    });
+
+    it('returns every subject exactly once', () => {
+      fc.assert(fc.property(dagArbitrary, input => {
+        const scenario = buildScenario(input);
+        const order = personalize(scenario);
+
+        expect([...order].sort()).toEqual(scenario.subjects.map(subject => subject.id).sort());
+      }));
+    });
+
+    it('orders independent subjects by completion then priority score', () => {
+      fc.assert(fc.property(dagArbitrary, input => {
+        const scenario = buildScenario({ ...input, edges: input.edges.map(() => false) });
+        const order = personalize(scenario);
+        const { completedSubjects } = scenario.userPerformance;
+        const score = id => DynamicLearningPathService.calculateSubjectPriorityScore(
+          id, scenario.userPerformance, scenario.cognitiveFeedback, CURRENT_HOUR
+        );
+
+        for (let i = 1; i < order.length; i++) {
+          const previousCompleted = completedSubjects.includes(order[i - 1]);
+          const currentCompleted = completedSubjects.includes(order[i]);
+
+          expect(previousCompleted && !currentCompleted).toBe(false);
+          if (previousCompleted === currentCompleted) {
+            expect(score(order[i - 1])).toBeGreaterThanOrEqual(score(order[i]));
+          }
+        }
+      }));
+    });
+
+    it('keeps a high-priority subject behind its low-priority prerequisite', () => {
+      const scenario = buildScenario({
+        labels: [0, 1],
+        edges: [true],
+        completed: [false, false],
+        performance: [
+          { attempts: 1, averageScore: 30, difficulty: 1, estimatedTimeMinutes: 10 },
+          { attempts: 1, averageScore: 90, difficulty: 1, estimatedTimeMinutes: 10 }
+        ],
+        attentionSpanMinutes: 20,
+        peakHoursNow: false
+      });
+
+      expect(personalize(scenario)).toEqual(['subject-0', 'subject-1']);
+    });
+
+    it('still orders every subject when the dependencies contain a cycle', () => {
+      const subjects = [
+        { id: 'a', title: 'A', dependencies: ['c'] },
+        { id: 'b', title: 'B', dependencies: ['a'] },
+        { id: 'c', title: 'C', dependencies: ['b'] },
+        { id: 'd', title: 'D', dependencies: ['c'] }
+      ];
+      const { userPerformance, cognitiveFeedback } = buildScenario({
+        labels: [], edges: [], completed: [], performance: [], attentionSpanMinutes: 20, peakHoursNow: false
+      });
+
+      const order = personalize({ subjects, userPerformance, cognitiveFeedback });
+
+      expect([...order].sort()).toEqual(['a', 'b', 'c', 'd']);
+      expect(order.indexOf('c')).toBeLessThan(order.indexOf('d'));
+    });
+  });
+
+  describe('applyManualOrder', () => {
+    const subjects = [
+      { id: 'basics', title: 'Basics', dependencies: [] },
+      { id: 'advanced', title: 'Advanced', dependencies: ['basics'] },
+      { id: 'art', title: 'Art', dependencies: [] },
+      { id: 'music', title: 'Music', dependencies: [] }
+    ];
+    const graph = DynamicLearningPathService.buildDependencyGraph(subjects);
+    const computedOrder = ['basics', 'advanced', 'art', 'music'];
+
+    it('keeps the computed order when the user has not reordered', () => {
+      expect(DynamicLearningPathService.applyManualOrder(computedOrder, graph, [])).toEqual({
+        order: computedOrder,
+        conflicts: []
+      });
+    });
+
+    it('moves pinned subjects into the slots of the pinned subjects', () => {
+      const { order, conflicts } = DynamicLearningPathService.applyManualOrder(computedOrder, graph, ['music', 'basics']);
+
+      // Advanced still waits for basics, which now takes the last slot
+      expect(order).toEqual(['music', 'art', 'basics', 'advanced']);
+      expect(conflicts).toEqual([]);
+    });
+
+    it('flags pinned subjects that were placed ahead of their prerequisites', () => {
+      const { order, conflicts } = DynamicLearningPathService.applyManualOrder(computedOrder, graph, ['advanced', 'basics']);
+
+      expect(order.indexOf('basics')).toBeLessThan(order.indexOf('advanced'));
+      expect(conflicts).toEqual([
+        { subjectId: 'advanced', requestedBefore: ['basics'], blockingPrerequisites: ['basics'] }
+      ]);
+    });
+
+    it('ignores pinned subjects that are not in the path', () => {
+      const { order } = DynamicLearningPathService.applyManualOrder(computedOrder, graph, ['retired', 'art']);
+
+      expect(order).toEqual(computedOrder);
+    });
+  });
+
+  describe('createGoalLearningPath', () => {
+    const catalog = [
+      { id: 'algebra', title: 'Algebra', dependencies: [], estimatedTimeMinutes: 30 },
+      { id: 'geometry', title: 'Geometry', dependencies: [], estimatedTimeMinutes: 25 },
+      { id: 'trigonometry', title: 'Trigonometry', dependencies: ['algebra', 'geometry'], estimatedTimeMinutes: 40 },
+      { id: 'calculus', title: 'Calculus', dependencies: ['trigonometry', 'limits'], estimatedTimeMinutes: 60 },
+      { id: 'limits', title: 'Limits', dependencies: ['algebra'], estimatedTimeMinutes: 20 },
+      { id: 'poetry', title: 'Poetry', dependencies: [], estimatedTimeMinutes: 15 }
+    ];
+
+    const mockDatabase = ({ completedSubjects = [] } = {}) => {
+      db.collection.mockImplementation(name => ({
+        find: query => ({
+          toArray: async () => catalog.filter(subject => query.id.$in.includes(subject.id))
+        }),
+        findOne: async () => (name === 'user_performance'
+          ? { userId: 'goalUser', subjectPerformance: {}, averageScore: 0, learningRate: 1.0, completedSubjects }
+          : null),
+        createIndex: async () => 'index',
+        insertOne: async () => ({})
+      }));
+    };
+
+    beforeEach(async () => {
+      await DynamicLearningPathService.invalidateAllCaches();
+    });
+
+    it('includes only the targets and their transitive prerequisites', async () => {
+      mockDatabase();
+
+      const path = await DynamicLearningPathService.createGoalLearningPath('goalUser', ['calculus']);
+
+      expect([...path.subjects].sort()).toEqual(['algebra', 'calculus', 'geometry', 'limits', 'trigonometry']);
+      expect(path.subjects[path.subjects.length - 1]).toBe('calculus');
+      expect(path.subjects.indexOf('algebra')).toBeLessThan(path.subjects.indexOf('limits'));
+      expect(path.goal).toEqual({
+        targetSubjectIds: ['calculus'],
+        skippedSubjectIds: [],
+        missingSubjectIds: [],
+        estimatedTotalMinutes: 175
+      });
+    });
+
+    it('skips completed subjects and the prerequisites behind them', async () => {
+      mockDatabase({ completedSubjects: ['trigonometry'] });
+
+      const path = await DynamicLearningPathService.createGoalLearningPath('goalUser', ['calculus']);
+
+      expect(path.subjects).toEqual(['algebra', 'limits', 'calculus']);
+      expect(path.goal.skippedSubjectIds).toEqual(['trigonometry']);
+      expect(path.goal.estimatedTotalMinutes).toBe(110);
+    });
+
+    it('reports target subjects that do not exist', async () => {
+      mockDatabase();
+
+      const path = await DynamicLearningPathService.createGoalLearningPath('goalUser', ['poetry', 'astrology']);
+
+      expect(path.subjects).toEqual(['poetry']);
+      expect(path.goal.missingSubjectIds).toEqual(['astrology']);
+    });
+  });
+
+  describe('prerequisite mastery', () => {
+    const catalog = [
+      { id: 'algebra', title: 'Algebra', dependencies: [] },
+      { id: 'poetry', title: 'Poetry', dependencies: [] },
+      { id: 'calculus', title: 'Calculus', dependencies: ['algebra'], dependencyMastery: { algebra: 70 } }
+    ];
+
+    const mockDatabase = (subjectPerformance, completedSubjects, subjects = catalog) => {
+      db.collection.mockImplementation(name => ({
+        find: query => ({
+          toArray: async () => (query.id?.$in ? subjects.filter(subject => query.id.$in.includes(subject.id)) : subjects)
+        }),
+        findOne: async () => (name === 'user_performance'
+          ? { userId: 'masteryUser', subjectPerformance, averageScore: 0, learningRate: 1.0, completedSubjects }
+          : null),
+        createIndex: async () => 'index',
+        insertOne: async () => ({})
+      }));
+    };
+
+    const scored = averageScore => ({ attempts: 2, averageScore, difficulty: 2, estimatedTimeMinutes: 20 });
+    const explanationOf = (path, subjectId) => path.explanations.find(explanation => explanation.subjectId === subjectId);
+
+    beforeEach(async () => {
+      await DynamicLearningPathService.invalidateAllCaches();
+    });
+
+    it('puts a completed prerequisite below the required mastery back at the front', async () => {
+      mockDatabase({ algebra: scored(40) }, ['algebra']);
+
+      const path = await DynamicLearningPathService.createLearningPath('masteryUser');
+
+      expect(path.subjects[0]).toBe('algebra');
+      expect(explanationOf(path, 'algebra')).toMatchObject({ completed: true, remediation: true });
+      expect(explanationOf(path, 'calculus').masteryGaps).toEqual([
+        { prerequisiteId: 'algebra', requiredMastery: 70, currentScore: 40 }
+      ]);
+      expect(path.remediations).toEqual([
+        { subjectId: 'algebra', currentScore: 40, requiredMastery: 70, requiredFor: ['calculus'] }
+      ]);
+    });
+
+    it('treats a prerequisite at the required mastery as satisfied', async () => {
+      mockDatabase({ algebra: scored(70) }, ['algebra']);
+
+      const path = await DynamicLearningPathService.createLearningPath('masteryUser');
+
+      expect(path.remediations).toEqual([]);
+      expect(explanationOf(path, 'algebra').remediation).toBe(false);
+      expect(explanationOf(path, 'calculus').masteryGaps).toEqual([]);
+    });
+
+    it('applies the default mastery level to edges without one', async () => {
+      mockDatabase({ algebra: scored(55) }, ['algebra'], [
+        { id: 'algebra', title: 'Algebra', dependencies: [] },
+        { id: 'calculus', title: 'Calculus', dependencies: ['algebra'] }
+      ]);
+
+      const path = await DynamicLearningPathService.createLearningPath('masteryUser');
+
+      expect(path.remediations).toEqual([
+        { subjectId: 'algebra', currentScore: 55, requiredMastery: 60, requiredFor: ['calculus'] }
+      ]);
+    });
+
+    it('gates subjects on prerequisites that were never attempted', async () => {
+      mockDatabase({}, []);
+
+      const path = await DynamicLearningPathService.createLearningPath('masteryUser');
+
+      expect(explanationOf(path, 'calculus').masteryGaps).toEqual([
+        { prerequisiteId: 'algebra', requiredMastery: 70, currentScore: null }
+      ]);
+      expect(path.remediations).toEqual([]);
+    });
+
+    it('keeps weak completed prerequisites in goal paths', async () => {
+      mockDatabase({ algebra: scored(40) }, ['algebra']);
+
+      const path = await DynamicLearningPathService.createGoalLearningPath('masteryUser', ['calculus']);
+
+      expect(path.subjects).toEqual(['algebra', 'calculus']);
+      expect(path.goal.skippedSubjectIds).toEqual([]);
+      expect(path.remediations.map(remediation => remediation.subjectId)).toEqual(['algebra']);
+    });
+  });
+
+  describe('createCohortLearningPaths', () => {
+    const catalog = [
+      { id: 'algebra', title: 'Algebra', dependencies: [] },
+      { id: 'trigonometry', title: 'Trigonometry', dependencies: ['algebra'] },
+      { id: 'calculus', title: 'Calculus', dependencies: ['trigonometry'] }
+    ];
+
+    const performances = [
+      { userId: 'learner2', subjectPerformance: {}, averageScore: 0, learningRate: 1.0, completedSubjects: ['algebra'] },
+      {
+        userId: 'learner3',
+        subjectPerformance: { trigonometry: { attempts: 2, averageScore: 40, difficulty: 3, estimatedTimeMinutes: 30 } },
+        averageScore: 40,
+        learningRate: 1.0,
+        completedSubjects: ['algebra']
+      }
+    ];
+
+    let subjectQueries;
+
+    beforeEach(async () => {
+      subjectQueries = 0;
+      db.collection.mockImplementation(name => ({
+        find: query => ({
+          toArray: async () => {
+            if (name === 'subjects') {
+              subjectQueries++;
+              return catalog;
+            }
+            return name === 'user_performance'
+              ? performances.filter(performance => query.userId.$in.includes(performance.userId))
+              : [];
+          }
+        }),
+        createIndex: async () => 'index',
+        insertOne: async () => ({})
+      }));
+      await DynamicLearningPathService.invalidateAllCaches();
+    });
+
+    it('fetches the curriculum once for the whole cohort', async () => {
+      const cohort = await DynamicLearningPathService.createCohortLearningPaths([
+        { userId: 'learner1' }, { userId: 'learner2' }, { userId: 'learner3' }, { userId: 'learner1' }
+      ]);
+
+      expect(subjectQueries).toBe(1);
+      expect(cohort.paths.map(path => path.userId)).toEqual(['learner1', 'learner2', 'learner3']);
+      expect(cohort.failedUserIds).toEqual([]);
+      cohort.paths.forEach(path => expect(path.subjects).toEqual(['algebra', 'trigonometry', 'calculus']));
+    });
+
+    it('reports the most common next subjects and bottleneck prerequisites', async () => {
+      const { stats } = await DynamicLearningPathService.createCohortLearningPaths([
+        { userId: 'learner1' }, { userId: 'learner2' }, { userId: 'learner3' }
+      ]);
+
+      expect(stats.learners).toBe(3);
+      expect(stats.nextSubjects).toEqual([
+        { subjectId: 'trigonometry', learners: 2 },
+        { subjectId: 'algebra', learners: 1 }
+      ]);
+      expect(stats.bottleneckPrerequisites).toEqual([
+        { subjectId: 'trigonometry', learnersBlocked: 3, subjectsBlocked: 3, averageScore: 40 },
+        { subjectId: 'algebra', learnersBlocked: 1, subjectsBlocked: 2, averageScore: null }
+      ]);
+    });
+
+    it('reuses cached paths of learners', async () => {
+      await DynamicLearningPathService.createCohortLearningPaths([{ userId: 'learner1' }]);
+      const cohort = await DynamicLearningPathService.createCohortLearningPaths([{ userId: 'learner1' }]);
+
+      expect(subjectQueries).toBe(1);
+      expect(cohort.paths).toHaveLength(1);
+    });
+  });
+
+  describe('time zones', () => {
+    const subjects = [
+      { id: 'essay', title: 'Essay Writing', dependencies: [] },
+      { id: 'proofs', title: 'Proofs', dependencies: [] }
+    ];
+
+    // Learner whose peak hours are 9:00-11:00 local time
+    const mockDatabase = () => {
+      db.collection.mockImplementation(name => ({
+        find: () => ({ toArray: async () => subjects }),
+        findOne: async () => {
+          if (name === 'user_performance') {
+            return {
+              userId: 'zoneUser',
+              subjectPerformance: {
+                essay: { attempts: 0, averageScore: 0, difficulty: 2, estimatedTimeMinutes: 20 },
+                proofs: { attempts: 0, averageScore: 0, difficulty: 5, estimatedTimeMinutes: 20 }
+              },
+              averageScore: 0,
+              learningRate: 1.0,
+              completedSubjects: []
+            };
+          }
+          if (name === 'cognitive_feedback') {
+            return {
+              userId: 'zoneUser',
+              optimalTimes: [{ start: 9, end: 11 }],
+              focusMetrics: { averageFocusScore: 0, focusPeaks: [], attentionSpanMinutes: 20 },
+              preferredAudioPresets: [],
+              learningStyles: []
+            };
+          }
+          return null;
+        },
+        createIndex: async () => 'index',
+        insertOne: async () => ({})
+      }));
+    };
+
+    beforeEach(async () => {
+      mockDatabase();
+      await DynamicLearningPathService.invalidateAllCaches();
+    });
+
+    afterEach(() => {
+      DynamicLearningPathService.useClock(systemClock);
+    });
+
+    it('evaluates peak hours in the learner\'s time zone', async () => {
+      // 14:30 UTC is 9:30 in New York, inside the peak window, but outside it in UTC
+      DynamicLearningPathService.useClock(fixedClock(new Date('2025-01-06T14:30:00Z')));
+
+      const newYork = await DynamicLearningPathService.createLearningPath('zoneUser', undefined, { timeZone: 'America/New_York' });
+      await DynamicLearningPathService.invalidateAllCaches();
+      const utc = await DynamicLearningPathService.createLearningPath('zoneUser');
+
+      const timeOfDayFactors = path => path.explanations
+        .find(explanation => explanation.subjectId === 'proofs')
+        .adjustments.filter(adjustment => adjustment.factor === 'time_of_day');
+
+      expect(newYork.timeZone).toBe('America/New_York');
+      expect(newYork.subjects).toEqual(['proofs', 'essay']);
+      expect(timeOfDayFactors(newYork)).toHaveLength(1);
+      expect(utc.timeZone).toBe('UTC');
+      expect(timeOfDayFactors(utc)).toHaveLength(0);
+    });
+
+    it('expires the path when the learner\'s peak window ends', async () => {
+      DynamicLearningPathService.useClock(fixedClock(new Date('2025-01-06T14:30:00Z')));
+
+      const path = await DynamicLearningPathService.createLearningPath('zoneUser', undefined, { timeZone: 'America/New_York' });
+
+      // 12:00 in New York
+      expect(path.expiresAt).toEqual(new Date('2025-01-06T17:00:00Z'));
+    });
+
+    it('falls back to UTC for an unknown time zone', async () => {
+      DynamicLearningPathService.useClock(fixedClock(new Date('2025-01-06T14:30:00Z')));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const path = await DynamicLearningPathService.createLearningPath('zoneUser', undefined, { timeZone: 'Mars/Olympus_Mons' });
+
+      expect(path.timeZone).toBe('UTC');
+      expect(path.expiresAt).toEqual(new Date('2025-01-07T09:00:00Z'));
+    });
+  });
+});
@@ -0,0 +1,41 @@
+// __tests__/services/InMemoryLearningPathCache.test.js
+
+const { InMemoryLearningPathCache } = require('@/services/InMemoryLearningPathCache');
+const { DynamicLearningPathService } = require('@/services/DynamicLearningPathService');
+const { fixedClock, systemClock } = require('@/utils/clock');
+
+const path = expiresAt => ({ userId: 'u1', subjects: ['algebra'], expiresAt });
+
+describe('InMemoryLearningPathCache', () => {
+  it('expires paths by the time of its clock', async () => {
+    let now = new Date('2025-01-06T12:00:00Z');
+    const cache = new InMemoryLearningPathCache({ clock: { now: () => now } });
+    await cache.set('u1:all', path('2025-01-06T13:00:00Z'));
+
+    expect(await cache.get('u1:all')).not.toBeNull();
+
+    now = new Date('2025-01-06T13:00:00Z');
+    expect(await cache.get('u1:all')).toBeNull();
+  });
+
+  it('starts the TTL at the time of its clock', async () => {
+    const cache = new InMemoryLearningPathCache({ ttlMs: 60000, clock: fixedClock(new Date('2025-01-06T13:00:00Z')) });
+
+    // Long past by the system time, but within the TTL by the cache's clock
+    await cache.set('u1:all', path('2025-01-07T00:00:00Z'));
+
+    expect(await cache.get('u1:all')).not.toBeNull();
+  });
+
+  it('follows the clock the learning path service uses', async () => {
+    const cache = new InMemoryLearningPathCache({ clock: DynamicLearningPathService.cacheClock });
+    DynamicLearningPathService.useClock(fixedClock(new Date('2025-01-06T12:00:00Z')));
+    await cache.set('u1:all', path('2025-01-06T13:00:00Z'));
+
+    DynamicLearningPathService.useClock(fixedClock(new Date('2025-01-06T14:00:00Z')));
+    const expired = await cache.get('u1:all');
+    DynamicLearningPathService.useClock(systemClock);
+
+    expect(expired).toBeNull();
+  });
+});
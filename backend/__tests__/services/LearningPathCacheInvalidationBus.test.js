@@ -0,0 +1,66 @@
+// __tests__/services/LearningPathCacheInvalidationBus.test.js
+
+const { db } = require('@/lib/db');
+const { InMemoryStorage } = require('@/lib/memoryStorage');
+const { LearningPathCacheInvalidationBus } = require('@/services/LearningPathCacheInvalidationBus');
+
+const COLLECTION = 'learning_path_cache_invalidations';
+
+const createCache = () => ({
+  invalidate: jest.fn(),
+  invalidateSubjects: jest.fn(),
+  invalidateCatalogPaths: jest.fn(),
+  clear: jest.fn()
+});
+
+// A message another replica published, stamped with that replica's clock
+const publishFromReplica = (prefix, createdAt) => db.collection(COLLECTION).insertOne({
+  invalidation: { type: 'prefix', prefix },
+  instanceId: 'other-replica',
+  createdAt
+});
+
+describe('LearningPathCacheInvalidationBus', () => {
+  let cache;
+  let bus;
+
+  beforeEach(() => {
+    db.useStorage(new InMemoryStorage());
+    cache = createCache();
+    bus = new LearningPathCacheInvalidationBus(cache);
+  });
+
+  afterAll(() => {
+    db.useStorage(null);
+  });
+
+  it('starts from the newest stored message rather than the local clock', async () => {
+    // The publisher's clock is ten seconds behind this instance's
+    await publishFromReplica('user:a', new Date(Date.now() - 10000));
+
+    await bus.poll();
+
+    expect(cache.invalidate).toHaveBeenCalledWith('user:a');
+  });
+
+  it('applies messages that become visible after later ones, once each', async () => {
+    const now = Date.now();
+    await publishFromReplica('user:a', new Date(now));
+    await bus.poll();
+
+    // Published before the last message seen, but committed after it was read
+    await publishFromReplica('user:b', new Date(now - 2000));
+    await bus.poll();
+    await bus.poll();
+
+    expect(cache.invalidate.mock.calls).toEqual([['user:a'], ['user:b']]);
+  });
+
+  it("ignores the instance's own messages", async () => {
+    await bus.publish({ type: 'all' });
+
+    await bus.poll();
+
+    expect(cache.clear).not.toHaveBeenCalled();
+  });
+});
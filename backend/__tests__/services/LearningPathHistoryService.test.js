@@ -0,0 +1,134 @@
+// __tests__/services/LearningPathHistoryService.test.js
+
+jest.mock('@/lib/db', () => ({ db: { collection: jest.fn() } }), { virtual: true });
+
+const { db } = require('@/lib/db');
+const { LearningPathHistoryService } = require('@/services/LearningPathHistoryService');
+
+const pathOf = (subjects, recommendations = [], generatedAt = new Date('2025-01-01T10:00:00Z')) => ({
+  userId: 'historyUser',
+  subjects,
+  explanations: [],
+  recommendations,
+  cycleReport: { hasCycles: false, cycles: [] },
+  orderConflicts: [],
+  generatedAt,
+  expiresAt: new Date(generatedAt.getTime() + 24 * 60 * 60 * 1000)
+});
+
+const inputsOf = ({ subjects = [{ id: 'a' }, { id: 'b' }], completedSubjects = [], manualOrder = [] } = {}) => ({
+  subjects,
+  performance: { userId: 'historyUser', subjectPerformance: {}, averageScore: 0, learningRate: 1.0, completedSubjects },
+  manualOrder
+});
+
+describe('LearningPathHistoryService', () => {
+  let stored;
+
+  beforeEach(() => {
+    stored = [];
+    db.collection.mockImplementation(() => ({
+      createIndex: async () => 'index',
+      insertOne: async version => {
+        stored.push(version);
+      },
+      findOne: async (query) => {
+        const matches = stored
+          .filter(version => version.userId === query.userId && version.scope === query.scope)
+          .filter(version => query.version === undefined || version.version === query.version)
+          .sort((a, b) => b.version - a.version);
+        return matches[0] || null;
+      }
+    }));
+  });
+
+  describe('recordVersion', () => {
+    it('numbers versions per scope and marks the first one as initial', async () => {
+      const first = await LearningPathHistoryService.recordVersion('historyUser', 'full', pathOf(['a', 'b']), inputsOf());
+      const goal = await LearningPathHistoryService.recordVersion('historyUser', 'goal:b', pathOf(['a', 'b']), inputsOf());
+
+      expect(first).toMatchObject({ version: 1, triggers: ['initial'] });
+      expect(goal).toMatchObject({ version: 1, triggers: ['initial'] });
+      expect(first.inputs).toBeUndefined();
+    });
+
+    it('infers every input that changed since the previous version', async () => {
+      await LearningPathHistoryService.recordVersion('historyUser', 'full', pathOf(['a', 'b']), inputsOf());
+
+      const next = await LearningPathHistoryService.recordVersion('historyUser', 'full', pathOf(['b', 'a']), inputsOf({
+        subjects: [{ id: 'a', dependencies: ['b'] }, { id: 'b' }],
+        completedSubjects: ['b']
+      }));
+
+      expect(next).toMatchObject({ version: 2, triggers: ['curriculum_change', 'progress'] });
+    });
+
+    it('tells expiry apart from an early refresh when no input changed', async () => {
+      await LearningPathHistoryService.recordVersion('historyUser', 'full', pathOf(['a', 'b']), inputsOf());
+
+      const refreshed = await LearningPathHistoryService.recordVersion(
+        'historyUser', 'full', pathOf(['a', 'b'], [], new Date('2025-01-01T12:00:00Z')), inputsOf()
+      );
+      const expired = await LearningPathHistoryService.recordVersion(
+        'historyUser', 'full', pathOf(['a', 'b'], [], new Date('2025-01-03T12:00:00Z')), inputsOf()
+      );
+
+      expect(refreshed.triggers).toEqual(['refresh']);
+      expect(expired.triggers).toEqual(['expired']);
+    });
+
+    it('records manual reordering', async () => {
+      await LearningPathHistoryService.recordVersion('historyUser', 'full', pathOf(['a', 'b']), inputsOf());
+
+      const reordered = await LearningPathHistoryService.recordVersion(
+        'historyUser', 'full', pathOf(['b', 'a']), inputsOf({ manualOrder: ['b', 'a'] })
+      );
+
+      expect(reordered.triggers).toEqual(['manual_reorder']);
+    });
+  });
+
+  describe('diffPaths', () => {
+    it('reports added and removed subjects', () => {
+      const diff = LearningPathHistoryService.diffPaths(pathOf(['a', 'b', 'c']), pathOf(['a', 'c', 'd']));
+
+      expect(diff.added).toEqual(['d']);
+      expect(diff.removed).toEqual(['b']);
+      expect(diff.moved).toEqual([]);
+    });
+
+    it('only reports the subjects that actually moved', () => {
+      const diff = LearningPathHistoryService.diffPaths(pathOf(['a', 'b', 'c', 'd']), pathOf(['new', 'b', 'c', 'd', 'a']));
+
+      expect(diff.moved).toEqual([{ subjectId: 'a', fromPosition: 1, toPosition: 5 }]);
+    });
+
+    it('reports recommendation changes', () => {
+      const focus = { type: 'focus_length', message: 'Study for 20 minutes.' };
+      const audio = { type: 'audio_preset', message: 'Try the Focus preset.', subjectId: 'a' };
+
+      const diff = LearningPathHistoryService.diffPaths(pathOf(['a'], [focus, audio]), pathOf(['a'], [focus]));
+
+      expect(diff.recommendations).toEqual({ added: [], removed: [audio] });
+    });
+  });
+
+  describe('diffVersions', () => {
+    it('diffs the latest version against the previous one by default', async () => {
+      await LearningPathHistoryService.recordVersion('historyUser', 'full', pathOf(['a', 'b']), inputsOf());
+      await LearningPathHistoryService.recordVersion('historyUser', 'full', pathOf(['a', 'b', 'c']), inputsOf({
+        subjects: [{ id: 'a' }, { id: 'b' }, { id: 'c' }]
+      }));
+
+      const diff = await LearningPathHistoryService.diffVersions('historyUser', 'full');
+
+      expect(diff).toMatchObject({ fromVersion: 1, toVersion: 2, triggers: ['curriculum_change'], added: ['c'] });
+    });
+
+    it('returns null when a version does not exist', async () => {
+      await LearningPathHistoryService.recordVersion('historyUser', 'full', pathOf(['a']), inputsOf());
+
+      expect(await LearningPathHistoryService.diffVersions('historyUser', 'full')).toBeNull();
+    });
+  });
+});
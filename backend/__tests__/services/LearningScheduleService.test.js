@@ -0,0 +1,212 @@
+// __tests__/services/LearningScheduleService.test.js
+
+jest.mock('@/lib/db', () => ({ db: { collection: jest.fn() } }), { virtual: true });
+jest.mock('@/services/DynamicLearningPathService', () => ({
+  DynamicLearningPathService: {
+    createLearningPath: jest.fn(),
+    createGoalLearningPath: jest.fn()
+  }
+}));
+
+const { db } = require('@/lib/db');
+const { DynamicLearningPathService } = require('@/services/DynamicLearningPathService');
+const { LearningScheduleService } = require('@/services/LearningScheduleService');
+const { fixedClock, systemClock } = require('@/utils/clock');
+
+const catalog = [
+  { id: 'intro', title: 'Introduction', estimatedTimeMinutes: 20, difficulty: 1 },
+  { id: 'proofs', title: 'Proofs', estimatedTimeMinutes: 50, difficulty: 5 },
+  { id: 'review', title: 'Review', estimatedTimeMinutes: 15, difficulty: 2 }
+];
+
+const pathFor = (subjectIds, completed = []) => ({
+  userId: 'scheduleUser',
+  subjects: subjectIds,
+  explanations: subjectIds.map((subjectId, index) => ({
+    subjectId,
+    position: index + 1,
+    completed: completed.includes(subjectId)
+  }))
+});
+
+const feedback = {
+  userId: 'scheduleUser',
+  optimalTimes: [{ start: 9, end: 11 }],
+  focusMetrics: { averageFocusScore: 0, focusPeaks: [], attentionSpanMinutes: 25 },
+  preferredAudioPresets: [],
+  learningStyles: []
+};
+
+let storedSchedule = null;
+
+const mockDatabase = () => {
+  db.collection.mockImplementation(name => ({
+    find: query => ({
+      toArray: async () => catalog.filter(subject => query.id.$in.includes(subject.id))
+    }),
+    findOne: async () => (name === 'cognitive_feedback' ? feedback : storedSchedule),
+    replaceOne: async (filter, schedule) => {
+      storedSchedule = schedule;
+    }
+  }));
+};
+
+describe('LearningScheduleService', () => {
+  beforeEach(() => {
+    storedSchedule = null;
+    mockDatabase();
+    LearningScheduleService.useClock(fixedClock(new Date('2025-01-06T07:00:00Z'))); // Monday 07:00 UTC
+  });
+
+  afterEach(() => {
+    LearningScheduleService.useClock(systemClock);
+  });
+
+  describe('createSchedule', () => {
+    it('splits subjects into attention-span sessions within the daily budget', async () => {
+      DynamicLearningPathService.createLearningPath.mockResolvedValue(pathFor(['intro', 'proofs', 'review']));
+
+      const schedule = await LearningScheduleService.createSchedule('scheduleUser', {
+        targetDate: new Date('2025-01-31T00:00:00Z'),
+        weeklyMinutes: 315 // 45 minutes a day
+      });
+
+      const sessions = schedule.days.flatMap(day => day.sessions);
+      expect(sessions.map(session => [session.subjectId, session.durationMinutes])).toEqual([
+        ['intro', 20], ['proofs', 25], ['proofs', 25], ['review', 15]
+      ]);
+      expect(sessions.every(session => session.durationMinutes <= 25)).toBe(true);
+      expect(schedule.days.every(day => day.totalMinutes <= 45)).toBe(true);
+      expect(schedule.totalMinutes).toBe(85);
+      expect(schedule.meetsTargetDate).toBe(true);
+      expect(storedSchedule).toBe(schedule);
+    });
+
+    it('starts days with difficult subjects in the first peak performance window', async () => {
+      DynamicLearningPathService.createLearningPath.mockResolvedValue(pathFor(['intro', 'proofs']));
+
+      const schedule = await LearningScheduleService.createSchedule('scheduleUser', {
+        targetDate: new Date('2025-01-31T00:00:00Z'),
+        weeklyMinutes: 700,
+        preferredStartHour: 18
+      });
+
+      const [firstDay] = schedule.days;
+      expect(firstDay.sessions[0].start.getUTCHours()).toBe(9);
+      expect(firstDay.sessions[0].peakHours).toBe(true);
+      expect(firstDay.sessions[1].start.getTime()).toBe(firstDay.sessions[0].end.getTime() + 5 * 60 * 1000);
+    });
+
+    it('only plans on study days and skips completed subjects', async () => {
+      DynamicLearningPathService.createLearningPath.mockResolvedValue(pathFor(['intro', 'review'], ['intro']));
+
+      const schedule = await LearningScheduleService.createSchedule('scheduleUser', {
+        targetDate: new Date('2025-01-31T00:00:00Z'),
+        weeklyMinutes: 60,
+        studyDays: [3] // Wednesdays
+      });
+
+      expect(schedule.days.map(day => day.date)).toEqual(['2025-01-08']);
+      expect(schedule.days[0].sessions.map(session => session.subjectId)).toEqual(['review']);
+    });
+
+    it('reports the weekly budget needed when the target date cannot be met', async () => {
+      DynamicLearningPathService.createLearningPath.mockResolvedValue(pathFor(['intro', 'proofs', 'review']));
+
+      const schedule = await LearningScheduleService.createSchedule('scheduleUser', {
+        targetDate: new Date('2025-01-07T00:00:00Z'),
+        weeklyMinutes: 70
+      });
+
+      expect(schedule.meetsTargetDate).toBe(false);
+      expect(schedule.requiredWeeklyMinutes).toBe(298);
+    });
+  });
+
+  describe('time zones', () => {
+    it('lays days and peak hours out in the learner\'s time zone', async () => {
+      DynamicLearningPathService.createLearningPath.mockResolvedValue(pathFor(['intro', 'proofs']));
+
+      // Still Sunday evening in New York
+      LearningScheduleService.useClock(fixedClock(new Date('2025-01-06T02:00:00Z')));
+      const schedule = await LearningScheduleService.createSchedule('scheduleUser', {
+        targetDate: new Date('2025-01-31T05:00:00Z'),
+        weeklyMinutes: 700,
+        studyDays: [1] // Mondays
+      }, 'America/New_York');
+
+      const [firstDay] = schedule.days;
+      expect(schedule.timeZone).toBe('America/New_York');
+      expect(firstDay.date).toBe('2025-01-06');
+      // 9:00 in New York
+      expect(firstDay.sessions[0].start).toEqual(new Date('2025-01-06T14:00:00Z'));
+      expect(firstDay.sessions[0].peakHours).toBe(true);
+      expect(DynamicLearningPathService.createLearningPath).toHaveBeenLastCalledWith(
+        'scheduleUser', undefined, { timeZone: 'America/New_York' }
+      );
+    });
+
+    it('re-plans when the learner changes time zone', async () => {
+      DynamicLearningPathService.createLearningPath.mockResolvedValue(pathFor(['intro', 'proofs']));
+      await LearningScheduleService.createSchedule('scheduleUser', {
+        targetDate: new Date('2025-01-31T00:00:00Z'),
+        weeklyMinutes: 700
+      });
+
+      const schedule = await LearningScheduleService.getSchedule('scheduleUser', 'Europe/Berlin');
+
+      expect(schedule.timeZone).toBe('Europe/Berlin');
+      expect(schedule.replanCount).toBe(1);
+      // 9:00 in Berlin
+      expect(schedule.days[0].sessions[0].start).toEqual(new Date('2025-01-06T08:00:00Z'));
+    });
+  });
+
+  describe('getSchedule', () => {
+    it('re-plans the remaining subjects when the learner falls behind', async () => {
+      DynamicLearningPathService.createLearningPath.mockResolvedValue(pathFor(['intro', 'review']));
+      await LearningScheduleService.createSchedule('scheduleUser', {
+        targetDate: new Date('2025-01-31T00:00:00Z'),
+        weeklyMinutes: 140 // 20 minutes a day
+      });
+
+      // Two days later the introduction is still not completed
+      LearningScheduleService.useClock(fixedClock(new Date('2025-01-08T07:00:00Z')));
+      const schedule = await LearningScheduleService.getSchedule('scheduleUser');
+
+      expect(schedule.replanCount).toBe(1);
+      expect(schedule.days[0].date).toBe('2025-01-08');
+      expect(schedule.days[0].sessions[0].subjectId).toBe('intro');
+    });
+
+    it('keeps the schedule while the learner is on track', async () => {
+      DynamicLearningPathService.createLearningPath.mockResolvedValue(pathFor(['intro', 'review']));
+      const created = await LearningScheduleService.createSchedule('scheduleUser', {
+        targetDate: new Date('2025-01-31T00:00:00Z'),
+        weeklyMinutes: 140
+      });
+
+      DynamicLearningPathService.createLearningPath.mockResolvedValue(pathFor(['intro', 'review'], ['intro']));
+      LearningScheduleService.useClock(fixedClock(new Date('2025-01-07T07:00:00Z')));
+
+      expect(await LearningScheduleService.getSchedule('scheduleUser')).toBe(created);
+    });
+  });
+
+  describe('exportICalendar', () => {
+    it('exports one event per session', async () => {
+      DynamicLearningPathService.createLearningPath.mockResolvedValue(pathFor(['proofs']));
+      await LearningScheduleService.createSchedule('scheduleUser', {
+        targetDate: new Date('2025-01-31T00:00:00Z'),
+        weeklyMinutes: 700
+      });
+
+      const calendar = await LearningScheduleService.exportICalendar('scheduleUser');
+
+      expect(calendar.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+      expect(calendar).toContain('SUMMARY:Proofs (1/2)');
+      expect(calendar.trimEnd().endsWith('END:VCALENDAR')).toBe(true);
+    });
+  });
+});
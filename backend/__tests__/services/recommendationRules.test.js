@@ -0,0 +1,207 @@
+// __tests__/services/recommendationRules.test.js
+
+const {
+  analyticalAudioPresetRule,
+  creativeAudioPresetRule,
+  optimalTimeRule,
+  revisitWeakPrerequisiteRule,
+  reviewBreakRule,
+  focusLengthRule
+} = require('@/services/recommendationRules');
+const { RecommendationRuleEngine, renderTemplate } = require('@/services/RecommendationRuleEngine');
+
+// Builds a rule context, overriding only what a test cares about
+const contextWith = ({ orderedSubjects = ['algebra', 'calculus'], performance = {}, cognitiveFeedback = {}, ...rest } = {}) => ({
+  userId: 'ruleUser',
+  orderedSubjects,
+  subjects: new Map([
+    ['algebra', { id: 'algebra', title: 'Algebra' }],
+    ['calculus', { id: 'calculus', title: 'Calculus', dependencies: ['algebra'] }]
+  ]),
+  prerequisitesOf: new Map([['calculus', ['algebra']]]),
+  performance: {
+    userId: 'ruleUser',
+    subjectPerformance: {},
+    averageScore: 0,
+    learningRate: 1.0,
+    completedSubjects: [],
+    ...performance
+  },
+  cognitiveFeedback: {
+    userId: 'ruleUser',
+    optimalTimes: [],
+    focusMetrics: { averageFocusScore: 0, focusPeaks: [], attentionSpanMinutes: 20 },
+    preferredAudioPresets: [],
+    learningStyles: [],
+    ...cognitiveFeedback
+  },
+  now: new Date('2025-01-01T10:00:00Z'),
+  ...rest
+});
+
+const subjectPerf = (overrides) => ({ attempts: 1, averageScore: 80, difficulty: 2, estimatedTimeMinutes: 20, ...overrides });
+
+describe('recommendation rules', () => {
+  describe('analyticalAudioPresetRule', () => {
+    it('matches an analytical next subject when the user uses audio presets', () => {
+      const context = contextWith({
+        performance: { subjectPerformance: { algebra: subjectPerf({ subjectType: 'analytical' }) } },
+        cognitiveFeedback: { preferredAudioPresets: ['focus'] }
+      });
+
+      expect(analyticalAudioPresetRule.condition(context)).toEqual({ subjectId: 'algebra' });
+    });
+
+    it('does not match without preferred presets', () => {
+      const context = contextWith({
+        performance: { subjectPerformance: { algebra: subjectPerf({ subjectType: 'analytical' }) } }
+      });
+
+      expect(analyticalAudioPresetRule.condition(context)).toBeNull();
+    });
+  });
+
+  describe('creativeAudioPresetRule', () => {
+    it('matches a creative next subject only', () => {
+      const creative = contextWith({
+        performance: { subjectPerformance: { algebra: subjectPerf({ subjectType: 'creative' }) } },
+        cognitiveFeedback: { preferredAudioPresets: ['creative'] }
+      });
+      const analytical = contextWith({
+        performance: { subjectPerformance: { algebra: subjectPerf({ subjectType: 'analytical' }) } },
+        cognitiveFeedback: { preferredAudioPresets: ['creative'] }
+      });
+
+      expect(creativeAudioPresetRule.condition(creative)).toEqual({ subjectId: 'algebra' });
+      expect(creativeAudioPresetRule.condition(analytical)).toBeNull();
+    });
+  });
+
+  describe('optimalTimeRule', () => {
+    it('points the first challenging subject to the peak hours', () => {
+      const context = contextWith({
+        performance: { subjectPerformance: { algebra: subjectPerf(), calculus: subjectPerf({ difficulty: 5 }) } },
+        cognitiveFeedback: { optimalTimes: [{ start: 8, end: 10 }, { start: 19, end: 21 }] }
+      });
+
+      expect(optimalTimeRule.condition(context)).toEqual({
+        subjectId: 'calculus',
+        values: { optimalTimes: '8:00-10:00 or 19:00-21:00' }
+      });
+    });
+
+    it('does not match without a challenging subject', () => {
+      const context = contextWith({
+        performance: { subjectPerformance: { algebra: subjectPerf() } },
+        cognitiveFeedback: { optimalTimes: [{ start: 8, end: 10 }] }
+      });
+
+      expect(optimalTimeRule.condition(context)).toBeNull();
+    });
+  });
+
+  describe('revisitWeakPrerequisiteRule', () => {
+    it('matches a weak prerequisite of the next incomplete subject', () => {
+      const context = contextWith({
+        performance: {
+          completedSubjects: ['algebra'],
+          subjectPerformance: { algebra: subjectPerf({ averageScore: 45 }) }
+        }
+      });
+
+      expect(revisitWeakPrerequisiteRule.condition(context)).toEqual({
+        subjectId: 'algebra',
+        values: { score: 45, prerequisiteTitle: 'Algebra', subjectTitle: 'Calculus' }
+      });
+    });
+
+    it('does not match when prerequisites were mastered', () => {
+      const context = contextWith({
+        performance: {
+          completedSubjects: ['algebra'],
+          subjectPerformance: { algebra: subjectPerf({ averageScore: 85 }) }
+        }
+      });
+
+      expect(revisitWeakPrerequisiteRule.condition(context)).toBeNull();
+    });
+  });
+
+  describe('reviewBreakRule', () => {
+    it('matches after several completed subjects with a low average score', () => {
+      const context = contextWith({
+        performance: { completedSubjects: ['a', 'b', 'c'], averageScore: 52.4 }
+      });
+
+      expect(reviewBreakRule.condition(context)).toEqual({ values: { completedCount: 3, averageScore: 52 } });
+    });
+
+    it('does not match for new learners or good scores', () => {
+      expect(reviewBreakRule.condition(contextWith({ performance: { completedSubjects: ['a'], averageScore: 40 } }))).toBeNull();
+      expect(reviewBreakRule.condition(contextWith({ performance: { completedSubjects: ['a', 'b', 'c'], averageScore: 75 } }))).toBeNull();
+    });
+  });
+
+  describe('focusLengthRule', () => {
+    it('always reports the attention span', () => {
+      expect(focusLengthRule.condition(contextWith())).toEqual({ values: { attentionSpan: 20 } });
+    });
+  });
+});
+
+describe('RecommendationRuleEngine', () => {
+  it('renders matching rules in priority order', () => {
+    const engine = new RecommendationRuleEngine([focusLengthRule, optimalTimeRule]);
+    const context = contextWith({
+      performance: { subjectPerformance: { calculus: subjectPerf({ difficulty: 4 }) } },
+      cognitiveFeedback: { optimalTimes: [{ start: 9, end: 11 }] }
+    });
+
+    expect(engine.evaluate(context)).toEqual([
+      {
+        type: 'optimal_time',
+        message: 'For challenging content, your peak performance hours are 9:00-11:00. Consider scheduling this subject then.',
+        subjectId: 'calculus'
+      },
+      {
+        type: 'focus_length',
+        message: 'Your optimal learning sessions are 20 minutes. Take short breaks after this period to maintain neural efficiency.'
+      }
+    ]);
+  });
+
+  it('suppresses a rule for the same user during its cooldown', () => {
+    const engine = new RecommendationRuleEngine([
+      { id: 'stretch', type: 'wellbeing', priority: 1, cooldownMinutes: 60, message: 'Stretch', condition: () => ({}) }
+    ]);
+
+    expect(engine.evaluate(contextWith())).toHaveLength(1);
+    expect(engine.evaluate(contextWith({ now: new Date('2025-01-01T10:30:00Z') }))).toHaveLength(0);
+    expect(engine.evaluate(contextWith({ userId: 'otherUser' }))).toHaveLength(1);
+    expect(engine.evaluate(contextWith({ now: new Date('2025-01-01T11:00:00Z') }))).toHaveLength(1);
+  });
+
+  it('registers, replaces and unregisters rules', () => {
+    const engine = new RecommendationRuleEngine();
+    engine.register({ id: 'custom', type: 'custom', priority: 1, message: 'First', condition: () => ({}) });
+    engine.register({ id: 'custom', type: 'custom', priority: 1, message: 'Second', condition: () => ({}) });
+
+    expect(engine.evaluate(contextWith()).map(item => item.message)).toEqual(['Second']);
+    expect(engine.unregister('custom')).toBe(true);
+    expect(engine.evaluate(contextWith())).toEqual([]);
+  });
+
+  it('skips rules whose condition throws', () => {
+    const engine = new RecommendationRuleEngine([
+      { id: 'broken', type: 'broken', priority: 2, message: 'Broken', condition: () => { throw new Error('boom'); } },
+      focusLengthRule
+    ]);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(engine.evaluate(contextWith()).map(item => item.type)).toEqual(['focus_length']);
+  });
+
+  it('leaves placeholders without values in place', () => {
+    expect(renderTemplate('{{known}} and {{ unknown }}', { known: 'A' })).toBe('A and {{ unknown }}');
+  });
+});
@@ -0,0 +1,102 @@
+// __tests__/utils/aiPricing.test.js
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const PRICING_FILE = path.join(os.tmpdir(), `ai-pricing-${process.pid}.json`);
+
+jest.mock('@/config', () => ({
+  aiBudget: { pricingUrl: undefined, pricingRefreshMs: 60000 }
+}));
+jest.mock('@/utils/logger', () => ({ error: jest.fn() }));
+
+const writePricing = (version, inputPerMillion) => fs.writeFileSync(PRICING_FILE, JSON.stringify({
+  version,
+  currency: 'USD',
+  prices: [{ provider: 'openai', model: 'gpt-4o-mini', effectiveFrom: '2024-07-18', inputPerMillion, outputPerMillion: 0 }]
+}));
+
+describe('aiPricing', () => {
+  let aiPricing;
+  let logger;
+
+  // A fresh module per test, so each starts from the built-in pricing
+  beforeEach(() => {
+    jest.resetModules();
+    jest.useFakeTimers({ now: new Date('2025-07-01T00:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    require('@/config').aiBudget.pricingUrl = PRICING_FILE;
+    logger = require('@/utils/logger');
+    aiPricing = require('@/utils/aiPricing');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(PRICING_FILE, { force: true });
+  });
+
+  it('prices requests from the pricing shared with the frontend until a source is configured', () => {
+    const cost = aiPricing.estimateCost('openai', 'gpt-4o-mini-2024-07-18', 1000000, 1000000);
+
+    expect(cost).toEqual({ estimated: 0.75, currency: 'USD', pricingVersion: aiPricing.DEFAULT_PRICING_TABLE.version });
+  });
+
+  it('re-reads the pricing source once the refresh interval has passed', async () => {
+    writePricing('2025-07-01', 1);
+    await aiPricing.refreshPricing();
+    expect(aiPricing.estimateCost('openai', 'gpt-4o-mini', 1000000, 0).estimated).toBe(1);
+
+    writePricing('2025-07-02', 2);
+    await aiPricing.refreshPricing();
+    expect(aiPricing.estimateCost('openai', 'gpt-4o-mini', 1000000, 0).pricingVersion).toBe('2025-07-01');
+
+    jest.advanceTimersByTime(60000);
+    await aiPricing.refreshPricing();
+    expect(aiPricing.estimateCost('openai', 'gpt-4o-mini', 1000000, 0)).toMatchObject({ estimated: 2, pricingVersion: '2025-07-02' });
+  });
+
+  it('keeps the current prices when the source is invalid', async () => {
+    fs.writeFileSync(PRICING_FILE, JSON.stringify({ version: 'broken', currency: 'USD', prices: [{ provider: 'openai' }] }));
+
+    await aiPricing.refreshPricing();
+
+    expect(aiPricing.estimateCost('openai', 'gpt-4o-mini', 0, 0).pricingVersion).toBe(aiPricing.DEFAULT_PRICING_TABLE.version);
+    expect(logger.error).toHaveBeenCalled();
+  });
+});
+
+// The frontend prices its proxy's requests with its own implementation of the same lookup
+describe('aiPricing and the frontend pricing', () => {
+  const { DEFAULT_PRICING_TABLE, estimateCost } = require('@/utils/aiPricing');
+  const { PricingCatalog } = require('../../../frontend/lib/ai/pricing');
+  const catalog = new PricingCatalog(DEFAULT_PRICING_TABLE);
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const providers = [...new Set(DEFAULT_PRICING_TABLE.prices.map(price => price.provider)), 'unknown'];
+  // Exact names, versioned names and models without a price of their own
+  const models = provider => [
+    ...DEFAULT_PRICING_TABLE.prices
+      .filter(price => price.provider === provider && price.model !== '*')
+      .flatMap(price => [price.model, `${price.model}-2099-01-01`]),
+    'unpriced-model'
+  ];
+  // The day each price takes effect, and the day before
+  const dates = DEFAULT_PRICING_TABLE.prices
+    .flatMap(price => [Date.parse(price.effectiveFrom), Date.parse(price.effectiveFrom) - DAY_MS])
+    .map(time => new Date(time));
+  // Below and above every long-context threshold
+  const tokenCounts = [[1000, 500], [500000, 2000]];
+
+  it('estimates the same cost for every model of the shared pricing', () => {
+    const mismatches = [];
+    providers.forEach(provider => models(provider).forEach(model => dates.forEach(at => tokenCounts.forEach(([input, output]) => {
+      const backend = estimateCost(provider, model, input, output, { at });
+      const frontend = catalog.estimateCost(provider, model, input, output, at);
+      if (backend.estimated !== frontend.estimated || backend.pricingVersion !== frontend.pricingVersion) {
+        mismatches.push({ provider, model, at: at.toISOString(), input, backend: backend.estimated, frontend: frontend.estimated });
+      }
+    }))));
+
+    expect(mismatches).toEqual([]);
+  });
+});
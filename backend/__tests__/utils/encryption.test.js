@@ -0,0 +1,68 @@
+// __tests__/utils/encryption.test.js
+
+const crypto = require('crypto');
+const { createEnvelopeCipher, parseMasterKeys } = require('@/utils/encryption');
+
+const v1 = crypto.randomBytes(32);
+const v2 = crypto.randomBytes(32);
+
+describe('parseMasterKeys', () => {
+  it('reads comma-separated version:base64 pairs', () => {
+    const keys = parseMasterKeys(`v2:${v2.toString('base64')}, v1:${v1.toString('base64')}`);
+
+    expect(Object.keys(keys)).toEqual(['v2', 'v1']);
+    expect(keys.v1.equals(v1)).toBe(true);
+  });
+
+  it('rejects keys that are not 256 bits', () => {
+    expect(() => parseMasterKeys(`v1:${crypto.randomBytes(16).toString('base64')}`)).toThrow('must be 32 bytes');
+    expect(() => parseMasterKeys('no-version')).toThrow('pairs');
+  });
+});
+
+describe('createEnvelopeCipher', () => {
+  it('round-trips secrets under a fresh data key each time', () => {
+    const cipher = createEnvelopeCipher({ keys: { v1 } });
+
+    const first = cipher.encrypt('sk-ant-secret');
+    const second = cipher.encrypt('sk-ant-secret');
+
+    expect(first.keyVersion).toBe('v1');
+    expect(first.ciphertext).not.toContain('sk-ant');
+    expect(first.wrappedKey).not.toBe(second.wrappedKey);
+    expect(cipher.decrypt(first)).toBe('sk-ant-secret');
+    expect(cipher.decrypt(second)).toBe('sk-ant-secret');
+  });
+
+  it('detects tampered envelopes', () => {
+    const cipher = createEnvelopeCipher({ keys: { v1 } });
+    const envelope = cipher.encrypt('sk-secret');
+    const ciphertext = Buffer.from(envelope.ciphertext, 'base64');
+    ciphertext[ciphertext.length - 1] ^= 1;
+
+    expect(() => cipher.decrypt({ ...envelope, ciphertext: ciphertext.toString('base64') })).toThrow();
+  });
+
+  it('re-wraps envelopes of an older master key without touching the ciphertext', () => {
+    const old = createEnvelopeCipher({ keys: { v1 } });
+    const envelope = old.encrypt('sk-secret');
+    const rotated = createEnvelopeCipher({ keys: { v2, v1 }, currentVersion: 'v2' });
+
+    expect(rotated.needsRewrap(envelope)).toBe(true);
+    const rewrapped = rotated.rewrap(envelope);
+
+    expect(rewrapped.keyVersion).toBe('v2');
+    expect(rewrapped.ciphertext).toBe(envelope.ciphertext);
+    expect(rotated.needsRewrap(rewrapped)).toBe(false);
+    // Once re-wrapped, the old master key is no longer needed
+    expect(createEnvelopeCipher({ keys: { v2 } }).decrypt(rewrapped)).toBe('sk-secret');
+  });
+
+  it('fails for envelopes whose master key is not configured', () => {
+    const envelope = createEnvelopeCipher({ keys: { v1 } }).encrypt('sk-secret');
+
+    expect(() => createEnvelopeCipher({ keys: { v2 } }).decrypt(envelope)).toThrow('Encryption key v1 is not configured');
+    expect(() => createEnvelopeCipher({ keys: { v1 }, currentVersion: 'v3' })).toThrow('Encryption key v3 is not configured');
+    expect(() => createEnvelopeCipher({ keys: {} })).toThrow('No encryption keys are configured');
+  });
+});
@@ -1,4 +1,68 @@
-import { MongoClient, Collection, Db } from 'mongodb';
+import { MongoClient, MongoClientOptions, Db, Document } from 'mongodb';
+import { DatabaseStorage, StorageCollection } from './storage';
+import { requireOrganizationId } from './tenantContext';
+import { ORGANIZATION_SCOPED_COLLECTIONS, scopeToOrganization } from './tenantScope';
+
+/**
+ * Connection settings for the DatabaseService
+ */
+export interface DatabaseOptions {
+  uri?: string;
+  dbName: string;
+  // Connection pool bounds per backend instance
+  maxPoolSize: number;
+  minPoolSize: number;
+  // Milliseconds a pooled connection may stay idle before it is closed
+  maxIdleTimeMS: number;
+  connectTimeoutMS: number;
+  serverSelectionTimeoutMS: number;
+  socketTimeoutMS: number;
+  // Connection attempts before connect() gives up
+  connectAttempts: number;
+  // Delay before the first retry; doubled after every failed attempt up to the maximum
+  retryDelayMs: number;
+  maxRetryDelayMs: number;
+}
+
+/**
+ * Result of a database health probe
+ */
+export interface DatabaseHealth {
+  status: 'up' | 'down';
+  // Round trip time of the ping, or of the failed attempt
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Reads an integer setting from the environment
+ */
+const intFromEnv = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+};
+
+/**
+ * Reads the connection settings from the environment
+ *
+ * The defaults suit Cosmos DB (MongoDB API), which closes idle connections after a
+ * few minutes and throttles bursts of new ones.
+ */
+const optionsFromEnv = (): DatabaseOptions => ({
+  uri: process.env.MONGODB_URI,
+  dbName: process.env.MONGODB_DB_NAME || 'neuroforge',
+  maxPoolSize: intFromEnv('MONGODB_MAX_POOL_SIZE', 20),
+  minPoolSize: intFromEnv('MONGODB_MIN_POOL_SIZE', 0),
+  maxIdleTimeMS: intFromEnv('MONGODB_MAX_IDLE_TIME_MS', 120000),
+  connectTimeoutMS: intFromEnv('MONGODB_CONNECT_TIMEOUT_MS', 10000),
+  serverSelectionTimeoutMS: intFromEnv('MONGODB_SERVER_SELECTION_TIMEOUT_MS', 10000),
+  socketTimeoutMS: intFromEnv('MONGODB_SOCKET_TIMEOUT_MS', 30000),
+  connectAttempts: intFromEnv('MONGODB_CONNECT_ATTEMPTS', 5),
+  retryDelayMs: intFromEnv('MONGODB_RETRY_DELAY_MS', 500),
+  maxRetryDelayMs: intFromEnv('MONGODB_MAX_RETRY_DELAY_MS', 10000)
+});
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
 
 /**
  * Database service for NeuroForge
@@ -7,6 +71,15 @@ import { MongoClient, Collection, Db } from 'mongodb';
 class DatabaseService {
   private client: MongoClient | null = null;
   private database: Db | null = null;
+  private connected = false;
+  // The connection in progress, shared by concurrent callers of connect()
+  private connecting: Promise<void> | null = null;
+  // Set by disconnect() to stop a connection in progress from retrying
+  private closing = false;
+  // Settings from configure(), applied over the environment
+  private overrides: Partial<DatabaseOptions> = {};
+  // Storage used instead of MongoDB, e.g. the in-memory store in tests and offline development
+  private storage: DatabaseStorage | null = null;
   private static instance: DatabaseService;
 
   private constructor() {
@@ -24,61 +97,193 @@ class DatabaseService {
   }
 
   /**
-   * Initializes the database connection
+   * Overrides connection settings read from the environment
+   *
+   * Takes effect on the next connection, so call it before connect() or after disconnect().
+   *
+   * @param options The settings to override
    */
-  public async connect(): Promise<void> {
-    if (this.client) return;
+  public configure(options: Partial<DatabaseOptions>): void {
+    this.overrides = { ...this.overrides, ...options };
+  }
 
-    try {
-      // Get connection string from environment variables
-      const connectionString = process.env.MONGODB_URI;
-      
-      if (!connectionString) {
-        throw new Error('Database connection string not found in environment variables');
-      }
+  /**
+   * Runs the service on another storage instead of MongoDB
+   *
+   * @param storage The storage to use, or null to go back to MongoDB
+   */
+  public useStorage(storage: DatabaseStorage | null): void {
+    this.storage = storage;
+  }
 
-      // Create a new MongoClient
-      this.client = new MongoClient(connectionString);
-      
-      // Connect to the MongoDB server
-      await this.client.connect();
-      
-      // Get reference to the database
-      this.database = this.client.db(process.env.MONGODB_DB_NAME || 'neuroforge');
-      
-      console.log('Connected to MongoDB database');
-    } catch (error) {
-      console.error('Failed to connect to database:', error);
-      throw error;
+  /**
+   * Gets the settings the next connection will use
+   */
+  public getOptions(): DatabaseOptions {
+    return { ...optionsFromEnv(), ...this.overrides };
+  }
+
+  /**
+   * Initializes the database connection
+   *
+   * Failed attempts are retried with exponential backoff, so a database that is
+   * still starting or briefly unreachable does not take the backend down with it.
+   */
+  public async connect(): Promise<void> {
+    if (this.connected || this.storage) return;
+    if (!this.connecting) {
+      this.closing = false;
+      this.connecting = this.connectWithRetry().finally(() => {
+        this.connecting = null;
+      });
     }
+
+    return this.connecting;
   }
 
   /**
    * Gets a collection from the database
-   * 
+   *
+   * Connects lazily if connect() was never called; the driver opens the connection
+   * with the first operation on the collection. Organization-scoped collections are
+   * restricted to the organization of the current request.
+   *
+   * @param name Name of the collection
+   * @returns The collection
+   * @throws MissingOrganizationError for a scoped collection outside of runWithOrganization()
+   */
+  public collection<T extends Document = Document>(name: string): StorageCollection<T> {
+    const collection = this.systemCollection<T>(name);
+    if (!ORGANIZATION_SCOPED_COLLECTIONS.has(name)) return collection;
+
+    return scopeToOrganization(collection, requireOrganizationId(`Collection ${name}`));
+  }
+
+  /**
+   * Gets a collection across all organizations
+   *
+   * For migrations and maintenance jobs only; request handling uses collection().
+   *
    * @param name Name of the collection
-   * @returns The MongoDB collection
+   * @returns The unscoped collection
+   */
+  public systemCollection<T extends Document = Document>(name: string): StorageCollection<T> {
+    if (this.storage) return this.storage.collection<T>(name);
+
+    return this.ensureClient().database.collection<T>(name);
+  }
+
+  /**
+   * Checks that the database answers, and how quickly
+   *
+   * Never throws, so it can back readiness probes directly.
+   *
+   * @returns The probe result
    */
-  public collection(name: string): Collection {
-    if (!this.database) {
-      throw new Error('Database not connected. Call connect() first.');
+  public async health(): Promise<DatabaseHealth> {
+    if (this.storage) return { status: 'up', latencyMs: 0 };
+
+    const startedAt = Date.now();
+
+    try {
+      await this.ensureClient().database.command({ ping: 1 });
+      this.connected = true;
+      return { status: 'up', latencyMs: Date.now() - startedAt };
+    } catch (error) {
+      return {
+        status: 'down',
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error)
+      };
     }
-    
-    return this.database.collection(name);
   }
 
   /**
    * Closes the database connection
    */
   public async disconnect(): Promise<void> {
+    // Stop a connection in progress from retrying, and let it settle so its client is not left open
+    this.closing = true;
+    await this.connecting?.catch(() => undefined);
+
     if (this.client) {
       await this.client.close();
-      this.client = null;
-      this.database = null;
+      this.resetClient();
       console.log('Disconnected from MongoDB database');
     }
   }
+
+  /**
+   * Connects, retrying failed attempts with exponential backoff
+   */
+  private async connectWithRetry(): Promise<void> {
+    const { uri, connectAttempts, retryDelayMs, maxRetryDelayMs } = this.getOptions();
+    const attempts = Math.max(1, connectAttempts);
+
+    // Retrying cannot fix a missing connection string
+    if (!uri) {
+      throw new Error('Database connection string not found in environment variables');
+    }
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        const { client } = this.ensureClient();
+        await client.connect();
+        this.connected = true;
+        console.log('Connected to MongoDB database');
+        return;
+      } catch (error) {
+        // Start the next attempt from a fresh client
+        await this.client?.close().catch(() => undefined);
+        this.resetClient();
+
+        if (attempt === attempts || this.closing) {
+          console.error('Failed to connect to database:', error);
+          throw error;
+        }
+
+        const delay = Math.min(retryDelayMs * 2 ** (attempt - 1), maxRetryDelayMs);
+        console.warn(`Database connection attempt ${attempt} of ${attempts} failed, retrying in ${delay}ms:`, error);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Creates the client on first use
+   *
+   * @throws Error if no connection string is configured
+   */
+  private ensureClient(): { client: MongoClient, database: Db } {
+    if (!this.client || !this.database) {
+      const { uri, dbName, ...settings } = this.getOptions();
+
+      if (!uri) {
+        throw new Error('Database connection string not found in environment variables');
+      }
+
+      const clientOptions: MongoClientOptions = {
+        maxPoolSize: settings.maxPoolSize,
+        minPoolSize: settings.minPoolSize,
+        maxIdleTimeMS: settings.maxIdleTimeMS,
+        connectTimeoutMS: settings.connectTimeoutMS,
+        serverSelectionTimeoutMS: settings.serverSelectionTimeoutMS,
+        socketTimeoutMS: settings.socketTimeoutMS
+      };
+
+      this.client = new MongoClient(uri, clientOptions);
+      this.database = this.client.db(dbName);
+    }
+
+    return { client: this.client, database: this.database };
+  }
+
+  private resetClient(): void {
+    this.client = null;
+    this.database = null;
+    this.connected = false;
+  }
 }
 
 // Export the singleton instance
-export const db = DatabaseService.getInstance();
\ No newline at end of file
+export const db = DatabaseService.getInstance();
@@ -0,0 +1,482 @@
+import {
+  CreateIndexesOptions,
+  Document,
+  Filter,
+  FindOptions,
+  IndexSpecification,
+  ObjectId,
+  OptionalUnlessRequiredId,
+  ReplaceOptions,
+  Sort,
+  UpdateFilter,
+  WithId,
+  WithoutId
+} from 'mongodb';
+import { DatabaseStorage, StorageCollection, StorageCursor } from './storage';
+
+/**
+ * Documents to seed an in-memory store with, by collection name
+ */
+export type StorageFixtures = Record<string, Document[]>;
+
+interface IndexDefinition {
+  fields: string[];
+  unique: boolean;
+  partialFilter?: Document; // Only documents matching it are indexed
+}
+
+/**
+ * Error raised when dropping an index that does not exist, shaped like the driver's
+ */
+class IndexNotFoundError extends Error {
+  public readonly code = 27;
+  public readonly codeName = 'IndexNotFound';
+
+  constructor(indexName: string) {
+    super(`index not found with name [${indexName}]`);
+    this.name = 'IndexNotFoundError';
+  }
+}
+
+/**
+ * Error raised on unique key conflicts, shaped like the driver's so callers can check `code`
+ */
+class DuplicateKeyError extends Error {
+  public readonly code = 11000;
+
+  constructor(collectionName: string, indexName: string) {
+    super(`E11000 duplicate key error collection: ${collectionName} index: ${indexName}`);
+    this.name = 'DuplicateKeyError';
+  }
+}
+
+/**
+ * Copies a document so callers cannot change stored data by mutating results
+ *
+ * Dates are copied; other class instances such as ObjectId are immutable and shared.
+ */
+const clone = <T>(value: T): T => {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)])) as T;
+  }
+  return value;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (a instanceof ObjectId || b instanceof ObjectId) return String(a) === String(b);
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => isEqual(a[key], b[key]));
+  }
+  // Missing fields match null, as in MongoDB
+  return a === b || (a == null && b == null);
+};
+
+// Sort order of values of different types, following MongoDB's comparison order
+const typeRank = (value: unknown): number => {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === 'number') return 1;
+  if (typeof value === 'string') return 2;
+  if (isPlainObject(value)) return 3;
+  if (Array.isArray(value)) return 4;
+  if (value instanceof ObjectId) return 5;
+  if (typeof value === 'boolean') return 6;
+  if (value instanceof Date) return 7;
+  return 8;
+};
+
+const compare = (a: unknown, b: unknown): number => {
+  const rankDifference = typeRank(a) - typeRank(b);
+  if (rankDifference !== 0) return rankDifference;
+
+  const left = a instanceof Date ? a.getTime() : a instanceof ObjectId ? a.toHexString() : a;
+  const right = b instanceof Date ? b.getTime() : b instanceof ObjectId ? b.toHexString() : b;
+  if (typeof left === 'number' || typeof left === 'string' || typeof left === 'boolean') {
+    return left < (right as typeof left) ? -1 : left > (right as typeof left) ? 1 : 0;
+  }
+  return 0;
+};
+
+/**
+ * Gets every value at a dotted path, stepping into arrays along the way
+ */
+const valuesAt = (value: unknown, segments: string[]): unknown[] => {
+  if (segments.length === 0) return [value];
+
+  const [segment, ...rest] = segments;
+  if (Array.isArray(value)) {
+    return /^\d+$/.test(segment)
+      ? valuesAt(value[Number(segment)], rest)
+      : value.flatMap(item => valuesAt(item, segments));
+  }
+  if (value && typeof value === 'object') {
+    return valuesAt((value as Record<string, unknown>)[segment], rest);
+  }
+  return [undefined];
+};
+
+const matchesOperator = (operator: string, operand: unknown, candidates: unknown[], condition: Record<string, unknown>): boolean => {
+  // Arrays match when the array itself or any element matches
+  const values = candidates.flatMap(value => (Array.isArray(value) ? [value, ...value] : [value]));
+  const comparable = (value: unknown) => value !== undefined && value !== null && typeRank(value) === typeRank(operand);
+
+  switch (operator) {
+    case '$eq':
+      return values.some(value => isEqual(value, operand));
+    case '$ne':
+      return !values.some(value => isEqual(value, operand));
+    case '$in':
+      return (operand as unknown[]).some(option => values.some(value => isEqual(value, option)));
+    case '$nin':
+      return !(operand as unknown[]).some(option => values.some(value => isEqual(value, option)));
+    case '$gt':
+      return values.some(value => comparable(value) && compare(value, operand) > 0);
+    case '$gte':
+      return values.some(value => comparable(value) && compare(value, operand) >= 0);
+    case '$lt':
+      return values.some(value => comparable(value) && compare(value, operand) < 0);
+    case '$lte':
+      return values.some(value => comparable(value) && compare(value, operand) <= 0);
+    case '$exists':
+      return candidates.some(value => value !== undefined) === Boolean(operand);
+    case '$regex': {
+      const pattern = operand instanceof RegExp ? operand : new RegExp(String(operand), String(condition.$options || ''));
+      return values.some(value => typeof value === 'string' && pattern.test(value));
+    }
+    case '$options':
+      // Read together with $regex
+      return true;
+    default:
+      throw new Error(`Unsupported query operator in the in-memory database: ${operator}`);
+  }
+};
+
+/**
+ * Checks a document against a query filter
+ *
+ * Supports equality, dotted paths, `$and`, `$or` and the comparison operators the
+ * services use (`$eq`, `$ne`, `$in`, `$nin`, `$gt`, `$gte`, `$lt`, `$lte`, `$exists`, `$regex`).
+ */
+const matches = (document: Document, filter: Document): boolean =>
+  Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') return (condition as Document[]).every(part => matches(document, part));
+    if (key === '$or') return (condition as Document[]).some(part => matches(document, part));
+
+    const candidates = valuesAt(document, key.split('.'));
+    if (condition instanceof RegExp) {
+      return matchesOperator('$regex', condition, candidates, {});
+    }
+    if (isPlainObject(condition) && Object.keys(condition).some(operator => operator.startsWith('$'))) {
+      return Object.entries(condition).every(([operator, operand]) =>
+        matchesOperator(operator, operand, candidates, condition)
+      );
+    }
+    return matchesOperator('$eq', condition, candidates, {});
+  });
+
+const sortEntries = (sort: Sort): Array<[string, 1 | -1]> => {
+  const direction = (value: unknown): 1 | -1 =>
+    value === -1 || value === 'desc' || value === 'descending' ? -1 : 1;
+
+  if (typeof sort === 'string') return [[sort, 1]];
+  if (Array.isArray(sort)) {
+    return (sort as unknown[]).map(item => (Array.isArray(item) ? [String(item[0]), direction(item[1])] : [String(item), 1]));
+  }
+  if (sort instanceof Map) return [...sort.entries()].map(([key, value]) => [key, direction(value)]);
+  return Object.entries(sort).map(([key, value]) => [key, direction(value)]);
+};
+
+const sortDocuments = <T extends Document>(documents: T[], sort: Sort): T[] => {
+  const entries = sortEntries(sort);
+  return [...documents].sort((a, b) => {
+    for (const [path, direction] of entries) {
+      const difference = compare(valuesAt(a, path.split('.'))[0], valuesAt(b, path.split('.'))[0]);
+      if (difference !== 0) return difference * direction;
+    }
+    return 0;
+  });
+};
+
+/**
+ * Applies `$set` and `$unset` to a copy of a document
+ */
+const applyUpdate = <T extends Document>(document: T, update: Document): T => {
+  const updated = clone(document) as Document;
+  const parentOf = (path: string[], create: boolean): Document | undefined =>
+    path.slice(0, -1).reduce<Document | undefined>((parent, segment) => {
+      if (!parent) return undefined;
+      if (!isPlainObject(parent[segment]) && create) parent[segment] = {};
+      return parent[segment];
+    }, updated);
+
+  Object.entries(update).forEach(([operator, fields]) => {
+    if (operator !== '$set' && operator !== '$unset') {
+      throw new Error(`Unsupported update operator in the in-memory database: ${operator}`);
+    }
+    Object.entries(fields as Document).forEach(([field, value]) => {
+      const path = field.split('.');
+      const parent = parentOf(path, operator === '$set');
+      if (!parent) return;
+      if (operator === '$set') {
+        parent[path[path.length - 1]] = clone(value);
+      } else {
+        delete parent[path[path.length - 1]];
+      }
+    });
+  });
+
+  return updated as T;
+};
+
+/**
+ * Applies a top-level inclusion or exclusion projection
+ */
+const project = <T extends Document>(document: T, projection?: Document): T => {
+  if (!projection || Object.keys(projection).length === 0) return document;
+
+  const included = Object.keys(projection).filter(key => projection[key] && key !== '_id');
+  if (included.length === 0) {
+    return Object.fromEntries(Object.entries(document).filter(([key]) => !(key in projection))) as T;
+  }
+
+  const fields = projection._id === 0 ? included : ['_id', ...included];
+  return Object.fromEntries(Object.entries(document).filter(([key]) => fields.includes(key))) as T;
+};
+
+/**
+ * Cursor over the results of an in-memory query, evaluated when read
+ */
+class InMemoryCursor<T extends Document> implements StorageCursor<T> {
+  private sortSpec?: Sort;
+  private limitCount = 0;
+
+  constructor(private readonly read: () => T[], private readonly projection?: Document, options: FindOptions = {}) {
+    this.sortSpec = options.sort;
+    this.limitCount = options.limit || 0;
+  }
+
+  public sort(sort: Sort): StorageCursor<T> {
+    this.sortSpec = sort;
+    return this;
+  }
+
+  public limit(limit: number): StorageCursor<T> {
+    this.limitCount = limit;
+    return this;
+  }
+
+  public async toArray(): Promise<T[]> {
+    let documents = this.read();
+    if (this.sortSpec) documents = sortDocuments(documents, this.sortSpec);
+    if (this.limitCount > 0) documents = documents.slice(0, this.limitCount);
+    return documents.map(document => project(clone(document), this.projection));
+  }
+}
+
+/**
+ * A collection held in process memory
+ *
+ * TTL indexes are accepted but documents never expire; the services already check
+ * expiry dates themselves.
+ */
+class InMemoryCollection<T extends Document> implements StorageCollection<T> {
+  private documents: WithId<T>[] = [];
+  private indexes = new Map<string, IndexDefinition>([['_id_', { fields: ['_id'], unique: true }]]);
+
+  constructor(private readonly name: string) {}
+
+  public find(filter: Filter<T>, options: FindOptions = {}): StorageCursor<WithId<T>> {
+    return new InMemoryCursor(
+      () => this.documents.filter(document => matches(document, filter as Document)),
+      options.projection,
+      options
+    );
+  }
+
+  public async findOne(filter: Filter<T>, options: FindOptions = {}): Promise<WithId<T> | null> {
+    const [document] = await this.find(filter, { ...options, limit: 1 }).toArray();
+    return document || null;
+  }
+
+  public async insertOne(document: OptionalUnlessRequiredId<T>): Promise<{ acknowledged: boolean, insertedId: unknown }> {
+    return { acknowledged: true, insertedId: this.insert(document) };
+  }
+
+  /**
+   * Stores a new document, generating an ObjectId if it has no `_id`
+   *
+   * @returns The document's `_id`
+   */
+  public insert(document: OptionalUnlessRequiredId<T>): unknown {
+    const stored = { _id: new ObjectId(), ...clone(document) } as WithId<T>;
+    this.checkUnique(stored);
+    this.documents.push(stored);
+    return stored._id;
+  }
+
+  public async replaceOne(
+    filter: Filter<T>,
+    replacement: WithoutId<T>,
+    options: ReplaceOptions = {}
+  ): Promise<{ matchedCount: number, modifiedCount: number, upsertedCount: number }> {
+    const index = this.documents.findIndex(document => matches(document, filter as Document));
+
+    if (index !== -1) {
+      const stored = { ...clone(replacement), _id: this.documents[index]._id } as WithId<T>;
+      this.checkUnique(stored, index);
+      this.documents[index] = stored;
+      return { matchedCount: 1, modifiedCount: 1, upsertedCount: 0 };
+    }
+
+    if (!options.upsert) {
+      return { matchedCount: 0, modifiedCount: 0, upsertedCount: 0 };
+    }
+
+    // Like MongoDB, an upsert keeps the equality conditions of the filter
+    const filterFields = Object.fromEntries(Object.entries(filter as Document).filter(([key, value]) =>
+      !key.startsWith('$') && !key.includes('.') &&
+      !(isPlainObject(value) && Object.keys(value).some(operator => operator.startsWith('$')))
+    ));
+    this.insert({ ...filterFields, ...clone(replacement) } as OptionalUnlessRequiredId<T>);
+    return { matchedCount: 0, modifiedCount: 0, upsertedCount: 1 };
+  }
+
+  public async updateMany(filter: Filter<T>, update: UpdateFilter<T>): Promise<{ matchedCount: number, modifiedCount: number }> {
+    const positions = this.documents
+      .map((document, position) => (matches(document, filter as Document) ? position : -1))
+      .filter(position => position !== -1);
+
+    // Check every change before applying any, so a conflict leaves the collection untouched
+    const updated = positions.map(position => applyUpdate(this.documents[position], update as Document));
+    updated.forEach((document, index) => this.checkUnique(document, positions[index]));
+    updated.forEach((document, index) => {
+      this.documents[positions[index]] = document;
+    });
+
+    return { matchedCount: positions.length, modifiedCount: positions.length };
+  }
+
+  public async deleteOne(filter: Filter<T>): Promise<{ deletedCount: number }> {
+    const index = this.documents.findIndex(document => matches(document, filter as Document));
+    if (index === -1) return { deletedCount: 0 };
+
+    this.documents.splice(index, 1);
+    return { deletedCount: 1 };
+  }
+
+  public async deleteMany(filter: Filter<T>): Promise<{ deletedCount: number }> {
+    const remaining = this.documents.filter(document => !matches(document, filter as Document));
+    const deletedCount = this.documents.length - remaining.length;
+    this.documents = remaining;
+    return { deletedCount };
+  }
+
+  public async createIndex(index: IndexSpecification, options: CreateIndexesOptions = {}): Promise<string> {
+    const fields = sortEntries(index as Sort).map(([field]) => field);
+    const name = options.name || sortEntries(index as Sort).map(([field, direction]) => `${field}_${direction}`).join('_');
+    const definition = { fields, unique: Boolean(options.unique), partialFilter: options.partialFilterExpression };
+
+    // Refuse a unique index the stored documents already violate, as MongoDB does
+    this.documents.forEach((document, position) => this.checkUnique(document, position, [[name, definition]]));
+    this.indexes.set(name, definition);
+    return name;
+  }
+
+  public async dropIndex(name: string): Promise<{ ok: number }> {
+    if (name === '_id_' || !this.indexes.delete(name)) {
+      throw new IndexNotFoundError(name);
+    }
+    return { ok: 1 };
+  }
+
+  /**
+   * Rejects a document whose unique index keys match another document's
+   *
+   * @param document The document to store
+   * @param position Its position if it replaces a stored document
+   * @param indexes The indexes to check (defaults to every index of the collection)
+   */
+  private checkUnique(
+    document: Document,
+    position = -1,
+    indexes: Array<[string, IndexDefinition]> = [...this.indexes.entries()]
+  ): void {
+    const keyOf = (item: Document, fields: string[]) => fields.map(field => valuesAt(item, field.split('.'))[0]);
+
+    indexes.filter(([, { unique }]) => unique).forEach(([name, { fields, partialFilter }]) => {
+      const indexed = (item: Document) => !partialFilter || matches(item, partialFilter);
+      if (!indexed(document)) return;
+
+      const key = keyOf(document, fields);
+      const conflict = this.documents.some((other, index) =>
+        index !== position && indexed(other) && isEqual(keyOf(other, fields), key)
+      );
+      if (conflict) throw new DuplicateKeyError(this.name, name);
+    });
+  }
+}
+
+/**
+ * A document store held in process memory
+ *
+ * Stands in for MongoDB in unit tests and in the no-network development mode,
+ * optionally seeded with fixture documents.
+ */
+export class InMemoryStorage implements DatabaseStorage {
+  private collections = new Map<string, InMemoryCollection<Document>>();
+
+  constructor(fixtures: StorageFixtures = {}) {
+    this.seed(fixtures);
+  }
+
+  public collection<T extends Document = Document>(name: string): StorageCollection<T> {
+    return this.inMemoryCollection(name) as unknown as StorageCollection<T>;
+  }
+
+  /**
+   * Adds fixture documents to their collections
+   *
+   * Date strings in ISO format are stored as dates, so JSON fixtures behave like
+   * documents written by the services.
+   *
+   * @param fixtures Documents by collection name
+   */
+  public seed(fixtures: StorageFixtures): void {
+    const isoDate = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+    const revive = (value: unknown): unknown => {
+      if (typeof value === 'string' && isoDate.test(value)) return new Date(value);
+      if (Array.isArray(value)) return value.map(revive);
+      if (isPlainObject(value)) return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, revive(item)]));
+      return value;
+    };
+
+    Object.entries(fixtures).forEach(([name, documents]) => {
+      documents.forEach(document => this.inMemoryCollection(name).insert(revive(document) as Document));
+    });
+  }
+
+  /**
+   * Removes every collection and document
+   */
+  public clear(): void {
+    this.collections.clear();
+  }
+
+  private inMemoryCollection(name: string): InMemoryCollection<Document> {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new InMemoryCollection<Document>(name);
+      this.collections.set(name, collection);
+    }
+    return collection;
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  CreateIndexesOptions,
+  Document,
+  Filter,
+  FindOptions,
+  IndexSpecification,
+  OptionalUnlessRequiredId,
+  ReplaceOptions,
+  Sort,
+  UpdateFilter,
+  WithId,
+  WithoutId
+} from 'mongodb';
+
+/**
+ * The cursor operations the services use on query results
+ */
+export interface StorageCursor<T> {
+  sort(sort: Sort): StorageCursor<T>;
+  limit(limit: number): StorageCursor<T>;
+  toArray(): Promise<T[]>;
+}
+
+/**
+ * The collection operations the services use
+ *
+ * A subset of the MongoDB driver's `Collection`, which satisfies it as is, so the
+ * services can run against any storage that implements these operations.
+ */
+export interface StorageCollection<T extends Document = Document> {
+  find(filter: Filter<T>, options?: FindOptions): StorageCursor<WithId<T>>;
+  findOne(filter: Filter<T>, options?: FindOptions): Promise<WithId<T> | null>;
+  insertOne(document: OptionalUnlessRequiredId<T>): Promise<unknown>;
+  replaceOne(filter: Filter<T>, replacement: WithoutId<T>, options?: ReplaceOptions): Promise<unknown>;
+  updateMany(filter: Filter<T>, update: UpdateFilter<T>): Promise<unknown>;
+  deleteOne(filter: Filter<T>): Promise<unknown>;
+  deleteMany(filter: Filter<T>): Promise<unknown>;
+  createIndex(index: IndexSpecification, options?: CreateIndexesOptions): Promise<string>;
+  dropIndex(name: string): Promise<unknown>;
+}
+
+/**
+ * A document store the DatabaseService can run on instead of MongoDB
+ */
+export interface DatabaseStorage {
+  collection<T extends Document = Document>(name: string): StorageCollection<T>;
+}
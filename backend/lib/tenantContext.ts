@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * The organization (tenant) the current request or job acts for
+ */
+interface TenantContext {
+  organizationId: string;
+}
+
+const storage = new AsyncLocalStorage<TenantContext>();
+
+/**
+ * Thrown when organization-scoped data is accessed outside of an organization
+ */
+export class MissingOrganizationError extends Error {
+  constructor(resource: string) {
+    super(`${resource} is scoped to an organization; access it inside runWithOrganization()`);
+    this.name = 'MissingOrganizationError';
+  }
+}
+
+/**
+ * Runs a function on behalf of an organization
+ *
+ * Every organization-scoped query made by the function, including from callbacks
+ * and promises it starts, only sees and writes that organization's documents.
+ *
+ * @param organizationId The ID of the organization
+ * @param fn The function to run
+ * @returns What the function returns
+ */
+export function runWithOrganization<T>(organizationId: string, fn: () => T): T {
+  if (!organizationId) {
+    throw new Error('An organization ID is required');
+  }
+  return storage.run({ organizationId }, fn);
+}
+
+/**
+ * Gets the organization the current code runs for
+ *
+ * @returns The organization ID, or undefined outside of runWithOrganization()
+ */
+export function currentOrganizationId(): string | undefined {
+  return storage.getStore()?.organizationId;
+}
+
+/**
+ * Gets the organization the current code runs for, failing outside of one
+ *
+ * @param resource What is being accessed, for the error message
+ * @throws MissingOrganizationError outside of runWithOrganization()
+ */
+export function requireOrganizationId(resource: string): string {
+  const organizationId = currentOrganizationId();
+  if (!organizationId) {
+    throw new MissingOrganizationError(resource);
+  }
+  return organizationId;
+}
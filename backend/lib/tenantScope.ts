@@ -0,0 +1,62 @@
+import { Document, Filter, UpdateFilter } from 'mongodb';
+import { StorageCollection } from './storage';
+
+/**
+ * Collections whose documents belong to one organization
+ *
+ * Each curriculum and every learner's progress, feedback and paths are kept per
+ * organization. Collections not listed here (caches keyed by user, migration state,
+ * cross-instance messages) are shared by the deployment.
+ */
+export const ORGANIZATION_SCOPED_COLLECTIONS = new Set([
+  'subjects',
+  'user_performance',
+  'cognitive_feedback',
+  'learning_path_overrides',
+  'learning_path_versions',
+  'learning_schedules'
+]);
+
+// Field holding the owning organization's ID on every scoped document
+export const ORGANIZATION_FIELD = 'organizationId';
+
+/**
+ * Restricts a collection to one organization's documents
+ *
+ * The organization condition is added to every filter and written into every
+ * document, overriding any organization the caller passed, so a query cannot
+ * read or change another organization's documents.
+ *
+ * @param collection The unscoped collection
+ * @param organizationId The ID of the organization
+ * @returns The scoped collection
+ */
+export function scopeToOrganization<T extends Document>(
+  collection: StorageCollection<T>,
+  organizationId: string
+): StorageCollection<T> {
+  const scopeFilter = (filter: Filter<T>): Filter<T> => ({ ...filter, [ORGANIZATION_FIELD]: organizationId });
+  const scopeDocument = <D extends Document>(document: D): D => ({ ...document, [ORGANIZATION_FIELD]: organizationId });
+
+  return {
+    find: (filter, options) => collection.find(scopeFilter(filter), options),
+    findOne: (filter, options) => collection.findOne(scopeFilter(filter), options),
+    insertOne: document => collection.insertOne(scopeDocument(document)),
+    replaceOne: (filter, replacement, options) =>
+      collection.replaceOne(scopeFilter(filter), scopeDocument(replacement), options),
+    updateMany: (filter, update) => {
+      // Documents cannot be moved to another organization, or out of this one
+      const { $set, $unset, ...operators } = update as Document;
+      const scopedUpdate: Document = { ...operators, $set: { ...$set, [ORGANIZATION_FIELD]: organizationId } };
+      if ($unset) {
+        scopedUpdate.$unset = Object.fromEntries(Object.entries($unset).filter(([field]) => field !== ORGANIZATION_FIELD));
+      }
+      return collection.updateMany(scopeFilter(filter), scopedUpdate as UpdateFilter<T>);
+    },
+    deleteOne: filter => collection.deleteOne(scopeFilter(filter)),
+    deleteMany: filter => collection.deleteMany(scopeFilter(filter)),
+    // Indexes are shared by every organization in the collection
+    createIndex: (index, options) => collection.createIndex(index, options),
+    dropIndex: name => collection.dropIndex(name)
+  };
+}
@@ -6,6 +6,7 @@ const config = require('./config');
 const apiRoutes = require('./routes'); // Main router
 const errorMiddleware = require('./middleware/errorMiddleware');
 const WebSocketService = require('./services/WebSocketService'); // Import WebSocket service
+const { db } = require('../lib/db');
 
 const app = express();
 
@@ -20,6 +21,16 @@ app.use('/api/v1', apiRoutes);
 // Health Check Endpoint
 app.get('/health', (req, res) => res.status(200).send('NeuroForge Backend Operational'));
 
+// Readiness Check Endpoint (503 while the database is unreachable, so no traffic is routed here)
+app.get('/ready', async (req, res) => {
+    const { status, latencyMs, error } = await db.health();
+    res.status(status === 'up' ? 200 : 503).json({
+        status: status === 'up' ? 'ready' : 'unavailable',
+        // Connection errors can reveal hosts, so they are only shown outside production
+        database: config.nodeEnv === 'production' ? { status, latencyMs } : { status, latencyMs, error },
+    });
+});
+
 // Global Error Handler (Must be last)
 app.use(errorMiddleware);
 
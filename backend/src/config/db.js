@@ -1,11 +1,29 @@
 // neuroforge/backend/src/config/db.js
 // Purpose: Handles database connections
+const fs = require('fs');
 const mongoose = require('mongoose');
 const sql = require('mssql');
 const config = require('./index');
 const logger = require('../utils/logger'); // Assume a basic logger exists
+const { db } = require('../../lib/db');
+const { InMemoryStorage } = require('../../lib/memoryStorage');
+
+// Serves the DatabaseService from memory, seeded with the fixture documents
+const useInMemoryDatabase = () => {
+    const { fixturesPath } = config.database;
+    const fixtures = fs.existsSync(fixturesPath) ? JSON.parse(fs.readFileSync(fixturesPath, 'utf8')) : {};
+
+    db.useStorage(new InMemoryStorage(fixtures));
+    logger.warn(`Using the in-memory database seeded from ${fixturesPath}. Routes backed by mongoose models or Azure SQL are unavailable.`);
+};
 
 const connectDB = async () => {
+    // Offline development: no network databases are contacted
+    if (config.database.backend === 'memory') {
+        useInMemoryDatabase();
+        return;
+    }
+
     try {
         // Connect to MongoDB (Azure Cosmos DB)
         await mongoose.connect(config.mongoUri);
@@ -34,4 +52,13 @@ const connectDB = async () => {
     }
 };
 
-module.exports = { connectDB, sql }; // Export SQL pool for direct use if needed
\ No newline at end of file
+// Closes the connections opened by connectDB (used on shutdown)
+const disconnectDB = async () => {
+    if (config.database.backend === 'memory') return;
+
+    await mongoose.connection.close();
+    await sql.close();
+    logger.info('MongoDB and Azure SQL Database connections closed');
+};
+
+module.exports = { connectDB, disconnectDB, sql }; // Export SQL pool for direct use if needed
\ No newline at end of file
@@ -1,6 +1,7 @@
 // neuroforge/backend/src/config/index.js
 // Purpose: Loads and exports environment variables
 require('dotenv').config(); // Load .env file
+const path = require('path');
 
 keyVault: {
     url: process.env.KEY_VAULT_URL || 'https://neuroforge-vault.vault.azure.net'
@@ -10,6 +11,11 @@ const config = {
     port: process.env.PORT || 5001,
     nodeEnv: process.env.NODE_ENV || 'development',
     mongoUri: process.env.MONGO_URI,
+    database: {
+        backend: process.env.DATABASE_BACKEND || 'mongo', // 'mongo' or 'memory' (no network, for offline development)
+        // Documents the in-memory database is seeded with, by collection name
+        fixturesPath: process.env.DATABASE_FIXTURES || path.join(__dirname, '../../fixtures/learning.json'),
+    },
     sql: {
         server: process.env.SQL_SERVER,
         database: process.env.SQL_DATABASE,
@@ -29,6 +35,28 @@ const config = {
         anthropic: process.env.ANTHROPIC_API_KEY,
         // ... other keys
     },
+    encryption: {
+        // Master keys wrapping the data keys of stored secrets, as "<version>:<base64 32-byte key>" pairs, e.g. "v2:...,v1:..."
+        keys: process.env.ENCRYPTION_KEYS,
+        // Version new secrets are wrapped with (defaults to the first key); `npm run rotate-ai-keys` re-wraps older ones
+        currentVersion: process.env.ENCRYPTION_KEY_VERSION,
+    },
+    internalApi: {
+        // Shared secret the frontend server presents to read users' AI provider keys
+        secret: process.env.INTERNAL_API_SECRET,
+    },
+    aiBudget: {
+        // Daily spend on the platform's AI keys, in USD; 0 turns a limit off. Organizations can override these.
+        // Past a soft budget requests use cheaper models, at a hard budget they are refused until the next (UTC) day
+        userDailySoftUsd: parseFloat(process.env.AI_BUDGET_USER_DAILY_SOFT_USD || '0.5'),
+        userDailyHardUsd: parseFloat(process.env.AI_BUDGET_USER_DAILY_HARD_USD || '1'),
+        organizationDailySoftUsd: parseFloat(process.env.AI_BUDGET_ORG_DAILY_SOFT_USD || '0'),
+        organizationDailyHardUsd: parseFloat(process.env.AI_BUDGET_ORG_DAILY_HARD_USD || '0'),
+        // Pricing table the backend's own AI requests are costed with, as an http(s) URL or a file path - the same
+        // AI_PRICING_URL the frontend reads; re-read every AI_PRICING_REFRESH_MS so price changes apply without a deploy
+        pricingUrl: process.env.AI_PRICING_URL,
+        pricingRefreshMs: parseInt(process.env.AI_PRICING_REFRESH_MS || '300000', 10),
+    },
     azureStorage: {
         connectionString: process.env.AZURE_STORAGE_CONNECTION_STRING,
         containerName: process.env.AZURE_STORAGE_BLOB_CONTAINER_NAME || 'learning-assets',
@@ -37,6 +65,12 @@ const config = {
         secretKey: process.env.STRIPE_SECRET_KEY,
         webhookSecret: process.env.STRIPE_WEBHOOK_SECRET,
     },
+    learningPathCache: {
+        backend: process.env.LEARNING_PATH_CACHE_BACKEND || 'memory', // 'memory' or 'mongo'
+        maxEntries: parseInt(process.env.LEARNING_PATH_CACHE_MAX_ENTRIES || '1000', 10), // In-memory LRU size
+        // Poll interval for invalidations from other replicas (0 disables cross-instance invalidation)
+        invalidationPollMs: parseInt(process.env.LEARNING_PATH_CACHE_INVALIDATION_POLL_MS || '5000', 10),
+    },
     corsOptions: {
         origin: process.env.FRONTEND_URL || 'http://localhost:3000', // Allow frontend origin
         methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
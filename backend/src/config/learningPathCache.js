@@ -0,0 +1,43 @@
+// neuroforge/backend/src/config/learningPathCache.js
+// Purpose: Selects the learning path cache backend and wires up its invalidation
+const config = require('./index');
+const logger = require('../utils/logger');
+const { db } = require('../../lib/db');
+const { DynamicLearningPathService } = require('../services/DynamicLearningPathService');
+const { InMemoryLearningPathCache } = require('../services/InMemoryLearningPathCache');
+const { MongoLearningPathCache } = require('../services/MongoLearningPathCache');
+const { LearningPathCacheInvalidationBus } = require('../services/LearningPathCacheInvalidationBus');
+
+const configureLearningPathCache = async () => {
+    const { backend, maxEntries, invalidationPollMs } = config.learningPathCache;
+
+    // Drop stale paths automatically when progress or the curriculum changes
+    DynamicLearningPathService.subscribeToDomainEvents();
+
+    try {
+        // Both the Mongo cache and the invalidation bus use the shared DatabaseService connection
+        if (backend === 'mongo' || invalidationPollMs > 0) {
+            await db.connect();
+        }
+
+        // Caches expire paths by the service's clock
+        const cache = backend === 'mongo'
+            ? new MongoLearningPathCache(undefined, DynamicLearningPathService.cacheClock)
+            : new InMemoryLearningPathCache({ maxEntries, clock: DynamicLearningPathService.cacheClock });
+
+        // Invalidations are broadcast so replicas holding their own copy drop stale paths
+        let invalidationBus;
+        if (invalidationPollMs > 0) {
+            invalidationBus = new LearningPathCacheInvalidationBus(cache, invalidationPollMs);
+            invalidationBus.start();
+        }
+
+        DynamicLearningPathService.useCache(cache, invalidationBus);
+        logger.info(`Learning path cache configured (${backend}${invalidationBus ? ', cross-instance invalidation enabled' : ''})`);
+    } catch (err) {
+        // Keep serving with the default per-process cache
+        logger.error('Learning path cache configuration error:', err.message);
+    }
+};
+
+module.exports = { configureLearningPathCache };
@@ -26,6 +26,7 @@ const chatWithTutor = async (req, res, next) => {
         // - Handling rate limits and errors from the AI service
         const response = await AiApiService.getTutorResponse({
             userId,
+            organizationId: req.user.organizationId,
             message,
             context, // e.g., { lessonId: '...', topic: 'Quantum Physics Basics'}
             preferredStyle: teachingStyle || req.user.preferences?.aiTutorStyle, // User preference or default
@@ -46,10 +47,13 @@ const chatWithTutor = async (req, res, next) => {
     }
 };
 
+// @desc    Generate a multiple-choice quiz for a lesson
+// @route   POST /api/v1/ai/generate/quiz
+// @access  Private
 const generateQuiz = async (req, res, next) => {
+    const userId = req.user.id;
     try {
         const { lessonId } = req.body;
-        const userId = req.user.id;
 
         if (!lessonId) {
             throw new ApiError('Lesson ID is required', 400);
@@ -64,8 +68,9 @@ const generateQuiz = async (req, res, next) => {
         }
 
         // Generate quiz via AI service
-        const quiz = await aiApiService.generateQuiz({
+        const quiz = await AiApiService.generateQuiz({
             userId,
+            organizationId: req.user.organizationId,
             lessonContent: lesson.content, // Assuming content field exists
         });
 
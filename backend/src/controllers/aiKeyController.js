@@ -0,0 +1,83 @@
+// neuroforge/backend/src/controllers/aiKeyController.js
+// Purpose: Lets users manage the AI provider API keys they bring themselves
+const UserApiKeyService = require('../services/UserApiKeyService');
+const User = require('../models/mongo/User');
+const logger = require('../utils/logger');
+const ApiError = require('../utils/apiError');
+
+// Pass ApiErrors from the vault through, wrap anything else
+const forwardError = (next, error, message) => {
+    if (error instanceof ApiError) {
+        return next(error);
+    }
+    logger.error(`${message}:`, error);
+    next(new ApiError(message, 500));
+};
+
+// @desc    List the user's AI provider keys (masked)
+// @route   GET /api/v1/users/ai-keys
+// @access  Private
+exports.listAiKeys = async (req, res, next) => {
+    try {
+        const keys = await UserApiKeyService.listKeys(req.user.id);
+        res.status(200).json({ success: true, count: keys.length, data: keys });
+    } catch (error) {
+        forwardError(next, error, 'Failed to list AI provider keys');
+    }
+};
+
+// @desc    Validate and store an AI provider key, replacing the user's previous key for that provider
+// @route   PUT /api/v1/users/ai-keys/:provider
+// @access  Private
+exports.saveAiKey = async (req, res, next) => {
+    try {
+        const key = await UserApiKeyService.saveKey(req.user.id, req.params.provider, req.body.apiKey);
+        res.status(200).json({ success: true, data: key });
+    } catch (error) {
+        forwardError(next, error, 'Failed to save AI provider key');
+    }
+};
+
+// @desc    Check a stored AI provider key with the provider
+// @route   POST /api/v1/users/ai-keys/:provider/test
+// @access  Private
+exports.testAiKey = async (req, res, next) => {
+    try {
+        const result = await UserApiKeyService.testKey(req.user.id, req.params.provider);
+        res.status(200).json({ success: true, data: result });
+    } catch (error) {
+        forwardError(next, error, 'Failed to test AI provider key');
+    }
+};
+
+// @desc    Revoke (delete) a stored AI provider key
+// @route   DELETE /api/v1/users/ai-keys/:provider
+// @access  Private
+exports.revokeAiKey = async (req, res, next) => {
+    try {
+        await UserApiKeyService.revokeKey(req.user.id, req.params.provider);
+        res.status(200).json({ success: true, data: {} });
+    } catch (error) {
+        forwardError(next, error, 'Failed to revoke AI provider key');
+    }
+};
+
+// @desc    Decrypted AI provider keys of a user, for the frontend server's AI proxy
+// @route   POST /api/v1/internal/ai-keys/resolve
+// @access  Internal (shared secret)
+exports.resolveAiKeys = async (req, res, next) => {
+    const { email } = req.body;
+    if (!email) {
+        return next(new ApiError('Email is required', 400));
+    }
+
+    try {
+        const user = await User.findOne({ email: String(email).toLowerCase() });
+        const keys = user ? await UserApiKeyService.getDecryptedKeys(user.id) : {};
+        // Keys must never end up in a cache between the two servers
+        res.set('Cache-Control', 'no-store');
+        res.status(200).json({ success: true, data: keys });
+    } catch (error) {
+        forwardError(next, error, 'Failed to resolve AI provider keys');
+    }
+};
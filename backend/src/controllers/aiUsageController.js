@@ -0,0 +1,84 @@
+// neuroforge/backend/src/controllers/aiUsageController.js
+// Purpose: Reports users' AI usage and keeps the frontend's AI proxy within their budgets
+const AiBudgetService = require('../services/AiBudgetService');
+const User = require('../models/mongo/User');
+const logger = require('../utils/logger');
+const ApiError = require('../utils/apiError');
+const { runWithOrganization } = require('../../lib/tenantContext');
+
+// Pass ApiErrors from the budget service through, wrap anything else
+const forwardError = (next, error, message) => {
+    if (error instanceof ApiError) {
+        return next(error);
+    }
+    logger.error(`${message}:`, error);
+    next(new ApiError(message, 500));
+};
+
+// The user an internal request is made for; internal routes have no signed-in user
+const findUserByEmail = async (email) => {
+    if (!email) {
+        throw new ApiError('Email is required', 400);
+    }
+    const user = await User.findOne({ email: String(email).toLowerCase() });
+    if (!user) {
+        throw new ApiError('User not found', 404);
+    }
+    if (!user.organizationId) {
+        throw new ApiError('User does not belong to an organization', 403);
+    }
+    return user;
+};
+
+// @desc    The user's AI usage (tokens and estimated cost) per feature and day, and today's budget
+// @route   GET /api/v1/users/ai-usage?days=30
+// @access  Private
+exports.getAiUsage = async (req, res, next) => {
+    try {
+        const days = req.query.days === undefined ? undefined : Number(req.query.days);
+        const summary = await AiBudgetService.getUsageSummary(req.user.id, req.user.organizationId, { days });
+        res.status(200).json({ success: true, data: summary });
+    } catch (error) {
+        forwardError(next, error, 'Failed to load AI usage');
+    }
+};
+
+// @desc    Pre-flight budget check of a user, for the frontend server's AI proxy
+// @route   POST /api/v1/internal/ai-usage/check
+// @access  Internal (shared secret)
+exports.checkAiBudget = async (req, res, next) => {
+    try {
+        const user = await findUserByEmail(req.body.email);
+        const budget = await runWithOrganization(user.organizationId, () =>
+            AiBudgetService.checkBudget(user.id, user.organizationId)
+        );
+        res.status(200).json({ success: true, data: budget });
+    } catch (error) {
+        forwardError(next, error, 'Failed to check AI budget');
+    }
+};
+
+// @desc    Add a response of the frontend server's AI proxy to the spend ledger
+// @route   POST /api/v1/internal/ai-usage/record
+// @access  Internal (shared secret)
+exports.recordAiUsage = async (req, res, next) => {
+    const { email, feature, usage } = req.body;
+    if (!usage || !usage.tokens || !usage.cost) {
+        return next(new ApiError('Usage with tokens and cost is required', 400));
+    }
+
+    try {
+        const user = await findUserByEmail(email);
+        await runWithOrganization(user.organizationId, () =>
+            AiBudgetService.recordUsage(user.id, {
+                feature,
+                tokens: usage.tokens,
+                cost: usage.cost.estimated,
+                userKey: Boolean(usage.provider?.userKey),
+            })
+        );
+        res.status(201).json({ success: true, data: {} });
+    } catch (error) {
+        forwardError(next, error, 'Failed to record AI usage');
+    }
+};
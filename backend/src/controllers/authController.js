@@ -27,6 +27,11 @@ exports.handleProviderCallback = async (req, res, next) => {
             // Should not happen if findOrCreate is implemented correctly, but good practice
             return next(new ApiError('Could not find or create user', 500));
         }
+        if (!user.organizationId) {
+            // No organization matches the email domain and no default organization exists
+            logger.warn(`Sign-in refused: no organization for ${user.email}`);
+            return next(new ApiError('No organization is available for this account', 403));
+        }
 
         // Update last login time (async, don't need to wait)
         User.findByIdAndUpdate(user._id, { lastLogin: Date.now() }).catch(err => logger.error('Error updating last login:', err));
@@ -44,6 +49,7 @@ exports.handleProviderCallback = async (req, res, next) => {
                 email: user.email,
                 avatar: user.avatar,
                 role: user.role,
+                organizationId: user.organizationId,
                 onboardingCompleted: user.onboardingCompleted,
                 preferences: user.preferences
             }
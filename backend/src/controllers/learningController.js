@@ -11,6 +11,7 @@ const { SubjectOrderingServiceInstance } = require('../services/SubjectOrderingS
 const Subject = mongoose.model('Subject');
 const ApiError = require('../utils/apiError');
 const logger = require('../utils/logger');
+const { domainEvents, DomainEvents } = require('../utils/domainEvents');
 
 const getSubjectLessons = async (req, res, next) => {
     try {
@@ -125,6 +126,8 @@ const completeLesson = async (req, res, next) => {
              );
         }
 
+        domainEvents.publish(DomainEvents.LESSON_COMPLETED, { userId, lessonId, subjectId: lesson.subject.toString() });
+
         let gamificationResult = { xpAwarded: 0, newAchievements: [], levelUpInfo: null };
         if (!wasAlreadyCompleted) {
             const xpForLesson = 50;
@@ -266,6 +269,11 @@ const submitReview = async (req, res, next) => {
         if (!progressItem) return next(new ApiError('Review item not found or access denied.', 404));
 
         const updatedProgress = await SrsServiceInstance.updateReviewProgress(userId, progressItem.lesson, performanceScore);
+        domainEvents.publish(DomainEvents.REVIEW_SUBMITTED, {
+            userId,
+            lessonId: progressItem.lesson.toString(),
+            subjectId: progressItem.subject.toString()
+        });
 
         let gamificationResult = { xpAwarded: 0, newAchievements: [], levelUpInfo: null, streakUpdated: false };
         const xpForReview = performanceScore >= 3 ? 15 : 5; // Use consistent XP value
@@ -0,0 +1,345 @@
+// neuroforge/backend/src/controllers/learningPathController.js
+// Purpose: Exposes the DynamicLearningPathService over the API
+const mongoose = require('mongoose');
+const User = require('../models/mongo/User');
+const { DynamicLearningPathService } = require('../services/DynamicLearningPathService');
+const { LearningScheduleService } = require('../services/LearningScheduleService');
+const { LearningPathHistoryService } = require('../services/LearningPathHistoryService');
+const { isValidTimeZone, zonedTimeToUtc } = require('../utils/timeZone');
+const ApiError = require('../utils/apiError');
+const logger = require('../utils/logger');
+
+// Largest cohort whose paths can be generated in one request
+const MAX_COHORT_SIZE = 500;
+
+// Parses a comma separated subject ID query parameter into an array of IDs
+const parseSubjectIds = (subjects) => {
+    if (!subjects) return undefined;
+    return subjects.split(',').map(id => id.trim()).filter(Boolean);
+};
+
+// Parses a target date; date-only values (YYYY-MM-DD) start at midnight in the user's time zone
+const parseTargetDate = (targetDate, timeZone) => {
+    const match = typeof targetDate === 'string' && /^(\d{4})-(\d{2})-(\d{2})$/.exec(targetDate);
+    if (match && timeZone && isValidTimeZone(timeZone)) {
+        return zonedTimeToUtc({ year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }, timeZone);
+    }
+    return new Date(targetDate);
+};
+
+// @desc    Get the personalized learning path for the current user
+// @route   GET /api/v1/learning-path?subjects=id1,id2
+// @access  Private
+exports.getLearningPath = async (req, res, next) => {
+    try {
+        const subjectIds = parseSubjectIds(req.query.subjects);
+        const learningPath = await DynamicLearningPathService.createLearningPath(req.user.id, subjectIds, { timeZone: req.user.timeZone });
+
+        res.status(200).json({
+            success: true,
+            data: learningPath
+        });
+    } catch (error) {
+        logger.error(`Error getting learning path for user ${req.user.id}:`, error);
+        next(new ApiError('Failed to retrieve learning path', 500));
+    }
+};
+
+// @desc    Get a learning path that leads to the given target subjects
+// @route   GET /api/v1/learning-path/goal?targets=id1,id2
+// @access  Private
+exports.getGoalLearningPath = async (req, res, next) => {
+    const targetSubjectIds = parseSubjectIds(req.query.targets);
+    if (!targetSubjectIds || targetSubjectIds.length === 0) {
+        return next(new ApiError('At least one target subject is required', 400));
+    }
+
+    try {
+        const learningPath = await DynamicLearningPathService.createGoalLearningPath(req.user.id, targetSubjectIds, { timeZone: req.user.timeZone });
+
+        res.status(200).json({
+            success: true,
+            data: learningPath
+        });
+    } catch (error) {
+        logger.error(`Error getting goal learning path for user ${req.user.id}:`, error);
+        next(new ApiError('Failed to retrieve goal learning path', 500));
+    }
+};
+
+// @desc    Generate the learning paths of a cohort in one pass, with aggregate stats
+// @route   POST /api/v1/learning-path/cohort
+// @access  Private (admin, coach)
+exports.createCohortLearningPaths = async (req, res, next) => {
+    const { userIds, subjects } = req.body;
+
+    if (!Array.isArray(userIds) || userIds.length === 0 || !userIds.every(id => typeof id === 'string')) {
+        return next(new ApiError('userIds must be a non-empty array of user IDs', 400));
+    }
+    const uniqueUserIds = [...new Set(userIds)];
+    if (uniqueUserIds.length > MAX_COHORT_SIZE) {
+        return next(new ApiError(`A cohort can have at most ${MAX_COHORT_SIZE} users`, 400));
+    }
+    if (subjects !== undefined && !Array.isArray(subjects)) {
+        return next(new ApiError('subjects must be an array of subject IDs', 400));
+    }
+
+    try {
+        // Each learner's path is personalized in their own time zone; learners of other organizations are unknown here
+        const users = await User.find({
+            _id: { $in: uniqueUserIds.filter(id => mongoose.isValidObjectId(id)) },
+            organizationId: req.user.organizationId
+        })
+            .select('timeZone');
+        const timeZones = new Map(users.map(user => [user._id.toString(), user.timeZone]));
+
+        const unknownUserIds = uniqueUserIds.filter(id => !timeZones.has(id));
+        if (unknownUserIds.length > 0) {
+            return next(new ApiError(`Unknown users: ${unknownUserIds.join(', ')}`, 400));
+        }
+
+        const cohort = await DynamicLearningPathService.createCohortLearningPaths(
+            uniqueUserIds.map(userId => ({ userId, timeZone: timeZones.get(userId) })),
+            subjects
+        );
+
+        res.status(200).json({
+            success: true,
+            count: cohort.paths.length,
+            data: cohort
+        });
+    } catch (error) {
+        logger.error(`Error creating cohort learning paths for ${uniqueUserIds.length} users:`, error);
+        next(new ApiError('Failed to create cohort learning paths', 500));
+    }
+};
+
+// @desc    Save the order the current user arranged their learning path in
+// @route   POST /api/v1/learning-path/reorder
+// @access  Private
+exports.reorderLearningPath = async (req, res, next) => {
+    const { subjectIds } = req.body;
+    if (!Array.isArray(subjectIds) || !subjectIds.every(id => typeof id === 'string' && id.length > 0)) {
+        return next(new ApiError('subjectIds must be an array of subject IDs', 400));
+    }
+
+    try {
+        await DynamicLearningPathService.saveManualOrder(req.user.id, subjectIds);
+
+        // Return the regenerated path so the client can show any prerequisite conflicts
+        const learningPath = await DynamicLearningPathService.createLearningPath(req.user.id, undefined, { timeZone: req.user.timeZone });
+
+        res.status(200).json({
+            success: true,
+            data: learningPath
+        });
+    } catch (error) {
+        logger.error(`Error reordering learning path for user ${req.user.id}:`, error);
+        next(new ApiError('Failed to reorder learning path', 500));
+    }
+};
+
+// @desc    Discard the current user's manual ordering
+// @route   DELETE /api/v1/learning-path/reorder
+// @access  Private
+exports.resetLearningPathOrder = async (req, res, next) => {
+    try {
+        await DynamicLearningPathService.resetManualOrder(req.user.id);
+
+        const learningPath = await DynamicLearningPathService.createLearningPath(req.user.id, undefined, { timeZone: req.user.timeZone });
+
+        res.status(200).json({
+            success: true,
+            data: learningPath
+        });
+    } catch (error) {
+        logger.error(`Error resetting learning path order for user ${req.user.id}:`, error);
+        next(new ApiError('Failed to reset learning path order', 500));
+    }
+};
+
+// @desc    Plan a study schedule that finishes the learning path by a target date
+// @route   POST /api/v1/learning-path/schedule
+// @access  Private
+exports.createSchedule = async (req, res, next) => {
+    const { targetDate, weeklyMinutes, studyDays, preferredStartHour, targetSubjectIds } = req.body;
+
+    const parsedTargetDate = parseTargetDate(targetDate, req.user.timeZone);
+    if (!targetDate || isNaN(parsedTargetDate.getTime()) || parsedTargetDate < new Date()) {
+        return next(new ApiError('A future targetDate is required', 400));
+    }
+    if (typeof weeklyMinutes !== 'number' || weeklyMinutes <= 0) {
+        return next(new ApiError('weeklyMinutes must be a positive number', 400));
+    }
+    if (studyDays !== undefined && (!Array.isArray(studyDays) || !studyDays.every(day => Number.isInteger(day) && day >= 0 && day <= 6))) {
+        return next(new ApiError('studyDays must be an array of weekdays from 0 (Sunday) to 6 (Saturday)', 400));
+    }
+    if (preferredStartHour !== undefined && (!Number.isInteger(preferredStartHour) || preferredStartHour < 0 || preferredStartHour > 23)) {
+        return next(new ApiError('preferredStartHour must be an hour from 0 to 23', 400));
+    }
+    if (targetSubjectIds !== undefined && !Array.isArray(targetSubjectIds)) {
+        return next(new ApiError('targetSubjectIds must be an array of subject IDs', 400));
+    }
+
+    try {
+        const schedule = await LearningScheduleService.createSchedule(req.user.id, {
+            targetDate: parsedTargetDate,
+            weeklyMinutes,
+            studyDays,
+            preferredStartHour,
+            targetSubjectIds
+        }, req.user.timeZone);
+
+        res.status(201).json({
+            success: true,
+            data: schedule
+        });
+    } catch (error) {
+        logger.error(`Error creating learning schedule for user ${req.user.id}:`, error);
+        next(new ApiError('Failed to create learning schedule', 500));
+    }
+};
+
+// @desc    Get the current user's study schedule, re-planned if they have fallen behind
+// @route   GET /api/v1/learning-path/schedule
+// @access  Private
+exports.getSchedule = async (req, res, next) => {
+    try {
+        const schedule = await LearningScheduleService.getSchedule(req.user.id, req.user.timeZone);
+
+        if (!schedule) {
+            return next(new ApiError('No learning schedule found', 404));
+        }
+
+        res.status(200).json({
+            success: true,
+            data: schedule
+        });
+    } catch (error) {
+        logger.error(`Error getting learning schedule for user ${req.user.id}:`, error);
+        next(new ApiError('Failed to retrieve learning schedule', 500));
+    }
+};
+
+// @desc    Download the current user's study schedule as an iCalendar file
+// @route   GET /api/v1/learning-path/schedule/ics
+// @access  Private
+exports.exportScheduleICalendar = async (req, res, next) => {
+    try {
+        const calendar = await LearningScheduleService.exportICalendar(req.user.id, req.user.timeZone);
+
+        if (!calendar) {
+            return next(new ApiError('No learning schedule found', 404));
+        }
+
+        res.set({
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Content-Disposition': 'attachment; filename="neuroforge-schedule.ics"'
+        });
+        res.status(200).send(calendar);
+    } catch (error) {
+        logger.error(`Error exporting learning schedule for user ${req.user.id}:`, error);
+        next(new ApiError('Failed to export learning schedule', 500));
+    }
+};
+
+// Parses an optional positive integer query parameter, returning NaN if it is malformed
+const parseOptionalInt = (value) => {
+    if (value === undefined) return undefined;
+    return /^[1-9]\d*$/.test(value) ? parseInt(value, 10) : NaN;
+};
+
+// @desc    List the saved versions of a learning path, newest first
+// @route   GET /api/v1/learning-path/history?scope=full&limit=50
+// @route   GET /api/v1/learning-path/users/:userId/history (admin, coach)
+// @access  Private
+exports.getPathHistory = async (req, res, next) => {
+    const userId = req.params.userId || req.user.id;
+    const scope = req.query.scope || 'full';
+    const limit = parseOptionalInt(req.query.limit);
+    if (Number.isNaN(limit)) {
+        return next(new ApiError('limit must be a positive integer', 400));
+    }
+
+    try {
+        const versions = await LearningPathHistoryService.listVersions(userId, scope, limit);
+
+        res.status(200).json({
+            success: true,
+            count: versions.length,
+            data: versions
+        });
+    } catch (error) {
+        logger.error(`Error listing learning path history for user ${userId}:`, error);
+        next(new ApiError('Failed to retrieve learning path history', 500));
+    }
+};
+
+// @desc    Diff two versions of a learning path (defaults to the latest against the one before it)
+// @route   GET /api/v1/learning-path/history/diff?scope=full&from=1&to=2
+// @route   GET /api/v1/learning-path/users/:userId/history/diff (admin, coach)
+// @access  Private
+exports.getPathDiff = async (req, res, next) => {
+    const userId = req.params.userId || req.user.id;
+    const scope = req.query.scope || 'full';
+    const fromVersion = parseOptionalInt(req.query.from);
+    const toVersion = parseOptionalInt(req.query.to);
+    if (Number.isNaN(fromVersion) || Number.isNaN(toVersion)) {
+        return next(new ApiError('from and to must be positive version numbers', 400));
+    }
+
+    try {
+        const diff = await LearningPathHistoryService.diffVersions(userId, scope, toVersion, fromVersion);
+
+        if (!diff) {
+            return next(new ApiError('Learning path version not found', 404));
+        }
+
+        res.status(200).json({
+            success: true,
+            data: diff
+        });
+    } catch (error) {
+        logger.error(`Error diffing learning path versions for user ${userId}:`, error);
+        next(new ApiError('Failed to diff learning path versions', 500));
+    }
+};
+
+// @desc    Invalidate the current user's cached learning paths on every instance
+// @route   POST /api/v1/learning-path/invalidate
+// @access  Private
+exports.invalidateLearningPath = async (req, res, next) => {
+    try {
+        await DynamicLearningPathService.invalidateCache(req.user.id);
+
+        res.status(200).json({
+            success: true,
+            message: 'Learning path cache invalidated'
+        });
+    } catch (error) {
+        logger.error(`Error invalidating learning path cache for user ${req.user.id}:`, error);
+        next(new ApiError('Failed to invalidate learning path cache', 500));
+    }
+};
+
+// @desc    Validate the curriculum dependency graph and report cycles
+// @route   GET /api/v1/learning-path/curriculum/validate?subjects=id1,id2
+// @access  Private (admin, creator)
+exports.validateCurriculum = async (req, res, next) => {
+    try {
+        const subjectIds = parseSubjectIds(req.query.subjects);
+        const cycleReport = await DynamicLearningPathService.validateCurriculum(subjectIds);
+
+        if (cycleReport.hasCycles) {
+            logger.warn(`Curriculum validation found ${cycleReport.cycles.length} dependency cycle(s)`);
+        }
+
+        res.status(200).json({
+            success: true,
+            data: cycleReport
+        });
+    } catch (error) {
+        logger.error('Error validating curriculum:', error);
+        next(new ApiError('Failed to validate curriculum', 500));
+    }
+};
@@ -4,6 +4,7 @@ const Subject = require('../models/mongo/Subject'); // Assuming MongoDB model
 const SubjectOrderingService = require('../services/SubjectOrderingService'); // Import the service
 const ApiError = require('../utils/apiError');
 const logger = require('../utils/logger');
+const { domainEvents, DomainEvents } = require('../utils/domainEvents');
 
 // Get all subjects, potentially ordered
 exports.getSubjects = async (req, res, next) => {
@@ -26,7 +27,7 @@ exports.getSubjects = async (req, res, next) => {
 // Add a new subject
 exports.addSubject = async (req, res, next) => {
     try {
-        const { title, description, tags, prerequisites } = req.body;
+        const { id, title, description, tags, prerequisites } = req.body;
 
         // Basic validation
         if (!title) {
@@ -34,6 +35,7 @@ exports.addSubject = async (req, res, next) => {
         }
 
         const newSubject = await Subject.create({
+            id, // Curriculum ID, if the subject joins the curriculum right away
             title,
             description,
             tags,
@@ -41,6 +43,11 @@ exports.addSubject = async (req, res, next) => {
             createdBy: req.user.id // Assuming user info is attached by auth middleware
         });
 
+        // Learning paths only contain subjects with a curriculum ID
+        if (newSubject.id) {
+            domainEvents.publish(DomainEvents.SUBJECT_CREATED, { subjectId: newSubject.id });
+        }
+
         // Trigger cache invalidation or reordering calculation asynchronously
         SubjectOrderingService.handleSubjectChange(newSubject._id, 'add').catch(err => {
             logger.error('Error triggering subject change handler:', err)
@@ -59,28 +66,77 @@ exports.addSubject = async (req, res, next) => {
     }
 };
 
-// --- Placeholder functions for other operations ---
+// Update a subject's content
+exports.updateSubject = async (req, res, next) => {
+    try {
+        const subject = await Subject.findById(req.params.id);
+        if (!subject) {
+            return next(new ApiError(`Subject not found with ID: ${req.params.id}`, 404));
+        }
 
-exports.getSubjectById = async (req, res, next) => {
-    // ... implementation ... findById
-     res.status(200).json({ success: true, message: `Get subject ${req.params.id}` });
-};
+        const { title, description, tags, prerequisites } = req.body;
+        if (title !== undefined) subject.title = title;
+        if (description !== undefined) subject.description = description;
+        if (tags !== undefined) subject.tags = tags;
+        if (prerequisites !== undefined) subject.prerequisites = prerequisites;
+        await subject.save();
 
-exports.updateSubject = async (req, res, next) => {
-    // ... implementation ... findByIdAndUpdate
-    // Trigger SubjectOrderingService.handleSubjectChange(id, 'update')
-     res.status(200).json({ success: true, message: `Update subject ${req.params.id}` });
+        if (subject.id) {
+            domainEvents.publish(DomainEvents.SUBJECT_UPDATED, { subjectId: subject.id });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: subject
+        });
+    } catch (error) {
+        logger.error(`Error updating subject ${req.params.id}:`, error);
+        if (error.name === 'ValidationError') {
+            return next(new ApiError(error.message, 400));
+        }
+        if (error.name === 'CastError') {
+            return next(new ApiError(`Invalid Subject ID: ${req.params.id}`, 400));
+        }
+        next(new ApiError('Server error while updating subject', 500));
+    }
 };
 
+// Delete a subject
 exports.deleteSubject = async (req, res, next) => {
-    // ... implementation ... findByIdAndDelete
-    // Trigger SubjectOrderingService.handleSubjectChange(id, 'delete')
-     res.status(200).json({ success: true, message: `Delete subject ${req.params.id}` });
+    try {
+        const subject = await Subject.findByIdAndDelete(req.params.id);
+        if (!subject) {
+            return next(new ApiError(`Subject not found with ID: ${req.params.id}`, 404));
+        }
+
+        if (subject.id) {
+            domainEvents.publish(DomainEvents.SUBJECT_DELETED, { subjectId: subject.id });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {}
+        });
+    } catch (error) {
+        logger.error(`Error deleting subject ${req.params.id}:`, error);
+        if (error.name === 'CastError') {
+            return next(new ApiError(`Invalid Subject ID: ${req.params.id}`, 400));
+        }
+        next(new ApiError('Server error while deleting subject', 500));
+    }
+};
+
+// --- Placeholder functions for other operations ---
+
+exports.getSubjectById = async (req, res, next) => {
+    // ... implementation ... findById
+     res.status(200).json({ success: true, message: `Get subject ${req.params.id}` });
 };
 
 exports.manualReorderSubjects = async (req, res, next) => {
     // ... implementation ... Update order field based on drag-drop data
     // This might bypass the graph algorithm temporarily or adjust weights
+    domainEvents.publish(DomainEvents.SUBJECTS_REORDERED, { subjectIds: req.body.subjectIds || [] });
      res.status(200).json({ success: true, message: `Subjects reordered manually` });
 };
 
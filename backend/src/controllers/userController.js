@@ -3,6 +3,8 @@
 const User = require('../models/mongo/User');
 const ApiError = require('../utils/apiError');
 const logger = require('../utils/logger');
+const { isValidTimeZone } = require('../utils/timeZone');
+const { domainEvents, DomainEvents } = require('../utils/domainEvents');
 
 // @desc    Get logged-in user's profile (could be same as getMe or more specific)
 // @route   GET /api/v1/users/profile
@@ -20,12 +22,19 @@ exports.getMyProfile = async (req, res, next) => {
 // @access  Private
 exports.updateMyProfile = async (req, res, next) => {
     // Fields allowed to be updated by the user themselves
-    const { name, preferences, avatar } = req.body;
+    const { name, preferences, avatar, timeZone } = req.body;
     const fieldsToUpdate = {};
 
     if (name) fieldsToUpdate.name = name;
     if (avatar) fieldsToUpdate.avatar = avatar;
 
+    if (timeZone !== undefined) {
+        if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+            return next(new ApiError('timeZone must be a valid IANA time zone, e.g. Europe/Berlin', 400));
+        }
+        fieldsToUpdate.timeZone = timeZone;
+    }
+
     // --- UPDATED PREFERENCES HANDLING ---
     if (preferences) {
         // Get existing preferences to merge non-provided fields
@@ -60,6 +69,11 @@ exports.updateMyProfile = async (req, res, next) => {
             return next(new ApiError('User not found', 404));
         }
 
+        // Cached learning paths were personalized for the previous time zone
+        if (fieldsToUpdate.timeZone && fieldsToUpdate.timeZone !== req.user.timeZone) {
+            domainEvents.publish(DomainEvents.TIME_ZONE_UPDATED, { userId: req.user.id, timeZone: fieldsToUpdate.timeZone });
+        }
+
         logger.info(`User profile updated: ${user.email} (ID: ${user._id})`, { updatedFields: Object.keys(fieldsToUpdate) });
         res.status(200).json({
             success: true,
@@ -1,10 +1,12 @@
 // neuroforge/backend/src/middleware/authMiddleware.js
 // Purpose: Middleware to verify backend API JWT
+const crypto = require('crypto');
 const jwt = require('jsonwebtoken');
 const config = require('../config');
 const User = require('../models/mongo/User'); // Needed to attach user object to request
 const ApiError = require('../utils/apiError');
 const logger = require('../utils/logger');
+const { runWithOrganization } = require('../../lib/tenantContext');
 
 // Protect routes - verifies JWT token from Authorization header
 exports.protect = async (req, res, next) => {
@@ -42,7 +44,18 @@ exports.protect = async (req, res, next) => {
             return next(new ApiError('User not found', 401));
         }
 
-        next(); // Proceed to the next middleware or route handler
+        if (!req.user.organizationId) {
+            logger.warn(`Access denied: User ${decoded.id} does not belong to an organization`, { url: req.originalUrl });
+            return next(new ApiError('User does not belong to an organization', 403));
+        }
+        // Tokens issued before the user moved to another organization are no longer valid
+        if (decoded.org && decoded.org !== req.user.organizationId) {
+            logger.warn(`Access denied: Token organization does not match user ${decoded.id}`, { url: req.originalUrl });
+            return next(new ApiError('Not authorized - Organization changed, please sign in again', 401));
+        }
+
+        // Proceed to the next middleware or route handler; every scoped query it makes is restricted to the user's organization
+        runWithOrganization(req.user.organizationId, () => next());
     } catch (err) {
         logger.error('Token verification failed:', err.message, { token: token ? 'present' : 'missing' });
         if (err.name === 'JsonWebTokenError') {
@@ -69,4 +82,22 @@ exports.authorize = (...roles) => {
         }
         next();
     };
-};
\ No newline at end of file
+};
+// Restrict routes to NeuroForge's own servers - they present the shared internal API secret
+exports.internalOnly = (req, res, next) => {
+    const expected = config.internalApi.secret;
+    const provided = req.headers['x-internal-api-secret'];
+
+    if (!expected) {
+        logger.error('Internal route called but INTERNAL_API_SECRET is not configured', { url: req.originalUrl });
+        return next(new ApiError('Not authorized to access this route', 401));
+    }
+    const matches = typeof provided === 'string' &&
+        provided.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(expected));
+    if (!matches) {
+        logger.warn('Access denied: Invalid internal API secret', { url: req.originalUrl });
+        return next(new ApiError('Not authorized to access this route', 401));
+    }
+    next();
+};
@@ -0,0 +1,60 @@
+// neuroforge/backend/src/migrate.js
+// Purpose: CLI entry point for the Mongo schema migrations
+//
+// Usage: npm run migrate -- <status|up|down> [--to <migration-id>] [--dry-run]
+//   status          List every migration and when it was applied
+//   up              Apply pending migrations (up to --to, if given)
+//   down            Roll back the latest migration (or every one after --to)
+//   --dry-run       Show what would run without changing anything
+require('dotenv').config();
+const { db } = require('../lib/db');
+const { MigrationRunner } = require('./migrations/MigrationRunner');
+const { migrations } = require('./migrations');
+
+const USAGE = 'Usage: npm run migrate -- <status|up|down> [--to <migration-id>] [--dry-run]';
+
+const parseArgs = (args) => {
+    const [command, ...rest] = args;
+    const options = { dryRun: false };
+
+    for (let i = 0; i < rest.length; i++) {
+        if (rest[i] === '--dry-run') {
+            options.dryRun = true;
+        } else if (rest[i] === '--to' && rest[i + 1]) {
+            options.to = rest[++i];
+        } else {
+            throw new Error(`Unknown argument: ${rest[i]}`);
+        }
+    }
+
+    return { command, options };
+};
+
+const main = async () => {
+    const { command, options } = parseArgs(process.argv.slice(2));
+    const runner = new MigrationRunner(migrations);
+
+    await db.connect();
+    try {
+        if (command === 'status') {
+            const statuses = await runner.status();
+            statuses.forEach(({ id, description, appliedAt }) => {
+                console.log(`${appliedAt ? appliedAt.toISOString() : 'pending                 '}  ${id}  ${description}`);
+            });
+        } else if (command === 'up' || command === 'down') {
+            const result = await runner[command](options);
+            if (result.migrationIds.length === 0) {
+                console.log('No migrations to run');
+            }
+        } else {
+            throw new Error(USAGE);
+        }
+    } finally {
+        await db.disconnect();
+    }
+};
+
+main().catch((err) => {
+    console.error(err.message);
+    process.exit(1);
+});
@@ -0,0 +1,278 @@
+import { Document } from 'mongodb';
+import { db } from '@/lib/db';
+import { StorageCollection } from '@/lib/storage';
+
+/**
+ * What a migration script can use while it runs
+ */
+export interface MigrationContext {
+  // Gets a collection from the shared DatabaseService connection, across all organizations
+  collection<T extends Document = Document>(name: string): StorageCollection<T>;
+  // Drops an index, doing nothing if it (or its collection) is already gone
+  dropIndexIfExists(collection: string, index: string): Promise<void>;
+  log(message: string): void;
+}
+
+/**
+ * A versioned change to the shape of the stored documents
+ *
+ * Both directions must be safe to run again on a database they already changed:
+ * a migration is recorded only after it ran, so one interrupted in between runs again.
+ */
+export interface Migration {
+  // Unique, sortable ID; migrations run in ID order (e.g. `20250601-subject-dependency-mastery`)
+  id: string;
+  description: string;
+  up(context: MigrationContext): Promise<void>;
+  // Reverts `up`; should leave documents as they were before it ran
+  down(context: MigrationContext): Promise<void>;
+}
+
+/**
+ * A migration and whether it has been applied to the database
+ */
+export interface MigrationStatus {
+  id: string;
+  description: string;
+  appliedAt: Date | null;
+}
+
+/**
+ * What a run of the migrator did, or would do in a dry run
+ */
+export interface MigrationRunResult {
+  direction: 'up' | 'down';
+  // IDs of the migrations applied or rolled back, in the order they ran
+  migrationIds: string[];
+  dryRun: boolean;
+}
+
+export interface MigrationRunOptions {
+  // Stop after this migration (up) or roll back down to, but not including, it (down)
+  to?: string;
+  // Report what would run without changing anything
+  dryRun?: boolean;
+}
+
+interface AppliedMigrationDocument {
+  _id: string;
+  description: string;
+  appliedAt: Date;
+  durationMs: number;
+}
+
+interface MigrationLockDocument {
+  _id: string;
+  lockedAt: Date;
+  host: string;
+}
+
+// The single lock document; only one migrator may hold it at a time
+const LOCK_ID = 'migration_lock';
+
+// MongoDB error codes for a missing collection or index
+const NAMESPACE_NOT_FOUND_ERROR = 26;
+const INDEX_NOT_FOUND_ERROR = 27;
+
+/**
+ * MigrationRunner
+ *
+ * Applies and rolls back versioned migration scripts against the Mongo collections,
+ * recording each applied migration in a state collection. A lock document stops two
+ * instances from migrating at the same time during a rollout.
+ *
+ * Migrations are recorded after they ran, not atomically with it, so scripts must be
+ * safe to re-run (see `Migration`).
+ */
+export class MigrationRunner {
+  private readonly migrations: Migration[];
+
+  constructor(
+    migrations: Migration[],
+    private readonly stateCollectionName = 'schema_migrations',
+    private readonly log: (message: string) => void = message => console.log(message)
+  ) {
+    const ids = migrations.map(migration => migration.id);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) {
+      throw new Error(`Duplicate migration ID: ${duplicate}`);
+    }
+
+    this.migrations = [...migrations].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Lists every known migration and when it was applied
+   */
+  public async status(): Promise<MigrationStatus[]> {
+    const applied = await this.fetchApplied();
+
+    return this.migrations.map(({ id, description }) => ({
+      id,
+      description,
+      appliedAt: applied.get(id)?.appliedAt ?? null
+    }));
+  }
+
+  /**
+   * Applies pending migrations in order
+   *
+   * @param options Optional target migration and dry-run flag
+   * @returns The migrations applied, or that would be in a dry run
+   */
+  public async up(options: MigrationRunOptions = {}): Promise<MigrationRunResult> {
+    const { to, dryRun = false } = options;
+    const targetIndex = this.indexOf(to, this.migrations.length - 1);
+
+    const applied = await this.fetchApplied();
+    const pending = this.migrations
+      .slice(0, targetIndex + 1)
+      .filter(migration => !applied.has(migration.id));
+
+    return this.run('up', pending, dryRun);
+  }
+
+  /**
+   * Rolls back applied migrations, newest first
+   *
+   * Rolls back only the latest migration unless a target is given.
+   *
+   * @param options Optional target migration and dry-run flag
+   * @returns The migrations rolled back, or that would be in a dry run
+   */
+  public async down(options: MigrationRunOptions = {}): Promise<MigrationRunResult> {
+    const { to, dryRun = false } = options;
+    const targetIndex = this.indexOf(to, -1);
+
+    const applied = await this.fetchApplied();
+    const unknown = [...applied.keys()].filter(id => !this.migrations.some(migration => migration.id === id));
+    if (unknown.length > 0) {
+      throw new Error(`Cannot roll back migrations missing from this build: ${unknown.join(', ')}`);
+    }
+
+    const appliedMigrations = this.migrations.filter(migration => applied.has(migration.id)).reverse();
+    const toRollBack = to === undefined
+      ? appliedMigrations.slice(0, 1)
+      : appliedMigrations.filter(migration => this.migrations.indexOf(migration) > targetIndex);
+
+    return this.run('down', toRollBack, dryRun);
+  }
+
+  /**
+   * Runs migrations in one direction while holding the migration lock
+   */
+  private async run(direction: 'up' | 'down', migrations: Migration[], dryRun: boolean): Promise<MigrationRunResult> {
+    const migrationIds = migrations.map(migration => migration.id);
+
+    if (dryRun || migrations.length === 0) {
+      migrationIds.forEach(id => this.log(`${dryRun ? '[dry run] would ' : ''}${direction === 'up' ? 'apply' : 'roll back'} ${id}`));
+      return { direction, migrationIds, dryRun };
+    }
+
+    await this.acquireLock();
+    try {
+      for (const migration of migrations) {
+        await this.runOne(direction, migration);
+      }
+    } finally {
+      await this.releaseLock();
+    }
+
+    return { direction, migrationIds, dryRun };
+  }
+
+  /**
+   * Runs one migration and records the result in the state collection
+   *
+   * Migrations that fail are not recorded, so they run again next time. Neither is one
+   * whose process stops between running it and recording it.
+   */
+  private async runOne(direction: 'up' | 'down', migration: Migration): Promise<void> {
+    const context: MigrationContext = {
+      collection: <T extends Document = Document>(name: string) => db.systemCollection<T>(name),
+      dropIndexIfExists: async (name, index) => {
+        try {
+          await db.systemCollection(name).dropIndex(index);
+        } catch (error) {
+          const code = (error as { code?: number }).code;
+          if (code !== NAMESPACE_NOT_FOUND_ERROR && code !== INDEX_NOT_FOUND_ERROR) throw error;
+          context.log(`index ${name}.${index} does not exist`);
+        }
+      },
+      log: message => this.log(`  ${migration.id}: ${message}`)
+    };
+    const startedAt = Date.now();
+
+    this.log(`${direction === 'up' ? 'Applying' : 'Rolling back'} ${migration.id}: ${migration.description}`);
+    try {
+      await migration[direction](context);
+    } catch (error) {
+      console.error(`Error ${direction === 'up' ? 'applying' : 'rolling back'} migration ${migration.id}:`, error);
+      throw new Error(`Failed to ${direction === 'up' ? 'apply' : 'roll back'} migration ${migration.id}`);
+    }
+
+    if (direction === 'up') {
+      await this.stateCollection().insertOne({
+        _id: migration.id,
+        description: migration.description,
+        appliedAt: new Date(),
+        durationMs: Date.now() - startedAt
+      });
+    } else {
+      await this.stateCollection().deleteOne({ _id: migration.id });
+    }
+  }
+
+  /**
+   * Finds a migration's position, failing on unknown IDs
+   */
+  private indexOf(migrationId: string | undefined, fallback: number): number {
+    if (migrationId === undefined) return fallback;
+
+    const index = this.migrations.findIndex(migration => migration.id === migrationId);
+    if (index === -1) {
+      throw new Error(`Unknown migration: ${migrationId}`);
+    }
+    return index;
+  }
+
+  /**
+   * Fetches the applied migrations by ID
+   */
+  private async fetchApplied(): Promise<Map<string, AppliedMigrationDocument>> {
+    const documents = await this.stateCollection().find({ _id: { $ne: LOCK_ID } }).toArray();
+    return new Map(documents.map(document => [document._id, document]));
+  }
+
+  /**
+   * Takes the migration lock
+   *
+   * @throws Error if another migrator holds it
+   */
+  private async acquireLock(): Promise<void> {
+    try {
+      await this.lockCollection().insertOne({ _id: LOCK_ID, lockedAt: new Date(), host: process.env.HOSTNAME || 'unknown' });
+    } catch (error) {
+      const lock = await this.lockCollection().findOne({ _id: LOCK_ID });
+      if (!lock) throw error;
+
+      throw new Error(
+        `Migrations are locked by ${lock.host} since ${lock.lockedAt.toISOString()}. ` +
+        `If no migration is running, delete the ${LOCK_ID} document from ${this.stateCollectionName}.`
+      );
+    }
+  }
+
+  private async releaseLock(): Promise<void> {
+    await this.lockCollection().deleteOne({ _id: LOCK_ID });
+  }
+
+  private stateCollection(): StorageCollection<AppliedMigrationDocument> {
+    return db.systemCollection<AppliedMigrationDocument>(this.stateCollectionName);
+  }
+
+  // The lock lives in the state collection, so migrating needs no extra collection
+  private lockCollection(): StorageCollection<MigrationLockDocument> {
+    return db.systemCollection<MigrationLockDocument>(this.stateCollectionName);
+  }
+}
@@ -0,0 +1,13 @@
+import type { Migration } from './MigrationRunner';
+import { learningPathIndexes } from './scripts/20250601000000-learning-path-indexes';
+import { organizations } from './scripts/20250701000000-organizations';
+
+/**
+ * Every migration, registered in the order they were written
+ *
+ * Add new scripts under `scripts/` with an ID that sorts after the existing ones.
+ */
+export const migrations: Migration[] = [
+  learningPathIndexes,
+  organizations
+];
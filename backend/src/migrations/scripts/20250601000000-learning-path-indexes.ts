@@ -0,0 +1,36 @@
+import type { Document, IndexSpecification } from 'mongodb';
+import type { Migration } from '../MigrationRunner';
+
+// Per-user and per-subject lookups made by the learning path repositories
+const INDEXES: Array<{ collection: string, key: IndexSpecification, name: string, partialFilterExpression?: Document }> = [
+  // Subjects created through the mongoose model have no `id`, so only the others are indexed
+  { collection: 'subjects', key: { id: 1 }, name: 'id_unique', partialFilterExpression: { id: { $exists: true } } },
+  { collection: 'user_performance', key: { userId: 1 }, name: 'userId_unique' },
+  { collection: 'cognitive_feedback', key: { userId: 1 }, name: 'userId_unique' },
+  { collection: 'learning_path_overrides', key: { userId: 1 }, name: 'userId_unique' }
+];
+
+/**
+ * Adds unique indexes on the keys the learning path services query by
+ *
+ * Fails if a collection already holds duplicates, which the repositories would
+ * otherwise resolve arbitrarily.
+ */
+export const learningPathIndexes: Migration = {
+  id: '20250601000000-learning-path-indexes',
+  description: 'Add unique indexes on subject IDs and per-user learning documents',
+
+  async up({ collection, log }) {
+    for (const { collection: name, key, name: indexName, partialFilterExpression } of INDEXES) {
+      await collection(name).createIndex(key, { name: indexName, unique: true, ...(partialFilterExpression ? { partialFilterExpression } : {}) });
+      log(`created ${name}.${indexName}`);
+    }
+  },
+
+  async down({ dropIndexIfExists, log }) {
+    for (const { collection: name, name: indexName } of INDEXES) {
+      await dropIndexIfExists(name, indexName);
+      log(`dropped ${name}.${indexName}`);
+    }
+  }
+};
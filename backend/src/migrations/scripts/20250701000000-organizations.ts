@@ -0,0 +1,71 @@
+import type { Migration } from '../MigrationRunner';
+
+// Collections whose documents are owned by an organization, including those of the mongoose models
+const OWNED_COLLECTIONS = [
+  'users',
+  'subjects',
+  'lessons',
+  'userprogresses',
+  'user_performance',
+  'cognitive_feedback',
+  'learning_path_overrides',
+  'learning_path_versions',
+  'learning_schedules'
+];
+
+const DEFAULT_SLUG = 'default';
+
+// Subjects created through the mongoose model have no `id`, so only the others are indexed
+const SUBJECT_ID_FILTER = { partialFilterExpression: { id: { $exists: true } } };
+
+/**
+ * Moves every existing user and learning document into a default organization
+ *
+ * Subject IDs only need to be unique within an organization afterwards, so two
+ * organizations can each have their own `algebra`.
+ */
+export const organizations: Migration = {
+  id: '20250701000000-organizations',
+  description: 'Assign existing users and learning data to a default organization',
+
+  async up({ collection, dropIndexIfExists, log }) {
+    const organizationsCollection = collection('organizations');
+    if (!await organizationsCollection.findOne({ slug: DEFAULT_SLUG })) {
+      await organizationsCollection.insertOne({ name: 'Default organization', slug: DEFAULT_SLUG, emailDomains: [], createdAt: new Date() });
+      log('created the default organization');
+    }
+    const organization = await organizationsCollection.findOne({ slug: DEFAULT_SLUG });
+    if (!organization) {
+      throw new Error('Failed to create the default organization');
+    }
+    const organizationId = String(organization._id);
+
+    for (const name of OWNED_COLLECTIONS) {
+      await collection(name).updateMany({ organizationId: { $exists: false } }, { $set: { organizationId } });
+      log(`assigned ${name} to organization ${organizationId}`);
+    }
+
+    await dropIndexIfExists('subjects', 'id_unique');
+    await collection('subjects').createIndex({ organizationId: 1, id: 1 }, { name: 'organizationId_id_unique', unique: true, ...SUBJECT_ID_FILTER });
+    log('made subject IDs unique per organization');
+  },
+
+  async down({ collection, dropIndexIfExists, log }) {
+    // Merging several curricula back into one could silently mix organizations' data
+    const others = await collection('organizations').find({ slug: { $ne: DEFAULT_SLUG } }).toArray();
+    if (others.length > 0) {
+      throw new Error(`Cannot roll back while other organizations exist: ${others.map(other => other.slug).join(', ')}`);
+    }
+
+    await dropIndexIfExists('subjects', 'organizationId_id_unique');
+    await collection('subjects').createIndex({ id: 1 }, { name: 'id_unique', unique: true, ...SUBJECT_ID_FILTER });
+
+    for (const name of OWNED_COLLECTIONS) {
+      await collection(name).updateMany({}, { $unset: { organizationId: '' } });
+      log(`removed the organization from ${name}`);
+    }
+
+    await collection('organizations').deleteMany({ slug: DEFAULT_SLUG });
+    log('deleted the default organization');
+  }
+};
@@ -0,0 +1,50 @@
+// neuroforge/backend/src/models/mongo/AiSpend.js
+// Purpose: Mongoose schema for the AI spend ledger - tokens and estimated cost per user, day and feature
+const mongoose = require('mongoose');
+const organizationScope = require('./plugins/organizationScope');
+
+// Features that call AI providers
+const AI_FEATURES = ['tutor', 'quiz'];
+
+const AiSpendSchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+    },
+    // UTC day the requests were made on, 'YYYY-MM-DD'
+    day: {
+        type: String,
+        required: true,
+        match: [/^\d{4}-\d{2}-\d{2}$/, 'Day must be a YYYY-MM-DD date'],
+    },
+    feature: {
+        type: String,
+        enum: AI_FEATURES,
+        required: true,
+    },
+    // Who pays the provider: the platform, or the user through their own API key
+    billedTo: {
+        type: String,
+        enum: ['platform', 'user'],
+        required: true,
+    },
+    requests: { type: Number, default: 0 },
+    promptTokens: { type: Number, default: 0 },
+    completionTokens: { type: Number, default: 0 },
+    totalTokens: { type: Number, default: 0 },
+    // Estimated from the pricing table at the time of each request
+    cost: { type: Number, default: 0 },
+    currency: { type: String, default: 'USD' },
+}, { timestamps: true });
+
+AiSpendSchema.plugin(organizationScope);
+
+// Requests are added to one entry per user, day, feature and payer
+AiSpendSchema.index({ user: 1, day: 1, feature: 1, billedTo: 1 }, { unique: true });
+// Budget checks add up an organization's spend of the day
+AiSpendSchema.index({ organizationId: 1, day: 1 });
+
+AiSpendSchema.statics.FEATURES = AI_FEATURES;
+
+module.exports = mongoose.model('AiSpend', AiSpendSchema);
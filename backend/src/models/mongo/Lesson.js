@@ -1,6 +1,7 @@
 // neuroforge/backend/src/models/mongo/Lesson.js
 // Purpose: Mongoose schema for individual learning modules/microlearnings
 const mongoose = require("mongoose");
+const organizationScope = require('./plugins/organizationScope');
 
 const focusTimerSchema = new mongoose.Schema({
   duration: {
@@ -185,4 +186,7 @@ LessonSchema.pre("save", function (next) {
 
 LessonSchema.index({ subject: 1, orderIndex: 1 }); // If adding manual order within subject
 
+// Each organization has its own curriculum; queries only see the current organization's documents
+LessonSchema.plugin(organizationScope);
+
 module.exports = mongoose.model("Lesson", LessonSchema);
@@ -0,0 +1,49 @@
+// neuroforge/backend/src/models/mongo/Organization.js
+// Purpose: Mongoose schema for Organizations (tenants owning a curriculum and their learners)
+const mongoose = require('mongoose');
+
+const OrganizationSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: [true, 'Please add an organization name'],
+        trim: true,
+        maxlength: [150, 'Name cannot be more than 150 characters']
+    },
+    // URL-safe identifier, e.g. 'acme-academy'
+    slug: {
+        type: String,
+        required: true,
+        unique: true,
+        lowercase: true,
+        match: [/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, digits and dashes']
+    },
+    // New users signing up with an email on one of these domains join the organization
+    emailDomains: {
+        type: [String],
+        default: []
+    },
+    // Daily AI budgets in USD, overriding the configured defaults (config.aiBudget); 0 turns a limit off
+    aiBudget: {
+        userDailySoftUsd: { type: Number, min: 0 },
+        userDailyHardUsd: { type: Number, min: 0 },
+        organizationDailySoftUsd: { type: Number, min: 0 },
+        organizationDailyHardUsd: { type: Number, min: 0 },
+    },
+    createdAt: {
+        type: Date,
+        default: Date.now
+    }
+});
+
+OrganizationSchema.index({ emailDomains: 1 });
+
+// Organization that users without a matching email domain join
+OrganizationSchema.statics.DEFAULT_SLUG = 'default';
+
+// Finds the organization a new user with this email joins
+OrganizationSchema.statics.findForEmail = async function(email) {
+    const domain = String(email).split('@').pop().toLowerCase();
+    return (await this.findOne({ emailDomains: domain })) || this.findOne({ slug: this.DEFAULT_SLUG });
+};
+
+module.exports = mongoose.model('Organization', OrganizationSchema);
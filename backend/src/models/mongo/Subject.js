@@ -1,8 +1,16 @@
 // neuroforge/backend/src/models/mongo/Subject.js
 // Purpose: Mongoose schema for Subjects
 const mongoose = require('mongoose');
+const organizationScope = require('./plugins/organizationScope');
 
 const SubjectSchema = new mongoose.Schema({
+    // Curriculum ID learning paths refer to the subject by (replaces mongoose's `id` alias of `_id`);
+    // subjects without one are not part of the curriculum yet
+    id: {
+        type: String,
+        required: false,
+        trim: true
+    },
     title: {
         type: String,
         required: [true, 'Please add a subject title'],
@@ -91,4 +99,7 @@ SubjectSchema.pre('save', function(next) {
 SubjectSchema.index({ tags: 1 });
 SubjectSchema.index({ createdBy: 1 });
 
+// Each organization has its own curriculum; queries only see the current organization's documents
+SubjectSchema.plugin(organizationScope);
+
 module.exports = mongoose.model('Subject', SubjectSchema);
\ No newline at end of file
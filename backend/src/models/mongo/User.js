@@ -2,6 +2,7 @@
 // Purpose: Mongoose schema for Users
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const { isValidTimeZone } = require('../../utils/timeZone');
 
 const UserSchema = new mongoose.Schema({
     // Basic info from OAuth or local signup (if implemented later)
@@ -40,10 +41,15 @@ const UserSchema = new mongoose.Schema({
         type: String,
         required: false,
     },
+    // Organization (tenant) the user belongs to; their learning data is scoped to it
+    organizationId: {
+        type: String,
+        index: true,
+    },
     // NeuroForge specific fields
     role: {
         type: String,
-        enum: ['user', 'admin', 'creator'], // Example roles
+        enum: ['user', 'admin', 'creator', 'coach'], // Example roles
         default: 'user',
     },
     preferences: {
@@ -69,6 +75,15 @@ const UserSchema = new mongoose.Schema({
         type: Boolean,
         default: false,
     },
+    // IANA time zone (e.g. 'Europe/Berlin') used to evaluate peak hours and plan study days
+    timeZone: {
+        type: String,
+        default: 'UTC',
+        validate: {
+            validator: isValidTimeZone,
+            message: props => `${props.value} is not a valid IANA time zone`
+        }
+    },
     // Gamification Data
     xp: { type: Number, default: 0 },
     level: { type: Number, default: 1 },
@@ -132,7 +147,7 @@ UserSchema.pre('save', function(next) {
 
 // Method to generate JWT for API authentication (called after OAuth validation)
 UserSchema.methods.getSignedJwtToken = function () {
-    return jwt.sign({ id: this._id, role: this.role }, config.jwt.secret, {
+    return jwt.sign({ id: this._id, role: this.role, org: this.organizationId }, config.jwt.secret, {
         expiresIn: config.jwt.expiresIn,
     });
 };
@@ -153,8 +168,10 @@ UserSchema.statics.findOrCreate = async function(profile) {
             if (updated) { await user.save(); }
             return user;
         } else {
-            // Create new user
+            // Create new user in the organization of their email domain
+            const organization = await Organization.findForEmail(profile.email);
             user = await this.create({
+                organizationId: organization ? organization._id.toString() : undefined,
                 name: profile.name,
                 email: profile.email,
                 authProvider: profile.provider,
@@ -178,4 +195,5 @@ UserSchema.statics.findOrCreate = async function(profile) {
 module.exports = mongoose.model('User', UserSchema);
 const jwt = require('jsonwebtoken'); // Import JWT here to avoid circular dependency issues if needed elsewhere
 const config = require('../config');
+const Organization = require('./Organization');
 const logger = require('../utils/logger');
\ No newline at end of file
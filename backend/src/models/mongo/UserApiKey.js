@@ -0,0 +1,51 @@
+// neuroforge/backend/src/models/mongo/UserApiKey.js
+// Purpose: Mongoose schema for AI provider API keys users bring themselves (stored envelope-encrypted)
+const mongoose = require('mongoose');
+
+const AI_KEY_PROVIDERS = ['anthropic', 'openai', 'gemini', 'grok'];
+
+// Output of utils/encryption encrypt(); the key itself is never stored in plain text
+const EnvelopeSchema = new mongoose.Schema({
+    keyVersion: { type: String, required: true }, // Version of the master key wrapping the data key
+    wrappedKey: { type: String, required: true },
+    ciphertext: { type: String, required: true },
+}, { _id: false });
+
+const UserApiKeySchema = new mongoose.Schema({
+    user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+    },
+    provider: {
+        type: String,
+        enum: AI_KEY_PROVIDERS,
+        required: true,
+    },
+    envelope: {
+        type: EnvelopeSchema,
+        required: true,
+    },
+    // Last characters of the key, so users can tell their keys apart
+    last4: {
+        type: String,
+        required: true,
+    },
+    // When the provider last accepted the key
+    lastValidatedAt: {
+        type: Date,
+    },
+    // When the master key wrapping the key was last rotated
+    rewrappedAt: {
+        type: Date,
+    },
+}, { timestamps: true });
+
+// One key per provider per user; saving another key replaces it
+UserApiKeySchema.index({ user: 1, provider: 1 }, { unique: true });
+// The rotation job looks for keys wrapped with older master keys
+UserApiKeySchema.index({ 'envelope.keyVersion': 1 });
+
+UserApiKeySchema.statics.PROVIDERS = AI_KEY_PROVIDERS;
+
+module.exports = mongoose.model('UserApiKey', UserApiKeySchema);
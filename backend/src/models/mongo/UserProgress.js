@@ -1,6 +1,7 @@
 // neuroforge/backend/src/models/mongo/UserProgress.js
 // Purpose: Tracks user progress on individual lessons, especially for SRS
 const mongoose = require('mongoose');
+const organizationScope = require('./plugins/organizationScope');
 const { SUPERMEMO2_INITIAL_INTERVAL } = require('../../services/SrsService'); // Import constants
 
 const UserProgressSchema = new mongoose.Schema({
@@ -75,4 +76,7 @@ UserProgressSchema.pre('save', function(next) {
     next();
 });
 
+// Progress records belong to the learner's organization; queries only see the current organization's records
+UserProgressSchema.plugin(organizationScope);
+
 module.exports = mongoose.model('UserProgress', UserProgressSchema);
\ No newline at end of file
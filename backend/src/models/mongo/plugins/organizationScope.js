@@ -0,0 +1,56 @@
+// neuroforge/backend/src/models/mongo/plugins/organizationScope.js
+// Purpose: Mongoose plugin keeping a model's documents within the current request's organization
+const { requireOrganizationId } = require('../../../../lib/tenantContext');
+
+const ORGANIZATION_FIELD = 'organizationId';
+
+// Query operations that read or change documents; each gets the organization condition
+const SCOPED_QUERIES = [
+    'countDocuments', 'deleteMany', 'deleteOne', 'distinct', 'find', 'findOne',
+    'findOneAndDelete', 'findOneAndReplace', 'findOneAndUpdate', 'replaceOne', 'updateMany', 'updateOne'
+];
+
+// New documents join the current organization; existing ones can only be saved within theirs
+function assignOrganization() {
+    const organizationId = requireOrganizationId(`Model ${this.constructor.modelName}`);
+    if (this.isNew) {
+        this.set(ORGANIZATION_FIELD, organizationId);
+    } else if (this.get(ORGANIZATION_FIELD) !== organizationId) {
+        throw new Error(`Cannot save a ${this.constructor.modelName} of another organization`);
+    }
+}
+
+module.exports = function organizationScope(schema) {
+    schema.add({
+        [ORGANIZATION_FIELD]: { type: String, required: true, index: true }
+    });
+
+    schema.pre(SCOPED_QUERIES, function () {
+        const organizationId = requireOrganizationId(`Model ${this.model.modelName}`);
+        this.where({ [ORGANIZATION_FIELD]: organizationId });
+
+        // Documents cannot be moved to another organization
+        const update = this.getUpdate();
+        if (update) {
+            delete update[ORGANIZATION_FIELD];
+            if (update.$set) delete update.$set[ORGANIZATION_FIELD];
+            if (update.$unset) delete update.$unset[ORGANIZATION_FIELD];
+        }
+    });
+
+    // Validation runs before the save hooks and requires the organization, so new documents get it here;
+    // the save hook covers saves that skip validation
+    schema.pre('validate', assignOrganization);
+    schema.pre('save', assignOrganization);
+
+    schema.pre('insertMany', function (next, docs) {
+        const organizationId = requireOrganizationId(`Model ${this.modelName}`);
+        docs.forEach(doc => { doc[ORGANIZATION_FIELD] = organizationId; });
+        next();
+    });
+
+    schema.pre('aggregate', function () {
+        const organizationId = requireOrganizationId(`Model ${this._model.modelName}`);
+        this.pipeline().unshift({ $match: { [ORGANIZATION_FIELD]: organizationId } });
+    });
+};
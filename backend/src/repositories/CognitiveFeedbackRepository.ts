@@ -0,0 +1,29 @@
+import { CognitiveFeedback } from '@/types';
+import { Schema, array, number, object, string, withDefault } from '../utils/schema';
+import { UserDocumentRepository } from './Repository';
+
+const hourSchema = number({ min: 0, max: 23, integer: true });
+
+const cognitiveFeedbackSchema: Schema<CognitiveFeedback> = object({
+  userId: string(),
+  optimalTimes: withDefault(array(object({ start: hourSchema, end: hourSchema })), () => []),
+  focusMetrics: object({
+    averageFocusScore: number(),
+    focusPeaks: withDefault(array(number()), () => []),
+    attentionSpanMinutes: number({ min: 1 })
+  }),
+  preferredAudioPresets: withDefault(array(string()), () => []),
+  learningStyles: withDefault(array(string()), () => [])
+});
+
+/**
+ * Typed access to the cognitive feedback captured from each user's focus sessions
+ */
+export class CognitiveFeedbackRepository extends UserDocumentRepository<CognitiveFeedback> {
+  constructor() {
+    super('cognitive_feedback', cognitiveFeedbackSchema);
+  }
+}
+
+// Export the singleton instance
+export const cognitiveFeedbackRepository = new CognitiveFeedbackRepository();
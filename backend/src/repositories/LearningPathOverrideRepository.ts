@@ -0,0 +1,48 @@
+import { Schema, array, date, object, optional, string } from '../utils/schema';
+import { UserDocumentRepository } from './Repository';
+
+/**
+ * The order a user arranged their learning path in by hand
+ */
+export interface LearningPathOverride {
+  userId: string;
+  // Subject IDs in the user's preferred order
+  subjectIds: string[];
+  updatedAt?: Date;
+}
+
+const learningPathOverrideSchema: Schema<LearningPathOverride> = object({
+  userId: string(),
+  subjectIds: array(string()),
+  updatedAt: optional(date())
+});
+
+/**
+ * Typed access to the manual orderings users applied to their learning paths
+ */
+export class LearningPathOverrideRepository extends UserDocumentRepository<LearningPathOverride> {
+  constructor() {
+    super('learning_path_overrides', learningPathOverrideSchema);
+  }
+
+  /**
+   * Stores a user's manual order, replacing any previous one
+   *
+   * @param override The user's order
+   */
+  public async save(override: LearningPathOverride): Promise<void> {
+    await this.collection().replaceOne({ userId: override.userId }, override, { upsert: true });
+  }
+
+  /**
+   * Removes a user's manual order
+   *
+   * @param userId The ID of the user
+   */
+  public async deleteByUserId(userId: string): Promise<void> {
+    await this.collection().deleteOne({ userId });
+  }
+}
+
+// Export the singleton instance
+export const learningPathOverrideRepository = new LearningPathOverrideRepository();
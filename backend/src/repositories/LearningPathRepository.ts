@@ -0,0 +1,210 @@
+import {
+  CycleReport,
+  DependencyEdge,
+  LearningPath,
+  LearningPathGoal,
+  LearningPathRecommendation,
+  ManualOrderConflict,
+  MasteryGap,
+  PrerequisiteRemediation,
+  ScoreAdjustment,
+  SubjectExplanation
+} from '@/types';
+import {
+  Schema,
+  array,
+  boolean,
+  date,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  withDefault
+} from '../utils/schema';
+import { DEFAULT_TIME_ZONE } from '../utils/timeZone';
+import { Repository } from './Repository';
+
+/**
+ * A learning path stored in the shared path cache
+ */
+export interface CachedLearningPath {
+  // The cache key
+  _id: string;
+  path: LearningPath;
+  expiresAt: Date;
+  // True if the path covers the whole catalog rather than specific subjects
+  catalogWide: boolean;
+}
+
+const scoreAdjustmentSchema: Schema<ScoreAdjustment> = object({
+  factor: oneOf(['prior_performance', 'remediation', 'time_of_day', 'attention_span'] as const),
+  reason: string(),
+  delta: number()
+});
+
+const masteryGapSchema: Schema<MasteryGap> = object({
+  prerequisiteId: string(),
+  requiredMastery: number(),
+  currentScore: nullable(number())
+});
+
+const explanationSchema: Schema<SubjectExplanation> = object({
+  subjectId: string(),
+  position: number({ min: 1, integer: true }),
+  baseScore: number(),
+  adjustments: array(scoreAdjustmentSchema),
+  finalScore: number(),
+  completed: boolean(),
+  // Paths cached before prerequisite mastery gating have neither field
+  remediation: withDefault(boolean(), () => false),
+  masteryGaps: withDefault(array(masteryGapSchema), () => []),
+  pinned: boolean(),
+  prerequisites: array(string()),
+  dependents: array(string())
+});
+
+const recommendationSchema: Schema<LearningPathRecommendation> = object({
+  type: string(),
+  message: string(),
+  subjectId: optional(string())
+});
+
+const edgeSchema: Schema<DependencyEdge> = object({
+  prerequisiteId: string(),
+  subjectId: string()
+});
+
+const cycleReportSchema: Schema<CycleReport> = object({
+  hasCycles: boolean(),
+  cycles: array(object({
+    subjectIds: array(string()),
+    edges: array(edgeSchema),
+    suggestedRemovals: array(edgeSchema)
+  }))
+});
+
+const orderConflictSchema: Schema<ManualOrderConflict> = object({
+  subjectId: string(),
+  requestedBefore: array(string()),
+  blockingPrerequisites: array(string())
+});
+
+const remediationSchema: Schema<PrerequisiteRemediation> = object({
+  subjectId: string(),
+  currentScore: number(),
+  requiredMastery: number(),
+  requiredFor: array(string())
+});
+
+const goalSchema: Schema<LearningPathGoal> = object({
+  targetSubjectIds: array(string()),
+  skippedSubjectIds: array(string()),
+  missingSubjectIds: array(string()),
+  estimatedTotalMinutes: number({ min: 0 })
+});
+
+export const learningPathSchema: Schema<LearningPath> = object({
+  userId: string(),
+  subjects: array(string()),
+  explanations: array(explanationSchema),
+  recommendations: array(recommendationSchema),
+  cycleReport: cycleReportSchema,
+  orderConflicts: withDefault(array(orderConflictSchema), () => []),
+  remediations: withDefault(array(remediationSchema), () => []),
+  goal: optional(goalSchema),
+  timeZone: withDefault(string(), () => DEFAULT_TIME_ZONE),
+  generatedAt: date(),
+  expiresAt: date()
+});
+
+const cachedLearningPathSchema: Schema<CachedLearningPath> = object({
+  _id: string(),
+  path: learningPathSchema,
+  expiresAt: date(),
+  catalogWide: withDefault(boolean(), () => false)
+});
+
+/**
+ * Typed access to the learning paths in the shared path cache
+ */
+export class LearningPathRepository extends Repository<CachedLearningPath> {
+  private indexesEnsured = false;
+
+  constructor() {
+    super('learning_path_cache', cachedLearningPathSchema);
+  }
+
+  /**
+   * Finds a cached path by its cache key
+   *
+   * @param key The cache key
+   * @returns The validated cache entry, or null if there is none
+   */
+  public async findByKey(key: string): Promise<CachedLearningPath | null> {
+    const document = await this.collection<CachedLearningPath>().findOne({ _id: key });
+    return document ? this.parse(document) : null;
+  }
+
+  /**
+   * Stores a path under a cache key, replacing any previous entry
+   *
+   * @param entry The cache entry
+   */
+  public async save(entry: CachedLearningPath): Promise<void> {
+    await this.ensureIndexes();
+
+    const { _id, ...fields } = entry;
+    await this.collection<CachedLearningPath>().replaceOne({ _id }, fields, { upsert: true });
+  }
+
+  /**
+   * Removes every cached path whose key starts with a prefix followed by `:` or the end of the key
+   *
+   * @param prefix The key prefix
+   */
+  public async deleteByKeyPrefix(prefix: string): Promise<void> {
+    const escapedPrefix = prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    await this.collection<CachedLearningPath>().deleteMany({
+      _id: { $regex: `^${escapedPrefix}(:|$)` }
+    });
+  }
+
+  /**
+   * Removes every cached path that includes any of the subjects
+   *
+   * @param subjectIds The IDs of the subjects
+   */
+  public async deleteContainingSubjects(subjectIds: string[]): Promise<void> {
+    await this.collection<CachedLearningPath>().deleteMany({ 'path.subjects': { $in: subjectIds } });
+  }
+
+  /**
+   * Removes every cached path that covers the whole catalog
+   */
+  public async deleteCatalogWide(): Promise<void> {
+    await this.collection<CachedLearningPath>().deleteMany({ catalogWide: true });
+  }
+
+  /**
+   * Removes every cached path
+   */
+  public async deleteAll(): Promise<void> {
+    await this.collection<CachedLearningPath>().deleteMany({});
+  }
+
+  /**
+   * Creates the TTL index on first write, so Cosmos DB / MongoDB purges expired paths on its own
+   */
+  private async ensureIndexes(): Promise<void> {
+    if (this.indexesEnsured) return;
+
+    await this.collection<CachedLearningPath>().createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    this.indexesEnsured = true;
+  }
+}
+
+// Export the singleton instance
+export const learningPathRepository = new LearningPathRepository();
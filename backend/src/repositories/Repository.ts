@@ -0,0 +1,117 @@
+import { Document, Filter } from 'mongodb';
+import { db } from '@/lib/db';
+import { StorageCollection } from '@/lib/storage';
+import { Schema, SchemaViolation } from '../utils/schema';
+
+/**
+ * Thrown when a document read from the database does not match its collection's schema
+ */
+export class DocumentValidationError extends Error {
+  constructor(
+    public readonly collectionName: string,
+    public readonly documentId: string,
+    public readonly violation: SchemaViolation
+  ) {
+    super(`Invalid ${collectionName} document ${documentId}: ${violation.message}`);
+    this.name = 'DocumentValidationError';
+  }
+}
+
+/**
+ * Base class for typed access to a collection
+ *
+ * Every document read through a repository is checked against the collection's
+ * schema, so malformed records fail where they are read with an error naming the
+ * document and field, rather than deep inside the code that uses them.
+ */
+export abstract class Repository<T> {
+  constructor(
+    public readonly collectionName: string,
+    private readonly schema: Schema<T>
+  ) {}
+
+  /**
+   * Gets the underlying collection
+   *
+   * Documents read from it directly must go through `parse` before they are used.
+   */
+  protected collection<D extends Document = Document>(): StorageCollection<D> {
+    return db.collection<D>(this.collectionName);
+  }
+
+  /**
+   * Finds the first document matching a filter
+   *
+   * @param filter The query filter
+   * @returns The validated document, or null if none matches
+   */
+  protected async findOne(filter: Filter<Document>): Promise<T | null> {
+    const document = await this.collection().findOne(filter);
+    return document ? this.parse(document) : null;
+  }
+
+  /**
+   * Finds every document matching a filter
+   *
+   * @param filter The query filter
+   * @returns The validated documents
+   */
+  protected async findMany(filter: Filter<Document>): Promise<T[]> {
+    const documents = await this.collection().find(filter).toArray();
+    return documents.map(document => this.parse(document));
+  }
+
+  /**
+   * Validates a document read from the collection
+   *
+   * @param document The raw document
+   * @returns The typed document
+   * @throws DocumentValidationError if the document does not match the schema
+   */
+  protected parse(document: Document): T {
+    try {
+      return this.schema(document, '');
+    } catch (error) {
+      if (error instanceof SchemaViolation) {
+        throw new DocumentValidationError(this.collectionName, this.describeDocument(document), error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Names a document in error messages by the first identifier it has
+   */
+  private describeDocument(document: Document): string {
+    const identifier = document._id ?? document.id ?? document.userId;
+    return identifier === undefined ? '(without an ID)' : String(identifier);
+  }
+}
+
+/**
+ * Base class for collections holding at most one document per user
+ */
+export abstract class UserDocumentRepository<T extends { userId: string }> extends Repository<T> {
+  /**
+   * Finds a user's document
+   *
+   * @param userId The ID of the user
+   * @returns The validated document, or null if the user has none
+   */
+  public async findByUserId(userId: string): Promise<T | null> {
+    return this.findOne({ userId });
+  }
+
+  /**
+   * Finds the documents of many users in one query
+   *
+   * @param userIds The IDs of the users
+   * @returns The validated documents by user ID; users without a document are left out
+   */
+  public async findByUserIds(userIds: string[]): Promise<Map<string, T>> {
+    if (userIds.length === 0) return new Map();
+
+    const documents = await this.findMany({ userId: { $in: userIds } });
+    return new Map(documents.map(document => [document.userId, document]));
+  }
+}
@@ -0,0 +1,37 @@
+import { Subject } from '@/types';
+import { Schema, array, number, object, optional, record, string } from '../utils/schema';
+import { Repository } from './Repository';
+
+const subjectSchema: Schema<Subject> = object({
+  id: string(),
+  title: string(),
+  description: optional(string()),
+  dependencies: optional(array(string())),
+  dependencyMastery: optional(record(number({ min: 0, max: 100 }))),
+  estimatedTimeMinutes: optional(number({ min: 0 })),
+  difficulty: optional(number({ min: 1, max: 5 })),
+  tags: optional(array(string()))
+});
+
+/**
+ * Typed access to the curriculum's subjects
+ */
+export class SubjectRepository extends Repository<Subject> {
+  constructor() {
+    super('subjects', subjectSchema);
+  }
+
+  /**
+   * Finds subjects by ID
+   *
+   * @param subjectIds Optional IDs of the subjects; every subject of the curriculum is returned when omitted or empty
+   * @returns The subjects that exist
+   */
+  public async findByIds(subjectIds?: string[]): Promise<Subject[]> {
+    // Subjects created through the mongoose model have no curriculum ID until they join the curriculum
+    return this.findMany(subjectIds && subjectIds.length > 0 ? { id: { $in: subjectIds } } : { id: { $exists: true } });
+  }
+}
+
+// Export the singleton instance
+export const subjectRepository = new SubjectRepository();
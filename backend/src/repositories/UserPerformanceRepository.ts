@@ -0,0 +1,31 @@
+import { SubjectPerformance, UserPerformance } from '@/types';
+import { Schema, array, number, object, optional, record, string, withDefault } from '../utils/schema';
+import { UserDocumentRepository } from './Repository';
+
+const subjectPerformanceSchema: Schema<SubjectPerformance> = object({
+  attempts: number({ min: 0, integer: true }),
+  averageScore: number({ min: 0, max: 100 }),
+  difficulty: number({ min: 1, max: 5 }),
+  estimatedTimeMinutes: number({ min: 0 }),
+  subjectType: optional(string())
+});
+
+const userPerformanceSchema: Schema<UserPerformance> = object({
+  userId: string(),
+  subjectPerformance: withDefault(record(subjectPerformanceSchema), () => ({})),
+  averageScore: withDefault(number({ min: 0, max: 100 }), () => 0),
+  learningRate: withDefault(number({ min: 0 }), () => 1.0),
+  completedSubjects: withDefault(array(string()), () => [])
+});
+
+/**
+ * Typed access to each user's aggregated performance data
+ */
+export class UserPerformanceRepository extends UserDocumentRepository<UserPerformance> {
+  constructor() {
+    super('user_performance', userPerformanceSchema);
+  }
+}
+
+// Export the singleton instance
+export const userPerformanceRepository = new UserPerformanceRepository();
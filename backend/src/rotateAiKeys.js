@@ -0,0 +1,45 @@
+// neuroforge/backend/src/rotateAiKeys.js
+// Purpose: CLI job re-wrapping stored AI provider keys with the current encryption master key
+//
+// Usage: npm run rotate-ai-keys -- [--dry-run]
+//   Rotating the master key: add the new key to ENCRYPTION_KEYS, point ENCRYPTION_KEY_VERSION
+//   at it, deploy, run this job, then remove the old key once it reports no failures.
+//   --dry-run       Count the keys that would be re-wrapped without changing anything
+require('dotenv').config();
+const mongoose = require('mongoose');
+const config = require('./config');
+const UserApiKeyService = require('./services/UserApiKeyService');
+
+const USAGE = 'Usage: npm run rotate-ai-keys -- [--dry-run]';
+
+const parseArgs = (args) => {
+    const options = { dryRun: false };
+    args.forEach((arg) => {
+        if (arg === '--dry-run') {
+            options.dryRun = true;
+        } else {
+            throw new Error(`Unknown argument: ${arg}\n${USAGE}`);
+        }
+    });
+    return options;
+};
+
+const main = async () => {
+    const options = parseArgs(process.argv.slice(2));
+
+    await mongoose.connect(config.mongoUri);
+    try {
+        const { rewrapped, failed } = await UserApiKeyService.rotateKeys(options);
+        console.log(`${options.dryRun ? 'Would re-wrap' : 'Re-wrapped'} ${rewrapped} key(s)${failed ? `, ${failed} failed` : ''}`);
+        if (failed > 0) {
+            process.exitCode = 1;
+        }
+    } finally {
+        await mongoose.disconnect();
+    }
+};
+
+main().catch((err) => {
+    console.error(err.message);
+    process.exit(1);
+});
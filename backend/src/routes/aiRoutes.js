@@ -1,7 +1,7 @@
 // neuroforge/backend/src/routes/aiRoutes.js
 // Purpose: Defines routes for AI interactions
 const express = require('express');
-const { chatWithTutor } = require('../controllers/aiController');
+const { chatWithTutor, generateQuiz } = require('../controllers/aiController');
 const { protect } = require('../middleware/authMiddleware');
 
 const router = express.Router();
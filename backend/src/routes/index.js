@@ -5,8 +5,10 @@ const authRoutes = require('./authRoutes');
 const userRoutes = require('./userRoutes');
 const subjectRoutes = require('./subjectRoutes');
 const learningRoutes = require('./learningRoutes'); 
+const learningPathRoutes = require('./learningPathRoutes');
 const aiRoutes = require('./aiRoutes');
 const gamificationRoutes = require('./gamificationRoutes'); 
+const internalRoutes = require('./internalRoutes');
 
 const router = express.Router();
 
@@ -14,8 +16,10 @@ router.use('/auth', authRoutes);
 router.use('/users', userRoutes);
 router.use('/subjects', subjectRoutes);
 router.use('/learning', learningRoutes);
+router.use('/learning-path', learningPathRoutes);
 router.use('/ai', aiRoutes); 
 router.use('/gamification', gamificationRoutes);
+router.use('/internal', internalRoutes);
 // ... use other routes
 
 module.exports = router;
\ No newline at end of file
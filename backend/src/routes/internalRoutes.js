@@ -0,0 +1,18 @@
+// neuroforge/backend/src/routes/internalRoutes.js
+// Purpose: Defines routes only NeuroForge's own servers may call (authenticated with a shared secret)
+const express = require('express');
+const { resolveAiKeys } = require('../controllers/aiKeyController');
+const { checkAiBudget, recordAiUsage } = require('../controllers/aiUsageController');
+const { internalOnly } = require('../middleware/authMiddleware');
+
+const router = express.Router();
+
+router.use(internalOnly);
+
+// The frontend's AI proxy uses the keys users bring themselves
+router.post('/ai-keys/resolve', resolveAiKeys);
+// ...and keeps users within their AI budgets
+router.post('/ai-usage/check', checkAiBudget);
+router.post('/ai-usage/record', recordAiUsage);
+
+module.exports = router;
@@ -0,0 +1,52 @@
+// neuroforge/backend/src/routes/learningPathRoutes.js
+// Purpose: Defines routes for personalized learning paths
+const express = require('express');
+const {
+    getLearningPath,
+    getGoalLearningPath,
+    createCohortLearningPaths,
+    reorderLearningPath,
+    resetLearningPathOrder,
+    createSchedule,
+    getSchedule,
+    exportScheduleICalendar,
+    getPathHistory,
+    getPathDiff,
+    invalidateLearningPath,
+    validateCurriculum
+} = require('../controllers/learningPathController');
+const { protect, authorize } = require('../middleware/authMiddleware');
+
+const router = express.Router();
+
+// All learning path routes require authentication
+router.use(protect);
+
+router.get('/', getLearningPath);
+router.get('/goal', getGoalLearningPath);
+router.post('/invalidate', invalidateLearningPath);
+
+// Manual drag-and-drop ordering, merged into every generated path
+router.route('/reorder')
+    .post(reorderLearningPath)
+    .delete(resetLearningPathOrder);
+
+// Instructors generate the paths of a whole cohort at once
+router.post('/cohort', authorize('admin', 'coach'), createCohortLearningPaths);
+
+// Study schedules built from the learning path
+router.route('/schedule')
+    .get(getSchedule)
+    .post(createSchedule);
+router.get('/schedule/ics', exportScheduleICalendar);
+
+// Version history of generated paths - coaches can follow any learner's path
+router.get('/history', getPathHistory);
+router.get('/history/diff', getPathDiff);
+router.get('/users/:userId/history', authorize('admin', 'coach'), getPathHistory);
+router.get('/users/:userId/history/diff', authorize('admin', 'coach'), getPathDiff);
+
+// Curriculum authors check the dependency graph for cycles
+router.get('/curriculum/validate', authorize('admin', 'creator'), validateCurriculum);
+
+module.exports = router;
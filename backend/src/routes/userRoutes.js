@@ -2,6 +2,8 @@
 // Purpose: Defines routes for user profile management
 const express = require('express');
 const userController = require('../controllers/userController');
+const aiKeyController = require('../controllers/aiKeyController');
+const aiUsageController = require('../controllers/aiUsageController');
 const { protect } = require('../middleware/authMiddleware'); // Protect routes
 
 const router = express.Router();
@@ -14,6 +16,16 @@ router.route('/profile')
     .get(userController.getMyProfile) // Re-uses getMe logic perhaps, or specific profile view
     .put(userController.updateMyProfile); // Update preferences, etc.
 
+// AI provider keys the user brings themselves, stored encrypted
+router.get('/ai-keys', aiKeyController.listAiKeys);
+router.route('/ai-keys/:provider')
+    .put(aiKeyController.saveAiKey)
+    .delete(aiKeyController.revokeAiKey);
+router.post('/ai-keys/:provider/test', aiKeyController.testAiKey);
+
+// Tokens and estimated cost of the user's AI requests, and their daily budget
+router.get('/ai-usage', aiUsageController.getAiUsage);
+
 // --- Admin Routes (Example) ---
 // router.route('/')
 //     .get(authorize('admin'), userController.getAllUsers); // Example admin route
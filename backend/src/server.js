@@ -3,12 +3,17 @@
 const http = require('http');
 const { app, initializeWebSocket } = require('./app');
 const config = require('./config');
-const { connectDB } = require('./config/db');
+const { connectDB, disconnectDB } = require('./config/db');
+const { db } = require('../lib/db');
+const { configureLearningPathCache } = require('./config/learningPathCache');
 const logger = require('./utils/logger');
 
 // Connect to Databases
 connectDB();
 
+// Select the learning path cache backend
+configureLearningPathCache();
+
 // Create HTTP server
 const server = http.createServer(app);
 
@@ -29,12 +34,30 @@ process.on('unhandledRejection', (err, promise) => {
     // server.close(() => process.exit(1));
 });
 
-// Handle SIGTERM for graceful shutdown (important for deployment environments)
-process.on('SIGTERM', () => {
-    logger.info('SIGTERM signal received: closing HTTP server');
-    server.close(() => {
+// Time allowed for open requests and database connections to finish before exiting anyway
+const SHUTDOWN_TIMEOUT_MS = parseInt(process.env.SHUTDOWN_TIMEOUT_MS || '10000', 10);
+
+// Graceful shutdown (important for deployment environments)
+const shutdown = (signal) => {
+    logger.info(`${signal} signal received: closing HTTP server`);
+
+    setTimeout(() => {
+        logger.error('Graceful shutdown timed out, exiting');
+        process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS).unref();
+
+    server.close(async () => {
         logger.info('HTTP server closed');
-        // Close database connections here if necessary
-        process.exit(0);
+        try {
+            await db.disconnect();
+            await disconnectDB();
+            process.exit(0);
+        } catch (err) {
+            logger.error('Error closing database connections:', err.message);
+            process.exit(1);
+        }
     });
-});
\ No newline at end of file
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
\ No newline at end of file
@@ -8,6 +8,13 @@ const axiosRetry = require('axios-retry');
 const config = require('../config');
 const logger = require('../utils/logger');
 const ApiError = require('../utils/apiError');
+const UserApiKeyService = require('./UserApiKeyService');
+const AiBudgetService = require('./AiBudgetService');
+const { estimateCost, refreshPricing } = require('../utils/aiPricing');
+
+// Cheaper models requests on the platform's keys use once a user is over their soft AI budget;
+// the same the frontend's AI proxy switches to
+const ECONOMY_MODELS = require('../../../shared/ai-economy-models.json');
 
 // Azure Key Vault setup
 const keyVaultUrl = config.keyVault.url; // e.g., "https://neuroforge-vault.vault.azure.net"
@@ -37,8 +44,21 @@ class AiApiService {
         this.apiKeys = {};
     }
 
+    // API key for a request: the user's own key for the provider if they stored one,
+    // otherwise the platform key from Azure Key Vault (cached)
+    async getApiKey(provider, userId) {
+        if (userId) {
+            const userKey = await UserApiKeyService.getDecryptedKey(userId, provider);
+            if (userKey) {
+                logger.debug(`Using ${provider} API key of user ${userId}`);
+                return { apiKey: userKey, isUserKey: true };
+            }
+        }
+        return { apiKey: await this.getPlatformApiKey(provider), isUserKey: false };
+    }
+
     // Fetch API key from Azure Key Vault with caching
-    async getApiKey(provider) {
+    async getPlatformApiKey(provider) {
         if (this.apiKeys[provider]) {
             logger.debug(`Using cached ${provider} API key`);
             return this.apiKeys[provider];
@@ -56,18 +76,48 @@ class AiApiService {
         }
     }
 
-    async getTutorResponse({ userId, message, context, preferredStyle, preferredPersonality }) {
+    // Pre-flight budget check for a request on the platform's keys: refuses it at a hard budget
+    // (ApiError 429), switches it to the provider's cheaper model past a soft budget
+    async budgetedModel(provider, model, { userId, organizationId, isUserKey }) {
+        if (isUserKey) {
+            return model;
+        }
+        const budget = await AiBudgetService.assertWithinBudget(userId, organizationId);
+        return budget.status === 'soft' ? ECONOMY_MODELS[provider] : model;
+    }
+
+    // Adds a response to the AI spend ledger; a failure is logged, the response is still returned
+    async recordSpend(userId, feature, provider, model, { promptTokens = 0, completionTokens = 0 }, isUserKey) {
+        try {
+            await refreshPricing();
+            const cost = estimateCost(provider, model, promptTokens, completionTokens);
+            await AiBudgetService.recordUsage(userId, {
+                feature,
+                tokens: { prompt: promptTokens, completion: completionTokens, total: promptTokens + completionTokens },
+                cost: cost.estimated,
+                userKey: isUserKey,
+            });
+        } catch (error) {
+            logger.error(`Failed to record ${feature} AI spend of user ${userId}:`, error.message);
+        }
+    }
+
+    async getTutorResponse({ userId, organizationId, message, context, preferredStyle, preferredPersonality }) {
         logger.debug(`Getting AI tutor response for user ${userId}. Style: ${preferredStyle}, Personality: ${preferredPersonality}`);
 
         // Determine provider and model based on context/preferences
         const useAnthropic = preferredStyle === 'creative' || preferredPersonality === 'playful'; // Example rule
         const provider = useAnthropic ? 'anthropic' : 'openai';
-        const model = useAnthropic ? 'claude-3-sonnet-20240229' : 'gpt-4-turbo-preview';
 
-        // Fetch API key dynamically
-        const apiKey = await this.getApiKey(provider);
+        // Fetch API key dynamically; sent per request since clients are shared between users
+        const { apiKey, isUserKey } = await this.getApiKey(provider, userId);
+        const model = await this.budgetedModel(
+            provider,
+            useAnthropic ? 'claude-3-sonnet-20240229' : 'gpt-4-turbo-preview',
+            { userId, organizationId, isUserKey }
+        );
         const client = useAnthropic ? this.anthropicClient : this.openaiClient;
-        client.defaults.headers[useAnthropic ? 'x-api-key' : 'Authorization'] = useAnthropic ? apiKey : `Bearer ${apiKey}`;
+        const headers = useAnthropic ? { 'x-api-key': apiKey } : { Authorization: `Bearer ${apiKey}` };
 
         // Construct prompt
         const systemPrompt = `You are NeuroForge AI Tutor, an expert educator using advanced learning techniques. Your current personality is '${preferredPersonality || 'neutral expert'}' and teaching style is '${preferredStyle || 'socratic'}'. Adapt your response based on this. The user (ID: ${userId}) is currently learning about: ${JSON.stringify(context)}. Keep responses concise and focused.`;
@@ -87,7 +137,8 @@ class AiApiService {
                     temperature: 0.7,
                     max_tokens: 150,
                     ...(useAnthropic ? { max_tokens: 150 } : {}) // Anthropic uses same param name
-                }
+                },
+                { headers }
             );
 
             const reply = useAnthropic 
@@ -99,6 +150,10 @@ class AiApiService {
             }
 
             logger.debug(`Received ${provider} response: ${reply.substring(0, 50)}...`);
+            const usage = response.data.usage || {};
+            await this.recordSpend(userId, 'tutor', provider, model, useAnthropic
+                ? { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens }
+                : { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens }, isUserKey);
             // TODO: Store interaction in chat history DB
             return { text: reply };
 
@@ -111,6 +166,9 @@ class AiApiService {
                 if (error.response.status === 429) {
                     statusCode = 429;
                     errorMessage = 'AI service rate limit exceeded. Please try again shortly.';
+                } else if (error.response.status === 401 && isUserKey) {
+                    statusCode = 400;
+                    errorMessage = `Your ${provider} API key was rejected. Update or revoke it on your profile.`;
                 } else if (error.response.status === 401) {
                     statusCode = 500;
                     errorMessage = 'AI service configuration error.';
@@ -123,14 +181,14 @@ class AiApiService {
             throw new ApiError(errorMessage, statusCode);
         }
     }
-    async generateQuiz({ userId, lessonContent }) {
+    async generateQuiz({ userId, organizationId, lessonContent }) {
         logger.debug(`Generating quiz for user ${userId}`);
 
         // Use OpenAI for quiz generation (could extend to Anthropic later)
         const provider = 'openai';
-        const model = 'gpt-4-turbo-preview';
-        const apiKey = await this.getApiKey(provider);
-        this.openaiClient.defaults.headers['Authorization'] = `Bearer ${apiKey}`;
+        const { apiKey, isUserKey } = await this.getApiKey(provider, userId);
+        const model = await this.budgetedModel(provider, 'gpt-4-turbo-preview', { userId, organizationId, isUserKey });
+        const headers = { Authorization: `Bearer ${apiKey}` };
 
         const prompt = `Given this lesson content: "${lessonContent}", generate 3 multiple-choice questions with 4 options each (A-D). Include the correct answer and a brief explanation. Format the response as JSON. Example:
         [
@@ -152,7 +210,13 @@ class AiApiService {
                 ],
                 temperature: 0.7,
                 max_tokens: 500,
-            });
+            }, { headers });
+
+            const usage = response.data.usage || {};
+            await this.recordSpend(userId, 'quiz', provider, model, {
+                promptTokens: usage.prompt_tokens,
+                completionTokens: usage.completion_tokens,
+            }, isUserKey);
 
             const quizText = response.data.choices[0]?.message?.content;
             if (!quizText) {
@@ -181,6 +245,9 @@ class AiApiService {
             if (error.response?.status === 429) {
                 statusCode = 429;
                 errorMessage = 'AI service rate limit exceeded. Try again later.';
+            } else if (error.response?.status === 401 && isUserKey) {
+                statusCode = 400;
+                errorMessage = `Your ${provider} API key was rejected. Update or revoke it on your profile.`;
             }
             throw new ApiError(errorMessage, statusCode);
         }
@@ -0,0 +1,212 @@
+// neuroforge/backend/src/services/AiBudgetService.js
+// Purpose: AI spend ledger and daily budgets - records what every AI request cost and checks users against their budgets
+//
+// Only spend on the platform's provider keys counts against budgets; requests on keys users
+// brought themselves are recorded too, but billed to them.
+
+const AiSpend = require('../models/mongo/AiSpend');
+const Organization = require('../models/mongo/Organization');
+const config = require('../config');
+const ApiError = require('../utils/apiError');
+
+const BUDGET_FIELDS = ['userDailySoftUsd', 'userDailyHardUsd', 'organizationDailySoftUsd', 'organizationDailyHardUsd'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SUMMARY_DAYS = 90;
+const DUPLICATE_KEY_ERROR = 11000;
+
+// UTC day a request is booked on, 'YYYY-MM-DD'
+const dayOf = (date) => date.toISOString().slice(0, 10);
+
+// Start of the next UTC day, when the daily budgets reset
+const nextDayStart = (date) => new Date(Date.parse(dayOf(date)) + DAY_MS);
+
+// Whether spend has reached a limit; 0 turns the limit off
+const reached = (spent, limit) => limit > 0 && spent >= limit;
+
+/**
+ * Where spend stands against budgets; the hard budgets are checked first.
+ * @param {object} spent - { user, organization } platform spend of the day
+ * @param {object} budgets - Limits by BUDGET_FIELDS
+ * @returns {object} { status: 'ok' | 'soft' | 'hard', message }
+ */
+const evaluateBudget = (spent, budgets) => {
+    if (reached(spent.user, budgets.userDailyHardUsd)) {
+        return { status: 'hard', message: 'You have used up your AI budget for today. It resets at midnight UTC.' };
+    }
+    if (reached(spent.organization, budgets.organizationDailyHardUsd)) {
+        return { status: 'hard', message: 'Your organization has used up its AI budget for today. It resets at midnight UTC.' };
+    }
+    if (reached(spent.user, budgets.userDailySoftUsd) || reached(spent.organization, budgets.organizationDailySoftUsd)) {
+        return { status: 'soft', message: 'You are over your AI budget for today, so answers come from faster, cheaper models until midnight UTC.' };
+    }
+    return { status: 'ok', message: null };
+};
+
+const emptyTotals = () => ({ requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, ownKeyCost: 0 });
+
+// Adds a ledger entry to running totals; ownKeyCost is the part billed to the user's own keys
+const addEntry = (totals, entry) => {
+    totals.requests += entry.requests;
+    totals.promptTokens += entry.promptTokens;
+    totals.completionTokens += entry.completionTokens;
+    totals.totalTokens += entry.totalTokens;
+    totals.cost += entry.cost;
+    if (entry.billedTo === 'user') {
+        totals.ownKeyCost += entry.cost;
+    }
+    return totals;
+};
+
+class AiBudgetService {
+
+    /**
+     * Daily budgets of an organization's users: the organization's own, or the configured defaults.
+     * @param {string} organizationId
+     * @returns {Promise<object>} Limits in USD by BUDGET_FIELDS
+     */
+    async getBudgets(organizationId) {
+        const organization = organizationId ? await Organization.findById(organizationId).select('aiBudget') : null;
+        return BUDGET_FIELDS.reduce((budgets, field) => {
+            const override = organization?.aiBudget?.[field];
+            budgets[field] = typeof override === 'number' ? override : config.aiBudget[field];
+            return budgets;
+        }, {});
+    }
+
+    /**
+     * Platform spend of a day, of a user and of their whole organization.
+     * Must run within the user's organization (see lib/tenantContext).
+     * @param {string} userId
+     * @param {Date} [at]
+     * @returns {Promise<object>} { user, organization } in USD
+     */
+    async getDailySpend(userId, at = new Date()) {
+        const totals = await AiSpend.aggregate([
+            { $match: { day: dayOf(at), billedTo: 'platform' } },
+            { $group: { _id: '$user', cost: { $sum: '$cost' } } },
+        ]);
+        return totals.reduce((spent, total) => {
+            if (String(total._id) === String(userId)) {
+                spent.user += total.cost;
+            }
+            spent.organization += total.cost;
+            return spent;
+        }, { user: 0, organization: 0 });
+    }
+
+    /**
+     * Where a user stands against their daily budgets, checked before each request on the platform's keys.
+     * Must run within the user's organization.
+     * @param {string} userId
+     * @param {string} organizationId
+     * @param {Date} [at]
+     * @returns {Promise<object>} { status, message, spent, budgets, currency, resetsAt }
+     */
+    async checkBudget(userId, organizationId, at = new Date()) {
+        const [budgets, spent] = await Promise.all([
+            this.getBudgets(organizationId),
+            this.getDailySpend(userId, at),
+        ]);
+        return { ...evaluateBudget(spent, budgets), spent, budgets, currency: 'USD', resetsAt: nextDayStart(at) };
+    }
+
+    /**
+     * Refuses requests of users at a hard budget.
+     * @param {string} userId
+     * @param {string} organizationId
+     * @returns {Promise<object>} The budget check; status 'soft' means the request should use a cheaper model
+     * @throws {ApiError} 429 at a hard budget
+     */
+    async assertWithinBudget(userId, organizationId) {
+        const budget = await this.checkBudget(userId, organizationId);
+        if (budget.status === 'hard') {
+            throw new ApiError(budget.message, 429);
+        }
+        return budget;
+    }
+
+    /**
+     * Adds a request to the ledger. Must run within the user's organization.
+     * @param {string} userId
+     * @param {object} usage
+     * @param {string} usage.feature - One of AiSpend.FEATURES
+     * @param {object} usage.tokens - { prompt, completion, total }
+     * @param {number} usage.cost - Estimated cost in USD
+     * @param {boolean} [usage.userKey] - Whether the request used the user's own key
+     * @param {Date} [usage.at]
+     */
+    async recordUsage(userId, { feature, tokens = {}, cost, userKey = false, at = new Date() }) {
+        if (!AiSpend.FEATURES.includes(feature)) {
+            throw new ApiError(`Unknown AI feature '${feature}'. Known features: ${AiSpend.FEATURES.join(', ')}`, 400);
+        }
+        const amounts = [tokens.prompt, tokens.completion, tokens.total, cost];
+        if (!amounts.every(amount => typeof amount === 'number' && Number.isFinite(amount) && amount >= 0)) {
+            throw new ApiError('Usage needs non-negative prompt, completion and total tokens and a cost', 400);
+        }
+
+        const entry = { user: userId, day: dayOf(at), feature, billedTo: userKey ? 'user' : 'platform' };
+        const increments = {
+            $inc: {
+                requests: 1,
+                promptTokens: tokens.prompt,
+                completionTokens: tokens.completion,
+                totalTokens: tokens.total,
+                cost,
+            },
+        };
+        try {
+            await AiSpend.updateOne(entry, increments, { upsert: true });
+        } catch (error) {
+            // Concurrent upserts of a new entry can both insert; the one that loses finds the entry on a retry
+            if (error.code !== DUPLICATE_KEY_ERROR) {
+                throw error;
+            }
+            await AiSpend.updateOne(entry, increments, { upsert: true });
+        }
+    }
+
+    /**
+     * A user's AI usage of the last days, per feature and per day, with where they stand today.
+     * Must run within the user's organization.
+     * @param {string} userId
+     * @param {string} organizationId
+     * @param {object} [options]
+     * @param {number} [options.days] - Number of days, including today (1 to 90)
+     * @returns {Promise<object>} { from, to, currency, totals, features, days, budget }
+     */
+    async getUsageSummary(userId, organizationId, { days = 30 } = {}) {
+        if (!Number.isInteger(days) || days < 1 || days > MAX_SUMMARY_DAYS) {
+            throw new ApiError(`Days must be a whole number from 1 to ${MAX_SUMMARY_DAYS}`, 400);
+        }
+
+        const now = new Date();
+        const from = dayOf(new Date(now.getTime() - (days - 1) * DAY_MS));
+        const to = dayOf(now);
+        const [entries, budget] = await Promise.all([
+            AiSpend.find({ user: userId, day: { $gte: from, $lte: to } }).sort({ day: 1 }).lean(),
+            this.checkBudget(userId, organizationId, now),
+        ]);
+
+        const features = new Map(AiSpend.FEATURES.map(feature => [feature, emptyTotals()]));
+        const byDay = new Map();
+        entries.forEach((entry) => {
+            addEntry(features.get(entry.feature), entry);
+            if (!byDay.has(entry.day)) {
+                byDay.set(entry.day, emptyTotals());
+            }
+            addEntry(byDay.get(entry.day), entry);
+        });
+
+        return {
+            from,
+            to,
+            currency: 'USD',
+            totals: entries.reduce(addEntry, emptyTotals()),
+            features: [...features].map(([feature, totals]) => ({ feature, ...totals })),
+            days: [...byDay].map(([day, totals]) => ({ day, ...totals })),
+            budget,
+        };
+    }
+}
+
+module.exports = new AiBudgetService();
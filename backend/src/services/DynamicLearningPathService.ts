@@ -1,5 +1,52 @@
-import { Subject, LearningPath, UserPerformance, CognitiveFeedback } from '@/types';
-import { db } from '@/lib/db';
+import {
+  Subject,
+  LearningPath,
+  LearningPathOptions,
+  CohortMember,
+  CohortLearningPaths,
+  CohortLearningPathStats,
+  BottleneckPrerequisite,
+  UserPerformance,
+  CognitiveFeedback,
+  CycleReport,
+  DependencyCycle,
+  DependencyEdge,
+  LearningPathRecommendation,
+  ManualOrderConflict,
+  MasteryGap,
+  PrerequisiteRemediation,
+  ScoreAdjustment,
+  SubjectExplanation
+} from '@/types';
+import { domainEvents, DomainEvents } from '../utils/domainEvents';
+import { LearningPathCache, LearningPathCacheInvalidation, applyInvalidation } from './LearningPathCache';
+import { PriorityQueue } from '../utils/PriorityQueue';
+import { recommendationEngine } from './RecommendationRuleEngine';
+import { Clock, systemClock } from '../utils/clock';
+import { DEFAULT_TIME_ZONE, getZonedParts, isValidTimeZone } from '../utils/timeZone';
+import { InMemoryLearningPathCache } from './InMemoryLearningPathCache';
+import { LearningPathCacheInvalidationBus } from './LearningPathCacheInvalidationBus';
+import { LearningPathHistoryService, LearningPathInputs } from './LearningPathHistoryService';
+import { UserDocumentRepository } from '../repositories/Repository';
+import { subjectRepository } from '../repositories/SubjectRepository';
+import { userPerformanceRepository } from '../repositories/UserPerformanceRepository';
+import { cognitiveFeedbackRepository } from '../repositories/CognitiveFeedbackRepository';
+import { learningPathOverrideRepository } from '../repositories/LearningPathOverrideRepository';
+
+// Average score required in a prerequisite when its dependency edge does not set one
+const DEFAULT_REQUIRED_MASTERY = 60;
+
+/**
+ * The parts of a learning path computation that depend only on the curriculum,
+ * so they can be shared by every learner ordering the same subjects
+ */
+interface CurriculumAnalysis {
+  graph: Map<string, string[]>;
+  order: string[];
+  cycleReport: CycleReport;
+  // Required average score of each dependency, by dependent subject ID
+  requiredMastery: Map<string, Map<string, number>>;
+}
 
 /**
  * DynamicLearningPathService 
@@ -15,22 +62,57 @@ import { db } from '@/lib/db';
  * and exposed via API endpoints for the frontend to consume
  */
 export class DynamicLearningPathService {
+  // Source of the current time for personalization, recommendations and cache expiry
+  private static clock: Clock = systemClock;
+  
+  // Clock for path caches: reads the time from whichever clock useClock() set, so caches
+  // expire paths by the same time as hasCacheExpired()
+  public static readonly cacheClock: Clock = { now: () => DynamicLearningPathService.clock.now() };
+  
   // Cache for common learning paths to improve performance
-  private static pathCache: Map<string, LearningPath> = new Map();
+  private static pathCache: LearningPathCache = new InMemoryLearningPathCache({ clock: DynamicLearningPathService.cacheClock });
+  
+  // Broadcasts invalidations to other backend instances when running more than one replica
+  private static invalidationBus: LearningPathCacheInvalidationBus | null = null;
+  
+  /**
+   * Replaces the cache backend used for learning paths
+   * 
+   * @param cache The cache implementation to use
+   * @param invalidationBus Optional bus that propagates invalidations to other instances
+   */
+  public static useCache(cache: LearningPathCache, invalidationBus?: LearningPathCacheInvalidationBus): void {
+    this.pathCache = cache;
+    this.invalidationBus = invalidationBus || null;
+  }
+  
+  /**
+   * Replaces the clock used to read the current time
+   * 
+   * @param clock The clock to use
+   */
+  public static useClock(clock: Clock): void {
+    this.clock = clock;
+  }
   
   /**
    * Creates an optimal learning path for a user based on their performance and subject dependencies
    * 
    * @param userId The ID of the user
    * @param subjectIds Optional array of subject IDs to constrain the path to specific subjects
+   * @param options.timeZone The user's IANA time zone, in which their optimal times are evaluated
    * @returns A personalized learning path with ordered subjects and recommendations
    */
-  public static async createLearningPath(userId: string, subjectIds?: string[]): Promise<LearningPath> {
+  public static async createLearningPath(
+    userId: string,
+    subjectIds?: string[],
+    options: LearningPathOptions = {}
+  ): Promise<LearningPath> {
     // Generate cache key based on inputs
     const cacheKey = this.generateCacheKey(userId, subjectIds);
     
     // Check if we have a cached path that hasn't expired
-    const cachedPath = this.pathCache.get(cacheKey);
+    const cachedPath = await this.pathCache.get(cacheKey);
     if (cachedPath && !this.hasCacheExpired(cachedPath)) {
       return cachedPath;
     }
@@ -40,65 +122,643 @@ export class DynamicLearningPathService {
       const subjects = await this.fetchSubjects(subjectIds);
       const userPerformance = await this.fetchUserPerformance(userId);
       const userCognitiveFeedback = await this.fetchCognitiveFeedback(userId);
+      const manualOrder = await this.fetchManualOrder(userId);
       
-      // Build the subject dependency graph
-      const graph = this.buildDependencyGraph(subjects);
+      const learningPath = this.buildLearningPath(
+        userId,
+        subjects,
+        userPerformance,
+        userCognitiveFeedback,
+        manualOrder,
+        this.resolveTimeZone(options.timeZone)
+      );
       
-      // Calculate initial ordering via topological sort
-      let orderedSubjects = this.topologicalSort(graph);
+      // Keep every version so coaches can follow how the path evolved
+      const scope = subjectIds && subjectIds.length > 0 ? `subjects:${[...subjectIds].sort().join(',')}` : 'full';
+      await this.recordVersion(userId, scope, learningPath, {
+        subjects,
+        performance: userPerformance,
+        manualOrder
+      });
       
-      // Apply personalization based on user performance and cognitive feedback
-      orderedSubjects = this.personalizeOrdering(
-        orderedSubjects,
-        userPerformance,
-        userCognitiveFeedback
+      // Cache the path for future use
+      await this.pathCache.set(cacheKey, learningPath, {
+        catalogWide: !subjectIds || subjectIds.length === 0
+      });
+      
+      return learningPath;
+    } catch (error) {
+      console.error('Error creating learning path:', error);
+      throw new Error('Failed to create learning path');
+    }
+  }
+  
+  /**
+   * Creates a learning path that leads to one or more target subjects
+   * 
+   * The path contains only the targets and the prerequisites they transitively depend on.
+   * Subjects the user has already completed are skipped along with their own prerequisites,
+   * which the user has already worked through to complete them, unless the user's score
+   * is below the mastery a subject in the path requires of them.
+   * 
+   * @param userId The ID of the user
+   * @param targetSubjectIds IDs of the subjects the user wants to reach
+   * @param options.timeZone The user's IANA time zone, in which their optimal times are evaluated
+   * @returns A personalized learning path with the goal summary and estimated total time
+   */
+  public static async createGoalLearningPath(
+    userId: string,
+    targetSubjectIds: string[],
+    options: LearningPathOptions = {}
+  ): Promise<LearningPath> {
+    const targets = [...new Set(targetSubjectIds)];
+    const cacheKey = `${this.generateCacheKey(userId)}:goal:${[...targets].sort().join(',')}`;
+    
+    const cachedPath = await this.pathCache.get(cacheKey);
+    if (cachedPath && !this.hasCacheExpired(cachedPath)) {
+      return cachedPath;
+    }
+    
+    try {
+      const userPerformance = await this.fetchUserPerformance(userId);
+      const userCognitiveFeedback = await this.fetchCognitiveFeedback(userId);
+      const manualOrder = await this.fetchManualOrder(userId);
+      
+      const { subjects, skippedSubjectIds, missingSubjectIds } = await this.fetchPrerequisiteClosure(
+        targets,
+        userPerformance
       );
       
-      // Generate recommendations
-      const recommendations = this.generateRecommendations(
-        orderedSubjects,
+      // Only order subjects inside the closure - skipped and missing prerequisites stay out of the graph
+      const closureIds = new Set(subjects.map(subject => subject.id));
+      const closure = subjects.map(subject => ({
+        ...subject,
+        dependencies: (subject.dependencies || []).filter(id => closureIds.has(id))
+      }));
+      
+      const learningPath = this.buildLearningPath(
+        userId,
+        closure,
         userPerformance,
-        userCognitiveFeedback
+        userCognitiveFeedback,
+        manualOrder,
+        this.resolveTimeZone(options.timeZone)
       );
       
-      // Create the final learning path
-      const learningPath: LearningPath = {
-        userId,
-        subjects: orderedSubjects,
-        recommendations,
-        generatedAt: new Date(),
-        expiresAt: this.calculateExpirationTime(),
+      learningPath.goal = {
+        targetSubjectIds: targets,
+        skippedSubjectIds,
+        missingSubjectIds,
+        estimatedTotalMinutes: subjects.reduce(
+          (total, subject) => total + this.estimateSubjectMinutes(subject, userPerformance),
+          0
+        )
       };
       
-      // Cache the path for future use
-      this.pathCache.set(cacheKey, learningPath);
+      await this.recordVersion(userId, `goal:${[...targets].sort().join(',')}`, learningPath, {
+        subjects,
+        performance: userPerformance,
+        manualOrder
+      });
+      
+      await this.pathCache.set(cacheKey, learningPath);
       
       return learningPath;
     } catch (error) {
-      console.error('Error creating learning path:', error);
-      throw new Error('Failed to create learning path');
+      console.error('Error creating goal learning path:', error);
+      throw new Error('Failed to create goal learning path');
     }
   }
   
   /**
-   * Invalidates a user's cached learning path when curriculum changes
+   * Creates the learning paths of a whole cohort in one pass
    * 
-   * @param userId The ID of the user
+   * The subjects are fetched and their dependency graph is built and sorted once for
+   * the cohort, and learner data is fetched in bulk, instead of once per learner.
+   * Learners with an unexpired cached path reuse it. A learner whose path cannot be
+   * generated is reported in `failedUserIds` without failing the rest of the cohort.
+   * 
+   * @param members The learners in the cohort, with their time zones
+   * @param subjectIds Optional array of subject IDs to constrain the paths to specific subjects
+   * @returns Every learner's path and statistics across the cohort
+   */
+  public static async createCohortLearningPaths(
+    members: CohortMember[],
+    subjectIds?: string[]
+  ): Promise<CohortLearningPaths> {
+    const uniqueMembers = [...new Map(members.map(member => [member.userId, member])).values()];
+    const paths = new Map<string, LearningPath>();
+    const failedUserIds: string[] = [];
+    let performances: Map<string, UserPerformance>;
+    
+    try {
+      // Scores are needed for the cohort statistics even where cached paths are reused
+      performances = await this.fetchCohortDocuments(
+        userPerformanceRepository,
+        uniqueMembers.map(member => member.userId)
+      );
+      
+      // Reuse unexpired cached paths
+      const stale: CohortMember[] = [];
+      for (const member of uniqueMembers) {
+        const cachedPath = await this.pathCache.get(this.generateCacheKey(member.userId, subjectIds));
+        if (cachedPath && !this.hasCacheExpired(cachedPath)) {
+          paths.set(member.userId, cachedPath);
+        } else {
+          stale.push(member);
+        }
+      }
+      
+      if (stale.length > 0) {
+        // Shared by every learner in the cohort
+        const subjects = await this.fetchSubjects(subjectIds);
+        const curriculum = this.analyzeCurriculum(subjects);
+        
+        const staleIds = stale.map(member => member.userId);
+        const feedbacks = await this.fetchCohortDocuments(cognitiveFeedbackRepository, staleIds);
+        const overrides = await this.fetchCohortDocuments(learningPathOverrideRepository, staleIds);
+        
+        const scope = subjectIds && subjectIds.length > 0 ? `subjects:${[...subjectIds].sort().join(',')}` : 'full';
+        
+        for (const { userId, timeZone } of stale) {
+          try {
+            const userPerformance = performances.get(userId) || this.defaultUserPerformance(userId);
+            const manualOrder = overrides.get(userId)?.subjectIds || [];
+            
+            const learningPath = this.buildLearningPath(
+              userId,
+              subjects,
+              userPerformance,
+              feedbacks.get(userId) || this.defaultCognitiveFeedback(userId),
+              manualOrder,
+              this.resolveTimeZone(timeZone),
+              curriculum
+            );
+            
+            await this.recordVersion(userId, scope, learningPath, {
+              subjects,
+              performance: userPerformance,
+              manualOrder
+            });
+            await this.pathCache.set(this.generateCacheKey(userId, subjectIds), learningPath, {
+              catalogWide: !subjectIds || subjectIds.length === 0
+            });
+            
+            paths.set(userId, learningPath);
+          } catch (error) {
+            console.error(`Error creating learning path for cohort member ${userId}:`, error);
+            failedUserIds.push(userId);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error creating cohort learning paths:', error);
+      throw new Error('Failed to create cohort learning paths');
+    }
+    
+    // Keep the order the cohort was given in
+    const orderedPaths = uniqueMembers
+      .map(member => paths.get(member.userId))
+      .filter((path): path is LearningPath => path !== undefined);
+    
+    return {
+      paths: orderedPaths,
+      failedUserIds,
+      stats: this.summarizeCohort(orderedPaths, performances),
+      generatedAt: this.clock.now()
+    };
+  }
+  
+  /**
+   * Aggregates the learning paths of a cohort
+   * 
+   * A learner's next subject is the first incomplete subject in their path. An
+   * incomplete subject is a bottleneck for a learner when incomplete subjects in
+   * their path depend on it, directly or transitively.
+   * 
+   * @param paths The learning paths of the cohort
+   * @param performances Performance data of the learners, by user ID
+   * @param limit Maximum number of next subjects and bottlenecks to report
+   * @returns The most common next subjects and the prerequisites holding back the most learners
    */
-  public static invalidateCache(userId: string): void {
-    // Remove all cached paths for this user
-    for (const key of this.pathCache.keys()) {
-      if (key.startsWith(`user:${userId}`)) {
-        this.pathCache.delete(key);
+  private static summarizeCohort(
+    paths: LearningPath[],
+    performances: Map<string, UserPerformance>,
+    limit = 10
+  ): CohortLearningPathStats {
+    const nextSubjectCounts = new Map<string, number>();
+    const bottlenecks = new Map<string, { learnersBlocked: number, subjectsBlocked: number, scores: number[] }>();
+    
+    paths.forEach(path => {
+      const incomplete = new Set(
+        path.explanations
+          .filter(explanation => !explanation.completed || explanation.remediation)
+          .map(explanation => explanation.subjectId)
+      );
+      
+      const nextSubject = path.subjects.find(id => incomplete.has(id));
+      if (nextSubject) {
+        nextSubjectCounts.set(nextSubject, (nextSubjectCounts.get(nextSubject) || 0) + 1);
       }
+      
+      // Incomplete subjects that transitively depend on each incomplete subject
+      const dependentsOf = new Map(path.explanations.map(explanation => [explanation.subjectId, explanation.dependents]));
+      incomplete.forEach(subjectId => {
+        const blocked = new Set<string>();
+        const stack = [...(dependentsOf.get(subjectId) || [])];
+        while (stack.length > 0) {
+          const dependentId = stack.pop() as string;
+          if (blocked.has(dependentId) || dependentId === subjectId || !incomplete.has(dependentId)) continue;
+          blocked.add(dependentId);
+          stack.push(...(dependentsOf.get(dependentId) || []));
+        }
+        if (blocked.size === 0) return;
+        
+        const bottleneck = bottlenecks.get(subjectId) || { learnersBlocked: 0, subjectsBlocked: 0, scores: [] };
+        bottleneck.learnersBlocked++;
+        bottleneck.subjectsBlocked += blocked.size;
+        
+        const subjectPerf = performances.get(path.userId)?.subjectPerformance?.[subjectId];
+        if (subjectPerf && subjectPerf.attempts > 0) bottleneck.scores.push(subjectPerf.averageScore);
+        bottlenecks.set(subjectId, bottleneck);
+      });
+    });
+    
+    const bottleneckPrerequisites: BottleneckPrerequisite[] = [...bottlenecks]
+      .map(([subjectId, { learnersBlocked, subjectsBlocked, scores }]) => ({
+        subjectId,
+        learnersBlocked,
+        subjectsBlocked,
+        averageScore: scores.length > 0
+          ? Math.round(scores.reduce((total, score) => total + score, 0) / scores.length)
+          : null
+      }))
+      .sort((a, b) => b.learnersBlocked - a.learnersBlocked || b.subjectsBlocked - a.subjectsBlocked)
+      .slice(0, limit);
+    
+    return {
+      learners: paths.length,
+      nextSubjects: [...nextSubjectCounts]
+        .map(([subjectId, learners]) => ({ subjectId, learners }))
+        .sort((a, b) => b.learners - a.learners)
+        .slice(0, limit),
+      bottleneckPrerequisites
+    };
+  }
+  
+  /**
+   * Persists a generated path as a new version of its scope
+   * 
+   * History is best effort - a failure to record it is logged and never fails path generation.
+   * 
+   * @param userId The ID of the user
+   * @param scope Which path this is: `full`, `subjects:<ids>` or `goal:<ids>`
+   * @param learningPath The generated learning path
+   * @param inputs The data the path was generated from
+   */
+  private static async recordVersion(
+    userId: string,
+    scope: string,
+    learningPath: LearningPath,
+    inputs: LearningPathInputs
+  ): Promise<void> {
+    try {
+      await LearningPathHistoryService.recordVersion(userId, scope, learningPath, inputs);
+    } catch (error) {
+      console.error('Error recording learning path history:', error);
+    }
+  }
+  
+  /**
+   * Orders the given subjects for a user and assembles the learning path
+   * 
+   * @param userId The ID of the user
+   * @param subjects The subjects to order
+   * @param userPerformance User performance data
+   * @param userCognitiveFeedback User cognitive feedback data
+   * @param manualOrder Subject IDs in the order the user arranged them by hand
+   * @param timeZone The user's IANA time zone
+   * @param curriculum The dependency graph and initial order of the subjects, when already computed
+   * @returns The personalized learning path
+   */
+  private static buildLearningPath(
+    userId: string,
+    subjects: Subject[],
+    userPerformance: UserPerformance,
+    userCognitiveFeedback: CognitiveFeedback,
+    manualOrder: string[],
+    timeZone: string,
+    curriculum: CurriculumAnalysis = this.analyzeCurriculum(subjects)
+  ): LearningPath {
+    // Optimal times are hours of the user's day, not the server's
+    const now = this.clock.now();
+    const currentHour = getZonedParts(now, timeZone).hour;
+    
+    const { graph, order, cycleReport, requiredMastery } = curriculum;
+    let orderedSubjects = order;
+    
+    // Completed prerequisites learned below the mastery their dependents require are
+    // ordered as if they were not completed, so they are revisited first
+    const remediations = this.findRemediations(graph, requiredMastery, userPerformance);
+    const orderingPerformance = remediations.size === 0 ? userPerformance : {
+      ...userPerformance,
+      completedSubjects: (userPerformance.completedSubjects || []).filter(id => !remediations.has(id))
+    };
+    
+    // Apply personalization based on user performance and cognitive feedback
+    orderedSubjects = this.personalizeOrdering(
+      orderedSubjects,
+      graph,
+      orderingPerformance,
+      userCognitiveFeedback,
+      currentHour,
+      remediations
+    );
+    
+    // Merge in the user's manual reordering wherever prerequisites allow it
+    const { order: mergedOrder, conflicts: orderConflicts } = this.applyManualOrder(
+      orderedSubjects,
+      graph,
+      manualOrder
+    );
+    orderedSubjects = mergedOrder;
+    
+    // Explain how each subject's position was determined
+    const explanations = this.explainOrdering(
+      orderedSubjects,
+      graph,
+      orderingPerformance,
+      userCognitiveFeedback,
+      currentHour,
+      new Set(manualOrder),
+      requiredMastery,
+      remediations
+    );
+    
+    // Generate recommendations
+    const recommendations = this.generateRecommendations(
+      userId,
+      orderedSubjects,
+      subjects,
+      graph,
+      userPerformance,
+      userCognitiveFeedback,
+      now,
+      timeZone
+    );
+    
+    // Create the final learning path
+    return {
+      userId,
+      subjects: orderedSubjects,
+      explanations,
+      recommendations,
+      cycleReport,
+      orderConflicts,
+      remediations: orderedSubjects
+        .filter(id => remediations.has(id))
+        .map(id => remediations.get(id) as PrerequisiteRemediation),
+      timeZone,
+      generatedAt: now,
+      expiresAt: this.calculateExpirationTime(now, userCognitiveFeedback, timeZone),
+    };
+  }
+  
+  /**
+   * Builds the dependency graph of a set of subjects and sorts it topologically
+   * 
+   * @param subjects The subjects to order
+   * @returns The graph, the initial order and a report of any cycles
+   */
+  private static analyzeCurriculum(subjects: Subject[]): CurriculumAnalysis {
+    // Build the subject dependency graph
+    const graph = this.buildDependencyGraph(subjects);
+    
+    // Calculate initial ordering via topological sort
+    const { order, cycleReport } = this.topologicalSort(graph);
+    
+    const requiredMastery = new Map(subjects.map(subject => [
+      subject.id,
+      new Map((subject.dependencies || []).map(prerequisiteId => [
+        prerequisiteId,
+        this.requiredMasteryOf(subject, prerequisiteId)
+      ]))
+    ]));
+    
+    return { graph, order, cycleReport, requiredMastery };
+  }
+  
+  /**
+   * Gets the average score a subject requires in one of its dependencies
+   * 
+   * @param subject The dependent subject
+   * @param prerequisiteId The ID of the dependency
+   * @returns The required average score (0-100)
+   */
+  private static requiredMasteryOf(subject: Subject, prerequisiteId: string): number {
+    return subject.dependencyMastery?.[prerequisiteId] ?? DEFAULT_REQUIRED_MASTERY;
+  }
+  
+  /**
+   * Checks whether a learner has mastered a subject to a required level
+   * 
+   * Once the learner has attempted the subject their average score decides; a subject
+   * completed without any recorded attempts counts as mastered.
+   * 
+   * @param subjectId The ID of the subject
+   * @param requiredMastery The required average score (0-100)
+   * @param performance User performance data
+   * @returns True if the learner meets the required mastery
+   */
+  private static hasMastered(subjectId: string, requiredMastery: number, performance: UserPerformance): boolean {
+    const subjectPerf = performance.subjectPerformance[subjectId];
+    if (subjectPerf && subjectPerf.attempts > 0) {
+      return subjectPerf.averageScore >= requiredMastery;
+    }
+    
+    return (performance.completedSubjects || []).includes(subjectId);
+  }
+  
+  /**
+   * Finds completed prerequisites the learner has to revisit
+   * 
+   * A completed prerequisite needs remediation when the learner's average score in it
+   * is below the mastery an incomplete subject depending on it requires.
+   * 
+   * @param graph The subject dependency graph
+   * @param requiredMastery Required average score of each dependency, by dependent subject ID
+   * @param performance User performance data
+   * @returns The remediations, by the ID of the prerequisite to revisit
+   */
+  private static findRemediations(
+    graph: Map<string, string[]>,
+    requiredMastery: Map<string, Map<string, number>>,
+    performance: UserPerformance
+  ): Map<string, PrerequisiteRemediation> {
+    const completedSubjects = new Set(performance.completedSubjects || []);
+    const remediations = new Map<string, PrerequisiteRemediation>();
+    
+    graph.forEach((dependents, prerequisiteId) => {
+      const subjectPerf = performance.subjectPerformance[prerequisiteId];
+      if (!completedSubjects.has(prerequisiteId) || !subjectPerf || subjectPerf.attempts === 0) return;
+      
+      dependents.forEach(dependentId => {
+        const required = requiredMastery.get(dependentId)?.get(prerequisiteId) ?? DEFAULT_REQUIRED_MASTERY;
+        if (completedSubjects.has(dependentId) || subjectPerf.averageScore >= required) return;
+        
+        const remediation = remediations.get(prerequisiteId) || {
+          subjectId: prerequisiteId,
+          currentScore: subjectPerf.averageScore,
+          requiredMastery: required,
+          requiredFor: []
+        };
+        remediation.requiredMastery = Math.max(remediation.requiredMastery, required);
+        remediation.requiredFor.push(dependentId);
+        remediations.set(prerequisiteId, remediation);
+      });
+    });
+    
+    return remediations;
+  }
+  
+  /**
+   * Lists the prerequisites of a subject the learner has not mastered to the required level
+   * 
+   * @param subjectId The ID of the subject
+   * @param requiredMastery Required average score of each dependency, by dependent subject ID
+   * @param performance User performance data
+   * @returns The mastery gaps gating the subject
+   */
+  private static findMasteryGaps(
+    subjectId: string,
+    requiredMastery: Map<string, Map<string, number>>,
+    performance: UserPerformance
+  ): MasteryGap[] {
+    return [...(requiredMastery.get(subjectId) || [])]
+      .filter(([prerequisiteId, required]) => !this.hasMastered(prerequisiteId, required, performance))
+      .map(([prerequisiteId, required]) => {
+        const subjectPerf = performance.subjectPerformance[prerequisiteId];
+        return {
+          prerequisiteId,
+          requiredMastery: required,
+          currentScore: subjectPerf && subjectPerf.attempts > 0 ? subjectPerf.averageScore : null
+        };
+      });
+  }
+  
+  /**
+   * Validates the curriculum dependency graph and reports every cycle in it
+   * 
+   * @param subjectIds Optional array of subject IDs to constrain the validation to
+   * @returns A cycle report with the subjects, edges and suggested edge removals for each cycle
+   */
+  public static async validateCurriculum(subjectIds?: string[]): Promise<CycleReport> {
+    try {
+      const subjects = await this.fetchSubjects(subjectIds);
+      const graph = this.buildDependencyGraph(subjects);
+      
+      return this.detectCycles(graph);
+    } catch (error) {
+      console.error('Error validating curriculum:', error);
+      throw new Error('Failed to validate curriculum');
+    }
+  }
+  
+  /**
+   * Stores the order a user arranged their learning path in by hand
+   * 
+   * The order is merged into every path generated for the user afterwards, so it
+   * survives cache expiry and regeneration.
+   * 
+   * @param userId The ID of the user
+   * @param subjectIds Subject IDs in the user's preferred order
+   */
+  public static async saveManualOrder(userId: string, subjectIds: string[]): Promise<void> {
+    try {
+      await learningPathOverrideRepository.save({
+        userId,
+        subjectIds: [...new Set(subjectIds)],
+        updatedAt: this.clock.now()
+      });
+    } catch (error) {
+      console.error('Error saving manual learning path order:', error);
+      throw new Error('Failed to save manual learning path order');
+    }
+    
+    await this.invalidateCache(userId);
+  }
+  
+  /**
+   * Discards a user's manual ordering so their paths follow the computed order again
+   * 
+   * @param userId The ID of the user
+   */
+  public static async resetManualOrder(userId: string): Promise<void> {
+    try {
+      await learningPathOverrideRepository.deleteByUserId(userId);
+    } catch (error) {
+      console.error('Error resetting manual learning path order:', error);
+      throw new Error('Failed to reset manual learning path order');
     }
+    
+    await this.invalidateCache(userId);
+  }
+  
+  /**
+   * Subscribes to domain events so cached paths are invalidated as soon as the
+   * learner's progress or the curriculum changes
+   */
+  public static subscribeToDomainEvents(): void {
+    // Progress changes only affect the learner's own paths
+    domainEvents.subscribe(DomainEvents.LESSON_COMPLETED, ({ userId }) => this.invalidateCache(userId));
+    domainEvents.subscribe(DomainEvents.REVIEW_SUBMITTED, ({ userId }) => this.invalidateCache(userId));
+    
+    // Peak hours and expiry depend on the learner's time zone
+    domainEvents.subscribe(DomainEvents.TIME_ZONE_UPDATED, ({ userId }) => this.invalidateCache(userId));
+    
+    // Curriculum changes affect every path that orders the changed subjects
+    domainEvents.subscribe(DomainEvents.SUBJECT_UPDATED, ({ subjectId }) => this.invalidateSubjects([subjectId]));
+    domainEvents.subscribe(DomainEvents.SUBJECT_DELETED, ({ subjectId }) => this.invalidateSubjects([subjectId]));
+    domainEvents.subscribe(DomainEvents.SUBJECTS_REORDERED, ({ subjectIds }) => this.invalidateSubjects(subjectIds));
+    
+    // A new subject only appears in paths generated over the whole catalog
+    domainEvents.subscribe(DomainEvents.SUBJECT_CREATED, () => this.invalidate({ type: 'catalog' }));
+  }
+  
+  /**
+   * Invalidates a user's cached learning path when their progress changes
+   * 
+   * @param userId The ID of the user
+   */
+  public static async invalidateCache(userId: string): Promise<void> {
+    await this.invalidate({ type: 'prefix', prefix: `user:${userId}` });
+  }
+  
+  /**
+   * Invalidates every cached learning path that orders any of the given subjects
+   * 
+   * @param subjectIds The IDs of the changed subjects
+   */
+  public static async invalidateSubjects(subjectIds: string[]): Promise<void> {
+    if (subjectIds.length === 0) return;
+    await this.invalidate({ type: 'subjects', subjectIds });
   }
   
   /**
    * Invalidates all cached learning paths when global curriculum changes
    */
-  public static invalidateAllCaches(): void {
-    this.pathCache.clear();
+  public static async invalidateAllCaches(): Promise<void> {
+    await this.invalidate({ type: 'all' });
+  }
+  
+  /**
+   * Applies an invalidation to the local cache and broadcasts it to the other instances
+   * 
+   * @param invalidation The invalidation to apply
+   */
+  private static async invalidate(invalidation: LearningPathCacheInvalidation): Promise<void> {
+    await applyInvalidation(this.pathCache, invalidation);
+    await this.invalidationBus?.publish(invalidation);
   }
   
   /**
@@ -109,20 +769,87 @@ export class DynamicLearningPathService {
    */
   private static async fetchSubjects(subjectIds?: string[]): Promise<Subject[]> {
     try {
-      let query = {};
-      
-      if (subjectIds && subjectIds.length > 0) {
-        query = { id: { $in: subjectIds } };
-      }
-      
-      const subjects = await db.collection('subjects').find(query).toArray();
-      return subjects as Subject[];
+      return await subjectRepository.findByIds(subjectIds);
     } catch (error) {
       console.error('Error fetching subjects:', error);
       throw new Error('Failed to fetch subjects');
     }
   }
   
+  /**
+   * Fetches the target subjects and every prerequisite they transitively depend on
+   * 
+   * Each round fetches the prerequisites discovered in the previous one, so the number
+   * of queries is bounded by the depth of the dependency chain rather than its size.
+   * 
+   * @param targetSubjectIds IDs of the subjects to reach
+   * @param performance User performance data, to skip completed and mastered prerequisites
+   * @returns The subjects in the closure, the completed subjects that were skipped and any IDs that do not exist
+   */
+  private static async fetchPrerequisiteClosure(
+    targetSubjectIds: string[],
+    performance: UserPerformance
+  ): Promise<{ subjects: Subject[], skippedSubjectIds: string[], missingSubjectIds: string[] }> {
+    const completedSubjects = new Set(performance.completedSubjects || []);
+    const closure = new Map<string, Subject>();
+    const skipped = new Set<string>();
+    const missing = new Set<string>();
+    // Subjects to visit, with the mastery the incomplete subject that led to them requires
+    let frontier: Array<{ id: string, requiredMastery?: number }> = targetSubjectIds.map(id => ({ id }));
+    
+    while (frontier.length > 0) {
+      // Completed subjects end the search along their branch, unless they were learned
+      // below the mastery a subject depending on them requires
+      const remediate = new Set(frontier
+        .filter(({ id, requiredMastery }) =>
+          completedSubjects.has(id) && requiredMastery !== undefined &&
+          !this.hasMastered(id, requiredMastery, performance)
+        )
+        .map(({ id }) => id));
+      
+      const toFetch = [...new Set(frontier.map(({ id }) => id))].filter(id =>
+        !closure.has(id) && !missing.has(id) && (!skipped.has(id) || remediate.has(id))
+      );
+      const pending = toFetch.filter(id => !completedSubjects.has(id) || remediate.has(id));
+      toFetch.filter(id => !pending.includes(id)).forEach(id => skipped.add(id));
+      pending.forEach(id => skipped.delete(id));
+      if (pending.length === 0) break;
+      
+      const fetched = await this.fetchSubjects(pending);
+      fetched.forEach(subject => closure.set(subject.id, subject));
+      pending.filter(id => !closure.has(id)).forEach(id => missing.add(id));
+      
+      frontier = fetched.flatMap(subject => (subject.dependencies || []).map(id => ({
+        id,
+        // A completed subject being remediated does not send the learner further back
+        requiredMastery: completedSubjects.has(subject.id) ? undefined : this.requiredMasteryOf(subject, id)
+      })));
+    }
+    
+    if (missing.size > 0) {
+      console.warn(`Goal path references ${missing.size} unknown subject(s): ${[...missing].join(', ')}`);
+    }
+    
+    return {
+      subjects: [...closure.values()],
+      skippedSubjectIds: [...skipped],
+      missingSubjectIds: [...missing]
+    };
+  }
+  
+  /**
+   * Estimates how long a subject takes to learn
+   * 
+   * @param subject The subject
+   * @param performance User performance data, used when the subject has no estimate of its own
+   * @returns The estimated time in minutes, or 0 if unknown
+   */
+  private static estimateSubjectMinutes(subject: Subject, performance: UserPerformance): number {
+    return subject.estimatedTimeMinutes
+      ?? performance.subjectPerformance[subject.id]?.estimatedTimeMinutes
+      ?? 0;
+  }
+  
   /**
    * Fetches user performance data from the database
    * 
@@ -131,16 +858,9 @@ export class DynamicLearningPathService {
    */
   private static async fetchUserPerformance(userId: string): Promise<UserPerformance> {
     try {
-      const performance = await db.collection('user_performance')
-        .findOne({ userId });
+      const performance = await userPerformanceRepository.findByUserId(userId);
         
-      return performance as UserPerformance || {
-        userId,
-        subjectPerformance: {},
-        averageScore: 0,
-        learningRate: 1.0,
-        completedSubjects: []
-      };
+      return performance || this.defaultUserPerformance(userId);
     } catch (error) {
       console.error('Error fetching user performance:', error);
       throw new Error('Failed to fetch user performance');
@@ -155,26 +875,81 @@ export class DynamicLearningPathService {
    */
   private static async fetchCognitiveFeedback(userId: string): Promise<CognitiveFeedback> {
     try {
-      const feedback = await db.collection('cognitive_feedback')
-        .findOne({ userId });
+      const feedback = await cognitiveFeedbackRepository.findByUserId(userId);
         
-      return feedback as CognitiveFeedback || {
-        userId,
-        optimalTimes: [],
-        focusMetrics: {
-          averageFocusScore: 0,
-          focusPeaks: [],
-          attentionSpanMinutes: 20
-        },
-        preferredAudioPresets: [],
-        learningStyles: []
-      };
+      return feedback || this.defaultCognitiveFeedback(userId);
     } catch (error) {
       console.error('Error fetching cognitive feedback:', error);
       throw new Error('Failed to fetch cognitive feedback');
     }
   }
   
+  /**
+   * Fetches the per-user documents of a collection for many users in one query
+   * 
+   * @param repository The repository of the collection to read
+   * @param userIds The IDs of the users
+   * @returns The documents by user ID; users without a document are left out
+   */
+  private static async fetchCohortDocuments<T extends { userId: string }>(
+    repository: UserDocumentRepository<T>,
+    userIds: string[]
+  ): Promise<Map<string, T>> {
+    try {
+      return await repository.findByUserIds(userIds);
+    } catch (error) {
+      console.error(`Error fetching ${repository.collectionName} for cohort:`, error);
+      throw new Error(`Failed to fetch ${repository.collectionName} for cohort`);
+    }
+  }
+  
+  /**
+   * Performance data for a user who has not studied yet
+   */
+  private static defaultUserPerformance(userId: string): UserPerformance {
+    return {
+      userId,
+      subjectPerformance: {},
+      averageScore: 0,
+      learningRate: 1.0,
+      completedSubjects: []
+    };
+  }
+  
+  /**
+   * Cognitive feedback for a user without recorded neural state data
+   */
+  private static defaultCognitiveFeedback(userId: string): CognitiveFeedback {
+    return {
+      userId,
+      optimalTimes: [],
+      focusMetrics: {
+        averageFocusScore: 0,
+        focusPeaks: [],
+        attentionSpanMinutes: 20
+      },
+      preferredAudioPresets: [],
+      learningStyles: []
+    };
+  }
+  
+  /**
+   * Fetches the order the user arranged their learning path in by hand
+   * 
+   * @param userId The ID of the user
+   * @returns Subject IDs in the user's preferred order, or an empty array if they have not reordered
+   */
+  private static async fetchManualOrder(userId: string): Promise<string[]> {
+    try {
+      const override = await learningPathOverrideRepository.findByUserId(userId);
+        
+      return override?.subjectIds || [];
+    } catch (error) {
+      console.error('Error fetching manual learning path order:', error);
+      throw new Error('Failed to fetch manual learning path order');
+    }
+  }
+  
   /**
    * Builds a dependency graph from subject data
    * 
@@ -207,92 +982,403 @@ export class DynamicLearningPathService {
    * Performs a topological sort on the dependency graph
    * 
    * @param graph The subject dependency graph
-   * @returns Array of ordered Subject IDs
+   * @returns Array of ordered Subject IDs and a report of any cycles that prevented a full order
    */
-  private static topologicalSort(graph: Map<string, string[]>): string[] {
+  private static topologicalSort(graph: Map<string, string[]>): { order: string[], cycleReport: CycleReport } {
     const visited = new Set<string>();
     const temp = new Set<string>();
     const order: string[] = [];
-    
+
     // Helper function for depth-first search
     const visit = (id: string): void => {
       // Skip if already processed
       if (visited.has(id)) return;
-      
-      // Check for cyclic dependencies
-      if (temp.has(id)) {
-        console.warn(`Cyclic dependency detected involving subject ${id}`);
-        return;
-      }
-      
+
+      // Back edge into a cycle - reported by detectCycles below
+      if (temp.has(id)) return;
+
       // Mark as being processed
       temp.add(id);
-      
+
       // Visit dependencies first
       const dependencies = graph.get(id) || [];
       dependencies.forEach(dep => visit(dep));
-      
+
       // Mark as processed and add to order
       temp.delete(id);
       visited.add(id);
       order.push(id);
     };
-    
+
     // Process all nodes
     for (const id of graph.keys()) {
       if (!visited.has(id)) {
         visit(id);
       }
     }
+
+    // Post-order lists dependents before their prerequisites
+    order.reverse();
     
-    return order;
+    const cycleReport = this.detectCycles(graph);
+    if (cycleReport.hasCycles) {
+      console.warn(`Cyclic dependencies detected in ${cycleReport.cycles.length} subject group(s)`);
+    }
+
+    return { order, cycleReport };
   }
-  
+
+  /**
+   * Finds every cycle in the dependency graph using Tarjan's strongly connected components algorithm
+   * 
+   * @param graph The subject dependency graph (prerequisite -> dependents)
+   * @returns A report with one entry per strongly connected component that contains a cycle
+   */
+  private static detectCycles(graph: Map<string, string[]>): CycleReport {
+    let nextIndex = 0;
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+
+    const strongConnect = (id: string): void => {
+      let lowLink = nextIndex;
+      indices.set(id, nextIndex++);
+      stack.push(id);
+      onStack.add(id);
+
+      for (const dependent of graph.get(id) || []) {
+        if (!indices.has(dependent)) {
+          strongConnect(dependent);
+          lowLink = Math.min(lowLink, lowLinks.get(dependent) as number);
+        } else if (onStack.has(dependent)) {
+          lowLink = Math.min(lowLink, indices.get(dependent) as number);
+        }
+      }
+      lowLinks.set(id, lowLink);
+
+      // Root of a component - pop its members off the stack
+      if (lowLink === indices.get(id)) {
+        const component: string[] = [];
+        let member: string | undefined;
+        do {
+          member = stack.pop() as string;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== id);
+        components.push(component);
+      }
+    };
+
+    for (const id of graph.keys()) {
+      if (!indices.has(id)) {
+        strongConnect(id);
+      }
+    }
+
+    const cycles: DependencyCycle[] = [];
+    components.forEach(component => {
+      const members = new Set(component);
+      const edges: DependencyEdge[] = [];
+
+      component.forEach(prerequisiteId => {
+        (graph.get(prerequisiteId) || []).forEach(subjectId => {
+          if (members.has(subjectId)) {
+            edges.push({ prerequisiteId, subjectId });
+          }
+        });
+      });
+
+      // A single subject is only a cycle when it depends on itself
+      if (component.length > 1 || edges.length > 0) {
+        cycles.push({
+          subjectIds: component.sort(),
+          edges,
+          suggestedRemovals: this.suggestEdgeRemovals(component, edges)
+        });
+      }
+    });
+
+    return {
+      hasCycles: cycles.length > 0,
+      cycles
+    };
+  }
+
+  /**
+   * Suggests dependency edges to remove so that a cyclic component becomes acyclic
+   * 
+   * Uses the Eades-Lin-Smyth heuristic to find a good linear ordering of the component,
+   * proposes every edge that points backwards in that ordering, then drops any proposal
+   * that is not needed, so no suggested edge can be kept without leaving a cycle behind.
+   * 
+   * @param subjectIds Subjects in the strongly connected component
+   * @param edges Dependency edges between those subjects
+   * @returns The edges to remove
+   */
+  private static suggestEdgeRemovals(subjectIds: string[], edges: DependencyEdge[]): DependencyEdge[] {
+    const remaining = new Set(subjectIds);
+    const head: string[] = [];
+    const tail: string[] = [];
+
+    const degree = (id: string, direction: 'in' | 'out'): number => edges.filter(edge =>
+      edge.prerequisiteId !== edge.subjectId &&
+      (direction === 'out'
+        ? edge.prerequisiteId === id && remaining.has(edge.subjectId)
+        : edge.subjectId === id && remaining.has(edge.prerequisiteId))
+    ).length;
+
+    while (remaining.size > 0) {
+      // Sinks go to the end of the ordering
+      let sink = [...remaining].find(id => degree(id, 'out') === 0);
+      while (sink) {
+        remaining.delete(sink);
+        tail.unshift(sink);
+        sink = [...remaining].find(id => degree(id, 'out') === 0);
+      }
+
+      // Sources go to the start of the ordering
+      let source = [...remaining].find(id => degree(id, 'in') === 0);
+      while (source) {
+        remaining.delete(source);
+        head.push(source);
+        source = [...remaining].find(id => degree(id, 'in') === 0);
+      }
+
+      // Otherwise place the subject that unlocks the most while depending on the least
+      if (remaining.size > 0) {
+        let best = '';
+        let bestDelta = -Infinity;
+        remaining.forEach(id => {
+          const delta = degree(id, 'out') - degree(id, 'in');
+          if (delta > bestDelta) {
+            best = id;
+            bestDelta = delta;
+          }
+        });
+        remaining.delete(best);
+        head.push(best);
+      }
+    }
+
+    const position = new Map<string, number>();
+    [...head, ...tail].forEach((id, index) => position.set(id, index));
+
+    const removals = edges.filter(edge =>
+      (position.get(edge.prerequisiteId) as number) >= (position.get(edge.subjectId) as number)
+    );
+
+    // Keep any suggested edge whose restoration does not reintroduce a cycle
+    for (const edge of [...removals]) {
+      const withoutEdge = removals.filter(removal => removal !== edge);
+      const keptEdges = edges.filter(candidate => !withoutEdge.includes(candidate));
+      if (this.isAcyclic(subjectIds, keptEdges)) {
+        removals.splice(removals.indexOf(edge), 1);
+      }
+    }
+
+    return removals;
+  }
+
+  /**
+   * Checks whether a set of dependency edges forms a DAG over the given subjects
+   * 
+   * @param subjectIds Subjects in the graph
+   * @param edges Dependency edges between those subjects
+   * @returns True if the edges contain no cycle
+   */
+  private static isAcyclic(subjectIds: string[], edges: DependencyEdge[]): boolean {
+    const inDegree = new Map<string, number>();
+    subjectIds.forEach(id => inDegree.set(id, 0));
+    edges.forEach(edge => inDegree.set(edge.subjectId, (inDegree.get(edge.subjectId) || 0) + 1));
+
+    const queue = subjectIds.filter(id => inDegree.get(id) === 0);
+    let processed = 0;
+
+    while (queue.length > 0) {
+      const id = queue.shift() as string;
+      processed++;
+
+      edges.forEach(edge => {
+        if (edge.prerequisiteId === id) {
+          const degree = (inDegree.get(edge.subjectId) as number) - 1;
+          inDegree.set(edge.subjectId, degree);
+          if (degree === 0) queue.push(edge.subjectId);
+        }
+      });
+    }
+
+    return processed === subjectIds.length;
+  }
+
   /**
    * Personalizes the subject ordering based on user performance and cognitive data
    * 
-   * @param initialOrder Array of subject IDs in initial topological order
+   * Of the subjects whose prerequisites have already been placed, the most suitable
+   * one comes next. Personalization can therefore never move a subject ahead of its
+   * own prerequisites.
+   * 
+   * @param initialOrder Array of subject IDs in initial topological order (used to break ties)
+   * @param graph The subject dependency graph
    * @param performance User performance data
    * @param cognitiveFeedback User cognitive feedback data
+   * @param currentHour The current hour (0-23) in the user's time zone
+   * @param remediations Completed subjects the user has to revisit, by subject ID
    * @returns Reordered array of subject IDs optimized for the user
    */
   private static personalizeOrdering(
     initialOrder: string[], 
+    graph: Map<string, string[]>,
     performance: UserPerformance,
-    cognitiveFeedback: CognitiveFeedback
+    cognitiveFeedback: CognitiveFeedback,
+    currentHour: number,
+    remediations: Map<string, PrerequisiteRemediation> = new Map()
   ): string[] {
-    // Clone the initial order to avoid modifying it
-    const personalizedOrder = [...initialOrder];
+    const completedSubjects = new Set(performance.completedSubjects || []);
+    const initialPosition = new Map(initialOrder.map((id, index) => [id, index]));
+    
+    // Calculate a priority score for each subject based on learning styles and cognitive patterns
+    const scores = new Map(initialOrder.map(id => [
+      id,
+      this.calculateSubjectPriorityScore(id, performance, cognitiveFeedback, currentHour, remediations.get(id))
+    ]));
+    
+    return this.orderRespectingPrerequisites(initialOrder, graph, (a, b) => {
+      // Completed subjects go as late as their dependents allow
+      const aCompleted = completedSubjects.has(a);
+      const bCompleted = completedSubjects.has(b);
+      if (aCompleted !== bCompleted) return aCompleted ? 1 : -1;
+      
+      // Higher scores should come first
+      const scoreDelta = (scores.get(b) as number) - (scores.get(a) as number);
+      if (scoreDelta !== 0) return scoreDelta;
+      
+      // Fall back to the curriculum order
+      return (initialPosition.get(a) as number) - (initialPosition.get(b) as number);
+    });
+  }
+  
+  /**
+   * Merges a user's manual ordering into the computed order
+   * 
+   * The subjects the user arranged by hand take over the positions those subjects hold
+   * in the computed order, in the user's order, while every other subject keeps its
+   * computed position. Prerequisites still win: a subject the user moved ahead of its
+   * prerequisites is placed right after them and reported as a conflict.
+   * 
+   * @param computedOrder Subject IDs in personalized order
+   * @param graph The subject dependency graph
+   * @param manualOrder Subject IDs in the order the user arranged them by hand
+   * @returns The merged order and the manual placements that prerequisites overrode
+   */
+  private static applyManualOrder(
+    computedOrder: string[],
+    graph: Map<string, string[]>,
+    manualOrder: string[]
+  ): { order: string[], conflicts: ManualOrderConflict[] } {
+    const inPath = new Set(computedOrder);
+    const pinned = [...new Set(manualOrder)].filter(id => inPath.has(id));
+    if (pinned.length === 0) {
+      return { order: computedOrder, conflicts: [] };
+    }
     
-    // Skip completed subjects to the end
-    const completedSubjects = performance.completedSubjects || [];
+    const pinnedSet = new Set(pinned);
+    let nextPinned = 0;
+    const preferredOrder = computedOrder.map(id => pinnedSet.has(id) ? pinned[nextPinned++] : id);
+    const preferredPosition = new Map(preferredOrder.map((id, index) => [id, index]));
     
-    // Apply cognitive feedback adjustments
-    // - Focus patterns might indicate which subjects to tackle when attention is fresh
-    // - Learning styles can influence the order (e.g., visual learners may do better with certain subjects first)
+    const order = this.orderRespectingPrerequisites(preferredOrder, graph, (a, b) =>
+      (preferredPosition.get(a) as number) - (preferredPosition.get(b) as number)
+    );
     
-    // For now, a simple implementation that:
-    // 1. Moves completed subjects to the end
-    // 2. Prioritizes subjects that match the user's learning styles
+    // Report every pinned subject that ended up behind subjects it was pinned ahead of
+    const position = new Map(order.map((id, index) => [id, index]));
+    const prerequisitesOf = this.buildPrerequisiteMap(graph);
+    const conflicts: ManualOrderConflict[] = [];
     
-    // Sort the array using a custom comparator function
-    personalizedOrder.sort((a, b) => {
-      // Move completed subjects to the end
-      const aCompleted = completedSubjects.includes(a);
-      const bCompleted = completedSubjects.includes(b);
+    pinned.forEach((subjectId, index) => {
+      const subjectPosition = position.get(subjectId) as number;
+      const requestedBefore = pinned
+        .slice(index + 1)
+        .filter(otherId => (position.get(otherId) as number) < subjectPosition);
+      if (requestedBefore.length === 0) return;
       
-      if (aCompleted && !bCompleted) return 1;
-      if (!aCompleted && bCompleted) return -1;
+      const earliest = Math.min(...requestedBefore.map(otherId => position.get(otherId) as number));
+      conflicts.push({
+        subjectId,
+        requestedBefore,
+        blockingPrerequisites: (prerequisitesOf.get(subjectId) || []).filter(prerequisiteId =>
+          position.has(prerequisiteId) && (position.get(prerequisiteId) as number) >= earliest
+        )
+      });
+    });
+    
+    return { order, conflicts };
+  }
+  
+  /**
+   * Orders subjects so that every subject comes after its prerequisites
+   * 
+   * Runs Kahn's algorithm with a priority queue: of the subjects whose prerequisites
+   * have all been placed, the one that sorts first by the comparator comes next.
+   * 
+   * @param subjectIds The subjects to order
+   * @param graph The subject dependency graph
+   * @param compare Comparator that ranks the available subjects (Array.sort semantics)
+   * @returns The subject IDs in order
+   */
+  private static orderRespectingPrerequisites(
+    subjectIds: string[],
+    graph: Map<string, string[]>,
+    compare: (a: string, b: string) => number
+  ): string[] {
+    // Count the prerequisites of each subject that have not been placed yet
+    const unplacedPrerequisites = new Map(subjectIds.map(id => [id, 0]));
+    subjectIds.forEach(id => {
+      (graph.get(id) || []).forEach(dependentId => {
+        if (unplacedPrerequisites.has(dependentId)) {
+          unplacedPrerequisites.set(dependentId, (unplacedPrerequisites.get(dependentId) as number) + 1);
+        }
+      });
+    });
+    
+    const available = new PriorityQueue<string>(compare);
+    subjectIds.forEach(id => {
+      if (unplacedPrerequisites.get(id) === 0) available.push(id);
+    });
+    
+    const placed = new Set<string>();
+    const order: string[] = [];
+    
+    while (order.length < subjectIds.length) {
+      let next = available.pop();
       
-      // Calculate a priority score for each subject based on learning styles and cognitive patterns
-      const aScore = this.calculateSubjectPriorityScore(a, performance, cognitiveFeedback);
-      const bScore = this.calculateSubjectPriorityScore(b, performance, cognitiveFeedback);
+      // Only a dependency cycle can leave every remaining subject blocked - release
+      // the one with the fewest unplaced prerequisites to break it
+      if (next === undefined) {
+        next = subjectIds
+          .filter(id => !placed.has(id))
+          .sort((a, b) =>
+            (unplacedPrerequisites.get(a) as number) - (unplacedPrerequisites.get(b) as number) || compare(a, b)
+          )[0];
+      }
       
-      // Higher scores should come first
-      return bScore - aScore;
-    });
+      if (placed.has(next)) continue;
+      placed.add(next);
+      order.push(next);
+      
+      // Unlock dependents whose prerequisites are now all placed
+      (graph.get(next) || []).forEach(dependentId => {
+        if (!unplacedPrerequisites.has(dependentId) || placed.has(dependentId)) return;
+        
+        const remaining = (unplacedPrerequisites.get(dependentId) as number) - 1;
+        unplacedPrerequisites.set(dependentId, remaining);
+        if (remaining === 0) available.push(dependentId);
+      });
+    }
     
-    return personalizedOrder;
+    return order;
   }
   
   /**
@@ -301,40 +1387,82 @@ export class DynamicLearningPathService {
    * @param subjectId The ID of the subject
    * @param performance User performance data
    * @param cognitiveFeedback User cognitive feedback data
+   * @param currentHour The current hour (0-23) in the user's time zone
+   * @param remediation Why the user has to revisit the subject, if they do
    * @returns A numerical score representing the priority (higher = more suitable)
    */
   private static calculateSubjectPriorityScore(
     subjectId: string,
     performance: UserPerformance,
-    cognitiveFeedback: CognitiveFeedback
+    cognitiveFeedback: CognitiveFeedback,
+    currentHour: number,
+    remediation?: PrerequisiteRemediation
   ): number {
-    let score = 50; // Base score
+    return this.explainSubjectPriorityScore(subjectId, performance, cognitiveFeedback, currentHour, remediation).finalScore;
+  }
+  
+  /**
+   * Breaks a subject's priority score down into its base score and each adjustment
+   * 
+   * @param subjectId The ID of the subject
+   * @param performance User performance data
+   * @param cognitiveFeedback User cognitive feedback data
+   * @param currentHour The current hour (0-23) in the user's time zone
+   * @param remediation Why the user has to revisit the subject, if they do
+   * @returns The base score, the adjustments applied with their reasons, and the final score
+   */
+  private static explainSubjectPriorityScore(
+    subjectId: string,
+    performance: UserPerformance,
+    cognitiveFeedback: CognitiveFeedback,
+    currentHour: number,
+    remediation?: PrerequisiteRemediation
+  ): { baseScore: number, adjustments: ScoreAdjustment[], finalScore: number } {
+    const baseScore = 50;
+    const adjustments: ScoreAdjustment[] = [];
     
     // Adjust based on user's learning styles
     const subjectPerf = performance.subjectPerformance[subjectId];
     if (subjectPerf) {
       // If user has attempted this subject before, adjust score based on their success
       if (subjectPerf.attempts > 0) {
+        // Revisit weak prerequisites before the subjects that need them
+        if (remediation) {
+          adjustments.push({
+            factor: 'remediation',
+            reason: `Average score of ${remediation.currentScore}% is below the ${remediation.requiredMastery}% needed for ${remediation.requiredFor.join(', ')}`,
+            delta: 20
+          });
+        }
         // Lower priority if they struggled with it
-        if (subjectPerf.averageScore < 50) {
-          score -= 15;
+        else if (subjectPerf.averageScore < 50) {
+          adjustments.push({
+            factor: 'prior_performance',
+            reason: `Average score of ${subjectPerf.averageScore}% suggests building more foundation first`,
+            delta: -15
+          });
         }
         // If they did well but didn't complete it, prioritize it to encourage completion
         else if (subjectPerf.averageScore > 70 && !performance.completedSubjects.includes(subjectId)) {
-          score += 10;
+          adjustments.push({
+            factor: 'prior_performance',
+            reason: `Average score of ${subjectPerf.averageScore}% - close to completing this subject`,
+            delta: 10
+          });
         }
       }
       
       // Adjust based on cognitive patterns (e.g., time of day preferences)
       if (cognitiveFeedback.optimalTimes.length > 0) {
-        const currentHour = new Date().getHours();
-        const isOptimalTimeNow = cognitiveFeedback.optimalTimes.some(
-          timeRange => currentHour >= timeRange.start && currentHour <= timeRange.end
-        );
+        const isOptimalTimeNow = this.isOptimalHour(currentHour, cognitiveFeedback);
         
         // If it's an optimal learning time for the user, prioritize challenging subjects
         if (isOptimalTimeNow && subjectPerf.difficulty > 3) {
-          score += 15;
+          adjustments.push({
+            factor: 'time_of_day',
+            reason: 'Challenging subject during one of your peak performance hours',
+            delta: 15
+          });
         }
       }
       
@@ -342,79 +1470,111 @@ export class DynamicLearningPathService {
       const attentionSpan = cognitiveFeedback.focusMetrics.attentionSpanMinutes;
       if (attentionSpan < 15 && subjectPerf.estimatedTimeMinutes > 20) {
         // Lower priority for long subjects when attention span is short
-        score -= 10;
+        adjustments.push({
+          factor: 'attention_span',
+          reason: `${subjectPerf.estimatedTimeMinutes}-minute subject exceeds your ${attentionSpan}-minute attention span`,
+          delta: -10
+        });
       }
     }
     
-    return score;
+    const finalScore = adjustments.reduce((score, adjustment) => score + adjustment.delta, baseScore);
+    
+    return { baseScore, adjustments, finalScore };
   }
   
   /**
-   * Generates recommendations based on the ordered subjects and user data
+   * Explains the position of every subject in a personalized ordering
    * 
    * @param orderedSubjects Array of subject IDs in recommended order
+   * @param graph The subject dependency graph
    * @param performance User performance data
    * @param cognitiveFeedback User cognitive feedback data
-   * @returns Array of recommendation objects
+   * @param currentHour The current hour (0-23) in the user's time zone
+   * @param pinnedSubjects IDs of the subjects the user placed by hand
+   * @param requiredMastery Required average score of each dependency, by dependent subject ID
+   * @param remediations Completed subjects to revisit, which `performance` no longer counts as completed
+   * @returns One explanation per subject, in path order
    */
-  private static generateRecommendations(
+  private static explainOrdering(
     orderedSubjects: string[],
+    graph: Map<string, string[]>,
     performance: UserPerformance,
-    cognitiveFeedback: CognitiveFeedback
-  ): Array<{ type: string, message: string, subjectId?: string }> {
-    const recommendations = [];
-    
-    // Recommend audio presets based on cognitive feedback and subject matter
-    if (cognitiveFeedback.preferredAudioPresets.length > 0) {
-      const nextSubject = orderedSubjects[0];
-      const subjectPerf = performance.subjectPerformance[nextSubject];
-      
-      if (subjectPerf) {
-        // Different recommendations based on subject type
-        if (subjectPerf.subjectType === 'analytical') {
-          recommendations.push({
-            type: 'audio_preset',
-            message: 'For analytical content like this, the Focus (Beta Waves) preset has been most effective for your learning.',
-            subjectId: nextSubject
-          });
-        } else if (subjectPerf.subjectType === 'creative') {
-          recommendations.push({
-            type: 'audio_preset',
-            message: 'Creative subjects like this one pair well with your performance using the Creative (Alpha Waves) preset.',
-            subjectId: nextSubject
-          });
-        }
-      }
-    }
+    cognitiveFeedback: CognitiveFeedback,
+    currentHour: number,
+    pinnedSubjects: Set<string>,
+    requiredMastery: Map<string, Map<string, number>>,
+    remediations: Map<string, PrerequisiteRemediation>
+  ): SubjectExplanation[] {
+    const inPath = new Set(orderedSubjects);
+    const prerequisitesOf = this.buildPrerequisiteMap(graph);
     
-    // Recommend optimal time slots if the user shows time-based performance patterns
-    if (cognitiveFeedback.optimalTimes.length > 0) {
-      const nextDifficultSubject = orderedSubjects.find(id => {
-        const subjectPerf = performance.subjectPerformance[id];
-        return subjectPerf && subjectPerf.difficulty > 3;
+    return orderedSubjects.map((subjectId, index) => ({
+      subjectId,
+      position: index + 1,
+      ...this.explainSubjectPriorityScore(subjectId, performance, cognitiveFeedback, currentHour, remediations.get(subjectId)),
+      completed: (performance.completedSubjects || []).includes(subjectId) || remediations.has(subjectId),
+      remediation: remediations.has(subjectId),
+      masteryGaps: this.findMasteryGaps(subjectId, requiredMastery, performance),
+      pinned: pinnedSubjects.has(subjectId),
+      prerequisites: (prerequisitesOf.get(subjectId) || []).filter(id => inPath.has(id)),
+      dependents: (graph.get(subjectId) || []).filter(id => inPath.has(id))
+    }));
+  }
+  
+  /**
+   * Reverses the dependency graph to look up each subject's direct prerequisites
+   * 
+   * @param graph The subject dependency graph (prerequisite -> dependents)
+   * @returns Map from subject ID to the IDs of its prerequisites
+   */
+  private static buildPrerequisiteMap(graph: Map<string, string[]>): Map<string, string[]> {
+    const prerequisitesOf = new Map<string, string[]>();
+    graph.forEach((dependents, prerequisiteId) => {
+      dependents.forEach(dependentId => {
+        prerequisitesOf.set(dependentId, [...(prerequisitesOf.get(dependentId) || []), prerequisiteId]);
       });
-      
-      if (nextDifficultSubject) {
-        const optimalTimes = cognitiveFeedback.optimalTimes
-          .map(time => `${time.start}:00-${time.end}:00`)
-          .join(' or ');
-          
-        recommendations.push({
-          type: 'optimal_time',
-          message: `For challenging content, your peak performance hours are ${optimalTimes}. Consider scheduling this subject then.`,
-          subjectId: nextDifficultSubject
-        });
-      }
-    }
-    
-    // Recommend focus length based on attention span metrics
-    const attentionSpan = cognitiveFeedback.focusMetrics.attentionSpanMinutes;
-    recommendations.push({
-      type: 'focus_length',
-      message: `Your optimal learning sessions are ${attentionSpan} minutes. Take short breaks after this period to maintain neural efficiency.`
     });
     
-    return recommendations;
+    return prerequisitesOf;
+  }
+  
+  /**
+   * Generates recommendations based on the ordered subjects and user data
+   * 
+   * Recommendations come from the rules registered with the recommendation engine,
+   * so new recommendations are added by registering a rule rather than changing this service.
+   * 
+   * @param userId The ID of the user
+   * @param orderedSubjects Array of subject IDs in recommended order
+   * @param subjects The subjects in the path
+   * @param graph The subject dependency graph
+   * @param performance User performance data
+   * @param cognitiveFeedback User cognitive feedback data
+   * @param now The current time
+   * @param timeZone The user's IANA time zone
+   * @returns Array of recommendation objects
+   */
+  private static generateRecommendations(
+    userId: string,
+    orderedSubjects: string[],
+    subjects: Subject[],
+    graph: Map<string, string[]>,
+    performance: UserPerformance,
+    cognitiveFeedback: CognitiveFeedback,
+    now: Date,
+    timeZone: string
+  ): LearningPathRecommendation[] {
+    return recommendationEngine.evaluate({
+      userId,
+      orderedSubjects,
+      subjects: new Map(subjects.map(subject => [subject.id, subject])),
+      prerequisitesOf: this.buildPrerequisiteMap(graph),
+      performance,
+      cognitiveFeedback,
+      now,
+      timeZone
+    });
   }
   
   /**
@@ -445,19 +1605,67 @@ export class DynamicLearningPathService {
   private static hasCacheExpired(path: LearningPath): boolean {
     if (!path.expiresAt) return true;
     
-    const now = new Date();
-    return now > path.expiresAt;
+    return this.clock.now() > new Date(path.expiresAt);
   }
   
   /**
    * Calculates the expiration time for a learning path cache
    * 
+   * Paths are valid for 24 hours, but expire early when the user enters or leaves one of
+   * their optimal times, since the time-of-day adjustments no longer hold after that.
+   * 
+   * @param now The time the path was generated
+   * @param cognitiveFeedback User cognitive feedback data
+   * @param timeZone The user's IANA time zone
    * @returns Date object representing when the cache expires
    */
-  private static calculateExpirationTime(): Date {
-    const expiresAt = new Date();
-    // Cache valid for 24 hours by default
-    expiresAt.setHours(expiresAt.getHours() + 24);
-    return expiresAt;
+  private static calculateExpirationTime(now: Date, cognitiveFeedback: CognitiveFeedback, timeZone: string): Date {
+    const hourMs = 60 * 60 * 1000;
+    const maxAge = 24 * hourMs;
+    
+    if (cognitiveFeedback.optimalTimes.length === 0) {
+      return new Date(now.getTime() + maxAge);
+    }
+    
+    // Step through the start of each upcoming hour in the user's time zone
+    const { hour, minute, second } = getZonedParts(now, timeZone);
+    const optimalNow = this.isOptimalHour(hour, cognitiveFeedback);
+    const nextHour = now.getTime() - (minute * 60 + second) * 1000 - now.getMilliseconds() + hourMs;
+    
+    for (let boundary = nextHour; boundary < now.getTime() + maxAge; boundary += hourMs) {
+      const localHour = getZonedParts(new Date(boundary), timeZone).hour;
+      if (this.isOptimalHour(localHour, cognitiveFeedback) !== optimalNow) {
+        return new Date(boundary);
+      }
+    }
+    
+    return new Date(now.getTime() + maxAge);
+  }
+  
+  /**
+   * Checks whether an hour falls in one of the user's optimal times
+   * 
+   * @param hour Hour of the day (0-23) in the user's time zone
+   * @param cognitiveFeedback User cognitive feedback data
+   * @returns True if the hour is within an optimal time range
+   */
+  private static isOptimalHour(hour: number, cognitiveFeedback: CognitiveFeedback): boolean {
+    return cognitiveFeedback.optimalTimes.some(
+      timeRange => hour >= timeRange.start && hour <= timeRange.end
+    );
+  }
+  
+  /**
+   * Resolves the time zone to personalize a path in
+   * 
+   * @param timeZone The user's IANA time zone, if they have set one
+   * @returns The time zone, or the default if it is missing or not recognized
+   */
+  private static resolveTimeZone(timeZone?: string): string {
+    if (!timeZone) return DEFAULT_TIME_ZONE;
+    if (isValidTimeZone(timeZone)) return timeZone;
+    
+    console.warn(`Unknown time zone ${timeZone}, falling back to ${DEFAULT_TIME_ZONE}`);
+    return DEFAULT_TIME_ZONE;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+import { LearningPath } from '@/types';
+import { LearningPathCache, matchesKeyPrefix } from './LearningPathCache';
+import { Clock, systemClock } from '../utils/clock';
+
+interface CacheEntry {
+  path: LearningPath;
+  expiresAt: number;
+  catalogWide: boolean;
+}
+
+/**
+ * In-process LRU cache for learning paths
+ * 
+ * Holds at most `maxEntries` paths, evicting the least recently used one when full.
+ * Entries expire at the earlier of the path's `expiresAt` and the optional `ttlMs`,
+ * by the time of the given clock.
+ */
+export class InMemoryLearningPathCache implements LearningPathCache {
+  // Map iteration order doubles as the recency order (oldest first)
+  private entries: Map<string, CacheEntry> = new Map();
+  private readonly maxEntries: number;
+  private readonly ttlMs?: number;
+  private readonly clock: Clock;
+
+  constructor(options: { maxEntries?: number, ttlMs?: number, clock?: Clock } = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.ttlMs = options.ttlMs;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  public async get(key: string): Promise<LearningPath | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (this.clock.now().getTime() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return entry.path;
+  }
+
+  public async set(key: string, path: LearningPath, options: { catalogWide?: boolean } = {}): Promise<void> {
+    const now = this.clock.now().getTime();
+    let expiresAt = path.expiresAt ? new Date(path.expiresAt).getTime() : now;
+    if (this.ttlMs !== undefined) {
+      expiresAt = Math.min(expiresAt, now + this.ttlMs);
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { path, expiresAt, catalogWide: options.catalogWide ?? false });
+
+    // Evict least recently used entries once over capacity
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  public async invalidate(prefix: string): Promise<void> {
+    for (const key of [...this.entries.keys()]) {
+      if (matchesKeyPrefix(key, prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  public async invalidateSubjects(subjectIds: string[]): Promise<void> {
+    for (const [key, entry] of [...this.entries]) {
+      if (entry.path.subjects.some(id => subjectIds.includes(id))) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  public async invalidateCatalogPaths(): Promise<void> {
+    for (const [key, entry] of [...this.entries]) {
+      if (entry.catalogWide) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
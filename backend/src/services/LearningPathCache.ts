@@ -0,0 +1,99 @@
+import { LearningPath } from '@/types';
+
+/**
+ * LearningPathCache
+ * 
+ * Storage abstraction for generated learning paths so the DynamicLearningPathService
+ * can share cached paths between backend replicas instead of keeping them per process.
+ * 
+ * Keys are hierarchical and colon separated (e.g. `user:123:subjects:a,b`), so a
+ * prefix such as `user:123` addresses every path cached for that user.
+ * 
+ * Paths can also be invalidated by the subjects they order, so curriculum changes only
+ * drop the paths they actually affect.
+ */
+export interface LearningPathCache {
+  /**
+   * Gets a cached learning path
+   * 
+   * @param key The cache key
+   * @returns The cached path, or null if it is missing or expired
+   */
+  get(key: string): Promise<LearningPath | null>;
+
+  /**
+   * Stores a learning path until its `expiresAt` time
+   * 
+   * @param key The cache key
+   * @param path The learning path to cache
+   * @param options.catalogWide True if the path was generated over the whole catalog
+   *   rather than a requested set of subjects
+   */
+  set(key: string, path: LearningPath, options?: { catalogWide?: boolean }): Promise<void>;
+
+  /**
+   * Removes every cached path whose key equals the prefix or starts with `${prefix}:`
+   * 
+   * @param prefix The key prefix to invalidate
+   */
+  invalidate(prefix: string): Promise<void>;
+
+  /**
+   * Removes every cached path that orders any of the given subjects
+   * 
+   * @param subjectIds The changed subject IDs
+   */
+  invalidateSubjects(subjectIds: string[]): Promise<void>;
+
+  /**
+   * Removes every cached path that was generated over the whole catalog
+   */
+  invalidateCatalogPaths(): Promise<void>;
+
+  /**
+   * Removes every cached path
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Checks whether a cache key falls under a key prefix
+ * 
+ * @param key The cache key
+ * @param prefix The key prefix
+ * @returns True if the key equals the prefix or is nested below it
+ */
+export function matchesKeyPrefix(key: string, prefix: string): boolean {
+  return key === prefix || key.startsWith(`${prefix}:`);
+}
+
+/**
+ * A cache invalidation that can be applied locally and broadcast to other instances
+ */
+export type LearningPathCacheInvalidation =
+  | { type: 'prefix', prefix: string }
+  | { type: 'subjects', subjectIds: string[] }
+  | { type: 'catalog' }
+  | { type: 'all' };
+
+/**
+ * Applies an invalidation to a cache
+ * 
+ * @param cache The cache to invalidate
+ * @param invalidation The invalidation to apply
+ */
+export async function applyInvalidation(
+  cache: LearningPathCache,
+  invalidation: LearningPathCacheInvalidation
+): Promise<void> {
+  switch (invalidation.type) {
+    case 'prefix':
+      return cache.invalidate(invalidation.prefix);
+    case 'subjects':
+      return cache.invalidateSubjects(invalidation.subjectIds);
+    case 'catalog':
+      return cache.invalidateCatalogPaths();
+    case 'all':
+      return cache.clear();
+  }
+}
@@ -0,0 +1,141 @@
+import { randomUUID } from 'crypto';
+import { db } from '@/lib/db';
+import { LearningPathCache, LearningPathCacheInvalidation, applyInvalidation } from './LearningPathCache';
+
+interface InvalidationDocument {
+  invalidation: LearningPathCacheInvalidation;
+  instanceId: string;
+  createdAt: Date;
+}
+
+/**
+ * LearningPathCacheInvalidationBus
+ * 
+ * Broadcasts learning path cache invalidations between backend replicas.
+ * Each invalidation is written to a shared Mongo collection; every instance polls
+ * the collection and applies invalidations published by the other instances to
+ * its own cache. Old messages are purged by a TTL index.
+ * 
+ * Message timestamps come from the publishers' clocks, and an insert can become
+ * visible after a later one, so each poll looks back a window before the newest
+ * message seen and skips the messages it already applied.
+ */
+export class LearningPathCacheInvalidationBus {
+  private static readonly COLLECTION = 'learning_path_cache_invalidations';
+  // How long invalidation messages are kept before Mongo purges them
+  private static readonly MESSAGE_TTL_SECONDS = 3600;
+  // How far back each poll looks again; replicas' clocks may differ by up to this much
+  private static readonly LOOKBACK_MS = 60000;
+
+  private readonly instanceId = randomUUID();
+  // Timestamp of the newest message seen; read from the collection on the first poll
+  private newestSeenAt: Date | null = null;
+  // Messages applied within the lookback window, by ID, with their timestamps
+  private readonly appliedMessages = new Map<string, Date>();
+  private timer: NodeJS.Timeout | null = null;
+  private indexesEnsured = false;
+
+  /**
+   * @param cache The local cache that remote invalidations are applied to
+   * @param pollIntervalMs How often to check for invalidations from other instances
+   */
+  constructor(
+    private readonly cache: LearningPathCache,
+    private readonly pollIntervalMs: number = 5000
+  ) {}
+
+  /**
+   * Starts polling for invalidations published by other instances
+   */
+  public start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.poll().catch(error => {
+        console.error('Error polling learning path cache invalidations:', error);
+      });
+    }, this.pollIntervalMs);
+
+    // Don't keep the process alive just for polling
+    this.timer.unref();
+  }
+
+  /**
+   * Stops polling
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Publishes an invalidation to the other instances
+   * 
+   * @param invalidation The invalidation the other instances should apply
+   */
+  public async publish(invalidation: LearningPathCacheInvalidation): Promise<void> {
+    await this.ensureIndexes();
+
+    await db.collection<InvalidationDocument>(LearningPathCacheInvalidationBus.COLLECTION).insertOne({
+      invalidation,
+      instanceId: this.instanceId,
+      createdAt: new Date()
+    });
+  }
+
+  /**
+   * Applies invalidations published by other instances since the last poll
+   */
+  private async poll(): Promise<void> {
+    const collection = db.collection<InvalidationDocument>(LearningPathCacheInvalidationBus.COLLECTION);
+
+    // Start from the newest stored message rather than this instance's clock
+    if (!this.newestSeenAt) {
+      const [newest] = await collection.find({}).sort({ createdAt: -1 }).limit(1).toArray();
+      this.newestSeenAt = newest ? newest.createdAt : new Date(0);
+    }
+
+    const since = new Date(this.newestSeenAt.getTime() - LearningPathCacheInvalidationBus.LOOKBACK_MS);
+    const messages = await collection
+      .find({
+        createdAt: { $gt: since },
+        instanceId: { $ne: this.instanceId }
+      })
+      .sort({ createdAt: 1 })
+      .toArray();
+
+    for (const message of messages) {
+      const messageId = String(message._id);
+      if (this.appliedMessages.has(messageId)) continue;
+
+      await applyInvalidation(this.cache, message.invalidation);
+      this.appliedMessages.set(messageId, message.createdAt);
+      if (message.createdAt > this.newestSeenAt) {
+        this.newestSeenAt = message.createdAt;
+      }
+    }
+
+    // Messages before the window are not read again
+    const windowStart = this.newestSeenAt.getTime() - LearningPathCacheInvalidationBus.LOOKBACK_MS;
+    for (const [messageId, createdAt] of this.appliedMessages) {
+      if (createdAt.getTime() <= windowStart) {
+        this.appliedMessages.delete(messageId);
+      }
+    }
+  }
+
+  /**
+   * Creates the TTL index on first publish
+   */
+  private async ensureIndexes(): Promise<void> {
+    if (this.indexesEnsured) return;
+
+    await db.collection(LearningPathCacheInvalidationBus.COLLECTION).createIndex(
+      { createdAt: 1 },
+      { expireAfterSeconds: LearningPathCacheInvalidationBus.MESSAGE_TTL_SECONDS }
+    );
+    this.indexesEnsured = true;
+  }
+}
@@ -0,0 +1,342 @@
+import { createHash } from 'crypto';
+import {
+  Subject,
+  LearningPath,
+  UserPerformance,
+  LearningPathTrigger,
+  LearningPathVersion,
+  LearningPathDiff,
+  LearningPathRecommendation,
+  SubjectMove
+} from '@/types';
+import { db } from '@/lib/db';
+
+/**
+ * The inputs a learning path was generated from
+ */
+export interface LearningPathInputs {
+  subjects: Subject[];
+  performance: UserPerformance;
+  manualOrder: string[];
+}
+
+// Fingerprints of the inputs, stored with each version to work out what changed
+interface InputFingerprint {
+  curriculumHash: string;
+  performanceHash: string;
+  manualOrder: string[];
+}
+
+type StoredVersion = LearningPathVersion & { inputs: InputFingerprint };
+
+// Duplicate key error code - another instance already stored this version
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * LearningPathHistoryService
+ *
+ * BACKEND SERVICE - Runs on Node.js with Express
+ *
+ * Persists every generated learning path as a numbered version so coaches can see
+ * how a learner's path evolved, and diffs any two versions of the same path.
+ *
+ * The trigger of each version is inferred by comparing the inputs it was generated
+ * from with those of the previous version, so it stays accurate however many backend
+ * instances invalidate and regenerate paths.
+ */
+export class LearningPathHistoryService {
+  private static readonly COLLECTION = 'learning_path_versions';
+
+  private static indexesEnsured = false;
+
+  /**
+   * Stores a newly generated learning path as the next version of its scope
+   *
+   * @param userId The ID of the user
+   * @param scope Which path this is: `full`, `subjects:<ids>` or `goal:<ids>`
+   * @param path The generated learning path
+   * @param inputs The subjects, performance and manual order the path was generated from
+   * @returns The stored version
+   */
+  public static async recordVersion(
+    userId: string,
+    scope: string,
+    path: LearningPath,
+    inputs: LearningPathInputs
+  ): Promise<LearningPathVersion> {
+    try {
+      await this.ensureIndexes();
+
+      const previous = await this.findLatest(userId, scope);
+      const fingerprint = this.fingerprint(inputs);
+
+      const version: StoredVersion = {
+        userId,
+        scope,
+        version: previous ? previous.version + 1 : 1,
+        triggers: this.inferTriggers(previous, fingerprint, path.generatedAt),
+        path,
+        createdAt: path.generatedAt,
+        inputs: fingerprint
+      };
+
+      try {
+        await db.collection<StoredVersion>(this.COLLECTION).insertOne({ ...version });
+      } catch (error) {
+        // Two instances regenerated the same path at once - keep the first one
+        if ((error as { code?: number }).code !== DUPLICATE_KEY_ERROR) throw error;
+      }
+
+      return this.toVersion(version);
+    } catch (error) {
+      console.error('Error recording learning path version:', error);
+      throw new Error('Failed to record learning path version');
+    }
+  }
+
+  /**
+   * Lists the versions of a learning path, newest first
+   *
+   * @param userId The ID of the user
+   * @param scope Which path to list versions of
+   * @param limit Maximum number of versions to return
+   * @returns The versions, without their full path data
+   */
+  public static async listVersions(
+    userId: string,
+    scope: string,
+    limit = 50
+  ): Promise<Array<Omit<LearningPathVersion, 'path'> & { subjects: string[] }>> {
+    try {
+      const versions = await db.collection<StoredVersion>(this.COLLECTION)
+        .find({ userId, scope })
+        .sort({ version: -1 })
+        .limit(limit)
+        .toArray();
+
+      return versions.map(stored => {
+        const { path, ...summary } = this.toVersion(stored);
+        return { ...summary, subjects: path.subjects };
+      });
+    } catch (error) {
+      console.error('Error listing learning path versions:', error);
+      throw new Error('Failed to list learning path versions');
+    }
+  }
+
+  /**
+   * Diffs two versions of a learning path
+   *
+   * @param userId The ID of the user
+   * @param scope Which path to diff
+   * @param toVersion The newer version (defaults to the latest)
+   * @param fromVersion The older version (defaults to the one before `toVersion`)
+   * @returns The diff, or null if either version does not exist
+   */
+  public static async diffVersions(
+    userId: string,
+    scope: string,
+    toVersion?: number,
+    fromVersion?: number
+  ): Promise<LearningPathDiff | null> {
+    try {
+      const collection = db.collection<StoredVersion>(this.COLLECTION);
+
+      const to = toVersion !== undefined
+        ? await collection.findOne({ userId, scope, version: toVersion })
+        : await this.findLatest(userId, scope);
+      if (!to) return null;
+
+      const from = await collection.findOne({ userId, scope, version: fromVersion ?? to.version - 1 });
+      if (!from) return null;
+
+      return {
+        userId,
+        scope,
+        fromVersion: from.version,
+        toVersion: to.version,
+        triggers: to.triggers,
+        ...this.diffPaths(from.path, to.path)
+      };
+    } catch (error) {
+      console.error('Error diffing learning path versions:', error);
+      throw new Error('Failed to diff learning path versions');
+    }
+  }
+
+  /**
+   * Compares the subjects and recommendations of two learning paths
+   *
+   * Moves are reported for the fewest subjects that explain the change in relative
+   * order: subjects on the longest common subsequence of both orders stay put, so
+   * inserting one subject at the top does not report every other subject as moved.
+   *
+   * @param from The older path
+   * @param to The newer path
+   * @returns Added, removed and moved subjects, and added and removed recommendations
+   */
+  public static diffPaths(
+    from: LearningPath,
+    to: LearningPath
+  ): Pick<LearningPathDiff, 'added' | 'removed' | 'moved' | 'recommendations'> {
+    const fromSubjects = new Set(from.subjects);
+    const toSubjects = new Set(to.subjects);
+    const toPosition = new Map(to.subjects.map((id, index) => [id, index]));
+
+    // Common subjects in their old order, mapped to their new positions
+    const common = from.subjects.filter(id => toSubjects.has(id));
+    const stable = this.longestIncreasingSubsequence(common.map(id => toPosition.get(id) as number));
+    const stableSubjects = new Set(stable.map(index => common[index]));
+
+    const fromPosition = new Map(from.subjects.map((id, index) => [id, index]));
+    const moved: SubjectMove[] = common
+      .filter(id => !stableSubjects.has(id))
+      .map(subjectId => ({
+        subjectId,
+        fromPosition: (fromPosition.get(subjectId) as number) + 1,
+        toPosition: (toPosition.get(subjectId) as number) + 1
+      }));
+
+    const recommendationKey = (recommendation: LearningPathRecommendation): string =>
+      `${recommendation.type}|${recommendation.subjectId || ''}|${recommendation.message}`;
+    const fromRecommendations = new Set(from.recommendations.map(recommendationKey));
+    const toRecommendations = new Set(to.recommendations.map(recommendationKey));
+
+    return {
+      added: to.subjects.filter(id => !fromSubjects.has(id)),
+      removed: from.subjects.filter(id => !toSubjects.has(id)),
+      moved,
+      recommendations: {
+        added: to.recommendations.filter(item => !fromRecommendations.has(recommendationKey(item))),
+        removed: from.recommendations.filter(item => !toRecommendations.has(recommendationKey(item)))
+      }
+    };
+  }
+
+  /**
+   * Works out what caused a path to be regenerated
+   *
+   * @param previous The previous version, if any
+   * @param fingerprint Fingerprint of the new version's inputs
+   * @param generatedAt When the new version was generated
+   * @returns Every input that changed, or why the path was regenerated without changes
+   */
+  private static inferTriggers(
+    previous: StoredVersion | null,
+    fingerprint: InputFingerprint,
+    generatedAt: Date
+  ): LearningPathTrigger[] {
+    if (!previous) return ['initial'];
+
+    const triggers: LearningPathTrigger[] = [];
+    if (previous.inputs.curriculumHash !== fingerprint.curriculumHash) {
+      triggers.push('curriculum_change');
+    }
+    if (previous.inputs.performanceHash !== fingerprint.performanceHash) {
+      triggers.push('progress');
+    }
+    if (previous.inputs.manualOrder.join(',') !== fingerprint.manualOrder.join(',')) {
+      triggers.push('manual_reorder');
+    }
+
+    if (triggers.length === 0) {
+      triggers.push(new Date(previous.path.expiresAt) <= generatedAt ? 'expired' : 'refresh');
+    }
+
+    return triggers;
+  }
+
+  /**
+   * Fingerprints the inputs of a learning path
+   *
+   * @param inputs The subjects, performance and manual order
+   * @returns Hashes of the curriculum and performance data, and the manual order
+   */
+  private static fingerprint(inputs: LearningPathInputs): InputFingerprint {
+    const hash = (value: unknown): string => createHash('sha1').update(JSON.stringify(value)).digest('hex');
+
+    const curriculum = inputs.subjects
+      .map(subject => [
+        subject.id,
+        [...(subject.dependencies || [])].sort(),
+        // Only hashed when set, so subjects without mastery levels keep their hash
+        ...(subject.dependencyMastery
+          ? [Object.entries(subject.dependencyMastery).sort(([a], [b]) => a.localeCompare(b))]
+          : [])
+      ])
+      .sort(([a], [b]) => String(a).localeCompare(String(b)));
+
+    const subjectPerformance = inputs.performance.subjectPerformance || {};
+    const performance = {
+      completedSubjects: [...(inputs.performance.completedSubjects || [])].sort(),
+      subjectPerformance: Object.keys(subjectPerformance).sort().map(id => [id, subjectPerformance[id]])
+    };
+
+    return {
+      curriculumHash: hash(curriculum),
+      performanceHash: hash(performance),
+      manualOrder: inputs.manualOrder
+    };
+  }
+
+  /**
+   * Finds the indices of a longest strictly increasing subsequence
+   *
+   * @param values The sequence
+   * @returns Indices into `values`, in order
+   */
+  private static longestIncreasingSubsequence(values: number[]): number[] {
+    // tails[k] is the index of the smallest tail of an increasing run of length k + 1
+    const tails: number[] = [];
+    const previous: number[] = new Array(values.length).fill(-1);
+
+    values.forEach((value, index) => {
+      let low = 0;
+      let high = tails.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (values[tails[mid]] < value) low = mid + 1;
+        else high = mid;
+      }
+
+      if (low > 0) previous[index] = tails[low - 1];
+      tails[low] = index;
+    });
+
+    const result: number[] = [];
+    for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+      result.unshift(index);
+    }
+
+    return result;
+  }
+
+  /**
+   * Finds the latest version of a learning path
+   */
+  private static async findLatest(userId: string, scope: string): Promise<StoredVersion | null> {
+    return db.collection<StoredVersion>(this.COLLECTION)
+      .findOne({ userId, scope }, { sort: { version: -1 } });
+  }
+
+  /**
+   * Strips the stored input fingerprint and database ID from a version
+   */
+  private static toVersion(stored: StoredVersion): LearningPathVersion {
+    const { userId, scope, version, triggers, path, createdAt } = stored;
+    return { userId, scope, version, triggers, path, createdAt };
+  }
+
+  /**
+   * Creates the unique version index once per process
+   */
+  private static async ensureIndexes(): Promise<void> {
+    if (this.indexesEnsured) return;
+
+    await db.collection(this.COLLECTION).createIndex(
+      { userId: 1, scope: 1, version: -1 },
+      { unique: true }
+    );
+    this.indexesEnsured = true;
+  }
+}
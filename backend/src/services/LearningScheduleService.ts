@@ -0,0 +1,510 @@
+import {
+  Subject,
+  LearningPath,
+  CognitiveFeedback,
+  ScheduleOptions,
+  StudySession,
+  ScheduleDay,
+  LearningSchedule
+} from '@/types';
+import { db } from '@/lib/db';
+import { DynamicLearningPathService } from './DynamicLearningPathService';
+import { toICalendar } from '../utils/icalendar';
+import { Clock, systemClock } from '../utils/clock';
+import {
+  DEFAULT_TIME_ZONE,
+  formatZonedDate,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToUtc
+} from '../utils/timeZone';
+import { subjectRepository } from '../repositories/SubjectRepository';
+import { cognitiveFeedbackRepository } from '../repositories/CognitiveFeedbackRepository';
+
+// A subject still to be studied, with what the scheduler needs to place it
+interface SchedulableSubject {
+  id: string;
+  title: string;
+  minutes: number;
+  difficult: boolean;
+}
+
+// One attention-span sized piece of a subject
+interface SessionChunk {
+  subject: SchedulableSubject;
+  minutes: number;
+  part: number;
+  totalParts: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Used when a subject has no estimated time of its own
+const DEFAULT_SUBJECT_MINUTES = 30;
+
+// Shortest session the scheduler will plan, whatever the attention span
+const MIN_SESSION_MINUTES = 10;
+
+// Break between consecutive sessions on the same day
+const SESSION_BREAK_MINUTES = 5;
+
+// Hour at which study blocks start when no peak hours apply
+const DEFAULT_START_HOUR = 18;
+
+// Stops planning if a schedule would run longer than this
+const MAX_SCHEDULE_DAYS = 3 * 365;
+
+/**
+ * LearningScheduleService
+ *
+ * BACKEND SERVICE - Runs on Node.js with Express
+ *
+ * Lays the ordered subjects of a learning path out into a day-by-day study calendar
+ * - Splits subjects into sessions no longer than the learner's attention span
+ * - Fills each study day up to the learner's weekly availability budget
+ * - Starts days with difficult subjects in the learner's peak performance hours
+ * - Re-plans the remaining subjects when the learner falls behind
+ */
+export class LearningScheduleService {
+  // Source of the current time for planning and falling-behind checks
+  private static clock: Clock = systemClock;
+
+  /**
+   * Replaces the clock used to read the current time
+   *
+   * @param clock The clock to use
+   */
+  public static useClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
+  /**
+   * Creates and stores a study schedule for a user, replacing any existing one
+   *
+   * @param userId The ID of the user
+   * @param options Target date, weekly budget and study preferences
+   * @param timeZone The user's IANA time zone, in which study days and hours are laid out
+   * @returns The planned schedule
+   */
+  public static async createSchedule(
+    userId: string,
+    options: ScheduleOptions,
+    timeZone?: string
+  ): Promise<LearningSchedule> {
+    try {
+      const settings = {
+        targetDate: options.targetDate,
+        weeklyMinutes: options.weeklyMinutes,
+        studyDays: options.studyDays && options.studyDays.length > 0
+          ? [...new Set(options.studyDays)].sort((a, b) => a - b)
+          : [0, 1, 2, 3, 4, 5, 6],
+        preferredStartHour: options.preferredStartHour ?? DEFAULT_START_HOUR,
+        targetSubjectIds: options.targetSubjectIds,
+        timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE
+      };
+
+      const path = await this.fetchLearningPath(userId, settings.targetSubjectIds, settings.timeZone);
+      const schedule = await this.buildSchedule(userId, settings, path, this.clock.now(), 0);
+
+      await this.saveSchedule(schedule);
+
+      return schedule;
+    } catch (error) {
+      console.error('Error creating learning schedule:', error);
+      throw new Error('Failed to create learning schedule');
+    }
+  }
+
+  /**
+   * Gets a user's study schedule, re-planning it first if the learner has fallen behind
+   *
+   * The learner is behind when a subject's last planned session has already ended
+   * but the subject is still not completed. A schedule is also re-planned when the
+   * user's time zone has changed, so sessions stay at the same local hours.
+   *
+   * @param userId The ID of the user
+   * @param timeZone The user's current IANA time zone, used if the schedule has to be re-planned
+   * @returns The current schedule, or null if the user has not created one
+   */
+  public static async getSchedule(userId: string, timeZone?: string): Promise<LearningSchedule | null> {
+    try {
+      const schedule = await db.collection('learning_schedules')
+        .findOne({ userId }, { projection: { _id: 0 } }) as LearningSchedule | null;
+
+      if (!schedule) return null;
+
+      const now = this.clock.now();
+      const settings = {
+        ...schedule,
+        timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : schedule.timeZone || DEFAULT_TIME_ZONE
+      };
+      const path = await this.fetchLearningPath(userId, schedule.targetSubjectIds, settings.timeZone);
+      const incomplete = new Set(
+        path.explanations
+          .filter(explanation => !explanation.completed || explanation.remediation)
+          .map(explanation => explanation.subjectId)
+      );
+
+      const timeZoneChanged = settings.timeZone !== (schedule.timeZone || DEFAULT_TIME_ZONE);
+      if (!timeZoneChanged && !this.isBehind(schedule, incomplete, now)) {
+        return schedule;
+      }
+
+      const replanned = await this.buildSchedule(userId, settings, path, now, schedule.replanCount + 1);
+      await this.saveSchedule(replanned);
+
+      return replanned;
+    } catch (error) {
+      console.error('Error getting learning schedule:', error);
+      throw new Error('Failed to get learning schedule');
+    }
+  }
+
+  /**
+   * Exports a user's study schedule as an iCalendar document
+   *
+   * @param userId The ID of the user
+   * @param timeZone The user's current IANA time zone
+   * @returns The .ics document, or null if the user has not created a schedule
+   */
+  public static async exportICalendar(userId: string, timeZone?: string): Promise<string | null> {
+    const schedule = await this.getSchedule(userId, timeZone);
+    if (!schedule) return null;
+
+    const events = schedule.days.flatMap(day => day.sessions.map(session => ({
+      uid: `${userId}-${session.subjectId}-${session.part}-${new Date(session.start).getTime()}@neuroforge`,
+      start: new Date(session.start),
+      end: new Date(session.end),
+      summary: session.totalParts > 1
+        ? `${session.subjectTitle} (${session.part}/${session.totalParts})`
+        : session.subjectTitle,
+      description: session.peakHours
+        ? 'NeuroForge study session, planned during your peak performance hours.'
+        : 'NeuroForge study session.'
+    })));
+
+    return toICalendar('NeuroForge Learning Schedule', events);
+  }
+
+  /**
+   * Plans the incomplete subjects of a learning path and assembles the schedule
+   *
+   * @param userId The ID of the user
+   * @param settings The schedule settings
+   * @param path The user's current learning path
+   * @param now The time planning starts from
+   * @param replanCount How many times the schedule has been re-planned
+   * @returns The planned schedule
+   */
+  private static async buildSchedule(
+    userId: string,
+    settings: Pick<
+      LearningSchedule,
+      'targetDate' | 'weeklyMinutes' | 'studyDays' | 'preferredStartHour' | 'targetSubjectIds' | 'timeZone'
+    >,
+    path: LearningPath,
+    now: Date,
+    replanCount: number
+  ): Promise<LearningSchedule> {
+    const incompleteIds = path.explanations
+      .filter(explanation => !explanation.completed || explanation.remediation)
+      .map(explanation => explanation.subjectId);
+
+    const subjects = await this.fetchSubjects(incompleteIds);
+    const cognitiveFeedback = await this.fetchCognitiveFeedback(userId);
+
+    // Keep the path order - the query does not preserve it
+    const subjectsById = new Map(subjects.map(subject => [subject.id, subject]));
+    const schedulable = incompleteIds.map(id => {
+      const subject = subjectsById.get(id);
+      return {
+        id,
+        title: subject?.title || id,
+        minutes: subject?.estimatedTimeMinutes || DEFAULT_SUBJECT_MINUTES,
+        // Same threshold the path service uses for challenging content
+        difficult: (subject?.difficulty || 0) > 3
+      };
+    });
+
+    const targetDate = new Date(settings.targetDate);
+    const days = this.planDays(schedulable, cognitiveFeedback, settings, now);
+    const sessions = days.flatMap(day => day.sessions);
+    const totalMinutes = schedulable.reduce((total, subject) => total + subject.minutes, 0);
+    const completionDate = sessions.length > 0 ? sessions[sessions.length - 1].end : null;
+
+    return {
+      userId,
+      targetDate,
+      weeklyMinutes: settings.weeklyMinutes,
+      studyDays: settings.studyDays,
+      preferredStartHour: settings.preferredStartHour,
+      timeZone: settings.timeZone,
+      ...(settings.targetSubjectIds ? { targetSubjectIds: settings.targetSubjectIds } : {}),
+      days,
+      totalMinutes,
+      completionDate,
+      meetsTargetDate: !completionDate || completionDate < this.startOfNextDay(targetDate, settings.timeZone),
+      requiredWeeklyMinutes: this.calculateRequiredWeeklyMinutes(
+        totalMinutes,
+        settings.studyDays,
+        now,
+        targetDate,
+        settings.timeZone
+      ),
+      generatedAt: now,
+      replanCount
+    };
+  }
+
+  /**
+   * Lays subjects out into study days in path order
+   *
+   * Each subject is split into sessions no longer than the learner's attention span,
+   * and each study day takes sessions until its share of the weekly budget is used.
+   * A day always takes at least one session so that planning makes progress even
+   * when a single session exceeds the daily budget. Days and hours are those of the
+   * learner's time zone.
+   *
+   * @param subjects Subjects to schedule, in path order
+   * @param cognitiveFeedback User cognitive feedback data
+   * @param settings The weekly budget, study days, preferred start hour and time zone
+   * @param now The time planning starts from
+   * @returns The planned days, skipping days without sessions
+   */
+  private static planDays(
+    subjects: SchedulableSubject[],
+    cognitiveFeedback: CognitiveFeedback,
+    settings: Pick<LearningSchedule, 'weeklyMinutes' | 'studyDays' | 'preferredStartHour' | 'timeZone'>,
+    now: Date
+  ): ScheduleDay[] {
+    const { timeZone } = settings;
+    const sessionLength = Math.max(
+      MIN_SESSION_MINUTES,
+      cognitiveFeedback.focusMetrics.attentionSpanMinutes || MIN_SESSION_MINUTES
+    );
+    const dailyBudget = settings.weeklyMinutes / settings.studyDays.length;
+
+    // Split subjects into near-equal sessions
+    const chunks: SessionChunk[] = subjects.flatMap(subject => {
+      const totalParts = Math.ceil(subject.minutes / sessionLength);
+      const baseMinutes = Math.floor(subject.minutes / totalParts);
+      const remainder = subject.minutes % totalParts;
+
+      return Array.from({ length: totalParts }, (_, index) => ({
+        subject,
+        minutes: baseMinutes + (index < remainder ? 1 : 0),
+        part: index + 1,
+        totalParts
+      }));
+    });
+
+    const days: ScheduleDay[] = [];
+    const calendar = this.calendarDay(now, timeZone);
+    let next = 0;
+
+    for (let offset = 0; next < chunks.length && offset < MAX_SCHEDULE_DAYS; offset++) {
+      if (offset > 0) calendar.setUTCDate(calendar.getUTCDate() + 1);
+      if (!settings.studyDays.includes(calendar.getUTCDay())) continue;
+
+      // Take sessions until the daily budget is used
+      const dayChunks: SessionChunk[] = [];
+      let usedMinutes = 0;
+      while (next < chunks.length && (dayChunks.length === 0 || usedMinutes + chunks[next].minutes <= dailyBudget)) {
+        usedMinutes += chunks[next].minutes;
+        dayChunks.push(chunks[next]);
+        next++;
+      }
+
+      // Days with difficult content start in the first peak performance window
+      const hasDifficultContent = dayChunks.some(chunk => chunk.subject.difficult);
+      const startHour = hasDifficultContent && cognitiveFeedback.optimalTimes.length > 0
+        ? cognitiveFeedback.optimalTimes[0].start
+        : settings.preferredStartHour;
+
+      const date = calendar.toISOString().slice(0, 10);
+      let cursor = zonedTimeToUtc({
+        year: calendar.getUTCFullYear(),
+        month: calendar.getUTCMonth() + 1,
+        day: calendar.getUTCDate(),
+        hour: startHour
+      }, timeZone);
+
+      // Never plan sessions in the past
+      if (cursor < now) {
+        cursor = new Date(Math.ceil(now.getTime() / (15 * MINUTE_MS)) * 15 * MINUTE_MS);
+        if (formatZonedDate(cursor, timeZone) !== date) {
+          next -= dayChunks.length;
+          continue;
+        }
+      }
+
+      const sessions: StudySession[] = dayChunks.map(chunk => {
+        const start = new Date(cursor);
+        const end = new Date(start.getTime() + chunk.minutes * MINUTE_MS);
+        cursor = new Date(end.getTime() + SESSION_BREAK_MINUTES * MINUTE_MS);
+
+        const startHourLocal = getZonedParts(start, timeZone).hour;
+        return {
+          subjectId: chunk.subject.id,
+          subjectTitle: chunk.subject.title,
+          start,
+          end,
+          durationMinutes: chunk.minutes,
+          part: chunk.part,
+          totalParts: chunk.totalParts,
+          peakHours: cognitiveFeedback.optimalTimes.some(
+            timeRange => startHourLocal >= timeRange.start && startHourLocal <= timeRange.end
+          )
+        };
+      });
+
+      days.push({
+        date,
+        sessions,
+        totalMinutes: usedMinutes
+      });
+    }
+
+    if (next < chunks.length) {
+      console.warn(`Learning schedule truncated after ${MAX_SCHEDULE_DAYS} days`);
+    }
+
+    return days;
+  }
+
+  /**
+   * Checks whether the learner has fallen behind a schedule
+   *
+   * @param schedule The stored schedule
+   * @param incompleteSubjects IDs of the subjects the learner has not completed yet
+   * @param now The current time
+   * @returns True if any subject's last session has ended without the subject being completed
+   */
+  private static isBehind(schedule: LearningSchedule, incompleteSubjects: Set<string>, now: Date): boolean {
+    const lastSessionEnd = new Map<string, Date>();
+    schedule.days.forEach(day => day.sessions.forEach(session => {
+      lastSessionEnd.set(session.subjectId, new Date(session.end));
+    }));
+
+    return [...lastSessionEnd].some(([subjectId, end]) => end < now && incompleteSubjects.has(subjectId));
+  }
+
+  /**
+   * Calculates the weekly budget needed to finish by the target date
+   *
+   * @param totalMinutes Minutes of study remaining
+   * @param studyDays Days of the week the learner studies on
+   * @param now The time planning starts from
+   * @param targetDate The date to finish by
+   * @param timeZone The user's IANA time zone
+   * @returns The weekly minutes required, assuming every study day is used equally
+   */
+  private static calculateRequiredWeeklyMinutes(
+    totalMinutes: number,
+    studyDays: number[],
+    now: Date,
+    targetDate: Date,
+    timeZone: string
+  ): number {
+    const day = this.calendarDay(now, timeZone);
+    const lastDay = this.calendarDay(targetDate, timeZone);
+    let studyDayCount = 0;
+
+    while (day <= lastDay) {
+      if (studyDays.includes(day.getUTCDay())) studyDayCount++;
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+
+    return Math.ceil((totalMinutes / Math.max(1, studyDayCount)) * studyDays.length);
+  }
+
+  /**
+   * Fetches the learning path the schedule is built from
+   *
+   * @param userId The ID of the user
+   * @param targetSubjectIds Optional target subjects for a goal-directed path
+   * @param timeZone The user's IANA time zone
+   * @returns The user's learning path
+   */
+  private static async fetchLearningPath(
+    userId: string,
+    targetSubjectIds: string[] | undefined,
+    timeZone: string
+  ): Promise<LearningPath> {
+    return targetSubjectIds && targetSubjectIds.length > 0
+      ? DynamicLearningPathService.createGoalLearningPath(userId, targetSubjectIds, { timeZone })
+      : DynamicLearningPathService.createLearningPath(userId, undefined, { timeZone });
+  }
+
+  /**
+   * Fetches the subjects to schedule from the database
+   *
+   * @param subjectIds IDs of the subjects
+   * @returns Array of Subject objects
+   */
+  private static async fetchSubjects(subjectIds: string[]): Promise<Subject[]> {
+    if (subjectIds.length === 0) return [];
+
+    return subjectRepository.findByIds(subjectIds);
+  }
+
+  /**
+   * Fetches cognitive feedback data for the user
+   *
+   * @param userId The ID of the user
+   * @returns CognitiveFeedback object, with defaults if the user has none yet
+   */
+  private static async fetchCognitiveFeedback(userId: string): Promise<CognitiveFeedback> {
+    const feedback = await cognitiveFeedbackRepository.findByUserId(userId);
+
+    return feedback || {
+      userId,
+      optimalTimes: [],
+      focusMetrics: {
+        averageFocusScore: 0,
+        focusPeaks: [],
+        attentionSpanMinutes: 20
+      },
+      preferredAudioPresets: [],
+      learningStyles: []
+    };
+  }
+
+  /**
+   * Stores a schedule as the user's current schedule
+   *
+   * @param schedule The schedule to store
+   */
+  private static async saveSchedule(schedule: LearningSchedule): Promise<void> {
+    await db.collection('learning_schedules').replaceOne(
+      { userId: schedule.userId },
+      schedule,
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Gets the calendar day of an instant in a time zone
+   *
+   * @returns Midnight UTC on that calendar date, for stepping through days without
+   *   daylight saving shifts (read it with the getUTC* methods)
+   */
+  private static calendarDay(date: Date, timeZone: string): Date {
+    const { year, month, day } = getZonedParts(date, timeZone);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  /**
+   * Gets the instant the day after a date's calendar day begins in a time zone
+   */
+  private static startOfNextDay(date: Date, timeZone: string): Date {
+    const day = this.calendarDay(date, timeZone);
+    day.setUTCDate(day.getUTCDate() + 1);
+
+    return zonedTimeToUtc({
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate()
+    }, timeZone);
+  }
+}
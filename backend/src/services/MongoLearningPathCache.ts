@@ -0,0 +1,65 @@
+import { LearningPath } from '@/types';
+import { LearningPathCache } from './LearningPathCache';
+import { DocumentValidationError } from '../repositories/Repository';
+import { LearningPathRepository, learningPathRepository } from '../repositories/LearningPathRepository';
+import { Clock, systemClock } from '../utils/clock';
+
+/**
+ * Mongo-backed cache for learning paths
+ * 
+ * Stores paths in a shared collection so every backend replica reads the same cache
+ * and invalidations take effect everywhere at once. A TTL index on `expiresAt` lets
+ * Cosmos DB / MongoDB purge expired paths on its own.
+ */
+export class MongoLearningPathCache implements LearningPathCache {
+  constructor(
+    private readonly repository: LearningPathRepository = learningPathRepository,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  public async get(key: string): Promise<LearningPath | null> {
+    let entry;
+    try {
+      entry = await this.repository.findByKey(key);
+    } catch (error) {
+      // A malformed entry is treated as a miss, so the path is regenerated and overwritten
+      if (error instanceof DocumentValidationError) {
+        console.warn(`Ignoring cached learning path: ${error.message}`);
+        return null;
+      }
+      throw error;
+    }
+
+    // The TTL monitor runs periodically, so expired documents may still be present
+    if (!entry || entry.expiresAt <= this.clock.now()) {
+      return null;
+    }
+
+    return entry.path;
+  }
+
+  public async set(key: string, path: LearningPath, options: { catalogWide?: boolean } = {}): Promise<void> {
+    await this.repository.save({
+      _id: key,
+      path,
+      expiresAt: new Date(path.expiresAt),
+      catalogWide: options.catalogWide ?? false
+    });
+  }
+
+  public async invalidate(prefix: string): Promise<void> {
+    await this.repository.deleteByKeyPrefix(prefix);
+  }
+
+  public async invalidateSubjects(subjectIds: string[]): Promise<void> {
+    await this.repository.deleteContainingSubjects(subjectIds);
+  }
+
+  public async invalidateCatalogPaths(): Promise<void> {
+    await this.repository.deleteCatalogWide();
+  }
+
+  public async clear(): Promise<void> {
+    await this.repository.deleteAll();
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  Subject,
+  UserPerformance,
+  CognitiveFeedback,
+  LearningPathRecommendation
+} from '@/types';
+import { defaultRecommendationRules } from './recommendationRules';
+
+/**
+ * Everything a recommendation rule can look at when deciding whether it applies
+ */
+export interface RecommendationContext {
+  userId: string;
+  // Subject IDs in recommended order
+  orderedSubjects: string[];
+  // Subjects in the path by ID, for titles and metadata
+  subjects: Map<string, Subject>;
+  // Direct prerequisites of each subject in the path
+  prerequisitesOf: Map<string, string[]>;
+  performance: UserPerformance;
+  cognitiveFeedback: CognitiveFeedback;
+  now: Date;
+  // The user's IANA time zone, for rules that depend on the time of day
+  timeZone: string;
+}
+
+/**
+ * What a rule returns when it applies
+ */
+export interface RuleMatch {
+  // Subject the recommendation is about, if any
+  subjectId?: string;
+  // Values substituted into the rule's message template
+  values?: Record<string, string | number>;
+}
+
+/**
+ * A declarative recommendation rule
+ */
+export interface RecommendationRule {
+  // Unique rule ID, also used to track cooldowns
+  id: string;
+  // Recommendation type reported to the client (several rules may share a type)
+  type: string;
+  // Rules with higher priority are listed first
+  priority: number;
+  // Minutes after firing during which the rule is not shown to the same user again
+  cooldownMinutes?: number;
+  // Message with `{{name}}` placeholders filled from the match values
+  message: string;
+  // Returns a match if the rule applies, or null if it does not
+  condition: (context: RecommendationContext) => RuleMatch | null;
+}
+
+/**
+ * Fills `{{name}}` placeholders in a message template
+ *
+ * Placeholders without a value are left in place so a missing value is easy to spot.
+ *
+ * @param template The message template
+ * @param values The values to substitute
+ * @returns The rendered message
+ */
+export function renderTemplate(template: string, values: Record<string, string | number> = {}): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
+
+/**
+ * RecommendationRuleEngine
+ *
+ * Evaluates a registrable set of recommendation rules against a learner's path,
+ * performance and cognitive feedback, so new recommendations can be added by
+ * registering a rule rather than changing the DynamicLearningPathService.
+ */
+export class RecommendationRuleEngine {
+  private rules = new Map<string, RecommendationRule>();
+
+  // When each rule last fired for each user, keyed by `${userId}:${ruleId}`
+  private lastFired = new Map<string, number>();
+
+  constructor(rules: RecommendationRule[] = []) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  /**
+   * Registers a rule, replacing any rule with the same ID
+   *
+   * @param rule The rule to register
+   */
+  public register(rule: RecommendationRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * Removes a rule
+   *
+   * @param ruleId The ID of the rule to remove
+   * @returns True if the rule was registered
+   */
+  public unregister(ruleId: string): boolean {
+    return this.rules.delete(ruleId);
+  }
+
+  /**
+   * Lists the registered rules, highest priority first
+   */
+  public getRules(): RecommendationRule[] {
+    return [...this.rules.values()].sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Evaluates every registered rule and renders the recommendations that apply
+   *
+   * A rule whose condition throws is skipped and logged, so one faulty rule cannot
+   * break path generation.
+   *
+   * @param context The learner's path and data
+   * @returns Recommendations from the matching rules, highest priority first
+   */
+  public evaluate(context: RecommendationContext): LearningPathRecommendation[] {
+    const recommendations: LearningPathRecommendation[] = [];
+
+    this.getRules().forEach(rule => {
+      const cooldownKey = `${context.userId}:${rule.id}`;
+      const lastFired = this.lastFired.get(cooldownKey);
+      if (rule.cooldownMinutes && lastFired !== undefined &&
+          context.now.getTime() - lastFired < rule.cooldownMinutes * 60 * 1000) {
+        return;
+      }
+
+      let match: RuleMatch | null;
+      try {
+        match = rule.condition(context);
+      } catch (error) {
+        console.error(`Error evaluating recommendation rule ${rule.id}:`, error);
+        return;
+      }
+      if (!match) return;
+
+      if (rule.cooldownMinutes) {
+        this.lastFired.set(cooldownKey, context.now.getTime());
+      }
+
+      recommendations.push({
+        type: rule.type,
+        message: renderTemplate(rule.message, match.values),
+        ...(match.subjectId ? { subjectId: match.subjectId } : {})
+      });
+    });
+
+    return recommendations;
+  }
+
+  /**
+   * Forgets when rules last fired, so every rule is eligible again
+   *
+   * @param userId Optional user to reset; resets every user when omitted
+   */
+  public resetCooldowns(userId?: string): void {
+    if (!userId) {
+      this.lastFired.clear();
+      return;
+    }
+
+    [...this.lastFired.keys()]
+      .filter(key => key.startsWith(`${userId}:`))
+      .forEach(key => this.lastFired.delete(key));
+  }
+}
+
+// Export the singleton instance with the built-in rules registered
+export const recommendationEngine = new RecommendationRuleEngine(defaultRecommendationRules);
@@ -0,0 +1,214 @@
+// neuroforge/backend/src/services/UserApiKeyService.js
+// Purpose: Vault for the AI provider API keys users bring themselves - validation, encrypted storage and rotation
+
+const axios = require('axios');
+const UserApiKey = require('../models/mongo/UserApiKey');
+const encryption = require('../utils/encryption');
+const logger = require('../utils/logger');
+const ApiError = require('../utils/apiError');
+
+const PROVIDER_NAMES = {
+    anthropic: 'Anthropic',
+    openai: 'OpenAI',
+    gemini: 'Google Gemini',
+    grok: 'xAI Grok',
+};
+
+// A cheap authenticated request per provider; listing models succeeds with any valid key
+const VALIDATION_REQUESTS = {
+    anthropic: (apiKey) => ({
+        url: 'https://api.anthropic.com/v1/models',
+        headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' },
+    }),
+    openai: (apiKey) => ({
+        url: 'https://api.openai.com/v1/models',
+        headers: { Authorization: `Bearer ${apiKey}` },
+    }),
+    gemini: (apiKey) => ({
+        url: 'https://generativelanguage.googleapis.com/v1beta/models',
+        headers: { 'x-goog-api-key': apiKey },
+    }),
+    grok: (apiKey) => ({
+        url: 'https://api.x.ai/v1/models',
+        headers: { Authorization: `Bearer ${apiKey}` },
+    }),
+};
+
+const VALIDATION_TIMEOUT_MS = 10000;
+
+// What users see about a stored key - never the key itself
+const toSummary = (doc) => ({
+    provider: doc.provider,
+    providerName: PROVIDER_NAMES[doc.provider],
+    last4: doc.last4,
+    lastValidatedAt: doc.lastValidatedAt,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+});
+
+class UserApiKeyService {
+
+    assertProvider(provider) {
+        if (!UserApiKey.PROVIDERS.includes(provider)) {
+            throw new ApiError(`Unknown AI provider '${provider}'. Supported providers: ${UserApiKey.PROVIDERS.join(', ')}`, 400);
+        }
+    }
+
+    /**
+     * Asks the provider whether it accepts a key.
+     * @param {string} provider - One of UserApiKey.PROVIDERS
+     * @param {string} apiKey - The key to check
+     * @returns {Promise<object>} { valid, message }
+     */
+    async verifyWithProvider(provider, apiKey) {
+        this.assertProvider(provider);
+        const { url, headers } = VALIDATION_REQUESTS[provider](apiKey);
+
+        try {
+            await axios.get(url, { headers, timeout: VALIDATION_TIMEOUT_MS });
+            return { valid: true, message: `${PROVIDER_NAMES[provider]} accepted the key` };
+        } catch (error) {
+            const status = error.response?.status;
+            // Gemini answers 400 API_KEY_INVALID rather than 401
+            if (status === 401 || status === 403 || (provider === 'gemini' && status === 400)) {
+                return { valid: false, message: `${PROVIDER_NAMES[provider]} rejected the key` };
+            }
+            logger.warn(`Could not validate ${provider} key: ${status || error.message}`);
+            throw new ApiError(`Could not reach ${PROVIDER_NAMES[provider]} to check the key. Try again later.`, 502);
+        }
+    }
+
+    /**
+     * Lists a user's keys, masked.
+     * @param {string} userId
+     * @returns {Promise<object[]>} Key summaries
+     */
+    async listKeys(userId) {
+        const keys = await UserApiKey.find({ user: userId }).sort({ provider: 1 });
+        return keys.map(toSummary);
+    }
+
+    /**
+     * Validates a key with its provider, then stores it encrypted, replacing the user's previous key for that provider.
+     * @param {string} userId
+     * @param {string} provider - One of UserApiKey.PROVIDERS
+     * @param {string} apiKey - The key
+     * @returns {Promise<object>} Summary of the stored key
+     */
+    async saveKey(userId, provider, apiKey) {
+        this.assertProvider(provider);
+        const key = typeof apiKey === 'string' ? apiKey.trim() : '';
+        if (key.length < 20 || key.length > 512 || /\s/.test(key)) {
+            throw new ApiError('That does not look like an API key', 400);
+        }
+
+        const { valid, message } = await this.verifyWithProvider(provider, key);
+        if (!valid) {
+            throw new ApiError(message, 400);
+        }
+
+        const doc = await UserApiKey.findOneAndUpdate(
+            { user: userId, provider },
+            {
+                envelope: encryption.encrypt(key),
+                last4: key.slice(-4),
+                lastValidatedAt: new Date(),
+                rewrappedAt: null,
+            },
+            { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+        );
+
+        logger.info(`User ${userId} saved a ${provider} API key`);
+        return toSummary(doc);
+    }
+
+    /**
+     * Checks a stored key with its provider again.
+     * @param {string} userId
+     * @param {string} provider
+     * @returns {Promise<object>} { valid, message, key }
+     */
+    async testKey(userId, provider) {
+        this.assertProvider(provider);
+        const doc = await UserApiKey.findOne({ user: userId, provider });
+        if (!doc) {
+            throw new ApiError(`No ${PROVIDER_NAMES[provider]} key is stored`, 404);
+        }
+
+        const result = await this.verifyWithProvider(provider, encryption.decrypt(doc.envelope));
+        if (result.valid) {
+            doc.lastValidatedAt = new Date();
+            await doc.save();
+        }
+        return { ...result, key: toSummary(doc) };
+    }
+
+    /**
+     * Deletes a stored key; AI requests fall back to the platform's keys.
+     * @param {string} userId
+     * @param {string} provider
+     */
+    async revokeKey(userId, provider) {
+        this.assertProvider(provider);
+        const doc = await UserApiKey.findOneAndDelete({ user: userId, provider });
+        if (!doc) {
+            throw new ApiError(`No ${PROVIDER_NAMES[provider]} key is stored`, 404);
+        }
+        logger.info(`User ${userId} revoked their ${provider} API key`);
+    }
+
+    /**
+     * Decrypts a user's key for a provider.
+     * @param {string} userId
+     * @param {string} provider
+     * @returns {Promise<string|null>} The key, or null if the user has none
+     */
+    async getDecryptedKey(userId, provider) {
+        const doc = await UserApiKey.findOne({ user: userId, provider });
+        return doc ? encryption.decrypt(doc.envelope) : null;
+    }
+
+    /**
+     * Decrypts all of a user's keys.
+     * @param {string} userId
+     * @returns {Promise<object>} Keys by provider
+     */
+    async getDecryptedKeys(userId) {
+        const docs = await UserApiKey.find({ user: userId });
+        return docs.reduce((keys, doc) => {
+            keys[doc.provider] = encryption.decrypt(doc.envelope);
+            return keys;
+        }, {});
+    }
+
+    /**
+     * Re-wraps every key still wrapped with an older master key, so the old master key can be retired.
+     * @param {object} [options]
+     * @param {boolean} [options.dryRun] - Only count the keys that would be re-wrapped
+     * @returns {Promise<object>} { rewrapped, failed }
+     */
+    async rotateKeys({ dryRun = false } = {}) {
+        const cipher = encryption.getDefaultCipher();
+        const cursor = UserApiKey.find({ 'envelope.keyVersion': { $ne: cipher.currentVersion } }).cursor();
+        const result = { rewrapped: 0, failed: 0 };
+
+        for await (const doc of cursor) {
+            try {
+                if (!dryRun) {
+                    doc.envelope = cipher.rewrap(doc.envelope);
+                    doc.rewrappedAt = new Date();
+                    await doc.save();
+                }
+                result.rewrapped++;
+            } catch (error) {
+                // E.g. the envelope's master key was removed from the configuration
+                logger.error(`Failed to re-wrap API key ${doc._id}:`, error.message);
+                result.failed++;
+            }
+        }
+
+        return result;
+    }
+}
+
+module.exports = new UserApiKeyService();
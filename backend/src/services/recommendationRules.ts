@@ -0,0 +1,157 @@
+import type { RecommendationRule } from './RecommendationRuleEngine';
+
+/**
+ * Built-in recommendation rules
+ *
+ * Each rule is registered with the recommendation engine at startup. Further rules
+ * can be added with `recommendationEngine.register(rule)`.
+ */
+
+// Scores below this percentage suggest a subject was not mastered
+const WEAK_SCORE_THRESHOLD = 60;
+
+// Difficulty above which a subject counts as challenging (1-5 scale)
+const CHALLENGING_DIFFICULTY = 3;
+
+/**
+ * Suggests the Focus preset when the next subject is analytical
+ */
+export const analyticalAudioPresetRule: RecommendationRule = {
+  id: 'analytical_audio_preset',
+  type: 'audio_preset',
+  priority: 80,
+  message: 'For analytical content like this, the Focus (Beta Waves) preset has been most effective for your learning.',
+  condition: ({ orderedSubjects, performance, cognitiveFeedback }) => {
+    const nextSubject = orderedSubjects[0];
+    if (cognitiveFeedback.preferredAudioPresets.length === 0 || !nextSubject) return null;
+
+    return performance.subjectPerformance[nextSubject]?.subjectType === 'analytical'
+      ? { subjectId: nextSubject }
+      : null;
+  }
+};
+
+/**
+ * Suggests the Creative preset when the next subject is creative
+ */
+export const creativeAudioPresetRule: RecommendationRule = {
+  id: 'creative_audio_preset',
+  type: 'audio_preset',
+  priority: 80,
+  message: 'Creative subjects like this one pair well with your performance using the Creative (Alpha Waves) preset.',
+  condition: ({ orderedSubjects, performance, cognitiveFeedback }) => {
+    const nextSubject = orderedSubjects[0];
+    if (cognitiveFeedback.preferredAudioPresets.length === 0 || !nextSubject) return null;
+
+    return performance.subjectPerformance[nextSubject]?.subjectType === 'creative'
+      ? { subjectId: nextSubject }
+      : null;
+  }
+};
+
+/**
+ * Points the learner to their peak hours for the next challenging subject
+ */
+export const optimalTimeRule: RecommendationRule = {
+  id: 'optimal_time',
+  type: 'optimal_time',
+  priority: 70,
+  message: 'For challenging content, your peak performance hours are {{optimalTimes}}. Consider scheduling this subject then.',
+  condition: ({ orderedSubjects, performance, cognitiveFeedback }) => {
+    if (cognitiveFeedback.optimalTimes.length === 0) return null;
+
+    const nextDifficultSubject = orderedSubjects.find(id => {
+      const subjectPerf = performance.subjectPerformance[id];
+      return subjectPerf && subjectPerf.difficulty > CHALLENGING_DIFFICULTY;
+    });
+    if (!nextDifficultSubject) return null;
+
+    return {
+      subjectId: nextDifficultSubject,
+      values: {
+        optimalTimes: cognitiveFeedback.optimalTimes
+          .map(time => `${time.start}:00-${time.end}:00`)
+          .join(' or ')
+      }
+    };
+  }
+};
+
+/**
+ * Sends the learner back to a weak prerequisite of the next subject they have not completed
+ */
+export const revisitWeakPrerequisiteRule: RecommendationRule = {
+  id: 'revisit_weak_prerequisite',
+  type: 'revisit_prerequisite',
+  priority: 90,
+  cooldownMinutes: 24 * 60,
+  message: 'You scored {{score}}% in {{prerequisiteTitle}}. Revisit it before starting {{subjectTitle}} to build a stronger foundation.',
+  condition: ({ orderedSubjects, subjects, prerequisitesOf, performance }) => {
+    const completed = new Set(performance.completedSubjects || []);
+    const nextSubject = orderedSubjects.find(id => !completed.has(id));
+    if (!nextSubject) return null;
+
+    const [weakest] = (prerequisitesOf.get(nextSubject) || [])
+      .map(id => ({ id, subjectPerf: performance.subjectPerformance[id] }))
+      .filter(({ subjectPerf }) =>
+        subjectPerf && subjectPerf.attempts > 0 && subjectPerf.averageScore < WEAK_SCORE_THRESHOLD
+      )
+      .sort((a, b) => a.subjectPerf.averageScore - b.subjectPerf.averageScore);
+    if (!weakest) return null;
+
+    return {
+      subjectId: weakest.id,
+      values: {
+        score: weakest.subjectPerf.averageScore,
+        prerequisiteTitle: subjects.get(weakest.id)?.title || weakest.id,
+        subjectTitle: subjects.get(nextSubject)?.title || nextSubject
+      }
+    };
+  }
+};
+
+/**
+ * Suggests consolidating before moving on when scores across completed subjects are low
+ */
+export const reviewBreakRule: RecommendationRule = {
+  id: 'review_break',
+  type: 'review_break',
+  priority: 60,
+  cooldownMinutes: 3 * 24 * 60,
+  message: 'Your average score across {{completedCount}} completed subjects is {{averageScore}}%. Take a review break to consolidate what you have learned before starting something new.',
+  condition: ({ performance }) => {
+    const completedCount = (performance.completedSubjects || []).length;
+    if (completedCount < 3 || performance.averageScore <= 0 || performance.averageScore >= WEAK_SCORE_THRESHOLD) {
+      return null;
+    }
+
+    return {
+      values: {
+        completedCount,
+        averageScore: Math.round(performance.averageScore)
+      }
+    };
+  }
+};
+
+/**
+ * Recommends session length based on attention span metrics
+ */
+export const focusLengthRule: RecommendationRule = {
+  id: 'focus_length',
+  type: 'focus_length',
+  priority: 10,
+  message: 'Your optimal learning sessions are {{attentionSpan}} minutes. Take short breaks after this period to maintain neural efficiency.',
+  condition: ({ cognitiveFeedback }) => ({
+    values: { attentionSpan: cognitiveFeedback.focusMetrics.attentionSpanMinutes }
+  })
+};
+
+export const defaultRecommendationRules: RecommendationRule[] = [
+  analyticalAudioPresetRule,
+  creativeAudioPresetRule,
+  optimalTimeRule,
+  revisitWeakPrerequisiteRule,
+  reviewBreakRule,
+  focusLengthRule
+];
@@ -0,0 +1,79 @@
+/**
+ * Binary heap priority queue
+ * 
+ * The comparator follows Array.sort semantics: the item that sorts first
+ * (comparator returns < 0) is dequeued first.
+ */
+export class PriorityQueue<T> {
+  private heap: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  /**
+   * Number of items in the queue
+   */
+  public get size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * Adds an item to the queue
+   * 
+   * @param item The item to add
+   */
+  public push(item: T): void {
+    this.heap.push(item);
+    this.siftUp(this.heap.length - 1);
+  }
+
+  /**
+   * Removes and returns the highest priority item
+   * 
+   * @returns The item that sorts first, or undefined if the queue is empty
+   */
+  public pop(): T | undefined {
+    if (this.heap.length === 0) return undefined;
+
+    const top = this.heap[0];
+    const last = this.heap.pop() as T;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+
+    return top;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = Math.floor((index - 1) / 2);
+      if (this.compare(this.heap[index], this.heap[parent]) >= 0) break;
+
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < this.heap.length && this.compare(this.heap[left], this.heap[smallest]) < 0) {
+        smallest = left;
+      }
+      if (right < this.heap.length && this.compare(this.heap[right], this.heap[smallest]) < 0) {
+        smallest = right;
+      }
+      if (smallest === index) break;
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(i: number, j: number): void {
+    [this.heap[i], this.heap[j]] = [this.heap[j], this.heap[i]];
+  }
+}
@@ -0,0 +1,130 @@
+// neuroforge/backend/src/utils/aiPricing.js
+// Purpose: Estimates the cost of the backend's own AI requests from a versioned pricing table
+//
+// Tables have the format of the frontend's pricing (see frontend/lib/ai/pricing.ts):
+// { version, currency, prices: [{ provider, model, effectiveFrom, inputPerMillion, outputPerMillion, longContext? }] },
+// where `model` also prices versioned names ('gpt-4o' prices 'gpt-4o-2024-08-06') and '*' prices
+// the provider's other models. The pricing shipped with the app is shared with the frontend, and the
+// lookup mirrors the frontend's PricingCatalog; __tests__/utils/aiPricing.test.js checks that both agree.
+const fs = require('fs/promises');
+const axios = require('axios');
+const DEFAULT_PRICING_TABLE = require('../../../shared/ai-pricing.json');
+
+const isRate = (value) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Validates a pricing table.
+ * @param {object} table
+ * @returns {object} The table
+ * @throws {Error} Describing the first invalid entry
+ */
+const parsePricingTable = (table) => {
+    if (!table || typeof table.version !== 'string' || typeof table.currency !== 'string' || !Array.isArray(table.prices)) {
+        throw new Error('Pricing table needs a version, a currency and a list of prices');
+    }
+    table.prices.forEach((price, index) => {
+        const valid = price && typeof price.provider === 'string' && typeof price.model === 'string' &&
+            !Number.isNaN(Date.parse(price.effectiveFrom)) &&
+            isRate(price.inputPerMillion) && isRate(price.outputPerMillion) &&
+            (!price.longContext || [price.longContext.thresholdTokens, price.longContext.inputPerMillion, price.longContext.outputPerMillion].every(isRate));
+        if (!valid) {
+            throw new Error(`Price ${index + 1} of the pricing table is invalid`);
+        }
+    });
+    return table;
+};
+
+/**
+ * The price of a model at a point in time: an exact match, then the longest model name the
+ * model starts with, then the provider's '*' entry - the latest one in effect of these.
+ * @param {object} table - Pricing table
+ * @param {string} provider
+ * @param {string} model
+ * @param {Date} at
+ * @returns {object|undefined} The price entry
+ */
+const priceFor = (table, provider, model, at) => {
+    const inEffect = table.prices.filter(price => price.provider === provider && Date.parse(price.effectiveFrom) <= at.getTime());
+    const candidates = inEffect.filter(price => price.model === model || model.startsWith(`${price.model}-`));
+    const longestName = Math.max(...candidates.map(price => price.model.length));
+    const modelPrices = candidates.length > 0
+        ? candidates.filter(price => price.model.length === longestName)
+        : inEffect.filter(price => price.model === '*');
+
+    return modelPrices.sort((a, b) => Date.parse(b.effectiveFrom) - Date.parse(a.effectiveFrom))[0];
+};
+
+// Current pricing table; replaced by refreshPricing() when a pricing source is configured
+let pricingTable = parsePricingTable(DEFAULT_PRICING_TABLE);
+let loadedAt = 0;
+let loading = null;
+
+const readPricingSource = async (source) => {
+    if (/^https?:\/\//.test(source)) {
+        const response = await axios.get(source, { timeout: 10000 });
+        return response.data;
+    }
+    return JSON.parse(await fs.readFile(source, 'utf8'));
+};
+
+/**
+ * Re-reads the configured pricing source once its refresh interval has passed.
+ * Concurrent callers share one read; a source that cannot be read or is invalid is logged
+ * and the current prices stay in place.
+ * @returns {Promise<void>}
+ */
+const refreshPricing = () => {
+    const { aiBudget } = require('../config');
+    const source = aiBudget.pricingUrl;
+    if (!source || Date.now() - loadedAt < aiBudget.pricingRefreshMs) {
+        return Promise.resolve();
+    }
+
+    if (!loading) {
+        loading = readPricingSource(source)
+            .then((table) => {
+                pricingTable = parsePricingTable(table);
+            })
+            .catch((error) => {
+                require('./logger').error(`Failed to load AI pricing from ${source}, keeping pricing version ${pricingTable.version}:`, error.message);
+            })
+            .finally(() => {
+                // Failed reads are retried after the same interval, not on every request
+                loadedAt = Date.now();
+                loading = null;
+            });
+    }
+    return loading;
+};
+
+/**
+ * Estimated cost of a response; zero for models without a price.
+ * @param {string} provider
+ * @param {string} model
+ * @param {number} inputTokens
+ * @param {number} outputTokens
+ * @param {object} [options]
+ * @param {Date} [options.at] - When the request was made
+ * @param {object} [options.table] - Pricing table, instead of the current one
+ * @returns {object} { estimated, currency, pricingVersion }
+ */
+const estimateCost = (provider, model, inputTokens, outputTokens, { at = new Date(), table = pricingTable } = {}) => {
+    const price = priceFor(table, provider, model, at);
+    if (!price) {
+        return { estimated: 0, currency: table.currency, pricingVersion: table.version };
+    }
+
+    const rates = price.longContext && inputTokens > price.longContext.thresholdTokens ? price.longContext : price;
+    return {
+        estimated: (inputTokens * rates.inputPerMillion + outputTokens * rates.outputPerMillion) / 1000000,
+        currency: table.currency,
+        pricingVersion: table.version,
+    };
+};
+
+module.exports = {
+    DEFAULT_PRICING_TABLE,
+    parsePricingTable,
+    refreshPricing,
+    estimateCost,
+};
@@ -0,0 +1,26 @@
+/**
+ * Source of the current time
+ *
+ * Services take the time from an injectable clock instead of calling `new Date()`
+ * directly, so tests can control time.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Clock that reads the system time
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Creates a clock that always returns the given time
+ *
+ * @param date The time the clock reports
+ * @returns A clock frozen at that time
+ */
+export function fixedClock(date: Date): Clock {
+  return { now: () => new Date(date) };
+}
@@ -0,0 +1,69 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Domain events published by controllers when learner or curriculum state changes
+ */
+export const DomainEvents = {
+  LESSON_COMPLETED: 'lesson.completed',
+  REVIEW_SUBMITTED: 'review.submitted',
+  SUBJECT_CREATED: 'subject.created',
+  SUBJECT_UPDATED: 'subject.updated',
+  SUBJECT_DELETED: 'subject.deleted',
+  SUBJECTS_REORDERED: 'subjects.reordered',
+  TIME_ZONE_UPDATED: 'user.time_zone.updated',
+} as const;
+
+export type DomainEventName = typeof DomainEvents[keyof typeof DomainEvents];
+
+/**
+ * Payload carried by each domain event
+ */
+export interface DomainEventPayloads {
+  'lesson.completed': { userId: string, lessonId: string, subjectId: string };
+  'review.submitted': { userId: string, lessonId: string, subjectId: string };
+  'subject.created': { subjectId: string };
+  'subject.updated': { subjectId: string };
+  'subject.deleted': { subjectId: string };
+  'subjects.reordered': { subjectIds: string[] };
+  'user.time_zone.updated': { userId: string, timeZone: string };
+}
+
+type DomainEventHandler<E extends DomainEventName> = (payload: DomainEventPayloads[E]) => void | Promise<void>;
+
+/**
+ * In-process publish/subscribe bus for domain events
+ *
+ * Handlers run asynchronously after the publisher continues, and their failures are
+ * logged rather than propagated, so a subscriber can never break the request that
+ * published the event.
+ */
+class DomainEventBus {
+  private emitter = new EventEmitter();
+
+  /**
+   * Publishes a domain event to every subscriber
+   *
+   * @param event The event name
+   * @param payload The event payload
+   */
+  public publish<E extends DomainEventName>(event: E, payload: DomainEventPayloads[E]): void {
+    this.emitter.emit(event, payload);
+  }
+
+  /**
+   * Subscribes a handler to a domain event
+   *
+   * @param event The event name
+   * @param handler Called with the payload each time the event is published
+   */
+  public subscribe<E extends DomainEventName>(event: E, handler: DomainEventHandler<E>): void {
+    this.emitter.on(event, (payload: DomainEventPayloads[E]) => {
+      Promise.resolve()
+        .then(() => handler(payload))
+        .catch(error => console.error(`Error handling domain event ${event}:`, error));
+    });
+  }
+}
+
+// Export the singleton instance
+export const domainEvents = new DomainEventBus();
@@ -0,0 +1,164 @@
+// neuroforge/backend/src/utils/encryption.js
+// Purpose: Envelope encryption for secrets stored in the database (e.g. user-supplied AI provider keys)
+//
+// Every secret is encrypted with its own random data key (AES-256-GCM); the data key is
+// in turn encrypted ("wrapped") with a master key. Master keys are versioned, and every
+// envelope records the version that wrapped its data key, so a new master key can be
+// introduced and old envelopes re-wrapped without ever re-encrypting the secrets themselves.
+const crypto = require('crypto');
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32; // bytes, AES-256
+const IV_LENGTH = 12; // bytes, recommended for GCM
+const TAG_LENGTH = 16; // bytes
+
+/**
+ * Parses master keys from their configured form: comma-separated `<version>:<base64 key>` pairs,
+ * e.g. "v2:q0x...,v1:Zm9...".
+ * @param {string} value - The configured keys
+ * @returns {object} Keys by version
+ */
+const parseMasterKeys = (value) => {
+    const keys = {};
+    String(value || '').split(',').map(entry => entry.trim()).filter(Boolean).forEach((entry) => {
+        const separator = entry.indexOf(':');
+        if (separator <= 0) {
+            throw new Error('Encryption keys must be comma-separated <version>:<base64 key> pairs');
+        }
+        const version = entry.slice(0, separator);
+        const key = Buffer.from(entry.slice(separator + 1), 'base64');
+        if (key.length !== KEY_LENGTH) {
+            throw new Error(`Encryption key ${version} must be ${KEY_LENGTH} bytes`);
+        }
+        keys[version] = key;
+    });
+    return keys;
+};
+
+// AES-256-GCM, packed as base64(iv | tag | ciphertext)
+const seal = (key, plaintext) => {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+};
+
+const open = (key, sealed) => {
+    const data = Buffer.from(sealed, 'base64');
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+};
+
+/**
+ * Creates an envelope cipher over a set of versioned master keys.
+ * @param {object} options
+ * @param {object} options.keys - Master keys (32-byte Buffers) by version
+ * @param {string} [options.currentVersion] - Version new envelopes are wrapped with; defaults to the first key
+ * @returns {object} { currentVersion, encrypt, decrypt, rewrap, needsRewrap }
+ */
+const createEnvelopeCipher = ({ keys, currentVersion }) => {
+    const versions = Object.keys(keys || {});
+    if (versions.length === 0) {
+        throw new Error('No encryption keys are configured');
+    }
+    const activeVersion = currentVersion || versions[0];
+    if (!keys[activeVersion]) {
+        throw new Error(`Encryption key ${activeVersion} is not configured`);
+    }
+
+    const masterKey = (version) => {
+        if (!keys[version]) {
+            throw new Error(`Encryption key ${version} is not configured`);
+        }
+        return keys[version];
+    };
+
+    const unwrapDataKey = (envelope) => open(masterKey(envelope.keyVersion), envelope.wrappedKey);
+
+    return {
+        currentVersion: activeVersion,
+
+        /**
+         * Encrypts a secret under a fresh data key.
+         * @param {string} plaintext - The secret
+         * @returns {object} Envelope { keyVersion, wrappedKey, ciphertext }
+         */
+        encrypt(plaintext) {
+            const dataKey = crypto.randomBytes(KEY_LENGTH);
+            try {
+                return {
+                    keyVersion: activeVersion,
+                    wrappedKey: seal(keys[activeVersion], dataKey),
+                    ciphertext: seal(dataKey, Buffer.from(String(plaintext), 'utf8'))
+                };
+            } finally {
+                dataKey.fill(0);
+            }
+        },
+
+        /**
+         * Decrypts the secret in an envelope. Throws if the envelope was tampered with.
+         * @param {object} envelope - Envelope created by encrypt()
+         * @returns {string} The secret
+         */
+        decrypt(envelope) {
+            const dataKey = unwrapDataKey(envelope);
+            try {
+                return open(dataKey, envelope.ciphertext).toString('utf8');
+            } finally {
+                dataKey.fill(0);
+            }
+        },
+
+        /**
+         * Re-wraps an envelope's data key with the current master key; the ciphertext is unchanged.
+         * @param {object} envelope - Envelope created by encrypt()
+         * @returns {object} The re-wrapped envelope
+         */
+        rewrap(envelope) {
+            const dataKey = unwrapDataKey(envelope);
+            try {
+                return {
+                    keyVersion: activeVersion,
+                    wrappedKey: seal(keys[activeVersion], dataKey),
+                    ciphertext: envelope.ciphertext
+                };
+            } finally {
+                dataKey.fill(0);
+            }
+        },
+
+        /**
+         * Whether an envelope is wrapped with an older master key.
+         * @param {object} envelope - Envelope created by encrypt()
+         * @returns {boolean}
+         */
+        needsRewrap(envelope) {
+            return envelope.keyVersion !== activeVersion;
+        }
+    };
+};
+
+// Cipher over the configured master keys, created on first use so a missing key only fails the callers that need one
+let defaultCipher;
+const getDefaultCipher = () => {
+    if (!defaultCipher) {
+        const config = require('../config');
+        defaultCipher = createEnvelopeCipher({
+            keys: parseMasterKeys(config.encryption.keys),
+            currentVersion: config.encryption.currentVersion
+        });
+    }
+    return defaultCipher;
+};
+
+module.exports = {
+    parseMasterKeys,
+    createEnvelopeCipher,
+    getDefaultCipher,
+    encrypt: (plaintext) => getDefaultCipher().encrypt(plaintext),
+    decrypt: (envelope) => getDefaultCipher().decrypt(envelope),
+    rewrap: (envelope) => getDefaultCipher().rewrap(envelope),
+    needsRewrap: (envelope) => getDefaultCipher().needsRewrap(envelope),
+};
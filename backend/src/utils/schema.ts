@@ -0,0 +1,137 @@
+/**
+ * Minimal runtime schemas for checking data read from outside the process
+ *
+ * A schema is a function that checks an unknown value and returns it typed, or
+ * throws a SchemaViolation naming the path of the first field that does not match.
+ */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+/**
+ * Thrown by a schema when a value does not match it
+ */
+export class SchemaViolation extends Error {
+  constructor(public readonly path: string, expected: string, value: unknown) {
+    super(`${path || 'value'} must be ${expected} (got ${describeValue(value)})`);
+    this.name = 'SchemaViolation';
+  }
+}
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+  return typeof value === 'number' || typeof value === 'boolean' ? String(value) : typeof value;
+};
+
+const fieldPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+export const string = (): Schema<string> => (value, path) => {
+  if (typeof value !== 'string') throw new SchemaViolation(path, 'a string', value);
+  return value;
+};
+
+export const boolean = (): Schema<boolean> => (value, path) => {
+  if (typeof value !== 'boolean') throw new SchemaViolation(path, 'a boolean', value);
+  return value;
+};
+
+/**
+ * One of a fixed set of strings
+ */
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => (value, path) => {
+  if (!values.includes(value as T)) {
+    throw new SchemaViolation(path, `one of ${values.map(item => JSON.stringify(item)).join(', ')}`, value);
+  }
+  return value as T;
+};
+
+/**
+ * A finite number, optionally an integer within a range
+ */
+export const number = (constraints: { min?: number, max?: number, integer?: boolean } = {}): Schema<number> =>
+  (value, path) => {
+    const { min, max, integer } = constraints;
+    const expected = [
+      integer ? 'an integer' : 'a number',
+      min !== undefined && max !== undefined ? `from ${min} to ${max}` : '',
+      min !== undefined && max === undefined ? `of at least ${min}` : '',
+      max !== undefined && min === undefined ? `of at most ${max}` : ''
+    ].filter(Boolean).join(' ');
+
+    if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value)) ||
+        (min !== undefined && value < min) || (max !== undefined && value > max)) {
+      throw new SchemaViolation(path, expected, value);
+    }
+    return value;
+  };
+
+/**
+ * A Date, or a string or timestamp that parses to one (as stored by JSON round trips)
+ */
+export const date = (): Schema<Date> => (value, path) => {
+  const parsed = value instanceof Date || typeof value === 'string' || typeof value === 'number'
+    ? new Date(value)
+    : null;
+  if (!parsed || Number.isNaN(parsed.getTime())) throw new SchemaViolation(path, 'a date', value);
+  return parsed;
+};
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new SchemaViolation(path, 'an array', value);
+  return value.map((element, index) => item(element, fieldPath(path, index)));
+};
+
+/**
+ * An object used as a map from string keys to values of one schema
+ */
+export const record = <T>(item: Schema<T>): Schema<Record<string, T>> => (value, path) => {
+  if (!isPlainObject(value)) throw new SchemaViolation(path, 'an object', value);
+  return Object.fromEntries(Object.entries(value).map(([key, element]) => [key, item(element, fieldPath(path, key))]));
+};
+
+/**
+ * An object with the given fields
+ *
+ * Fields the shape does not mention are kept as they are, so database metadata such
+ * as `_id` survives validation.
+ */
+export const object = <S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<{ [K in keyof S]: ReturnType<S[K]> }> => (value, path) => {
+  if (!isPlainObject(value)) throw new SchemaViolation(path, 'an object', value);
+
+  const result: Record<string, unknown> = { ...value };
+  Object.entries(shape).forEach(([key, schema]) => {
+    const parsed = schema(value[key], fieldPath(path, key));
+    if (parsed === undefined) {
+      delete result[key];
+    } else {
+      result[key] = parsed;
+    }
+  });
+
+  return result as { [K in keyof S]: ReturnType<S[K]> };
+};
+
+/**
+ * A value that may be missing (undefined or null)
+ */
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : schema(value, path);
+
+/**
+ * A value that may be null
+ */
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => (value, path) =>
+  value === null ? null : schema(value, path);
+
+/**
+ * A value that falls back to a default when missing (undefined or null)
+ */
+export const withDefault = <T>(schema: Schema<T>, fallback: () => T): Schema<T> => (value, path) =>
+  value === undefined || value === null ? fallback() : schema(value, path);
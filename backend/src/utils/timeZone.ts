@@ -0,0 +1,127 @@
+/**
+ * Time zone helpers built on Intl, for evaluating times in a learner's IANA time zone
+ * rather than the server's
+ */
+
+// Used when a learner has not set a time zone
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+/**
+ * Calendar fields of an instant as seen in a time zone
+ */
+export interface ZonedDateParts {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  // 0-23
+  hour: number;
+  minute: number;
+  second: number;
+  // 0 = Sunday
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Formatters are expensive to create, so keep one per time zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Checks whether a string is an IANA time zone name the runtime supports
+ *
+ * @param timeZone The time zone name, e.g. `America/New_York`
+ * @returns True if the time zone is valid
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the calendar fields of an instant in a time zone
+ *
+ * @param date The instant
+ * @param timeZone IANA time zone name
+ * @returns The local year, month, day, time and weekday
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Formats the calendar date of an instant in a time zone as YYYY-MM-DD
+ */
+export function formatZonedDate(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Converts a wall-clock time in a time zone to an instant
+ *
+ * Wall-clock times skipped by a daylight saving transition resolve to the instant
+ * after the gap.
+ *
+ * @param time The local date (month 1-12) and time
+ * @param timeZone IANA time zone name
+ * @returns The instant at which the time zone shows that wall-clock time
+ */
+export function zonedTimeToUtc(
+  time: { year: number, month: number, day: number, hour?: number, minute?: number },
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(time.year, time.month - 1, time.day, time.hour || 0, time.minute || 0);
+
+  // Offset of the zone from UTC at a given instant, in milliseconds
+  const offsetAt = (instant: number): number => {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return asUtc - Math.floor(instant / 1000) * 1000;
+  };
+
+  // The offset can change between the guess and the result around a transition
+  const firstGuess = wallClock - offsetAt(wallClock);
+  const result = wallClock - offsetAt(firstGuess);
+
+  // A wall-clock time inside a spring-forward gap never appears - use the guess after the gap
+  return getZonedParts(new Date(result), timeZone).hour === (time.hour || 0)
+    ? new Date(result)
+    : new Date(Math.max(result, firstGuess));
+}
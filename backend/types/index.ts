@@ -0,0 +1,393 @@
+/**
+ * Shared types for the NeuroForge learning path services
+ */
+
+/**
+ * A subject node in the curriculum dependency graph
+ */
+export interface Subject {
+  id: string;
+  title: string;
+  description?: string;
+  // IDs of the subjects that must be learned before this one
+  dependencies?: string[];
+  // Average score (0-100) required in each dependency before this subject, by dependency ID;
+  // dependencies without an entry require the default mastery level
+  dependencyMastery?: Record<string, number>;
+  estimatedTimeMinutes?: number;
+  difficulty?: number; // 1-5 scale
+  tags?: string[];
+}
+
+/**
+ * Per-subject performance metrics for a single user
+ */
+export interface SubjectPerformance {
+  attempts: number;
+  averageScore: number; // 0-100
+  difficulty: number; // 1-5 scale
+  estimatedTimeMinutes: number;
+  subjectType?: 'analytical' | 'creative' | string;
+}
+
+/**
+ * Aggregated performance data for a user across all subjects
+ */
+export interface UserPerformance {
+  userId: string;
+  subjectPerformance: Record<string, SubjectPerformance>;
+  averageScore: number;
+  learningRate: number;
+  completedSubjects: string[];
+}
+
+/**
+ * Cognitive feedback captured from the user's focus sessions
+ */
+export interface CognitiveFeedback {
+  userId: string;
+  // Hour ranges (0-23) in which the user performs best, in the user's own time zone
+  optimalTimes: Array<{
+    start: number;
+    end: number;
+  }>;
+  focusMetrics: {
+    averageFocusScore: number;
+    focusPeaks: number[];
+    attentionSpanMinutes: number;
+  };
+  preferredAudioPresets: string[];
+  learningStyles: string[];
+}
+
+/**
+ * A single recommendation attached to a learning path
+ */
+export interface LearningPathRecommendation {
+  type: string;
+  message: string;
+  subjectId?: string;
+}
+
+/**
+ * A single adjustment applied to a subject's base priority score
+ */
+export interface ScoreAdjustment {
+  factor: 'prior_performance' | 'remediation' | 'time_of_day' | 'attention_span';
+  // Human readable reason for the adjustment
+  reason: string;
+  delta: number;
+}
+
+/**
+ * Why a subject was placed where it is in a learning path
+ */
+export interface SubjectExplanation {
+  subjectId: string;
+  // 1-based position in the learning path
+  position: number;
+  baseScore: number;
+  adjustments: ScoreAdjustment[];
+  finalScore: number;
+  // Completed subjects are placed as late as their dependents allow, unless they need remediation
+  completed: boolean;
+  // True if the subject was completed below the mastery a dependent in the path requires
+  remediation: boolean;
+  // Prerequisites not yet mastered to the level this subject requires; the subject is
+  // gated until the list is empty
+  masteryGaps: MasteryGap[];
+  // True if the user placed the subject by hand
+  pinned: boolean;
+  // Prerequisites in this path that must be learned before the subject
+  prerequisites: string[];
+  // Subjects in this path that depend on the subject
+  dependents: string[];
+}
+
+/**
+ * A prerequisite the learner has not mastered to the level a subject requires
+ */
+export interface MasteryGap {
+  prerequisiteId: string;
+  requiredMastery: number;
+  // The learner's average score, or null if they have not attempted the prerequisite
+  currentScore: number | null;
+}
+
+/**
+ * A completed subject the learner has to revisit because their score is below
+ * the mastery that subjects depending on it require
+ */
+export interface PrerequisiteRemediation {
+  subjectId: string;
+  currentScore: number;
+  // Highest mastery required by the incomplete subjects that depend on it
+  requiredMastery: number;
+  // Incomplete subjects in the path that are gated on the remediation
+  requiredFor: string[];
+}
+
+/**
+ * A dependency edge: `subjectId` lists `prerequisiteId` in its dependencies
+ */
+export interface DependencyEdge {
+  prerequisiteId: string;
+  subjectId: string;
+}
+
+/**
+ * A strongly connected component of the dependency graph that contains a cycle
+ */
+export interface DependencyCycle {
+  // Subjects that participate in the cycle
+  subjectIds: string[];
+  // Every dependency edge between the subjects of the component
+  edges: DependencyEdge[];
+  // A minimal set of edges whose removal breaks every cycle in the component
+  suggestedRemovals: DependencyEdge[];
+}
+
+/**
+ * Result of validating the curriculum dependency graph for cycles
+ */
+export interface CycleReport {
+  hasCycles: boolean;
+  cycles: DependencyCycle[];
+}
+
+/**
+ * A subject the user placed by hand that prerequisites forced further down the path
+ */
+export interface ManualOrderConflict {
+  subjectId: string;
+  // Subjects the user placed after this one that now come before it
+  requestedBefore: string[];
+  // Prerequisites of the subject that had to be placed first
+  blockingPrerequisites: string[];
+}
+
+/**
+ * Summary of a goal-directed learning path
+ */
+export interface LearningPathGoal {
+  // Subjects the user asked to reach
+  targetSubjectIds: string[];
+  // Completed subjects that were left out of the path
+  skippedSubjectIds: string[];
+  // Requested or prerequisite subject IDs that do not exist in the catalog
+  missingSubjectIds: string[];
+  // Sum of the estimated time of every subject in the path
+  estimatedTotalMinutes: number;
+}
+
+/**
+ * Per-request options for generating a learning path
+ */
+export interface LearningPathOptions {
+  // The user's IANA time zone from their profile (defaults to UTC)
+  timeZone?: string;
+}
+
+/**
+ * A personalized, ordered learning path for a user
+ */
+export interface LearningPath {
+  userId: string;
+  // Subject IDs in recommended order
+  subjects: string[];
+  // Score breakdown and dependency constraints for each subject, in path order
+  explanations: SubjectExplanation[];
+  recommendations: LearningPathRecommendation[];
+  // Cycles found in the dependency graph while ordering the subjects
+  cycleReport: CycleReport;
+  // Manual placements that could not be honoured because of prerequisites
+  orderConflicts: ManualOrderConflict[];
+  // Completed prerequisites placed back in the path because their scores are too low
+  remediations: PrerequisiteRemediation[];
+  // Present when the path was built to reach specific target subjects
+  goal?: LearningPathGoal;
+  // IANA time zone the user's optimal times were evaluated in
+  timeZone: string;
+  generatedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * A learner whose path is generated as part of a cohort
+ */
+export interface CohortMember {
+  userId: string;
+  // The learner's IANA time zone from their profile (defaults to UTC)
+  timeZone?: string;
+}
+
+/**
+ * How many learners in a cohort have a subject next in their path
+ */
+export interface CohortNextSubject {
+  subjectId: string;
+  learners: number;
+}
+
+/**
+ * An incomplete prerequisite that holds back other subjects across a cohort
+ */
+export interface BottleneckPrerequisite {
+  subjectId: string;
+  // Learners who have not completed the subject but have incomplete subjects depending on it
+  learnersBlocked: number;
+  // Incomplete subjects that transitively depend on it, summed over those learners
+  subjectsBlocked: number;
+  // Average score of the blocked learners who attempted it, or null if none did
+  averageScore: number | null;
+}
+
+/**
+ * Aggregate statistics over the learning paths of a cohort
+ */
+export interface CohortLearningPathStats {
+  learners: number;
+  // Each learner's first incomplete subject, most common first
+  nextSubjects: CohortNextSubject[];
+  // Prerequisites holding back the most learners first
+  bottleneckPrerequisites: BottleneckPrerequisite[];
+}
+
+/**
+ * Learning paths generated for a whole cohort in one pass
+ */
+export interface CohortLearningPaths {
+  paths: LearningPath[];
+  // Learners whose path could not be generated
+  failedUserIds: string[];
+  stats: CohortLearningPathStats;
+  generatedAt: Date;
+}
+
+/**
+ * Options for laying a learning path out into a study calendar
+ */
+export interface ScheduleOptions {
+  // Date by which the learner wants to finish the path
+  targetDate: Date;
+  // Minutes the learner can study per week
+  weeklyMinutes: number;
+  // Days of the week the learner studies on (0 = Sunday); defaults to every day
+  studyDays?: number[];
+  // Hour (0-23) at which study blocks start when no peak hours apply
+  preferredStartHour?: number;
+  // Build the schedule for a goal-directed path to these subjects instead of the full path
+  targetSubjectIds?: string[];
+}
+
+/**
+ * A single study session in a learning schedule
+ */
+export interface StudySession {
+  subjectId: string;
+  subjectTitle: string;
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+  // Subjects longer than the learner's attention span are split into several parts
+  part: number;
+  totalParts: number;
+  // True if the session falls in one of the learner's peak performance hours
+  peakHours: boolean;
+}
+
+/**
+ * The study sessions planned for one calendar day
+ */
+export interface ScheduleDay {
+  // Calendar date in the schedule's time zone (YYYY-MM-DD)
+  date: string;
+  sessions: StudySession[];
+  totalMinutes: number;
+}
+
+/**
+ * A learning path laid out day by day up to a target date
+ */
+export interface LearningSchedule {
+  userId: string;
+  targetDate: Date;
+  weeklyMinutes: number;
+  studyDays: number[];
+  preferredStartHour: number;
+  targetSubjectIds?: string[];
+  // IANA time zone the days and hours are planned in
+  timeZone: string;
+  days: ScheduleDay[];
+  totalMinutes: number;
+  // Day on which the last session ends, or null if nothing is left to study
+  completionDate: Date | null;
+  // False if the plan cannot be finished by the target date with the weekly budget
+  meetsTargetDate: boolean;
+  // Weekly minutes needed to finish the remaining subjects by the target date
+  requiredWeeklyMinutes: number;
+  generatedAt: Date;
+  // Number of times the schedule was re-planned because the learner fell behind
+  replanCount: number;
+}
+
+/**
+ * What caused a learning path to be regenerated
+ * - initial: first path generated for this user and scope
+ * - progress: the user's completed subjects or subject performance changed
+ * - curriculum_change: subjects or their dependencies changed
+ * - manual_reorder: the user's manual ordering changed
+ * - expired: the previous path expired without any input changing
+ * - refresh: the previous path was invalidated or evicted without any input changing
+ */
+export type LearningPathTrigger =
+  | 'initial'
+  | 'progress'
+  | 'curriculum_change'
+  | 'manual_reorder'
+  | 'expired'
+  | 'refresh';
+
+/**
+ * A persisted version of a generated learning path
+ */
+export interface LearningPathVersion {
+  userId: string;
+  // Which path this is a version of: `full`, `subjects:<ids>` or `goal:<ids>`
+  scope: string;
+  // Increments by one per regeneration of the same scope, starting at 1
+  version: number;
+  triggers: LearningPathTrigger[];
+  path: LearningPath;
+  createdAt: Date;
+}
+
+/**
+ * A subject whose position changed between two versions of a learning path
+ */
+export interface SubjectMove {
+  subjectId: string;
+  // 1-based positions in the older and newer version
+  fromPosition: number;
+  toPosition: number;
+}
+
+/**
+ * Differences between two versions of a learning path
+ */
+export interface LearningPathDiff {
+  userId: string;
+  scope: string;
+  fromVersion: number;
+  toVersion: number;
+  // What caused the newer version to be generated
+  triggers: LearningPathTrigger[];
+  added: string[];
+  removed: string[];
+  // The fewest subjects whose moves explain the change in relative order
+  moved: SubjectMove[];
+  recommendations: {
+    added: LearningPathRecommendation[];
+    removed: LearningPathRecommendation[];
+  };
+}
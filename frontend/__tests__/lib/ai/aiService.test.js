@@ -0,0 +1,105 @@
+// __tests__/lib/ai/aiService.test.js
+
+import fs from 'fs';
+import path from 'path';
+import { AiService } from '@/lib/ai/aiService';
+
+const FIXTURES_DIR = path.join(__dirname, '../../fixtures/ai');
+const fixture = (provider, file) => fs.readFileSync(path.join(FIXTURES_DIR, provider, file), 'utf8');
+
+const messages = [{ role: 'user', content: 'What is photosynthesis?' }];
+
+const createService = () => new AiService({
+  defaultModel: 'grok-3',
+  defaultSystemPrompt: 'You are a tutor.',
+  defaultTemperature: 0.7,
+  defaultMaxTokens: 500,
+  provider: 'grok',
+  fallbackProviders: ['openai'],
+  providerSettings: { grok: { apiKey: 'xai-platform' }, openai: { apiKey: 'sk-platform' } },
+  retry: { maxAttempts: 1 }
+});
+
+describe('AiService', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  it('sends requests through the adapter of the configured provider', async () => {
+    fetchMock.mockResolvedValue(new Response(fixture('grok', 'response.json'), { status: 200 }));
+
+    const result = await createService().sendMessage(messages);
+
+    expect(fetchMock).toHaveBeenCalledWith('https://api.x.ai/v1/chat/completions', expect.objectContaining({ method: 'POST' }));
+    expect(result.response).toBe('Photosynthesis turns light energy into chemical energy stored in glucose.');
+    expect(result.usage?.provider).toMatchObject({ name: 'xAI Grok', id: 'grok' });
+  });
+
+  it('falls back to the next provider with its own adapter', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('{"error":{"message":"down"}}', { status: 503 }))
+      .mockResolvedValueOnce(new Response(fixture('openai', 'response.json'), { status: 200 }));
+
+    const result = await createService().sendMessage(messages);
+
+    expect(fetchMock.mock.calls[1][0]).toBe('https://api.openai.com/v1/chat/completions');
+    expect(result.usage?.provider).toMatchObject({ name: 'OpenAI', id: 'openai', fallbackFrom: ['grok'] });
+  });
+
+  it("uses the user's own key for a provider", async () => {
+    fetchMock.mockResolvedValue(new Response(fixture('grok', 'response.json'), { status: 200 }));
+
+    const result = await createService().sendMessage(messages, { apiKeys: { grok: 'xai-user' } });
+
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer xai-user');
+    expect(result.usage?.provider.userKey).toBe(true);
+  });
+
+  it("only tries providers with the user's own key for user-key-only requests", async () => {
+    fetchMock.mockResolvedValue(new Response(fixture('openai', 'response.json'), { status: 200 }));
+    const service = createService();
+    const options = { userKeysOnly: true, apiKeys: { openai: 'sk-user' } };
+
+    const result = await service.sendMessage(messages, options);
+
+    expect(service.userKeyProviders(options)).toEqual(['openai']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.openai.com/v1/chat/completions');
+    expect(result.usage?.provider).toMatchObject({ id: 'openai', userKey: true });
+  });
+
+  it("switches economy requests to the provider's cheaper model", async () => {
+    fetchMock.mockResolvedValue(new Response(fixture('grok', 'response.json'), { status: 200 }));
+
+    await createService().sendMessage(messages, { economy: true });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).model).toBe('grok-3-mini');
+  });
+
+  it("keeps the requested model for economy requests on the user's own key", async () => {
+    fetchMock.mockResolvedValue(new Response(fixture('grok', 'response.json'), { status: 200 }));
+
+    await createService().sendMessage(messages, { economy: true, apiKeys: { grok: 'xai-user' } });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).model).toBe('grok-3');
+  });
+
+  it('streams a recorded response', async () => {
+    fetchMock.mockResolvedValue(new Response(fixture('grok', 'stream.txt'), { status: 200 }));
+
+    const events = [];
+    for await (const event of createService().streamMessage(messages)) {
+      events.push(event);
+    }
+
+    expect(events.slice(0, 2)).toEqual([
+      { type: 'delta', text: 'Photosynthesis turns light' },
+      { type: 'delta', text: ' into chemical energy.' }
+    ]);
+    const done = events[2];
+    expect(done.type === 'done' && done.response.usage?.tokens.total).toBe(49);
+  });
+});
@@ -0,0 +1,65 @@
+// __tests__/lib/ai/pricing.test.js
+
+import { DEFAULT_PRICING_TABLE, parsePricingTable, PricingCatalog } from '@/lib/ai/pricing';
+
+const table = {
+  version: '2025-01',
+  currency: 'USD',
+  prices: [
+    { provider: 'openai', model: '*', effectiveFrom: '2024-01-01', inputPerMillion: 1, outputPerMillion: 2 },
+    { provider: 'openai', model: 'gpt-4o', effectiveFrom: '2024-05-13', inputPerMillion: 5, outputPerMillion: 15 },
+    { provider: 'openai', model: 'gpt-4o', effectiveFrom: '2024-10-02', inputPerMillion: 2.5, outputPerMillion: 10 },
+    { provider: 'openai', model: 'gpt-4o-mini', effectiveFrom: '2024-07-18', inputPerMillion: 0.15, outputPerMillion: 0.6 }
+  ]
+};
+
+describe('PricingCatalog', () => {
+  const catalog = new PricingCatalog(table);
+
+  it('applies the price in effect at the time of the request', () => {
+    expect(catalog.priceFor('openai', 'gpt-4o', new Date('2024-06-01')).inputPerMillion).toBe(5);
+    expect(catalog.priceFor('openai', 'gpt-4o', new Date('2025-01-01')).inputPerMillion).toBe(2.5);
+  });
+
+  it('prices versioned model names like their family, preferring the longest match', () => {
+    expect(catalog.priceFor('openai', 'gpt-4o-2024-08-06', new Date('2025-01-01')).inputPerMillion).toBe(2.5);
+    expect(catalog.priceFor('openai', 'gpt-4o-mini-2024-07-18', new Date('2025-01-01')).inputPerMillion).toBe(0.15);
+  });
+
+  it("falls back to the provider's '*' price, then to no price", () => {
+    expect(catalog.priceFor('openai', 'gpt-3.5-turbo').model).toBe('*');
+    // Names only match at a dash, so 'gpt-4omega' is not a gpt-4o
+    expect(catalog.priceFor('openai', 'gpt-4omega').model).toBe('*');
+    expect(catalog.priceFor('anthropic', 'claude-3-7-sonnet')).toBeUndefined();
+  });
+
+  it('estimates costs per million tokens and records the pricing version', () => {
+    expect(catalog.estimateCost('openai', 'gpt-4o', 1000, 500, new Date('2025-01-01'))).toEqual({
+      estimated: (1000 * 2.5 + 500 * 10) / 1e6,
+      currency: 'USD',
+      pricingVersion: '2025-01'
+    });
+    expect(catalog.estimateCost('anthropic', 'claude-3-7-sonnet', 1000, 500).estimated).toBe(0);
+  });
+
+  it('switches to a new pricing table', () => {
+    const updated = new PricingCatalog(table);
+    updated.update({ ...table, version: '2025-02', prices: [{ ...table.prices[0], inputPerMillion: 4 }] });
+
+    expect(updated.version).toBe('2025-02');
+    expect(updated.estimateCost('openai', 'gpt-4o', 1e6, 0).estimated).toBe(4);
+  });
+});
+
+describe('parsePricingTable', () => {
+  it('accepts the shipped pricing', () => {
+    expect(parsePricingTable(DEFAULT_PRICING_TABLE)).toBe(DEFAULT_PRICING_TABLE);
+  });
+
+  it('rejects invalid tables', () => {
+    expect(() => parsePricingTable({ currency: 'USD', prices: [] })).toThrow('needs a version');
+    expect(() => parsePricingTable({ ...table, prices: [{ ...table.prices[0], provider: 'acme' }] })).toThrow('unknown provider');
+    expect(() => parsePricingTable({ ...table, prices: [{ ...table.prices[0], effectiveFrom: 'soon' }] })).toThrow('effectiveFrom');
+    expect(() => parsePricingTable({ ...table, prices: [{ ...table.prices[0], outputPerMillion: -1 }] })).toThrow('invalid rate');
+  });
+});
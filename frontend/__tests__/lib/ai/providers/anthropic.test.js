@@ -0,0 +1,61 @@
+// __tests__/lib/ai/providers/anthropic.test.js
+
+import { anthropicAdapter } from '@/lib/ai/providers/anthropic';
+import { AiProviderError } from '@/lib/errors';
+import { loadResponseFixture, replayStreamFixture, testPricing } from './fixtures';
+
+const params = {
+  messages: [{ role: 'user', content: 'What is photosynthesis?' }],
+  model: 'claude-3-7-sonnet-20250219',
+  systemPrompt: 'You are a tutor.',
+  temperature: 0.7,
+  maxTokens: 500,
+  stream: false,
+  apiKey: 'sk-ant-test'
+};
+
+describe('anthropicAdapter', () => {
+  it('sends the system prompt separately from the messages', () => {
+    const request = anthropicAdapter.buildRequest(params);
+
+    expect(request.endpoint).toBe('https://api.anthropic.com/v1/messages');
+    expect(request.headers).toMatchObject({ 'x-api-key': 'sk-ant-test', 'anthropic-version': '2023-06-01' });
+    expect(request.body).toEqual({
+      model: 'claude-3-7-sonnet-20250219',
+      messages: params.messages,
+      max_tokens: 500,
+      temperature: 0.7,
+      system: 'You are a tutor.'
+    });
+  });
+
+  it('asks for a stream when streaming', () => {
+    expect(anthropicAdapter.buildRequest({ ...params, stream: true }).body).toMatchObject({ stream: true });
+  });
+
+  it('reads the text and usage of a recorded response', () => {
+    const { text, usage } = anthropicAdapter.parseResponse(loadResponseFixture('anthropic'), params.model, testPricing);
+
+    expect(text).toBe('Photosynthesis turns light energy into chemical energy stored in glucose.');
+    expect(usage?.tokens).toEqual({ prompt: 42, completion: 15, total: 57 });
+    expect(usage?.provider).toEqual({ name: 'Anthropic', requestId: 'msg_01XFDUDYJgAACzvnptvVoYEL' });
+    expect(usage?.cost).toEqual({ estimated: (42 * 3 + 15 * 15) / 1e6, currency: 'USD', pricingVersion: 'test' });
+  });
+
+  it('reads text deltas and usage from a recorded stream', async () => {
+    const { deltas, usage } = await replayStreamFixture(anthropicAdapter, params.model);
+
+    expect(deltas).toEqual(['Photosynthesis turns light', ' into chemical energy.']);
+    // Input tokens come with message_start, output tokens with the final message_delta
+    expect(usage?.tokens).toEqual({ prompt: 42, completion: 11, total: 53 });
+    expect(usage?.provider.requestId).toBe('msg_01Qb4jVPdtMbVh9wfiDvZYkr');
+  });
+
+  it('fails on error events', () => {
+    const parser = anthropicAdapter.createStreamParser(params.model, testPricing);
+    const error = { event: 'error', data: '{"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}' };
+
+    expect(() => parser.parseEvent(error)).toThrow(AiProviderError);
+    expect(() => parser.parseEvent(error)).toThrow('Overloaded');
+  });
+});
@@ -0,0 +1,59 @@
+// __tests__/lib/ai/providers/fixtures.js
+// Replays recorded provider responses from __tests__/fixtures/ai against an adapter
+
+import fs from 'fs';
+import path from 'path';
+import { readServerSentEvents } from '@/lib/ai/sse';
+import { PricingCatalog } from '@/lib/ai/pricing';
+
+const FIXTURES_DIR = path.join(__dirname, '../../../fixtures/ai');
+
+// Prices the adapter tests estimate costs with, independent of the shipped pricing
+export const testPricing = new PricingCatalog({
+  version: 'test',
+  currency: 'USD',
+  prices: [
+    { provider: 'anthropic', model: '*', effectiveFrom: '2024-01-01', inputPerMillion: 3, outputPerMillion: 15 },
+    { provider: 'openai', model: 'gpt-4o', effectiveFrom: '2024-01-01', inputPerMillion: 2.5, outputPerMillion: 10 },
+    {
+      provider: 'gemini', model: 'gemini-1.5-pro', effectiveFrom: '2024-01-01', inputPerMillion: 1.25, outputPerMillion: 5,
+      longContext: { thresholdTokens: 128000, inputPerMillion: 2.5, outputPerMillion: 10 }
+    },
+    { provider: 'grok', model: 'grok-3', effectiveFrom: '2024-01-01', inputPerMillion: 3, outputPerMillion: 15 },
+    { provider: 'grok', model: 'grok-3-mini', effectiveFrom: '2024-01-01', inputPerMillion: 0.3, outputPerMillion: 0.5 }
+  ]
+});
+
+/**
+ * The recorded JSON body of a non-streamed response
+ */
+export function loadResponseFixture(provider) {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, provider, 'response.json'), 'utf8'));
+}
+
+/**
+ * Feed a recorded event stream through an adapter's stream parser the way AiService does
+ * 
+ * The recording is delivered in small chunks, so events are split across reads.
+ */
+export async function replayStreamFixture(adapter, model) {
+  const recording = fs.readFileSync(path.join(FIXTURES_DIR, adapter.id, 'stream.txt'));
+  const body = new ReadableStream({
+    start(controller) {
+      for (let offset = 0; offset < recording.length; offset += 64) {
+        controller.enqueue(new Uint8Array(recording.subarray(offset, offset + 64)));
+      }
+      controller.close();
+    }
+  });
+
+  const parser = adapter.createStreamParser(model, testPricing);
+  const deltas = [];
+  for await (const event of readServerSentEvents(body)) {
+    if (event.data === '[DONE]') break;
+    const delta = parser.parseEvent(event);
+    if (delta) deltas.push(delta);
+  }
+
+  return { deltas, text: deltas.join(''), usage: parser.usage() };
+}
@@ -0,0 +1,78 @@
+// __tests__/lib/ai/providers/gemini.test.js
+
+import { geminiAdapter } from '@/lib/ai/providers/gemini';
+import { loadResponseFixture, replayStreamFixture, testPricing } from './fixtures';
+
+const params = {
+  messages: [
+    { role: 'user', content: 'What is photosynthesis?' },
+    { role: 'assistant', content: 'Do you know what chlorophyll does?' },
+    { role: 'user', content: 'It absorbs light.' }
+  ],
+  model: 'gemini-1.5-pro',
+  systemPrompt: 'You are a tutor.',
+  temperature: 0.7,
+  maxTokens: 500,
+  stream: false,
+  apiKey: 'AIza-test'
+};
+
+describe('geminiAdapter', () => {
+  it('converts the conversation to Gemini contents', () => {
+    const request = geminiAdapter.buildRequest(params);
+
+    expect(request.endpoint).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:generateContent');
+    expect(request.headers['x-goog-api-key']).toBe('AIza-test');
+    expect(request.body).toEqual({
+      contents: [
+        { role: 'system', parts: [{ text: 'You are a tutor.' }] },
+        { role: 'user', parts: [{ text: 'What is photosynthesis?' }] },
+        { role: 'model', parts: [{ text: 'Do you know what chlorophyll does?' }] },
+        { role: 'user', parts: [{ text: 'It absorbs light.' }] }
+      ],
+      generationConfig: { maxOutputTokens: 500, temperature: 0.7 }
+    });
+  });
+
+  it('streams server-sent events from streamGenerateContent', () => {
+    expect(geminiAdapter.buildRequest({ ...params, stream: true }).endpoint)
+      .toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:streamGenerateContent?alt=sse');
+  });
+
+  it('reads the text and usage metadata of a recorded response', () => {
+    const { text, usage } = geminiAdapter.parseResponse(loadResponseFixture('gemini'), params.model, testPricing);
+
+    expect(text).toBe('Photosynthesis turns light energy into chemical energy stored in glucose.');
+    expect(usage?.tokens).toEqual({ prompt: 36, completion: 13, total: 49 });
+    // Priced as the model version that answered
+    expect(usage?.model).toBe('gemini-1.5-pro-002');
+    expect(usage?.provider.name).toBe('Google Gemini');
+    expect(usage?.cost.estimated).toBeCloseTo((36 * 1.25 + 13 * 5) / 1e6);
+  });
+
+  it('bills thinking tokens as output', () => {
+    const { usage } = geminiAdapter.parseResponse({
+      candidates: [{ content: { parts: [{ text: '42' }] } }],
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 2, thoughtsTokenCount: 30, totalTokenCount: 42 }
+    }, 'gemini-1.5-pro', testPricing);
+
+    expect(usage?.tokens).toEqual({ prompt: 10, completion: 32, total: 42 });
+  });
+
+  it('charges long-context rates above the threshold', () => {
+    const { usage } = geminiAdapter.parseResponse({
+      candidates: [{ content: { parts: [{ text: 'Summary' }] } }],
+      usageMetadata: { promptTokenCount: 200000, candidatesTokenCount: 1000 }
+    }, 'gemini-1.5-pro', testPricing);
+
+    expect(usage?.cost.estimated).toBeCloseTo((200000 * 2.5 + 1000 * 10) / 1e6);
+  });
+
+  it('reads text deltas and the last usage metadata from a recorded stream', async () => {
+    const { deltas, usage } = await replayStreamFixture(geminiAdapter, params.model);
+
+    expect(deltas).toEqual(['Photosynthesis turns light', ' into chemical energy.']);
+    expect(usage?.tokens).toEqual({ prompt: 36, completion: 9, total: 45 });
+    expect(usage?.cost.estimated).toBeCloseTo((36 * 1.25 + 9 * 5) / 1e6);
+  });
+});
@@ -0,0 +1,62 @@
+// __tests__/lib/ai/providers/grok.test.js
+
+import { grokAdapter } from '@/lib/ai/providers/grok';
+import { getProviderAdapter } from '@/lib/ai/providers';
+import { loadResponseFixture, replayStreamFixture, testPricing } from './fixtures';
+
+const params = {
+  messages: [{ role: 'user', content: 'What is photosynthesis?' }],
+  model: 'grok-3',
+  systemPrompt: 'You are a tutor.',
+  temperature: 0.7,
+  maxTokens: 500,
+  stream: false,
+  apiKey: 'xai-test'
+};
+
+describe('grokAdapter', () => {
+  it('is registered as the grok provider', () => {
+    expect(getProviderAdapter('grok')).toBe(grokAdapter);
+    expect(grokAdapter.defaultModel).toBe('grok-3');
+  });
+
+  it('sends chat completions to the xAI API', () => {
+    const request = grokAdapter.buildRequest(params);
+
+    expect(request.endpoint).toBe('https://api.x.ai/v1/chat/completions');
+    expect(request.headers.Authorization).toBe('Bearer xai-test');
+    expect(request.body).toMatchObject({
+      model: 'grok-3',
+      messages: [{ role: 'system', content: 'You are a tutor.' }, ...params.messages],
+      max_tokens: 500
+    });
+  });
+
+  it('reads the text, usage and cost of a recorded response', () => {
+    const { text, usage } = grokAdapter.parseResponse(loadResponseFixture('grok'), params.model, testPricing);
+
+    expect(text).toBe('Photosynthesis turns light energy into chemical energy stored in glucose.');
+    expect(usage?.tokens).toEqual({ prompt: 40, completion: 14, total: 54 });
+    expect(usage?.model).toBe('grok-3');
+    expect(usage?.provider).toEqual({ name: 'xAI Grok', requestId: '0daf962f-a275-4a3c-839a-047854645532' });
+    expect(usage?.cost.estimated).toBeCloseTo((40 * 3 + 14 * 15) / 1e6);
+  });
+
+  it('prices the mini model at its own rate', () => {
+    const { usage } = grokAdapter.parseResponse({
+      id: 'r1',
+      model: 'grok-3-mini',
+      choices: [{ message: { content: 'Hi' } }],
+      usage: { prompt_tokens: 1000, completion_tokens: 1000 }
+    }, 'grok-3-mini', testPricing);
+
+    expect(usage?.cost.estimated).toBeCloseTo((1000 * 0.3 + 1000 * 0.5) / 1e6);
+  });
+
+  it('reads text deltas and usage from a recorded stream', async () => {
+    const { deltas, usage } = await replayStreamFixture(grokAdapter, params.model);
+
+    expect(deltas).toEqual(['Photosynthesis turns light', ' into chemical energy.']);
+    expect(usage?.tokens).toEqual({ prompt: 40, completion: 9, total: 49 });
+  });
+});
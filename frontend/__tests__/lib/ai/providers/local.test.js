@@ -0,0 +1,59 @@
+// __tests__/lib/ai/providers/local.test.js
+
+import { localAdapter } from '@/lib/ai/providers/local';
+import { AiProviderError } from '@/lib/errors';
+import { loadResponseFixture, replayStreamFixture, testPricing } from './fixtures';
+
+const params = {
+  messages: [{ role: 'user', content: 'What is photosynthesis?' }],
+  model: 'default',
+  systemPrompt: 'You are a tutor.',
+  temperature: 0.7,
+  maxTokens: 500,
+  userContext: { subjectContext: 'Biology' },
+  stream: true
+};
+
+describe('localAdapter', () => {
+  it('sends the request options to the proxy as they are', () => {
+    const request = localAdapter.buildRequest(params);
+
+    expect(request.endpoint).toBe('/api/ai');
+    expect(request.body).toEqual({
+      messages: params.messages,
+      model: 'default',
+      systemPrompt: 'You are a tutor.',
+      temperature: 0.7,
+      maxTokens: 500,
+      userContext: { subjectContext: 'Biology' },
+      stream: true
+    });
+  });
+
+  it('sends the feature the proxy books the spend on', () => {
+    const request = localAdapter.buildRequest({ ...params, feature: 'quiz' });
+
+    expect(request.body).toMatchObject({ feature: 'quiz' });
+  });
+
+  it('passes the usage reported by the proxy through', () => {
+    const { text, usage } = localAdapter.parseResponse(loadResponseFixture('local'), params.model, testPricing);
+
+    expect(text).toBe('Photosynthesis turns light energy into chemical energy stored in glucose.');
+    expect(usage?.provider).toMatchObject({ name: 'Anthropic', id: 'anthropic' });
+    expect(usage?.cost.estimated).toBe(0.000351);
+  });
+
+  it('reads deltas and usage from a recorded proxy stream', async () => {
+    const { text, usage } = await replayStreamFixture(localAdapter, params.model);
+
+    expect(text).toBe('Photosynthesis turns light into chemical energy.');
+    expect(usage?.tokens.total).toBe(53);
+  });
+
+  it('fails when the proxy reports an error mid-stream', () => {
+    const parser = localAdapter.createStreamParser(params.model, testPricing);
+
+    expect(() => parser.parseEvent({ data: '{"error":{"message":"interrupted"}}' })).toThrow(AiProviderError);
+  });
+});
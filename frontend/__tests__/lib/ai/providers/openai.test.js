@@ -0,0 +1,57 @@
+// __tests__/lib/ai/providers/openai.test.js
+
+import { openaiAdapter } from '@/lib/ai/providers/openai';
+import { loadResponseFixture, replayStreamFixture, testPricing } from './fixtures';
+
+const params = {
+  messages: [{ role: 'user', content: 'What is photosynthesis?' }],
+  model: 'gpt-4o',
+  systemPrompt: 'You are a tutor.',
+  temperature: 0.7,
+  maxTokens: 500,
+  stream: false,
+  apiKey: 'sk-test'
+};
+
+describe('openaiAdapter', () => {
+  it('puts the system prompt first in the conversation', () => {
+    const request = openaiAdapter.buildRequest(params);
+
+    expect(request.endpoint).toBe('https://api.openai.com/v1/chat/completions');
+    expect(request.headers.Authorization).toBe('Bearer sk-test');
+    expect(request.body).toEqual({
+      model: 'gpt-4o',
+      messages: [{ role: 'system', content: 'You are a tutor.' }, ...params.messages],
+      max_tokens: 500,
+      temperature: 0.7
+    });
+  });
+
+  it('asks for usage at the end of a stream', () => {
+    expect(openaiAdapter.buildRequest({ ...params, stream: true }).body).toMatchObject({
+      stream: true,
+      stream_options: { include_usage: true }
+    });
+  });
+
+  it('uses a configured endpoint instead of the public API', () => {
+    expect(openaiAdapter.buildRequest({ ...params, baseUrl: 'https://proxy.example/v1/chat' }).endpoint)
+      .toBe('https://proxy.example/v1/chat');
+  });
+
+  it('reads the text and usage of a recorded response', () => {
+    const { text, usage } = openaiAdapter.parseResponse(loadResponseFixture('openai'), params.model, testPricing);
+
+    expect(text).toBe('Photosynthesis turns light energy into chemical energy stored in glucose.');
+    expect(usage?.tokens).toEqual({ prompt: 38, completion: 14, total: 52 });
+    expect(usage?.provider.name).toBe('OpenAI');
+    expect(usage?.cost.estimated).toBeCloseTo((38 * 2.5 + 14 * 10) / 1e6);
+  });
+
+  it('reads text deltas and the final usage chunk from a recorded stream', async () => {
+    const { text, usage } = await replayStreamFixture(openaiAdapter, params.model);
+
+    expect(text).toBe('Photosynthesis turns light into chemical energy.');
+    expect(usage?.tokens).toEqual({ prompt: 38, completion: 9, total: 47 });
+  });
+});
@@ -11,6 +11,7 @@ import { Switch } from '@/components/ui/switch';
 import { Button } from 'components/ui/button';
 import { Loader2 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
+import { AiKeyVault } from 'components/ai/AiKeyVault';
 // Import Select, Slider etc. if adding more controls here
 
 export default function ProfileSettingsPage() {
@@ -105,6 +106,8 @@ export default function ProfileSettingsPage() {
 
                 </CardContent>
             </Card>
+
+            <AiKeyVault />
         </div>
     );
 }
\ No newline at end of file
@@ -0,0 +1,179 @@
+// neuroforge/frontend/app/(app)/usage/page.tsx
+// Purpose: Shows users the tokens and estimated cost of their AI requests per feature, and today's AI budget
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { fetchAiUsage } from 'lib/api/aiUsage';
+import { AiFeature, AiUsageSummary } from 'types/ai-usage';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from 'components/ui/card';
+import { Button } from 'components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Loader2, Gauge } from 'lucide-react';
+
+const FEATURE_NAMES: Record<AiFeature, string> = {
+  tutor: 'AI Tutor',
+  quiz: 'Quiz generation'
+};
+
+const PERIODS = [7, 30, 90];
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+const formatCost = (cost: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 4 }).format(cost);
+
+export default function AiUsagePage() {
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<AiUsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchAiUsage(days).then(result => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setSummary(result.data);
+        setError(null);
+      } else {
+        setError(result.error || 'Could not load your AI usage');
+      }
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [days]);
+
+  const budget = summary?.budget;
+  // Today's spend against the user's own hard budget, if they have one
+  const budgetPercent = budget && budget.budgets.userDailyHardUsd > 0
+    ? Math.min(100, (budget.spent.user / budget.budgets.userDailyHardUsd) * 100)
+    : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold tracking-tight">AI Usage</h1>
+        <div className="flex gap-2">
+          {PERIODS.map(period => (
+            <Button key={period} size="sm" variant={period === days ? 'default' : 'outline'} onClick={() => setDays(period)}>
+              {period} days
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Could not load your AI usage</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && !summary ? (
+        <Loader2 className="h-6 w-6 animate-spin" />
+      ) : summary && budget && (
+        <>
+          {budget.message && (
+            <Alert variant={budget.status === 'hard' ? 'destructive' : 'default'}>
+              <AlertTitle>{budget.status === 'hard' ? 'AI budget used up' : 'Over your soft AI budget'}</AlertTitle>
+              <AlertDescription>{budget.message}</AlertDescription>
+            </Alert>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gauge className="h-5 w-5" />
+                Today&apos;s Budget
+              </CardTitle>
+              <CardDescription>
+                Requests on NeuroForge&apos;s AI keys count against your daily budget; requests on your own keys do not.
+                Budgets reset at {new Date(budget.resetsAt).toLocaleTimeString()}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-sm">
+                {formatCost(budget.spent.user, budget.currency)} spent
+                {budget.budgets.userDailyHardUsd > 0 && ` of ${formatCost(budget.budgets.userDailyHardUsd, budget.currency)}`}
+              </p>
+              {budgetPercent !== null && <Progress value={budgetPercent} />}
+              {budget.budgets.userDailySoftUsd > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Past {formatCost(budget.budgets.userDailySoftUsd, budget.currency)} the tutor answers with faster, cheaper models.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By Feature</CardTitle>
+              <CardDescription>
+                {formatTokens(summary.totals.totalTokens)} tokens and an estimated {formatCost(summary.totals.cost, summary.currency)} from {summary.from} to {summary.to}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 font-medium">Feature</th>
+                    <th className="py-2 text-right font-medium">Requests</th>
+                    <th className="py-2 text-right font-medium">Prompt tokens</th>
+                    <th className="py-2 text-right font-medium">Response tokens</th>
+                    <th className="py-2 text-right font-medium">Estimated cost</th>
+                    <th className="py-2 text-right font-medium">On your keys</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.features.map(usage => (
+                    <tr key={usage.feature} className="border-b last:border-0">
+                      <td className="py-2">{FEATURE_NAMES[usage.feature]}</td>
+                      <td className="py-2 text-right">{formatTokens(usage.requests)}</td>
+                      <td className="py-2 text-right">{formatTokens(usage.promptTokens)}</td>
+                      <td className="py-2 text-right">{formatTokens(usage.completionTokens)}</td>
+                      <td className="py-2 text-right">{formatCost(usage.cost, summary.currency)}</td>
+                      <td className="py-2 text-right">{formatCost(usage.ownKeyCost, summary.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By Day</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {summary.days.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No AI requests in this period.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 font-medium">Day (UTC)</th>
+                      <th className="py-2 text-right font-medium">Requests</th>
+                      <th className="py-2 text-right font-medium">Tokens</th>
+                      <th className="py-2 text-right font-medium">Estimated cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...summary.days].reverse().map(usage => (
+                      <tr key={usage.day} className="border-b last:border-0">
+                        <td className="py-2">{usage.day}</td>
+                        <td className="py-2 text-right">{formatTokens(usage.requests)}</td>
+                        <td className="py-2 text-right">{formatTokens(usage.totalTokens)}</td>
+                        <td className="py-2 text-right">{formatCost(usage.cost, summary.currency)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+// neuroforge/frontend/app/api/ai/route.ts
+// Purpose: Server-side AI proxy; holds the provider keys so they never reach the browser
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { Session } from 'next-auth';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from 'lib/auth';
+import { AiMessage, AiRequestOptions, AiStreamEvent, AiUserContext } from 'lib/ai/aiService';
+import { serverAiService } from 'lib/ai/serverAiService';
+import { refreshPricing } from 'lib/ai/pricingSource';
+import { AiQuota } from 'lib/ai/quota';
+import { fetchUserApiKeys } from 'lib/ai/userApiKeys';
+import { checkAiBudget, recordAiUsage } from 'lib/ai/aiBudget';
+import { AiProviderError } from 'lib/errors';
+import { AIServiceUsage } from 'types/api-usage';
+import { AiFeature } from 'types/ai-usage';
+
+const intFromEnv = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+};
+
+const quota = new AiQuota({
+  requestsPerMinute: intFromEnv('AI_PROXY_REQUESTS_PER_MINUTE', 20),
+  tokensPerDay: intFromEnv('AI_PROXY_TOKENS_PER_DAY', 200000)
+});
+
+// Upper bounds on what a client may ask for
+const MAX_TOKENS = intFromEnv('AI_PROXY_MAX_TOKENS', 2000);
+const MAX_MESSAGES = 100;
+const MAX_MESSAGE_LENGTH = 20000;
+// Models clients may pick; others fall back to the provider's configured model
+const ALLOWED_MODELS = (process.env.AI_PROXY_ALLOWED_MODELS || '').split(',').map(model => model.trim()).filter(Boolean);
+// Features requests can be booked on in the spend ledger
+const FEATURES: AiFeature[] = ['tutor', 'quiz'];
+
+/**
+ * The request body the proxy accepts; the same shape `AiService` sends to its `local` provider
+ */
+interface AiProxyRequest {
+  messages: AiMessage[];
+  model?: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  userContext?: AiUserContext;
+  feature?: AiFeature; // Defaults to 'tutor'
+  stream?: boolean;
+}
+
+const errorResponse = (message: string, status: number, headers?: HeadersInit) =>
+  NextResponse.json({ error: { message } }, { status, headers });
+
+/**
+ * Validate the request body, returning an error message for invalid ones
+ */
+const validate = (body: unknown): AiProxyRequest | string => {
+  if (!body || typeof body !== 'object') return 'Request body must be a JSON object';
+  const request = body as AiProxyRequest;
+
+  if (!Array.isArray(request.messages) || request.messages.length === 0 || request.messages.length > MAX_MESSAGES) {
+    return `messages must be an array of 1 to ${MAX_MESSAGES} messages`;
+  }
+  const invalidMessage = request.messages.some(message =>
+    !message ||
+    (message.role !== 'user' && message.role !== 'assistant') ||
+    typeof message.content !== 'string' ||
+    message.content.length > MAX_MESSAGE_LENGTH
+  );
+  if (invalidMessage) {
+    return `Each message needs a user or assistant role and content of at most ${MAX_MESSAGE_LENGTH} characters`;
+  }
+  if (request.temperature !== undefined && (typeof request.temperature !== 'number' || request.temperature < 0 || request.temperature > 1)) {
+    return 'temperature must be a number between 0 and 1';
+  }
+  if (request.maxTokens !== undefined && (!Number.isInteger(request.maxTokens) || request.maxTokens < 1)) {
+    return 'maxTokens must be a positive integer';
+  }
+  if (request.systemPrompt !== undefined && typeof request.systemPrompt !== 'string') {
+    return 'systemPrompt must be a string';
+  }
+  if (request.feature !== undefined && !FEATURES.includes(request.feature)) {
+    return `feature must be one of ${FEATURES.join(', ')}`;
+  }
+  return request;
+};
+
+/**
+ * Proxy a conversation to the configured AI providers
+ *
+ * Answers with `{ response, usage }`, or with server-sent events when `stream` is
+ * set: `{ delta }` events while the response is generated, one `{ usage }` event,
+ * then `[DONE]`. Errors are `{ error: { message } }`.
+ */
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions) as Session | null;
+  const user = session?.user as { id?: string | null; email?: string | null } | undefined;
+  const userId = user?.id || user?.email;
+  if (!userId) {
+    return errorResponse('Not authorized to use the AI tutor', 401);
+  }
+
+  const body = validate(await request.json().catch(() => null));
+  if (typeof body === 'string') {
+    return errorResponse(body, 400);
+  }
+
+  const quotaCheck = quota.checkRequest(userId);
+  if (!quotaCheck.allowed) {
+    return errorResponse(quotaCheck.reason, 429, { 'Retry-After': String(Math.ceil(quotaCheck.retryAfterMs / 1000)) });
+  }
+
+  const budget = user?.email ? await checkAiBudget(user.email) : undefined;
+  const options: AiRequestOptions = {
+    model: body.model && ALLOWED_MODELS.includes(body.model) ? body.model : undefined,
+    systemPrompt: body.systemPrompt,
+    temperature: body.temperature,
+    maxTokens: Math.min(body.maxTokens ?? MAX_TOKENS, MAX_TOKENS),
+    userContext: body.userContext,
+    // Keys the user stored in their profile take precedence over the platform's
+    apiKeys: user?.email ? await fetchUserApiKeys(user.email) : undefined,
+    economy: budget?.status === 'soft',
+    // Stop the provider request when the browser goes away
+    signal: request.signal
+  };
+
+  // At a hard budget only the user's own keys can serve the request; without any it is refused.
+  // Past a soft budget it goes to cheaper models
+  if (budget?.status === 'hard') {
+    if (serverAiService.userKeyProviders(options).length === 0) {
+      const retryAfterMs = Math.max(Date.parse(budget.resetsAt) - Date.now(), 0);
+      return errorResponse(budget.message || 'Daily AI budget reached', 429, { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) });
+    }
+    options.userKeysOnly = true;
+  }
+
+  // Tokens billed to the user's own key do not count against the platform quota; the ledger records both
+  const recordTokens = (usage?: AIServiceUsage) => {
+    if (!usage) return;
+    if (!usage.provider.userKey) {
+      quota.recordTokens(userId, usage.tokens.total);
+    }
+    // Not awaited, so recording does not hold up the response
+    if (user?.email) {
+      recordAiUsage(user.email, body.feature ?? 'tutor', usage);
+    }
+  };
+
+  await refreshPricing();
+
+  const unavailable = (error: unknown) => errorResponse(
+    'The AI tutor is unavailable, please try again later',
+    error instanceof AiProviderError && error.statusCode === 429 ? 429 : 502
+  );
+
+  if (!body.stream) {
+    try {
+      const result = await serverAiService.sendMessage(body.messages, options);
+      recordTokens(result.usage);
+      return NextResponse.json({ response: result.response, usage: result.usage });
+    } catch (error) {
+      return unavailable(error);
+    }
+  }
+
+  // Wait for the first event, so a failure of every provider is still reported with an error status
+  const events = serverAiService.streamMessage(body.messages, options);
+  let first: IteratorResult<AiStreamEvent>;
+  try {
+    first = await events.next();
+  } catch (error) {
+    return unavailable(error);
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+
+      try {
+        for (let next = first; !next.done; next = await events.next()) {
+          const event = next.value;
+          if (event.type === 'delta') {
+            send({ delta: event.text });
+          } else {
+            recordTokens(event.response.usage);
+            send({ usage: event.response.usage });
+          }
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      } catch (error) {
+        // The browser went away, or the provider broke off the response
+        if (request.signal.aborted) {
+          controller.error(error);
+        } else {
+          send({ error: { message: 'The AI tutor response was interrupted, please try again' } });
+          controller.close();
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,167 @@
+// neuroforge/frontend/components/ai/AiKeyVault.tsx
+// Purpose: Profile card for adding, testing and revoking the AI provider keys users bring themselves
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { fetchAiKeys, saveAiKey, testAiKey, revokeAiKey } from 'lib/api/aiKeys';
+import { AiKeyProvider, AiKeySummary } from 'types/ai-keys';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from 'components/ui/card';
+import { Label } from 'components/ui/label';
+import { Input } from 'components/ui/input';
+import { Button } from 'components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { KeyRound, Loader2, ShieldCheck, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const PROVIDERS: { id: AiKeyProvider; name: string; placeholder: string }[] = [
+  { id: 'anthropic', name: 'Anthropic', placeholder: 'sk-ant-...' },
+  { id: 'openai', name: 'OpenAI', placeholder: 'sk-...' },
+  { id: 'gemini', name: 'Google Gemini', placeholder: 'AIza...' },
+  { id: 'grok', name: 'xAI Grok', placeholder: 'xai-...' }
+];
+
+export function AiKeyVault() {
+  const [keys, setKeys] = useState<AiKeySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Provider with a request in flight
+  const [busyProvider, setBusyProvider] = useState<AiKeyProvider | null>(null);
+  // Keys being typed in, by provider
+  const [drafts, setDrafts] = useState<Partial<Record<AiKeyProvider, string>>>({});
+
+  const loadKeys = useCallback(async () => {
+    const result = await fetchAiKeys();
+    if (result.success) {
+      setKeys(result.data || []);
+    } else {
+      toast.error('Could not load your API keys', { description: result.error });
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const replaceKey = (summary: AiKeySummary) => {
+    setKeys(prev => [...prev.filter(key => key.provider !== summary.provider), summary]);
+  };
+
+  const handleSave = async (provider: AiKeyProvider, name: string) => {
+    const apiKey = drafts[provider]?.trim();
+    if (!apiKey) return;
+
+    setBusyProvider(provider);
+    const result = await saveAiKey(provider, apiKey);
+    setBusyProvider(null);
+
+    if (result.success && result.data) {
+      replaceKey(result.data);
+      setDrafts(prev => ({ ...prev, [provider]: '' }));
+      toast.success(`${name} key saved`, { description: 'The AI tutor now uses your key for this provider.' });
+    } else {
+      toast.error(`${name} key not saved`, { description: result.error });
+    }
+  };
+
+  const handleTest = async (provider: AiKeyProvider, name: string) => {
+    setBusyProvider(provider);
+    const result = await testAiKey(provider);
+    setBusyProvider(null);
+
+    if (result.success && result.data) {
+      replaceKey(result.data.key);
+      const notify = result.data.valid ? toast.success : toast.error;
+      notify(result.data.valid ? `${name} key works` : `${name} key rejected`, { description: result.data.message });
+    } else {
+      toast.error(`Could not test the ${name} key`, { description: result.error });
+    }
+  };
+
+  const handleRevoke = async (provider: AiKeyProvider, name: string) => {
+    setBusyProvider(provider);
+    const result = await revokeAiKey(provider);
+    setBusyProvider(null);
+
+    if (result.success) {
+      setKeys(prev => prev.filter(key => key.provider !== provider));
+      toast.success(`${name} key revoked`, { description: 'The AI tutor is back on the NeuroForge keys for this provider.' });
+    } else {
+      toast.error(`Could not revoke the ${name} key`, { description: result.error });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          AI Provider Keys
+        </CardTitle>
+        <CardDescription>
+          Use your own Anthropic, OpenAI, Gemini or Grok account for the AI tutor. Keys are checked with the provider, stored encrypted, and never shown again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          PROVIDERS.map(({ id, name, placeholder }) => {
+            const stored = keys.find(key => key.provider === id);
+            const busy = busyProvider === id;
+
+            return (
+              <div key={id} className="space-y-3 rounded-lg border p-4">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`ai-key-${id}`} className="text-base">{name}</Label>
+                  {stored ? (
+                    <Badge variant="outline" className="font-mono text-xs">
+                      ••••{stored.last4}
+                    </Badge>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Using NeuroForge key</span>
+                  )}
+                </div>
+
+                {stored?.lastValidatedAt && (
+                  <p className="text-sm text-muted-foreground">
+                    Last verified {new Date(stored.lastValidatedAt).toLocaleString()}
+                  </p>
+                )}
+
+                <div className="flex gap-2">
+                  <Input
+                    id={`ai-key-${id}`}
+                    type="password"
+                    autoComplete="off"
+                    placeholder={stored ? 'Paste a new key to replace it' : placeholder}
+                    value={drafts[id] || ''}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [id]: e.target.value }))}
+                    disabled={busy}
+                    className="flex-1"
+                  />
+                  <Button onClick={() => handleSave(id, name)} disabled={busy || !drafts[id]?.trim()}>
+                    {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+                  </Button>
+                </div>
+
+                {stored && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleTest(id, name)} disabled={busy}>
+                      <ShieldCheck className="mr-2 h-4 w-4" />
+                      Test
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleRevoke(id, name)} disabled={busy}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
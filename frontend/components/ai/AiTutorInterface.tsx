@@ -18,6 +18,7 @@ import {
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from 'components/ui/card';
 import { 
   Send, 
+  Square, 
   RefreshCw, 
   Trash2, 
   Brain, 
@@ -56,11 +57,13 @@ export function AiTutorInterface({
   const {
     initialized,
     loading,
+    streaming,
     error,
     messages,
     teachingStyle,
     usageStats,
     sendMessage,
+    stopResponse,
     changeTeachingStyle,
     clearConversation
   } = useAiTutor(aiTutorOptions);
@@ -88,8 +91,9 @@ export function AiTutorInterface({
     e.preventDefault();
     if (!userInput.trim() || loading) return;
 
-    await sendMessage(userInput);
+    const message = userInput;
     setUserInput('');
+    await sendMessage(message);
   };
   
   const getTeachingStyleIcon = (style: TeachingStyle) => {
@@ -185,7 +189,8 @@ export function AiTutorInterface({
                 ))
               )}
               
-              {loading && (
+              {/* Placeholder until the first token arrives; the response then renders as it streams */}
+              {loading && !streaming && (
                 <div className="flex items-start">
                   <div className="max-w-[85%] rounded-lg px-3 py-2 bg-muted">
                     <Skeleton className="h-4 w-[200px] mb-2" />
@@ -275,17 +280,29 @@ export function AiTutorInterface({
                 disabled={loading || !initialized}
                 className="flex-1"
               />
-              <Button 
-                type="submit" 
-                size="icon" 
-                disabled={!userInput.trim() || loading || !initialized}
-              >
-                {loading ? (
-                  <RefreshCw className="h-4 w-4 animate-spin" />
-                ) : (
-                  <Send className="h-4 w-4" />
-                )}
-              </Button>
+              {streaming ? (
+                <Button 
+                  type="button" 
+                  size="icon" 
+                  variant="secondary"
+                  onClick={stopResponse}
+                  aria-label="Stop response"
+                >
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button 
+                  type="submit" 
+                  size="icon" 
+                  disabled={!userInput.trim() || loading || !initialized}
+                >
+                  {loading ? (
+                    <RefreshCw className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
             </form>
           </CardFooter>
         </>
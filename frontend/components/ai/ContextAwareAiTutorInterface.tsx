@@ -18,6 +18,7 @@ import {
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from 'components/ui/card';
 import { 
   Send, 
+  Square, 
   RefreshCw, 
   Trash2, 
   Brain, 
@@ -61,12 +62,14 @@ export function ContextAwareAiTutorInterface({
   const {
     initialized,
     loading,
+    streaming,
     error,
     messages,
     teachingStyle,
     context,
     usageStats,
     sendMessage,
+    stopResponse,
     changeTeachingStyle,
     clearConversation,
     refreshContext
@@ -97,8 +100,9 @@ export function ContextAwareAiTutorInterface({
     e.preventDefault();
     if (!userInput.trim() || loading) return;
     
-    await sendMessage(userInput);
+    const message = userInput;
     setUserInput('');
+    await sendMessage(message);
   };
   
   const getTeachingStyleIcon = (style: TeachingStyle) => {
@@ -255,7 +259,8 @@ export function ContextAwareAiTutorInterface({
                 ))
               )}
               
-              {loading && (
+              {/* Placeholder until the first token arrives; the response then renders as it streams */}
+              {loading && !streaming && (
                 <div className="flex items-start">
                   <div className="max-w-[85%] rounded-lg px-3 py-2 bg-muted">
                     <Skeleton className="h-4 w-[200px] mb-2" />
@@ -360,17 +365,29 @@ export function ContextAwareAiTutorInterface({
                 disabled={loading || !initialized}
                 className="flex-1"
               />
-              <Button 
-                type="submit" 
-                size="icon" 
-                disabled={!userInput.trim() || loading || !initialized}
-              >
-                {loading ? (
-                  <RefreshCw className="h-4 w-4 animate-spin" />
-                ) : (
-                  <Send className="h-4 w-4" />
-                )}
-              </Button>
+              {streaming ? (
+                <Button 
+                  type="button" 
+                  size="icon" 
+                  variant="secondary"
+                  onClick={stopResponse}
+                  aria-label="Stop response"
+                >
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button 
+                  type="submit" 
+                  size="icon" 
+                  disabled={!userInput.trim() || loading || !initialized}
+                >
+                  {loading ? (
+                    <RefreshCw className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
             </form>
           </CardFooter>
         </>
@@ -7,7 +7,7 @@ import { useSession, signOut } from "next-auth/react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "components/ui/button";
 import { ThemeToggle } from "components/common/ThemeToggle";
-import { LayoutGrid, LogOut, Settings, User as UserIcon } from "lucide-react"; // Icons
+import { Gauge, LayoutGrid, LogOut, Settings, User as UserIcon } from "lucide-react"; // Icons
 import {
     DropdownMenu,
     DropdownMenuContent,
@@ -89,6 +89,9 @@ export function Navbar() {
                             <DropdownMenuItem asChild className="cursor-pointer">
                                 <Link href="/profile"><UserIcon className="mr-2 h-4 w-4" /> Profile</Link>
                             </DropdownMenuItem>
+                            <DropdownMenuItem asChild className="cursor-pointer">
+                                <Link href="/usage"><Gauge className="mr-2 h-4 w-4" /> AI Usage</Link>
+                            </DropdownMenuItem>
                             <DropdownMenuItem asChild className="cursor-pointer">
                                 <Link href="/settings"><Settings className="mr-2 h-4 w-4" /> Settings</Link>
                             </DropdownMenuItem>
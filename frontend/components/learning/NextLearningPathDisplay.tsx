@@ -1,7 +1,7 @@
 // components/learning/NextLearningPathDisplay.tsx
 "use client";
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import useSWR from 'swr';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,9 +9,10 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { Brain, BookOpen, Zap, ArrowRight, BrainCircuit, Play, Lightbulb } from 'lucide-react';
+import { Brain, BookOpen, Zap, ArrowRight, BrainCircuit, Play, Lightbulb, ChevronDown, ChevronUp, GitBranch } from 'lucide-react';
 
-import { fetchNextPath } from '@/lib/api/learningPath';
+import { fetchLearningPath, fetchNextPath } from '@/lib/api/learningPath';
+import { SubjectExplanation } from '@/types';
 
 interface NextPathData {
   subjectId: string;
@@ -29,13 +30,22 @@ interface NextPathData {
  * 1. Fetches data from /api/learning/path/next
  * 2. Displays the recommended next lesson with a rationale
  * 3. Suggests an optimal audio preset based on content type
- * 4. Provides a "Continue Learning" button
+ * 4. Offers a "Why this next?" drill-down into the subject's score breakdown
+ * 5. Provides a "Continue Learning" button
  */
 export default function NextLearningPathDisplay() {
   const router = useRouter();
   
   // Fetch next learning path data
   const { data, error, isLoading, mutate } = useSWR<{success: boolean; data: NextPathData}>('/api/learning/path/next', fetchNextPath);
+  
+  // Fetch the full learning path for the score breakdown behind the recommendation
+  const { data: learningPath } = useSWR('/api/learning-path', () => fetchLearningPath());
+  const [showExplanation, setShowExplanation] = useState(false);
+  
+  const explanation = learningPath?.data?.explanations?.find(
+    (item) => item.subjectId === data?.data?.subjectId
+  );
 
   // Helper function to get a color for the audio preset badge
   const getPresetColor = (preset?: string) => {
@@ -184,6 +194,22 @@ export default function NextLearningPathDisplay() {
             <p className="text-sm text-muted-foreground">{rationale}</p>
           </div>
           
+          {/* Why this next drill-down */}
+          {explanation && (
+            <div className="rounded-md border border-zinc-800">
+              <button
+                type="button"
+                className="flex w-full items-center justify-between p-3 text-sm font-medium"
+                onClick={() => setShowExplanation(!showExplanation)}
+                aria-expanded={showExplanation}
+              >
+                <span>Why this next?</span>
+                {showExplanation ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              </button>
+              {showExplanation && <ExplanationBreakdown explanation={explanation} />}
+            </div>
+          )}
+          
           {/* Optimization hint */}
           {recommendedAudioPreset && (
             <div className="mt-2 p-3 rounded-md border border-blue-800/30 bg-blue-900/10">
@@ -212,4 +238,66 @@ export default function NextLearningPathDisplay() {
       </CardFooter>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * ExplanationBreakdown - Shows how a subject's priority score and position were determined
+ */
+function ExplanationBreakdown({ explanation }: { explanation: SubjectExplanation }) {
+  const { position, baseScore, adjustments, finalScore, pinned, remediation, masteryGaps, prerequisites, dependents } = explanation;
+  
+  return (
+    <div className="space-y-3 border-t border-zinc-800 p-3 text-sm">
+      <p className="text-muted-foreground">
+        Ranked #{position} in your learning path{pinned && ' - you placed this subject here yourself'}.
+        {remediation && ' Revisit it to build the foundation the next subjects need.'}
+      </p>
+      
+      {/* Score breakdown */}
+      <ul className="space-y-2">
+        <li className="flex items-center justify-between">
+          <span className="text-muted-foreground">Base score</span>
+          <span className="font-medium">{baseScore}</span>
+        </li>
+        {adjustments.map((adjustment) => (
+          <li key={adjustment.factor} className="flex items-center justify-between gap-4">
+            <span className="text-muted-foreground">{adjustment.reason}</span>
+            <Badge className={adjustment.delta > 0 ? 'bg-emerald-600 hover:bg-emerald-600' : 'bg-red-600 hover:bg-red-600'}>
+              {adjustment.delta > 0 ? `+${adjustment.delta}` : adjustment.delta}
+            </Badge>
+          </li>
+        ))}
+        {adjustments.length === 0 && (
+          <li className="text-muted-foreground">No personal adjustments - ranked by curriculum order.</li>
+        )}
+        <li className="flex items-center justify-between border-t border-zinc-800 pt-2">
+          <span className="font-medium">Priority score</span>
+          <span className="font-medium">{finalScore}</span>
+        </li>
+      </ul>
+      
+      {/* Dependency constraints */}
+      {(prerequisites.length > 0 || dependents.length > 0) && (
+        <div className="flex gap-2">
+          <GitBranch className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+          <p className="text-muted-foreground">
+            {prerequisites.length > 0 && `Comes after ${prerequisites.length} prerequisite subject${prerequisites.length === 1 ? '' : 's'} in your path. `}
+            {dependents.length > 0 && `Unlocks ${dependents.length} later subject${dependents.length === 1 ? '' : 's'}.`}
+          </p>
+        </div>
+      )}
+      
+      {/* Prerequisites not yet mastered to the required level */}
+      {masteryGaps.length > 0 && (
+        <ul className="space-y-1 text-muted-foreground">
+          {masteryGaps.map((gap) => (
+            <li key={gap.prerequisiteId}>
+              Needs {gap.requiredMastery}% in a prerequisite first
+              {gap.currentScore === null ? ' (not attempted yet)' : ` (you scored ${gap.currentScore}%)`}.
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
-import { aiService, AiMessage, TeachingStyle, AiRequestOptions } from 'lib/ai/aiService';
+import { aiService, AiMessage, TeachingStyle, AiRequestOptions, AiResponse } from 'lib/ai/aiService';
 import { useToast } from '@/components/ui/use-toast';
 
 // Hook to access the audio state from our audio enhancement system
@@ -25,7 +25,10 @@ export function useAiTutor(options: AiTutorOptions = {}) {
   const [initialized, setInitialized] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // True while response text is arriving; loading without streaming means waiting for the first token
+  const [streaming, setStreaming] = useState(false);
   const [messages, setMessages] = useState<AiMessage[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [teachingStyle, setTeachingStyle] = useState<TeachingStyle>(
     options.initialTeachingStyle || 'explanatory'
   );
@@ -42,6 +45,9 @@ export function useAiTutor(options: AiTutorOptions = {}) {
     estimatedCost: 0
   });
   
+  // Stop a response that is still streaming when the tutor unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+  
   // Initialize the AI service
   useEffect(() => {
     if (!initialized && (options.autoInitialize !== false)) {
@@ -103,6 +109,10 @@ export function useAiTutor(options: AiTutorOptions = {}) {
       return;
     }
     
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let assistantMessage: AiMessage = { role: 'assistant', content: '' };
+    
     try {
       setLoading(true);
       setError(null);
@@ -133,33 +143,47 @@ export function useAiTutor(options: AiTutorOptions = {}) {
           subjectContext: options.subjectContext,
           lessonContext: options.lessonContext,
           neuralState
-        }
+        },
+        signal: abortController.signal
       };
       
       // Get all previous messages except system prompts
       const messageHistory = messages.filter(m => m.role !== 'system');
       
-      // Send to AI service
-      const result = await aiService.sendMessage([...messageHistory, userMessage], aiOptions);
-      
-      // Add AI response to messages
-      const assistantMessage: AiMessage = { role: 'assistant', content: result.response };
-      setMessages(prev => [...prev, assistantMessage]);
+      // Stream from the AI service, growing the AI response as tokens arrive
+      let result: AiResponse | undefined;
+      for await (const event of aiService.streamMessage([...messageHistory, userMessage], aiOptions)) {
+        if (event.type === 'done') {
+          result = event.response;
+          continue;
+        }
+        
+        const isFirstDelta = assistantMessage.content === '';
+        assistantMessage = { role: 'assistant', content: assistantMessage.content + event.text };
+        const reply = assistantMessage;
+        setMessages(prev => isFirstDelta ? [...prev, reply] : [...prev.slice(0, -1), reply]);
+        setStreaming(true);
+      }
       
       // Update usage stats if available
-      if (result.usage) {
+      if (result?.usage) {
         // Update usage stats based on provider's format
         // This is a simplified example
-        const newTokens = (result.usage.total_tokens || result.usage.totalTokens || 0);
+        const newTokens = result.usage.tokens.total;
+        const newCost = result.usage.cost.estimated;
         setUsageStats(prev => ({
           tokensUsed: prev.tokensUsed + newTokens,
           messagesExchanged: prev.messagesExchanged + 1,
-          estimatedCost: prev.estimatedCost + (newTokens / 1000) * 0.002 // Rough estimate
+          estimatedCost: prev.estimatedCost + newCost
         }));
       }
       
       return assistantMessage;
     } catch (err) {
+      // Stopped by the user; keep the part of the response that already arrived
+      if (abortController.signal.aborted) {
+        return assistantMessage.content ? assistantMessage : null;
+      }
       console.error('Error sending message to AI tutor:', err);
       setError('Failed to get AI response: ' + (err instanceof Error ? err.message : String(err)));
       toast({
@@ -169,10 +193,19 @@ export function useAiTutor(options: AiTutorOptions = {}) {
       });
       return null;
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setStreaming(false);
       setLoading(false);
     }
   }, [initialized, messages, teachingStyle, options.initialSystemPrompt, options.subjectContext, options.lessonContext, isPlaying, currentPreset, session, toast]);
   
+  // Stop the response that is streaming in
+  const stopResponse = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+  
   // Change the teaching style
   const changeTeachingStyle = useCallback((newStyle: TeachingStyle) => {
     setTeachingStyle(newStyle);
@@ -207,11 +240,13 @@ export function useAiTutor(options: AiTutorOptions = {}) {
   return {
     initialized,
     loading,
+    streaming,
     error,
     messages,
     teachingStyle,
     usageStats,
     sendMessage,
+    stopResponse,
     changeTeachingStyle,
     clearConversation,
     initializeAi
@@ -1,9 +1,9 @@
 // neuroforge/frontend/hooks/useContextAwareAiTutor.ts
 // Purpose: Enhanced AI tutor hook with contextual awareness
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useSession } from 'next-auth/react';
-import { AiMessage, TeachingStyle } from 'lib/ai/aiService';
+import { AiMessage, AiResponse, TeachingStyle } from 'lib/ai/aiService';
 import { contextAwareAi, CognitiveContext } from 'lib/ai/contextAwareAi';
 import { useBinauralBeats } from 'hooks/useBinauralBeats';
 import { useToast } from '@/components/ui/use-toast';
@@ -21,7 +21,10 @@ export function useContextAwareAiTutor(options: ContextAwareAiTutorOptions = {})
   const [initialized, setInitialized] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // True while response text is arriving; loading without streaming means waiting for the first token
+  const [streaming, setStreaming] = useState(false);
   const [messages, setMessages] = useState<AiMessage[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [teachingStyle, setTeachingStyle] = useState<TeachingStyle>(
     options.initialTeachingStyle || 'explanatory'
   );
@@ -37,6 +40,9 @@ export function useContextAwareAiTutor(options: ContextAwareAiTutorOptions = {})
     estimatedCost: 0
   });
   
+  // Stop a response that is still streaming when the tutor unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+  
   // Initialize AI context when component mounts
   useEffect(() => {
     if (!initialized && (options.autoInitialize !== false) && session?.user?.id) {
@@ -139,6 +145,10 @@ export function useContextAwareAiTutor(options: ContextAwareAiTutorOptions = {})
       return;
     }
     
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let assistantMessage: AiMessage = { role: 'assistant', content: '' };
+    
     try {
       setLoading(true);
       setError(null);
@@ -153,28 +163,41 @@ export function useContextAwareAiTutor(options: ContextAwareAiTutorOptions = {})
       // Get all previous messages except system prompts
       const messageHistory = messages.filter(m => m.role !== 'system');
       
-      // Send to context-aware AI
-      const result = await contextAwareAi.sendContextAwareMessage(
+      // Stream from the context-aware AI, growing the AI response as tokens arrive
+      let result: AiResponse | undefined;
+      for await (const event of contextAwareAi.streamContextAwareMessage(
         [...messageHistory, userMessage], 
-        { teachingStyle }
-      );
-      
-      // Add AI response to messages
-      const assistantMessage: AiMessage = { role: 'assistant', content: result.response };
-      setMessages(prev => [...prev, assistantMessage]);
+        { teachingStyle, signal: abortController.signal }
+      )) {
+        if (event.type === 'done') {
+          result = event.response;
+          continue;
+        }
+        
+        const isFirstDelta = assistantMessage.content === '';
+        assistantMessage = { role: 'assistant', content: assistantMessage.content + event.text };
+        const reply = assistantMessage;
+        setMessages(prev => isFirstDelta ? [...prev, reply] : [...prev.slice(0, -1), reply]);
+        setStreaming(true);
+      }
       
       // Update usage stats if available
-      if (result.usage) {
-        const newTokens = (result.usage.total_tokens || result.usage.totalTokens || 0);
+      if (result?.usage) {
+        const newTokens = result.usage.tokens.total;
+        const newCost = result.usage.cost.estimated;
         setUsageStats(prev => ({
           tokensUsed: prev.tokensUsed + newTokens,
           messagesExchanged: prev.messagesExchanged + 1,
-          estimatedCost: prev.estimatedCost + (newTokens / 1000) * 0.002 // Rough estimate
+          estimatedCost: prev.estimatedCost + newCost
         }));
       }
       
       return assistantMessage;
     } catch (err) {
+      // Stopped by the user; keep the part of the response that already arrived
+      if (abortController.signal.aborted) {
+        return assistantMessage.content ? assistantMessage : null;
+      }
       console.error('Error sending message to context-aware AI tutor:', err);
       setError('Failed to get AI response: ' + (err instanceof Error ? err.message : String(err)));
       toast({
@@ -184,10 +207,19 @@ export function useContextAwareAiTutor(options: ContextAwareAiTutorOptions = {})
       });
       return null;
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setStreaming(false);
       setLoading(false);
     }
   }, [initialized, messages, teachingStyle, session?.user, toast]);
   
+  // Stop the response that is streaming in
+  const stopResponse = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+  
   // Change the teaching style
   const changeTeachingStyle = useCallback((newStyle: TeachingStyle) => {
     setTeachingStyle(newStyle);
@@ -253,12 +285,14 @@ export function useContextAwareAiTutor(options: ContextAwareAiTutorOptions = {})
   return {
     initialized,
     loading,
+    streaming,
     error,
     messages,
     teachingStyle,
     context,
     usageStats,
     sendMessage,
+    stopResponse,
     changeTeachingStyle,
     clearConversation,
     refreshContext,
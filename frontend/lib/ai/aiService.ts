@@ -2,6 +2,12 @@
 // Purpose: Core AI service for Neural AI interactions
 
 import { ApiResponse, AIServiceUsage } from 'types/api-usage';
+import { AiFeature } from 'types/ai-usage';
+import { readServerSentEvents } from 'lib/ai/sse';
+import { CircuitBreaker, CircuitBreakerOptions } from 'lib/ai/circuitBreaker';
+import { getProviderAdapter, PROVIDER_ADAPTERS, ProviderRequest } from 'lib/ai/providers';
+import { defaultPricingCatalog, PricingCatalog } from 'lib/ai/pricing';
+import { AiProviderError } from 'lib/errors';
 
 /**
  * Message types for AI interactions
@@ -52,7 +58,12 @@ export interface AiRequestOptions {
   temperature?: number; // 0-1, lower is more deterministic
   maxTokens?: number; // Maximum response length
   userContext?: AiUserContext; // Additional context
+  feature?: AiFeature; // What the request is for; the /api/ai proxy books its spend on this feature ('tutor' if unset)
   trackUsage?: boolean; // Whether to track token usage
+  signal?: AbortSignal; // Cancels the request when aborted
+  apiKeys?: Partial<Record<AiProvider, string>>; // The user's own provider keys, used instead of the configured ones
+  economy?: boolean; // Use the providers' cheaper models, e.g. for users over their soft AI budget
+  userKeysOnly?: boolean; // Only use providers the user brought their own key for, e.g. once the platform's AI budget is used up
 }
 
 /**
@@ -62,6 +73,36 @@ export interface AiResponse extends ApiResponse<string> {
   usage?: AIServiceUsage;
 }
 
+/**
+ * Event from a streamed AI response
+ */
+export type AiStreamEvent =
+  | { type: 'delta'; text: string } // Text generated since the previous event
+  | { type: 'done'; response: AiResponse }; // The complete response, after the last delta
+
+/**
+ * Providers with an adapter in `lib/ai/providers`
+ */
+export type AiProvider = 'anthropic' | 'openai' | 'gemini' | 'grok' | 'local';
+
+/**
+ * Connection settings for one provider
+ */
+export interface AiProviderSettings {
+  model?: string; // Model to use when this provider answers
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+/**
+ * Retry settings for rate-limited (429) and failed (5xx) provider requests
+ */
+export interface AiRetryOptions {
+  maxAttempts: number; // Attempts per provider, including the first
+  baseDelayMs: number; // Cap of the first backoff; doubled after every attempt
+  maxDelayMs: number;
+}
+
 /**
  * AI message handler configuration
  */
@@ -71,53 +112,62 @@ export interface AiServiceConfig {
   defaultTemperature: number;
   defaultMaxTokens: number;
   apiKey?: string;
-  provider: 'anthropic' | 'openai' | 'gemini' | 'local';
+  provider: AiProvider;
   baseUrl?: string;
+  fallbackProviders?: AiProvider[]; // Tried in order when the provider fails or its circuit is open
+  providerSettings?: Partial<Record<AiProvider, AiProviderSettings>>;
+  retry?: Partial<AiRetryOptions>;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  pricing?: PricingCatalog; // Prices for cost estimates; defaults to the pricing shipped with the app
 }
 
-/**
- * Request body types for different AI providers
- */
-interface AnthropicRequestBody {
-  model: string;
-  messages: AiMessage[];
-  max_tokens: number;
-  temperature: number;
-  system: string;
-}
-
-interface OpenAIRequestBody {
-  model: string;
-  messages: AiMessage[];
-  max_tokens: number;
-  temperature: number;
-}
+// Models used by providers further down the fallback chain when none is configured
+export const DEFAULT_MODELS = Object.fromEntries(
+  Object.values(PROVIDER_ADAPTERS).map(adapter => [adapter.id, adapter.defaultModel])
+) as Record<AiProvider, string>;
 
-interface GeminiRequestBody {
-  contents: { role: string; parts: { text: string }[] }[]; // Gemini has a different format for messages
-  generationConfig: {
-    maxOutputTokens: number;
-    temperature: number;
-  };
-}
+const DEFAULT_RETRY: AiRetryOptions = { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 8000 };
+const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = { failureThreshold: 3, cooldownMs: 30000 };
 
-interface LocalRequestBody {
-  messages: AiMessage[];
-  model: string;
-  systemPrompt: string;
-  temperature: number;
-  maxTokens: number;
-  userContext?: AiUserContext;
-}
+/**
+ * Wait for a delay, rejecting early if the request is aborted
+ */
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
 
-// Union type for all request body types
-type AiRequestBody = AnthropicRequestBody | OpenAIRequestBody | GeminiRequestBody | LocalRequestBody;
+/**
+ * Parse a Retry-After header, given in seconds or as an HTTP date
+ */
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
 
 /**
  * Core AI service for Neural AI interactions
+ * 
+ * Requests go to the configured provider first, then down the fallback chain when a
+ * provider fails or its circuit breaker is open. Rate limits and server errors are
+ * retried with jittered exponential backoff before a provider counts as failed.
+ * Request shaping and response parsing live in the provider adapters
+ * (`lib/ai/providers`).
+ * 
+ * Provider API keys are only passed in on the server (see `lib/ai/serverAiService`);
+ * the browser instance talks to the `/api/ai` proxy.
  */
-class AiService {
+export class AiService {
   private config: AiServiceConfig;
+  private circuitBreakers = new Map<AiProvider, CircuitBreaker>();
   
   constructor(config: AiServiceConfig) {
     this.config = config;
@@ -135,244 +185,336 @@ class AiService {
     options: AiRequestOptions = {}
   ): Promise<AiResponse> {
     try {
-      const {
-        model = this.config.defaultModel,
-        systemPrompt = this.config.defaultSystemPrompt,
-        temperature = this.config.defaultTemperature,
-        maxTokens = this.config.defaultMaxTokens,
-        userContext,
-        trackUsage = true
-      } = options;
+      const startedAt = Date.now();
+      const { result, provider, failedOver } = await this.withFallback(options, async provider => {
+        const response = await this.requestWithRetry(provider, messages, options, false);
+        return this.parseResponse(provider, response, options);
+      });
       
-      // Prepare the request based on the AI provider
-      let endpoint = '';
-      let requestBody: AiRequestBody;
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json'
-      };
+      if (result.usage) {
+        result.usage = this.withProviderDetails(result.usage, provider, failedOver, Date.now() - startedAt, options);
+      }
+      return result;
       
-      switch (this.config.provider) {
-        case 'anthropic':
-          endpoint = this.config.baseUrl || 'https://api.anthropic.com/v1/messages';
-          headers['x-api-key'] = this.config.apiKey || process.env.ANTHROPIC_API_KEY || '';
-          headers['anthropic-version'] = '2023-06-01';
-          
-          requestBody = {
-            model,
-            messages,
-            max_tokens: maxTokens,
-            temperature,
-            system: systemPrompt
-          } as AnthropicRequestBody;
-          break;
-          
-        case 'openai':
-          endpoint = this.config.baseUrl || 'https://api.openai.com/v1/chat/completions';
-          headers['Authorization'] = `Bearer ${this.config.apiKey || process.env.OPENAI_API_KEY || ''}`;
-          
-          // Add system message to the beginning if provided
-          const openaiMessages = systemPrompt 
-            ? [{ role: 'system', content: systemPrompt }, ...messages]
-            : messages;
-            
-          requestBody = {
-            model,
-            messages: openaiMessages,
-            max_tokens: maxTokens,
-            temperature
-          } as OpenAIRequestBody;
-          break;
-          
-        case 'gemini':
-          endpoint = this.config.baseUrl || 'https://generativelanguage.googleapis.com/v1beta/models/' + model + ':generateContent';
-          headers['x-goog-api-key'] = this.config.apiKey || process.env.GEMINI_API_KEY || '';
-          
-          // Convert messages to Gemini format
-          const geminiMessages = systemPrompt 
-            ? [{ role: 'system', parts: [{ text: systemPrompt }] }, ...this.convertToGeminiFormat(messages)]
-            : this.convertToGeminiFormat(messages);
-            
-          requestBody = {
-            contents: geminiMessages,
-            generationConfig: {
-              maxOutputTokens: maxTokens,
-              temperature
-            }
-          } as GeminiRequestBody;
-          break;
-          
-        case 'local':
-          endpoint = this.config.baseUrl || '/api/ai';
-          // Use on-premises AI with JWT auth if available
-          const token = typeof window !== 'undefined' ? localStorage.getItem('auth_token') : null;
-          if (token) {
-            headers['Authorization'] = `Bearer ${token}`;
-          }
-          
-          requestBody = {
-            messages,
-            model,
-            systemPrompt,
-            temperature,
-            maxTokens,
-            userContext
-          } as LocalRequestBody;
-          break;
-          
-        default:
-          throw new Error(`Unsupported AI provider: ${this.config.provider}`);
+    } catch (error) {
+      console.error('AI service error:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Stream a message from the AI service
+   * 
+   * Yields the response text as the provider generates it, then a final event with
+   * the full response and usage. Aborting `options.signal` cancels the request and
+   * rejects the iteration with an `AbortError`. Falls back to the next provider only
+   * until the stream has started; a stream that breaks off afterwards rejects.
+   * 
+   * @param messages Array of messages in the conversation
+   * @param options Request options
+   * @returns Async iterator over the stream events
+   */
+  async *streamMessage(
+    messages: AiMessage[],
+    options: AiRequestOptions = {}
+  ): AsyncGenerator<AiStreamEvent> {
+    const { trackUsage = true, signal } = options;
+    const startedAt = Date.now();
+    
+    let opened;
+    try {
+      opened = await this.withFallback(options, provider => this.requestWithRetry(provider, messages, options, true));
+    } catch (error) {
+      console.error('AI service error:', error);
+      throw error;
+    }
+    const { result: response, provider, failedOver } = opened;
+    const model = this.modelFor(provider, options);
+    
+    if (!response.body) {
+      throw new Error('AI service error: the response has no body to stream');
+    }
+    
+    const parser = getProviderAdapter(provider).createStreamParser(model, this.config.pricing || defaultPricingCatalog);
+    let responseText = '';
+    
+    try {
+      for await (const event of readServerSentEvents(response.body)) {
+        if (event.data === '[DONE]') break;
+        
+        const delta = parser.parseEvent(event);
+        if (delta) {
+          responseText += delta;
+          yield { type: 'delta', text: delta };
+        }
+      }
+    } catch (error) {
+      if (!signal?.aborted) {
+        this.circuitBreakerFor(provider, options)?.recordFailure();
+        console.error('AI service error:', error);
+      }
+      throw error;
+    }
+    
+    let usage = trackUsage ? parser.usage() : undefined;
+    if (usage) {
+      usage = this.withProviderDetails(usage, provider, failedOver, Date.now() - startedAt, options);
+    }
+    
+    yield { type: 'done', response: { response: responseText, usage } };
+  }
+  
+  /**
+   * Run a request against each provider of the fallback chain until one succeeds
+   * 
+   * Providers whose circuit is open are skipped. Aborted requests are not retried
+   * elsewhere and do not count against the provider. Requests made with the user's
+   * own key bypass the circuit breaker.
+   * 
+   * @returns The result, the provider that produced it and the providers tried before it
+   */
+  private async withFallback<T>(
+    options: AiRequestOptions,
+    attempt: (provider: AiProvider) => Promise<T>
+  ): Promise<{ result: T; provider: AiProvider; failedOver: AiProvider[] }> {
+    const failedOver: AiProvider[] = [];
+    let lastError: unknown = null;
+    
+    for (const provider of this.providerChain(options)) {
+      const circuitBreaker = this.circuitBreakerFor(provider, options);
+      if (circuitBreaker && !circuitBreaker.tryAcquire()) {
+        failedOver.push(provider);
+        continue;
       }
       
-      // Make the API request
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(requestBody)
-      });
+      try {
+        const result = await attempt(provider);
+        circuitBreaker?.recordSuccess();
+        return { result, provider, failedOver };
+      } catch (error) {
+        if (options.signal?.aborted) {
+          circuitBreaker?.recordCancelled();
+          throw error;
+        }
+        circuitBreaker?.recordFailure();
+        failedOver.push(provider);
+        lastError = error;
+        console.warn(`AI provider ${provider} failed, trying the next provider:`, error);
+      }
+    }
+    
+    throw lastError ?? new AiProviderError(
+      `AI service error: every provider is unavailable (${failedOver.join(', ')})`,
+      503,
+      this.config.provider
+    );
+  }
+  
+  /**
+   * Send the request to one provider, retrying rate limits and server errors
+   * 
+   * Waits a random time up to an exponentially growing cap between attempts, or as
+   * long as the provider's Retry-After asks if that is longer.
+   * 
+   * @returns The successful response
+   * @throws AiProviderError once the attempts are used up or the error is not retryable
+   */
+  private async requestWithRetry(
+    provider: AiProvider,
+    messages: AiMessage[],
+    options: AiRequestOptions,
+    stream: boolean
+  ): Promise<Response> {
+    const { maxAttempts, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...this.config.retry };
+    const { endpoint, headers, body } = this.buildRequest(provider, messages, options, stream);
+    
+    for (let attempt = 1; ; attempt++) {
+      let error: AiProviderError;
       
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        throw new Error(
-          `AI service error (${response.status}): ${
-            errorData?.error?.message || response.statusText
-          }`
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: stream ? { ...headers, Accept: 'text/event-stream' } : headers,
+          body: JSON.stringify(body),
+          signal: options.signal
+        });
+        if (response.ok) return response;
+        
+        error = await this.responseError(provider, response);
+      } catch (fetchError) {
+        if (options.signal?.aborted) throw fetchError;
+        error = new AiProviderError(
+          `AI service error: ${provider} is unreachable (${fetchError instanceof Error ? fetchError.message : String(fetchError)})`,
+          503,
+          provider
         );
       }
       
-      const data = await response.json();
-      
-      // Extract response based on provider format
-      let responseText = '';
-      let usage: AIServiceUsage | undefined;
-      
-      switch (this.config.provider) {
-        case 'anthropic':
-          responseText = data.content[0].text;
-          if (trackUsage && data.usage) {
-            usage = {
-              tokens: {
-                prompt: data.usage.input_tokens,
-                completion: data.usage.output_tokens,
-                total: data.usage.input_tokens + data.usage.output_tokens
-              },
-              model: data.model,
-              provider: {
-                name: 'Anthropic',
-                requestId: data.id
-              },
-              cost: {
-                estimated: this.calculateAnthropicCost(data.usage.input_tokens, data.usage.output_tokens, model),
-                currency: 'USD'
-              }
-            };
-          }
-          break;
-          
-        case 'openai':
-          responseText = data.choices[0].message.content;
-          if (trackUsage && data.usage) {
-            usage = {
-              tokens: {
-                prompt: data.usage.prompt_tokens,
-                completion: data.usage.completion_tokens,
-                total: data.usage.total_tokens
-              },
-              model: data.model,
-              provider: {
-                name: 'OpenAI'
-              },
-              cost: {
-                estimated: this.calculateOpenAICost(data.usage.prompt_tokens, data.usage.completion_tokens, model),
-                currency: 'USD'
-              }
-            };
-          }
-          break;
-          
-        case 'gemini':
-          responseText = data.candidates[0].content.parts[0].text;
-          // Gemini doesn't provide token usage in the same way
-          if (trackUsage) {
-            usage = {
-              tokens: {
-                prompt: 0, // Not provided by Gemini
-                completion: 0, // Not provided by Gemini
-                total: 0 // Not provided by Gemini
-              },
-              model,
-              provider: {
-                name: 'Google Gemini'
-              },
-              cost: {
-                estimated: 0, // Would need a different calculation
-                currency: 'USD'
-              }
-            };
-          }
-          break;
-          
-        case 'local':
-          responseText = data.response;
-          usage = data.usage;
-          break;
-          
-        default:
-          throw new Error(`Unsupported AI provider: ${this.config.provider}`);
+      // A provider asking us to wait longer than we would back off is treated as unavailable
+      if (!error.retryable || attempt >= maxAttempts || (error.retryAfterMs ?? 0) > maxDelayMs) {
+        throw error;
       }
-      
-      return {
-        response: responseText,
-        usage
-      };
-      
-    } catch (error) {
-      console.error('AI service error:', error);
-      throw error;
+      const backoffMs = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      await delay(Math.max(backoffMs, error.retryAfterMs ?? 0), options.signal);
     }
   }
   
   /**
-   * Convert messages to Gemini format
+   * Extract the response text and usage from a provider's response body
    */
-  private convertToGeminiFormat(messages: AiMessage[]) {
-    return messages.map(msg => ({
-      role: msg.role === 'assistant' ? 'model' : msg.role,
-      parts: [{ text: msg.content }]
-    }));
+  private async parseResponse(provider: AiProvider, response: Response, options: AiRequestOptions): Promise<AiResponse> {
+    const { trackUsage = true } = options;
+    const { text, usage } = getProviderAdapter(provider).parseResponse(
+      await response.json(),
+      this.modelFor(provider, options),
+      this.config.pricing || defaultPricingCatalog
+    );
+    
+    return {
+      response: text,
+      usage: trackUsage ? usage : undefined
+    };
   }
   
   /**
-   * Calculate estimated cost for Anthropic API usage
+   * Build the provider request for a conversation
    */
-  private calculateAnthropicCost(inputTokens: number, outputTokens: number, model: string): number {
-    // Pricing as of April 2025 (example rates)
-    const rates: Record<string, { input: number; output: number }> = {
-      'claude-3-7-sonnet-20250219': { input: 0.000003, output: 0.000015 },
-      'claude-3-opus-20250201': { input: 0.000015, output: 0.000075 },
-      'claude-3-5-haiku-20250401': { input: 0.000001, output: 0.000005 }
-    };
-    
-    const defaultRate = { input: 0.000003, output: 0.000015 };
-    const rate = rates[model] || defaultRate;
+  private buildRequest(
+    provider: AiProvider,
+    messages: AiMessage[],
+    options: AiRequestOptions,
+    stream: boolean
+  ): ProviderRequest {
+    const {
+      systemPrompt = this.config.defaultSystemPrompt,
+      temperature = this.config.defaultTemperature,
+      maxTokens = this.config.defaultMaxTokens,
+      userContext,
+      feature
+    } = options;
+    const { baseUrl, apiKey } = this.settingsFor(provider, options);
     
-    return (inputTokens * rate.input) + (outputTokens * rate.output);
+    return getProviderAdapter(provider).buildRequest({
+      messages,
+      model: this.modelFor(provider, options),
+      systemPrompt,
+      temperature,
+      maxTokens,
+      userContext,
+      feature,
+      stream,
+      baseUrl,
+      apiKey
+    });
+  }
+  
+  /**
+   * Providers of the fallback chain the request has the user's own key for
+   */
+  public userKeyProviders(options: AiRequestOptions = {}): AiProvider[] {
+    return this.providerChain().filter(provider => options.apiKeys?.[provider]);
+  }
+  
+  /**
+   * The providers to try, in order, without duplicates
+   */
+  private providerChain(options: AiRequestOptions = {}): AiProvider[] {
+    const providers = [...new Set([this.config.provider, ...(this.config.fallbackProviders || [])])];
+    return options.userKeysOnly ? providers.filter(provider => options.apiKeys?.[provider]) : providers;
   }
   
   /**
-   * Calculate estimated cost for OpenAI API usage
+   * Connection settings for a provider
+   * 
+   * The top-level `baseUrl` and `apiKey` apply to the primary provider only. The
+   * user's own key for the provider, if the request has one, takes precedence.
    */
-  private calculateOpenAICost(promptTokens: number, completionTokens: number, model: string): number {
-    // Pricing as of April 2025 (example rates)
-    const rates: Record<string, { prompt: number; completion: number }> = {
-      'gpt-4o': { prompt: 0.000005, completion: 0.000015 },
-      'gpt-4-turbo': { prompt: 0.00001, completion: 0.00003 },
-      'gpt-4-turbo-2025': { prompt: 0.00001, completion: 0.00003 }
+  private settingsFor(provider: AiProvider, options: AiRequestOptions = {}): AiProviderSettings {
+    const settings = this.config.providerSettings?.[provider] || {};
+    const userApiKey = options.apiKeys?.[provider];
+    if (provider !== this.config.provider) {
+      return userApiKey ? { ...settings, apiKey: userApiKey } : settings;
+    }
+    
+    return {
+      ...settings,
+      baseUrl: settings.baseUrl || this.config.baseUrl,
+      apiKey: userApiKey || settings.apiKey || this.config.apiKey
     };
+  }
+  
+  /**
+   * The model to request from a provider
+   * 
+   * A requested model names a model of the primary provider, so fallback providers
+   * use their own configured model. Economy requests use the provider's cheaper
+   * model instead, unless they are billed to the user's own key.
+   */
+  private modelFor(provider: AiProvider, options: AiRequestOptions): string {
+    const { economyModel } = getProviderAdapter(provider);
+    if (options.economy && economyModel && !options.apiKeys?.[provider]) {
+      return economyModel;
+    }
     
-    const defaultRate = { prompt: 0.000005, completion: 0.000015 };
-    const rate = rates[model] || defaultRate;
+    const configured = this.config.providerSettings?.[provider]?.model;
+    if (provider === this.config.provider) {
+      return options.model || configured || this.config.defaultModel;
+    }
+    return configured || DEFAULT_MODELS[provider];
+  }
+  
+  /**
+   * The circuit breaker guarding a provider's configured key
+   * 
+   * None when the request uses the user's own key, so one user's revoked or
+   * rate-limited key cannot open the circuit for everyone else.
+   */
+  private circuitBreakerFor(provider: AiProvider, options: AiRequestOptions = {}): CircuitBreaker | null {
+    if (options.apiKeys?.[provider]) return null;
     
-    return (promptTokens * rate.prompt) + (completionTokens * rate.completion);
+    let circuitBreaker = this.circuitBreakers.get(provider);
+    if (!circuitBreaker) {
+      circuitBreaker = new CircuitBreaker({ ...DEFAULT_CIRCUIT_BREAKER, ...this.config.circuitBreaker });
+      this.circuitBreakers.set(provider, circuitBreaker);
+    }
+    return circuitBreaker;
+  }
+  
+  /**
+   * Record which provider answered, and which were tried before it
+   */
+  private withProviderDetails(
+    usage: AIServiceUsage,
+    provider: AiProvider,
+    failedOver: AiProvider[],
+    latencyMs: number,
+    options: AiRequestOptions
+  ): AIServiceUsage {
+    return {
+      ...usage,
+      provider: {
+        ...usage.provider,
+        id: provider,
+        latencyMs,
+        ...(options.apiKeys?.[provider] ? { userKey: true } : {}),
+        ...(failedOver.length > 0 ? { fallbackFrom: failedOver } : {})
+      }
+    };
+  }
+  
+  /**
+   * Build the error for a failed provider response
+   */
+  private async responseError(provider: AiProvider, response: Response): Promise<AiProviderError> {
+    const errorData = await response.json().catch(() => null);
+    return new AiProviderError(
+      `AI service error (${response.status}): ${
+        errorData?.error?.message || response.statusText
+      }`,
+      response.status,
+      provider,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
   }
   
   /**
@@ -386,12 +528,15 @@ class AiService {
   }
 }
 
+export const DEFAULT_SYSTEM_PROMPT = 'You are a NeuroForge AI Tutor, designed to provide personalized learning support.';
+
 // Create and export the singleton instance
+// The browser only talks to the `/api/ai` proxy, which holds the provider keys and falls back between providers
 export const aiService = new AiService({
   defaultModel: 'claude-3-7-sonnet-20250219',
-  defaultSystemPrompt: 'You are a NeuroForge AI Tutor, designed to provide personalized learning support.',
+  defaultSystemPrompt: DEFAULT_SYSTEM_PROMPT,
   defaultTemperature: 0.7,
   defaultMaxTokens: 1000,
-  provider: 'anthropic',
-  baseUrl: process.env.ANTHROPIC_API_URL
+  provider: 'local',
+  baseUrl: '/api/ai'
 });
\ No newline at end of file
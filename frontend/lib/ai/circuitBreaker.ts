@@ -0,0 +1,67 @@
+// neuroforge/frontend/lib/ai/circuitBreaker.ts
+// Purpose: Circuit breaker that stops calling an AI provider while it keeps failing
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number; // How long the circuit stays open before a trial request is allowed
+}
+
+/**
+ * Tracks the failures of one provider
+ *
+ * Closed: requests go through. Open: requests are refused until the cooldown has
+ * passed. Half-open: one trial request goes through; its success closes the circuit
+ * and its failure opens it again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInProgress = false;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly now: () => number = () => Date.now()
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Check whether a request may be made, claiming the trial request when half-open
+   */
+  tryAcquire(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'half-open':
+        if (this.trialInProgress) return false;
+        this.trialInProgress = true;
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInProgress = false;
+  }
+
+  // A cancelled request says nothing about the provider, but frees the trial slot
+  recordCancelled(): void {
+    this.trialInProgress = false;
+  }
+
+  recordFailure(): void {
+    this.failures += 1;
+    if (this.trialInProgress || this.failures >= this.options.failureThreshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInProgress = false;
+  }
+}
@@ -0,0 +1,152 @@
+// neuroforge/frontend/lib/ai/pricing.ts
+// Purpose: Versioned per-model AI pricing, used to estimate the cost of every response
+
+import type { AIServiceUsage } from 'types/api-usage';
+import type { AiProvider } from 'lib/ai/aiService';
+import defaultPricing from '../../../shared/ai-pricing.json';
+
+/**
+ * Price of one model from a given date on
+ */
+export interface ModelPrice {
+  provider: AiProvider;
+  model: string; // Model name, matching versioned names too ('gpt-4o' prices 'gpt-4o-2024-08-06'); '*' for the provider's other models
+  effectiveFrom: string; // ISO date the price applies from
+  inputPerMillion: number; // Per million prompt tokens
+  outputPerMillion: number; // Per million completion tokens
+  // Higher rates for prompts longer than the threshold (e.g. Gemini's long-context pricing)
+  longContext?: {
+    thresholdTokens: number;
+    inputPerMillion: number;
+    outputPerMillion: number;
+  };
+}
+
+/**
+ * A published version of the pricing, e.g. from finance's pricing file
+ */
+export interface PricingTable {
+  version: string; // Recorded with every cost estimate
+  currency: string;
+  prices: ModelPrice[];
+}
+
+const PROVIDERS: AiProvider[] = ['anthropic', 'openai', 'gemini', 'grok', 'local'];
+
+const isRate = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Validate a pricing table read from configuration
+ *
+ * @throws Error describing the first invalid entry
+ */
+export function parsePricingTable(value: unknown): PricingTable {
+  const table = value as PricingTable;
+  if (!table || typeof table !== 'object' || typeof table.version !== 'string' || !table.version) {
+    throw new Error('Pricing table needs a version');
+  }
+  if (typeof table.currency !== 'string' || !table.currency) {
+    throw new Error('Pricing table needs a currency');
+  }
+  if (!Array.isArray(table.prices)) {
+    throw new Error('Pricing table needs a list of prices');
+  }
+
+  table.prices.forEach((price, index) => {
+    const entry = `Price ${index + 1} (${price?.provider}/${price?.model})`;
+    if (!PROVIDERS.includes(price?.provider)) throw new Error(`${entry} has an unknown provider`);
+    if (typeof price.model !== 'string' || !price.model) throw new Error(`${entry} needs a model`);
+    if (Number.isNaN(Date.parse(price.effectiveFrom))) throw new Error(`${entry} needs an ISO effectiveFrom date`);
+    if (!isRate(price.inputPerMillion) || !isRate(price.outputPerMillion)) throw new Error(`${entry} has an invalid rate`);
+    if (price.longContext && (
+      !isRate(price.longContext.thresholdTokens) ||
+      !isRate(price.longContext.inputPerMillion) ||
+      !isRate(price.longContext.outputPerMillion)
+    )) {
+      throw new Error(`${entry} has invalid long-context rates`);
+    }
+  });
+
+  return table;
+}
+
+/**
+ * Looks up prices and estimates costs from the current pricing table
+ *
+ * The table can be swapped while the app runs (see `lib/ai/pricingSource`).
+ */
+export class PricingCatalog {
+  private table: PricingTable;
+
+  constructor(table: PricingTable) {
+    this.table = table;
+  }
+
+  get version(): string {
+    return this.table.version;
+  }
+
+  /**
+   * Replace the pricing table
+   */
+  update(table: PricingTable): void {
+    this.table = table;
+  }
+
+  /**
+   * The price of a model at a point in time
+   *
+   * Prefers an exact model match, then the longest model name the model starts with
+   * (so versioned names share their family's price), then the provider's '*' entry.
+   * Among a model's entries, the latest one already in effect applies.
+   * The backend's src/utils/aiPricing.js mirrors this lookup; its tests check that both agree.
+   */
+  priceFor(provider: AiProvider, model: string, at: Date = new Date()): ModelPrice | undefined {
+    const inEffect = this.table.prices.filter(price =>
+      price.provider === provider && Date.parse(price.effectiveFrom) <= at.getTime()
+    );
+    const matches = (name: string) => name === model || model.startsWith(`${name}-`);
+
+    const candidates = inEffect.filter(price => matches(price.model));
+    const longestName = Math.max(...candidates.map(price => price.model.length));
+    const modelPrices = candidates.length > 0
+      ? candidates.filter(price => price.model.length === longestName)
+      : inEffect.filter(price => price.model === '*');
+
+    return modelPrices.sort((a, b) => Date.parse(b.effectiveFrom) - Date.parse(a.effectiveFrom))[0];
+  }
+
+  /**
+   * Estimated cost of a response; zero for models without a price
+   */
+  estimateCost(
+    provider: AiProvider,
+    model: string,
+    inputTokens: number,
+    outputTokens: number,
+    at: Date = new Date()
+  ): AIServiceUsage['cost'] {
+    const price = this.priceFor(provider, model, at);
+    if (!price) {
+      return { estimated: 0, currency: this.table.currency, pricingVersion: this.table.version };
+    }
+
+    const rates = price.longContext && inputTokens > price.longContext.thresholdTokens ? price.longContext : price;
+    return {
+      estimated: (inputTokens * rates.inputPerMillion + outputTokens * rates.outputPerMillion) / 1_000_000,
+      currency: this.table.currency,
+      pricingVersion: this.table.version
+    };
+  }
+}
+
+/**
+ * Pricing shipped with the app, used until (or unless) a pricing file is configured
+ *
+ * Shared with the backend, which costs its own AI requests from the same table.
+ */
+export const DEFAULT_PRICING_TABLE: PricingTable = parsePricingTable(defaultPricing);
+
+// Create and export the singleton instance
+// Used by every AiService that is not given its own catalog
+export const defaultPricingCatalog = new PricingCatalog(DEFAULT_PRICING_TABLE);
@@ -0,0 +1,59 @@
+// neuroforge/frontend/lib/ai/pricingSource.ts
+// Purpose: Keeps the server's AI pricing in sync with the pricing file finance maintains
+//
+// `AI_PRICING_URL` points at a pricing table (see `PricingTable`), as an http(s) URL or a
+// file path; it is re-read every `AI_PRICING_REFRESH_MS` (default 5 minutes), so price
+// changes apply without a deploy. Without it, the pricing shipped with the app is used.
+
+import { readFile } from 'fs/promises';
+import { DEFAULT_PRICING_TABLE, parsePricingTable, PricingCatalog } from 'lib/ai/pricing';
+
+if (typeof window !== 'undefined') {
+  throw new Error('lib/ai/pricingSource reads server configuration and must only be imported on the server');
+}
+
+const refreshMs = parseInt(process.env.AI_PRICING_REFRESH_MS || '', 10);
+const REFRESH_MS = Number.isNaN(refreshMs) ? 5 * 60 * 1000 : refreshMs;
+
+// Create and export the singleton instance
+export const pricingCatalog = new PricingCatalog(DEFAULT_PRICING_TABLE);
+
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+const readPricingSource = async (source: string): Promise<unknown> => {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`${source} answered ${response.status}`);
+    }
+    return response.json();
+  }
+  return JSON.parse(await readFile(source, 'utf8'));
+};
+
+/**
+ * Re-read the pricing file once the refresh interval has passed
+ * 
+ * Concurrent callers share one read. A file that cannot be read or is invalid is
+ * logged and the current prices stay in place.
+ */
+export async function refreshPricing(): Promise<void> {
+  const source = process.env.AI_PRICING_URL;
+  if (!source || Date.now() - loadedAt < REFRESH_MS) return;
+
+  loading ??= readPricingSource(source)
+    .then(table => {
+      pricingCatalog.update(parsePricingTable(table));
+    })
+    .catch(error => {
+      console.error(`Error loading AI pricing from ${source}, keeping pricing version ${pricingCatalog.version}:`, error);
+    })
+    .finally(() => {
+      // Failed reads are retried after the same interval, not on every request
+      loadedAt = Date.now();
+      loading = null;
+    });
+
+  return loading;
+}
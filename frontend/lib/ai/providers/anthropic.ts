@@ -0,0 +1,89 @@
+// neuroforge/frontend/lib/ai/providers/anthropic.ts
+// Purpose: Adapter for the Anthropic Messages API
+
+import { AiProviderError } from 'lib/errors';
+import { PricingCatalog } from 'lib/ai/pricing';
+import { AiProviderAdapter } from 'lib/ai/providers/types';
+import { buildUsage } from 'lib/ai/providers/usage';
+import economyModels from '../../../../shared/ai-economy-models.json';
+
+const usage = (pricing: PricingCatalog, inputTokens: number, outputTokens: number, model: string, requestId: string) => buildUsage({
+  providerName: 'Anthropic',
+  model,
+  inputTokens,
+  outputTokens,
+  cost: pricing.estimateCost('anthropic', model, inputTokens, outputTokens),
+  requestId
+});
+
+interface AnthropicResponse {
+  id: string;
+  model: string;
+  content: { type: string; text?: string }[];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+export const anthropicAdapter: AiProviderAdapter = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  defaultModel: 'claude-3-7-sonnet-20250219',
+  economyModel: economyModels.anthropic,
+  
+  buildRequest({ messages, model, systemPrompt, temperature, maxTokens, stream, baseUrl, apiKey }) {
+    return {
+      endpoint: baseUrl || 'https://api.anthropic.com/v1/messages',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey || '',
+        'anthropic-version': '2023-06-01'
+      },
+      body: {
+        model,
+        messages,
+        max_tokens: maxTokens,
+        temperature,
+        system: systemPrompt,
+        ...(stream ? { stream: true } : {})
+      }
+    };
+  },
+  
+  parseResponse(data, model, pricing) {
+    const response = data as AnthropicResponse;
+    return {
+      text: response.content.map(block => block.text || '').join(''),
+      usage: response.usage
+        ? usage(pricing, response.usage.input_tokens, response.usage.output_tokens, response.model, response.id)
+        : undefined
+    };
+  },
+  
+  // Anthropic reports input tokens when the message starts and output tokens when it ends
+  createStreamParser(model, pricing) {
+    const message = { id: '', model, inputTokens: 0, outputTokens: 0 };
+    
+    return {
+      parseEvent({ event, data }) {
+        const payload = JSON.parse(data);
+        
+        if (event === 'error' || payload.type === 'error') {
+          throw new AiProviderError(`AI service error: ${payload.error?.message || 'stream failed'}`, 502, 'anthropic');
+        }
+        if (payload.type === 'message_start') {
+          message.id = payload.message.id;
+          message.model = payload.message.model;
+          message.inputTokens = payload.message.usage?.input_tokens || 0;
+        } else if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+          return payload.delta.text;
+        } else if (payload.type === 'message_delta' && payload.usage) {
+          message.outputTokens = payload.usage.output_tokens;
+        }
+        return '';
+      },
+      
+      usage() {
+        return usage(pricing, message.inputTokens, message.outputTokens, message.model, message.id);
+      }
+    };
+  }
+};
@@ -0,0 +1,102 @@
+// neuroforge/frontend/lib/ai/providers/gemini.ts
+// Purpose: Adapter for the Google Gemini generateContent API
+
+import type { AiMessage } from 'lib/ai/aiService';
+import { AiProviderError } from 'lib/errors';
+import { PricingCatalog } from 'lib/ai/pricing';
+import { AiProviderAdapter } from 'lib/ai/providers/types';
+import { buildUsage } from 'lib/ai/providers/usage';
+import economyModels from '../../../../shared/ai-economy-models.json';
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number; // Missing until the response has text
+  thoughtsTokenCount?: number; // Thinking models; billed as output
+  totalTokenCount?: number;
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: GeminiUsageMetadata;
+  modelVersion?: string; // The model that answered, e.g. 'gemini-1.5-pro-002'
+}
+
+// Gemini calls the assistant the model
+const toGeminiContents = (messages: AiMessage[]) => messages.map(msg => ({
+  role: msg.role === 'assistant' ? 'model' : msg.role,
+  parts: [{ text: msg.content }]
+}));
+
+const candidateText = (response: GeminiResponse): string =>
+  (response.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('');
+
+const usage = (pricing: PricingCatalog, metadata: GeminiUsageMetadata | undefined, model: string) => {
+  const inputTokens = metadata?.promptTokenCount || 0;
+  const outputTokens = (metadata?.candidatesTokenCount || 0) + (metadata?.thoughtsTokenCount || 0);
+  
+  return buildUsage({
+    providerName: 'Google Gemini',
+    model,
+    inputTokens,
+    outputTokens,
+    cost: pricing.estimateCost('gemini', model, inputTokens, outputTokens)
+  });
+};
+
+export const geminiAdapter: AiProviderAdapter = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  defaultModel: 'gemini-1.5-pro',
+  economyModel: economyModels.gemini,
+  
+  buildRequest({ messages, model, systemPrompt, temperature, maxTokens, stream, baseUrl, apiKey }) {
+    return {
+      // Streaming uses a separate method, which sends server-sent events with `alt=sse`
+      endpoint: baseUrl || 'https://generativelanguage.googleapis.com/v1beta/models/' + model +
+        (stream ? ':streamGenerateContent?alt=sse' : ':generateContent'),
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey || ''
+      },
+      body: {
+        contents: systemPrompt
+          ? [{ role: 'system', parts: [{ text: systemPrompt }] }, ...toGeminiContents(messages)]
+          : toGeminiContents(messages),
+        generationConfig: {
+          maxOutputTokens: maxTokens,
+          temperature
+        }
+      }
+    };
+  },
+  
+  parseResponse(data, model, pricing) {
+    const response = data as GeminiResponse;
+    return {
+      text: candidateText(response),
+      usage: usage(pricing, response.usageMetadata, response.modelVersion || model)
+    };
+  },
+  
+  // Every chunk repeats the usage so far, so the last one counts
+  createStreamParser(model, pricing) {
+    let metadata: GeminiUsageMetadata | undefined;
+    let modelVersion = model;
+    
+    return {
+      parseEvent({ data }) {
+        const payload = JSON.parse(data) as GeminiResponse & { error?: { message?: string } };
+        if (payload.error) {
+          throw new AiProviderError(`AI service error: ${payload.error.message || 'stream failed'}`, 502, 'gemini');
+        }
+        if (payload.usageMetadata) metadata = payload.usageMetadata;
+        if (payload.modelVersion) modelVersion = payload.modelVersion;
+        return candidateText(payload);
+      },
+      
+      usage() {
+        return usage(pricing, metadata, modelVersion);
+      }
+    };
+  }
+};
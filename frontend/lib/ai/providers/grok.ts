@@ -0,0 +1,13 @@
+// neuroforge/frontend/lib/ai/providers/grok.ts
+// Purpose: Adapter for xAI's Grok models, served through an OpenAI-compatible API
+
+import { createOpenAICompatibleAdapter } from 'lib/ai/providers/openaiCompatible';
+import economyModels from '../../../../shared/ai-economy-models.json';
+
+export const grokAdapter = createOpenAICompatibleAdapter({
+  id: 'grok',
+  name: 'xAI Grok',
+  defaultModel: 'grok-3',
+  economyModel: economyModels.grok,
+  endpoint: 'https://api.x.ai/v1/chat/completions'
+});
@@ -0,0 +1,36 @@
+// neuroforge/frontend/lib/ai/providers/index.ts
+// Purpose: Registry of the AI provider adapters
+//
+// Adding a provider: implement `AiProviderAdapter` in its own module, add its id to
+// `AiProvider` and register it below.
+
+import type { AiProvider } from 'lib/ai/aiService';
+import { AiProviderAdapter } from 'lib/ai/providers/types';
+import { anthropicAdapter } from 'lib/ai/providers/anthropic';
+import { openaiAdapter } from 'lib/ai/providers/openai';
+import { geminiAdapter } from 'lib/ai/providers/gemini';
+import { grokAdapter } from 'lib/ai/providers/grok';
+import { localAdapter } from 'lib/ai/providers/local';
+
+export type { AiProviderAdapter, ProviderRequest, ProviderRequestParams, ProviderResult, ProviderStreamParser } from 'lib/ai/providers/types';
+
+export const PROVIDER_ADAPTERS: Record<AiProvider, AiProviderAdapter> = {
+  anthropic: anthropicAdapter,
+  openai: openaiAdapter,
+  gemini: geminiAdapter,
+  grok: grokAdapter,
+  local: localAdapter
+};
+
+/**
+ * The adapter of a provider
+ * 
+ * @throws Error for providers without an adapter
+ */
+export function getProviderAdapter(provider: AiProvider): AiProviderAdapter {
+  const adapter = PROVIDER_ADAPTERS[provider];
+  if (!adapter) {
+    throw new Error(`Unsupported AI provider: ${provider}`);
+  }
+  return adapter;
+}
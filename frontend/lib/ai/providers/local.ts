@@ -0,0 +1,69 @@
+// neuroforge/frontend/lib/ai/providers/local.ts
+// Purpose: Adapter for the app's own `/api/ai` proxy, or an on-premises model server speaking the same format
+
+import { AIServiceUsage } from 'types/api-usage';
+import { AiProviderError } from 'lib/errors';
+import { AiProviderAdapter } from 'lib/ai/providers/types';
+
+interface LocalResponse {
+  response: string;
+  usage?: AIServiceUsage;
+}
+
+export const localAdapter: AiProviderAdapter = {
+  id: 'local',
+  name: 'Local',
+  defaultModel: 'default',
+  
+  buildRequest({ messages, model, systemPrompt, temperature, maxTokens, userContext, feature, stream, baseUrl }) {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    // Use on-premises AI with JWT auth if available
+    const token = typeof window !== 'undefined' ? localStorage.getItem('auth_token') : null;
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    
+    return {
+      endpoint: baseUrl || '/api/ai',
+      headers,
+      body: {
+        messages,
+        model,
+        systemPrompt,
+        temperature,
+        maxTokens,
+        userContext,
+        ...(feature ? { feature } : {}),
+        ...(stream ? { stream: true } : {})
+      }
+    };
+  },
+  
+  // The endpoint already reports usage in our format
+  parseResponse(data) {
+    const response = data as LocalResponse;
+    return { text: response.response, usage: response.usage };
+  },
+  
+  // The endpoint sends `{ delta }` events, then one `{ usage }` event, or `{ error }` if it breaks off
+  createStreamParser() {
+    let streamUsage: AIServiceUsage | undefined;
+    
+    return {
+      parseEvent({ data }) {
+        const payload = JSON.parse(data);
+        if (payload.error) {
+          throw new AiProviderError(`AI service error: ${payload.error.message}`, 502, 'local');
+        }
+        if (payload.usage) streamUsage = payload.usage;
+        return payload.delta || '';
+      },
+      
+      usage() {
+        return streamUsage;
+      }
+    };
+  }
+};
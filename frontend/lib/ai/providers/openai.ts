@@ -0,0 +1,13 @@
+// neuroforge/frontend/lib/ai/providers/openai.ts
+// Purpose: Adapter for the OpenAI Chat Completions API
+
+import { createOpenAICompatibleAdapter } from 'lib/ai/providers/openaiCompatible';
+import economyModels from '../../../../shared/ai-economy-models.json';
+
+export const openaiAdapter = createOpenAICompatibleAdapter({
+  id: 'openai',
+  name: 'OpenAI',
+  defaultModel: 'gpt-4o',
+  economyModel: economyModels.openai,
+  endpoint: 'https://api.openai.com/v1/chat/completions'
+});
@@ -0,0 +1,98 @@
+// neuroforge/frontend/lib/ai/providers/openaiCompatible.ts
+// Purpose: Adapter factory for providers speaking the OpenAI Chat Completions API
+
+import type { AiProvider } from 'lib/ai/aiService';
+import { AiProviderError } from 'lib/errors';
+import { PricingCatalog } from 'lib/ai/pricing';
+import { AiProviderAdapter } from 'lib/ai/providers/types';
+import { buildUsage } from 'lib/ai/providers/usage';
+
+interface ChatCompletionResponse {
+  id: string;
+  model: string;
+  choices: { message: { content: string | null } }[];
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+/**
+ * Create the adapter of an OpenAI-compatible provider
+ */
+export function createOpenAICompatibleAdapter({
+  id,
+  name,
+  defaultModel,
+  economyModel,
+  endpoint
+}: {
+  id: AiProvider;
+  name: string;
+  defaultModel: string;
+  economyModel?: string;
+  endpoint: string; // The provider's chat completions URL
+}): AiProviderAdapter {
+  const usage = (pricing: PricingCatalog, promptTokens: number, completionTokens: number, model: string, requestId?: string) => buildUsage({
+    providerName: name,
+    model,
+    inputTokens: promptTokens,
+    outputTokens: completionTokens,
+    cost: pricing.estimateCost(id, model, promptTokens, completionTokens),
+    requestId
+  });
+  
+  return {
+    id,
+    name,
+    defaultModel,
+    economyModel,
+    
+    buildRequest({ messages, model, systemPrompt, temperature, maxTokens, stream, baseUrl, apiKey }) {
+      return {
+        endpoint: baseUrl || endpoint,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey || ''}`
+        },
+        body: {
+          model,
+          // The system prompt goes first in the conversation
+          messages: systemPrompt ? [{ role: 'system', content: systemPrompt }, ...messages] : messages,
+          max_tokens: maxTokens,
+          temperature,
+          ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+        }
+      };
+    },
+    
+    parseResponse(data, model, pricing) {
+      const response = data as ChatCompletionResponse;
+      return {
+        text: response.choices[0]?.message.content || '',
+        usage: response.usage
+          ? usage(pricing, response.usage.prompt_tokens, response.usage.completion_tokens, response.model, response.id)
+          : undefined
+      };
+    },
+    
+    createStreamParser(model, pricing) {
+      let streamUsage: ReturnType<typeof usage> | undefined;
+      
+      return {
+        parseEvent({ data }) {
+          const payload = JSON.parse(data);
+          if (payload.error) {
+            throw new AiProviderError(`AI service error: ${payload.error.message || 'stream failed'}`, 502, id);
+          }
+          // Sent in a last chunk without choices when `stream_options.include_usage` is set
+          if (payload.usage) {
+            streamUsage = usage(pricing, payload.usage.prompt_tokens, payload.usage.completion_tokens, payload.model, payload.id);
+          }
+          return payload.choices?.[0]?.delta?.content || '';
+        },
+        
+        usage() {
+          return streamUsage;
+        }
+      };
+    }
+  };
+}
@@ -0,0 +1,85 @@
+// neuroforge/frontend/lib/ai/providers/types.ts
+// Purpose: Contract every AI provider adapter implements
+
+import type { AIServiceUsage } from 'types/api-usage';
+import type { AiFeature } from 'types/ai-usage';
+import type { AiMessage, AiProvider, AiUserContext } from 'lib/ai/aiService';
+import type { ServerSentEvent } from 'lib/ai/sse';
+import type { PricingCatalog } from 'lib/ai/pricing';
+
+/**
+ * Everything an adapter needs to shape one provider request
+ */
+export interface ProviderRequestParams {
+  messages: AiMessage[];
+  model: string;
+  systemPrompt: string;
+  temperature: number;
+  maxTokens: number;
+  userContext?: AiUserContext;
+  feature?: AiFeature; // Only the app's own proxy uses it, to book the spend
+  stream: boolean;
+  baseUrl?: string; // Overrides the provider's public endpoint
+  apiKey?: string;
+}
+
+/**
+ * An HTTP request ready to send to a provider
+ */
+export interface ProviderRequest {
+  endpoint: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * The text and usage extracted from a provider response
+ */
+export interface ProviderResult {
+  text: string;
+  usage?: AIServiceUsage;
+}
+
+/**
+ * Reads one streamed response, event by event
+ */
+export interface ProviderStreamParser {
+  /**
+   * Handle one server-sent event
+   * 
+   * @returns The text generated since the previous event, if any
+   * @throws AiProviderError when the provider reports an error mid-stream
+   */
+  parseEvent(event: ServerSentEvent): string;
+  
+  /**
+   * Usage of the whole response, once the stream has ended
+   */
+  usage(): AIServiceUsage | undefined;
+}
+
+/**
+ * Adapter between `AiService` and one provider's API
+ * 
+ * Adapters only shape requests and read responses; sending, retries and fallback
+ * between providers stay in `AiService`.
+ */
+export interface AiProviderAdapter {
+  id: AiProvider;
+  name: string; // Display name, reported in `AIServiceUsage.provider.name`
+  defaultModel: string; // Used when the provider answers as a fallback without a configured model
+  economyModel?: string; // Cheaper model used for requests with `economy` set, from shared/ai-economy-models.json
+  
+  buildRequest(params: ProviderRequestParams): ProviderRequest;
+  
+  /**
+   * Read a non-streamed response body
+   * 
+   * @param data The parsed JSON body
+   * @param model The model that was requested
+   * @param pricing Prices to estimate the cost with
+   */
+  parseResponse(data: unknown, model: string, pricing: PricingCatalog): ProviderResult;
+  
+  createStreamParser(model: string, pricing: PricingCatalog): ProviderStreamParser;
+}
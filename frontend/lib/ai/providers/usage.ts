@@ -0,0 +1,37 @@
+// neuroforge/frontend/lib/ai/providers/usage.ts
+// Purpose: Builds `AIServiceUsage` records for the provider adapters
+
+import type { AIServiceUsage } from 'types/api-usage';
+
+/**
+ * Build the usage record of one response
+ */
+export function buildUsage({
+  providerName,
+  model,
+  inputTokens,
+  outputTokens,
+  cost,
+  requestId
+}: {
+  providerName: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: AIServiceUsage['cost']; // From `PricingCatalog.estimateCost`
+  requestId?: string;
+}): AIServiceUsage {
+  return {
+    tokens: {
+      prompt: inputTokens,
+      completion: outputTokens,
+      total: inputTokens + outputTokens
+    },
+    model,
+    provider: {
+      name: providerName,
+      ...(requestId ? { requestId } : {})
+    },
+    cost
+  };
+}
@@ -0,0 +1,82 @@
+// neuroforge/frontend/lib/ai/quota.ts
+// Purpose: Per-user request and token quotas for the /api/ai proxy
+
+export interface AiQuotaLimits {
+  requestsPerMinute: number;
+  tokensPerDay: number;
+}
+
+/**
+ * Outcome of a quota check
+ */
+export type AiQuotaCheck =
+  | { allowed: true }
+  | { allowed: false; reason: string; retryAfterMs: number };
+
+interface UserUsage {
+  minuteStartedAt: number;
+  requests: number;
+  day: string; // UTC date (YYYY-MM-DD) the token count belongs to
+  tokens: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const utcDay = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Fixed-window request and daily token quotas per user
+ * 
+ * Counts are kept in memory, so each server instance enforces the limits on its own.
+ */
+export class AiQuota {
+  private usage = new Map<string, UserUsage>();
+
+  constructor(
+    private readonly limits: AiQuotaLimits,
+    private readonly now: () => number = () => Date.now()
+  ) {}
+
+  /**
+   * Count a request against the user's quota, unless it is exhausted
+   */
+  checkRequest(userId: string): AiQuotaCheck {
+    const now = this.now();
+    const usage = this.currentUsage(userId, now);
+
+    if (usage.tokens >= this.limits.tokensPerDay) {
+      const nextDay = Date.parse(`${usage.day}T00:00:00Z`) + 24 * 60 * MINUTE_MS;
+      return { allowed: false, reason: 'Daily AI token quota exceeded', retryAfterMs: nextDay - now };
+    }
+    if (usage.requests >= this.limits.requestsPerMinute) {
+      return { allowed: false, reason: 'Too many AI requests, please slow down', retryAfterMs: usage.minuteStartedAt + MINUTE_MS - now };
+    }
+
+    usage.requests += 1;
+    return { allowed: true };
+  }
+
+  /**
+   * Add the tokens of a completed request to the user's daily total
+   */
+  recordTokens(userId: string, tokens: number): void {
+    this.currentUsage(userId, this.now()).tokens += tokens;
+  }
+
+  private currentUsage(userId: string, now: number): UserUsage {
+    let usage = this.usage.get(userId);
+    if (!usage) {
+      usage = { minuteStartedAt: now, requests: 0, day: utcDay(now), tokens: 0 };
+      this.usage.set(userId, usage);
+    }
+    if (now - usage.minuteStartedAt >= MINUTE_MS) {
+      usage.minuteStartedAt = now;
+      usage.requests = 0;
+    }
+    if (utcDay(now) !== usage.day) {
+      usage.day = utcDay(now);
+      usage.tokens = 0;
+    }
+    return usage;
+  }
+}
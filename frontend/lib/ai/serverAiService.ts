@@ -0,0 +1,66 @@
+// neuroforge/frontend/lib/ai/serverAiService.ts
+// Purpose: Server-side AiService that owns the provider credentials, used by the /api/ai proxy
+
+import { AiProvider, AiProviderSettings, AiService, DEFAULT_MODELS, DEFAULT_SYSTEM_PROMPT } from 'lib/ai/aiService';
+import { pricingCatalog } from 'lib/ai/pricingSource';
+
+if (typeof window !== 'undefined') {
+  throw new Error('lib/ai/serverAiService holds provider credentials and must only be imported on the server');
+}
+
+const PROVIDERS: AiProvider[] = ['anthropic', 'openai', 'gemini', 'grok', 'local'];
+
+/**
+ * Read the provider chain from `AI_PROVIDERS`, e.g. "anthropic,openai,gemini,grok"
+ * 
+ * The local provider is only used when `LOCAL_AI_URL` points at an on-premises model server.
+ */
+const providerChainFromEnv = (): AiProvider[] => {
+  const chain = (process.env.AI_PROVIDERS || 'anthropic,openai,gemini,grok,local')
+    .split(',')
+    .map(provider => provider.trim())
+    .filter((provider): provider is AiProvider => PROVIDERS.includes(provider as AiProvider));
+
+  return chain.filter(provider => provider !== 'local' || Boolean(process.env.LOCAL_AI_URL));
+};
+
+const providerSettingsFromEnv = (): Partial<Record<AiProvider, AiProviderSettings>> => ({
+  anthropic: {
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    baseUrl: process.env.ANTHROPIC_API_URL,
+    model: process.env.ANTHROPIC_MODEL
+  },
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY,
+    baseUrl: process.env.OPENAI_API_URL,
+    model: process.env.OPENAI_MODEL
+  },
+  gemini: {
+    apiKey: process.env.GEMINI_API_KEY,
+    model: process.env.GEMINI_MODEL
+  },
+  grok: {
+    apiKey: process.env.XAI_API_KEY,
+    baseUrl: process.env.XAI_API_URL,
+    model: process.env.XAI_MODEL
+  },
+  local: {
+    baseUrl: process.env.LOCAL_AI_URL,
+    model: process.env.LOCAL_AI_MODEL
+  }
+});
+
+const [primaryProvider = 'anthropic', ...fallbackProviders] = providerChainFromEnv();
+
+// Create and export the singleton instance
+export const serverAiService = new AiService({
+  defaultModel: DEFAULT_MODELS[primaryProvider],
+  defaultSystemPrompt: DEFAULT_SYSTEM_PROMPT,
+  defaultTemperature: 0.7,
+  defaultMaxTokens: 1000,
+  provider: primaryProvider,
+  fallbackProviders,
+  providerSettings: providerSettingsFromEnv(),
+  // Kept up to date with finance's pricing file by `refreshPricing`
+  pricing: pricingCatalog
+});
@@ -0,0 +1,66 @@
+// neuroforge/frontend/lib/ai/sse.ts
+// Purpose: Parses server-sent event streams from AI provider responses
+
+/**
+ * A single server-sent event
+ */
+export interface ServerSentEvent {
+  event?: string; // Event type, if the server named one
+  data: string; // Data lines of the event, joined with newlines
+}
+
+/**
+ * Read server-sent events from a response body as they arrive
+ *
+ * Stops reading and releases the body when the consumer stops iterating, so
+ * breaking out of a `for await` loop closes the connection.
+ *
+ * @param body Response body of an `text/event-stream` response
+ * @returns Async iterator over the events
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Keep the last, possibly incomplete, line for the next chunk
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+      if (done && lines[lines.length - 1] !== '') lines.push('');
+
+      for (const line of lines) {
+        if (line === '') {
+          // A blank line ends the event
+          if (data.length > 0) {
+            yield { event, data: data.join('\n') };
+          }
+          event = undefined;
+          data = [];
+        } else if (line.startsWith(':')) {
+          continue; // Comment, e.g. a keep-alive
+        } else {
+          const separator = line.indexOf(':');
+          const field = separator === -1 ? line : line.slice(0, separator);
+          const fieldValue = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+          if (field === 'event') event = fieldValue;
+          if (field === 'data') data.push(fieldValue);
+        }
+      }
+
+      if (done) return;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
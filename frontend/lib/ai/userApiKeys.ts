@@ -0,0 +1,46 @@
+// neuroforge/frontend/lib/ai/userApiKeys.ts
+// Purpose: Looks up the AI provider keys a user stored in the backend's key vault, for the /api/ai proxy
+
+import { AiProvider } from 'lib/ai/aiService';
+
+if (typeof window !== 'undefined') {
+  throw new Error('lib/ai/userApiKeys reads decrypted user keys and must only be imported on the server');
+}
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001/api/v1';
+
+/**
+ * Fetch the decrypted provider keys of a user
+ * 
+ * Authenticates with the shared `INTERNAL_API_SECRET`. Lookup failures are logged and
+ * treated as "no keys", so the tutor keeps working on the platform's keys.
+ * 
+ * @param email Email of the signed-in user
+ * @returns The user's keys by provider
+ */
+export async function fetchUserApiKeys(email: string): Promise<Partial<Record<AiProvider, string>>> {
+  const secret = process.env.INTERNAL_API_SECRET;
+  if (!secret) return {};
+
+  try {
+    const response = await fetch(`${BACKEND_URL}/internal/ai-keys/resolve`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Internal-API-Secret': secret
+      },
+      body: JSON.stringify({ email }),
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.data || {};
+  } catch (error) {
+    console.error('Error fetching user AI provider keys:', error);
+    return {};
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Frontend API client for the AI provider keys users bring themselves
+ * Keys are validated with the provider and stored encrypted by the backend;
+ * only masked summaries ever come back
+ */
+
+import { AiKeyProvider, AiKeySummary, AiKeyTestResult } from '@/types/ai-keys';
+
+/**
+ * Result of an AI key request
+ */
+export interface AiKeyResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Send a request to the AI key endpoints, reading the backend's error message on failure
+ */
+async function requestAiKeys<T>(path: string, init: RequestInit = {}): Promise<AiKeyResult<T>> {
+  try {
+    const response = await fetch(`/api/users/ai-keys${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(result?.message || `API error: ${response.status}`);
+    }
+
+    return {
+      success: true,
+      data: result?.data,
+    };
+  } catch (error) {
+    console.error('Error managing AI provider keys:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Fetches the current user's stored keys, masked
+ * 
+ * @returns A Promise resolving to one summary per stored key
+ */
+export function fetchAiKeys(): Promise<AiKeyResult<AiKeySummary[]>> {
+  return requestAiKeys<AiKeySummary[]>('');
+}
+
+/**
+ * Stores a key for a provider, replacing the previous one
+ * 
+ * The backend checks the key with the provider first and rejects keys it does not accept.
+ * 
+ * @param provider The provider the key belongs to
+ * @param apiKey The key
+ * @returns A Promise resolving to the stored key's summary
+ */
+export function saveAiKey(provider: AiKeyProvider, apiKey: string): Promise<AiKeyResult<AiKeySummary>> {
+  return requestAiKeys<AiKeySummary>(`/${provider}`, {
+    method: 'PUT',
+    body: JSON.stringify({ apiKey }),
+  });
+}
+
+/**
+ * Checks a stored key with its provider again
+ * 
+ * @param provider The provider of the key
+ * @returns A Promise resolving to whether the provider still accepts the key
+ */
+export function testAiKey(provider: AiKeyProvider): Promise<AiKeyResult<AiKeyTestResult>> {
+  return requestAiKeys<AiKeyTestResult>(`/${provider}/test`, { method: 'POST' });
+}
+
+/**
+ * Revokes a stored key; the AI tutor goes back to the platform's keys
+ * 
+ * @param provider The provider of the key
+ */
+export function revokeAiKey(provider: AiKeyProvider): Promise<AiKeyResult<Record<string, never>>> {
+  return requestAiKeys<Record<string, never>>(`/${provider}`, { method: 'DELETE' });
+}
@@ -0,0 +1,47 @@
+/**
+ * Frontend API client for the user's AI usage
+ * The backend keeps a ledger of the tokens and estimated cost of every AI request
+ */
+
+import { AiUsageSummary } from '@/types/ai-usage';
+
+/**
+ * Result of an AI usage request
+ */
+export interface AiUsageResult {
+  success: boolean;
+  data?: AiUsageSummary;
+  error?: string;
+}
+
+/**
+ * Fetches the current user's AI usage per feature and day, and where they stand against today's budget
+ *
+ * @param days Number of days to report, including today (1 to 90)
+ * @returns A Promise resolving to the usage summary
+ */
+export async function fetchAiUsage(days = 30): Promise<AiUsageResult> {
+  try {
+    const response = await fetch(`/api/users/ai-usage?days=${days}`, {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(result?.message || `API error: ${response.status}`);
+    }
+
+    return {
+      success: true,
+      data: result?.data,
+    };
+  } catch (error) {
+    console.error('Error fetching AI usage:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -4,7 +4,15 @@
  * without directly accessing the database
  */
 
-import { LearningPath } from '@/types/';
+import {
+  CohortLearningPaths,
+  CycleReport,
+  LearningPath,
+  LearningPathDiff,
+  LearningPathVersionSummary,
+  LearningSchedule,
+  ScheduleOptions,
+} from '@/types/';
 
 /**
  * Fetches a personalized learning path for the current user
@@ -35,11 +43,11 @@ export async function fetchLearningPath(subjectIds?: string[]): Promise<{
       throw new Error(`API error: ${response.status}`);
     }
     
-    const data = await response.json();
+    const result = await response.json();
     
     return {
       success: true,
-      data,
+      data: result.data,
     };
   } catch (error) {
     console.error('Error fetching learning path:', error);
@@ -50,6 +58,311 @@ export async function fetchLearningPath(subjectIds?: string[]): Promise<{
   }
 }
 
+/**
+ * Fetches a learning path that leads to one or more target subjects
+ * Only the targets and their outstanding prerequisites are included
+ * 
+ * @param targetSubjectIds IDs of the subjects the user wants to reach
+ * @returns A Promise resolving to the learning path, including the goal summary and estimated total time
+ */
+export async function fetchGoalLearningPath(targetSubjectIds: string[]): Promise<{
+  success: boolean;
+  data?: LearningPath;
+  error?: string;
+}> {
+  try {
+    const queryParams = new URLSearchParams({ targets: targetSubjectIds.join(',') });
+    
+    const response = await fetch(`/api/learning-path/goal?${queryParams.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+    
+    const result = await response.json();
+    
+    return {
+      success: true,
+      data: result.data,
+    };
+  } catch (error) {
+    console.error('Error fetching goal learning path:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Generates the learning paths of a whole cohort in one request
+ * Requires the admin or coach role
+ * 
+ * @param userIds IDs of the learners in the cohort
+ * @param subjectIds Optional array of subject IDs to constrain the paths
+ * @returns A Promise resolving to every learner's path and statistics across the cohort
+ */
+export async function createCohortLearningPaths(userIds: string[], subjectIds?: string[]): Promise<{
+  success: boolean;
+  data?: CohortLearningPaths;
+  error?: string;
+}> {
+  try {
+    const response = await fetch('/api/learning-path/cohort', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ userIds, subjects: subjectIds }),
+    });
+    
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+    
+    const result = await response.json();
+    
+    return {
+      success: true,
+      data: result.data,
+    };
+  } catch (error) {
+    console.error('Error creating cohort learning paths:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Plans a study schedule that finishes the learning path by a target date
+ * Replaces any schedule the user already has
+ * 
+ * @param options Target date, weekly availability budget and study preferences
+ * @returns A Promise resolving to the day-by-day schedule
+ */
+export async function createLearningSchedule(options: ScheduleOptions): Promise<{
+  success: boolean;
+  data?: LearningSchedule;
+  error?: string;
+}> {
+  try {
+    const response = await fetch('/api/learning-path/schedule', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(options),
+    });
+    
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+    
+    const result = await response.json();
+    
+    return {
+      success: true,
+      data: result.data,
+    };
+  } catch (error) {
+    console.error('Error creating learning schedule:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Fetches the current user's study schedule
+ * The backend re-plans the remaining subjects first if the user has fallen behind
+ * 
+ * @returns A Promise resolving to the schedule
+ */
+export async function fetchLearningSchedule(): Promise<{
+  success: boolean;
+  data?: LearningSchedule;
+  error?: string;
+}> {
+  try {
+    const response = await fetch('/api/learning-path/schedule', {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+    
+    const result = await response.json();
+    
+    return {
+      success: true,
+      data: result.data,
+    };
+  } catch (error) {
+    console.error('Error fetching learning schedule:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// Download URL for the current user's schedule as an iCalendar (.ics) file
+export const LEARNING_SCHEDULE_ICS_URL = '/api/learning-path/schedule/ics';
+
+/**
+ * Fetches the saved versions of a learning path, newest first
+ * Coaches and admins can pass a learner's user ID to see their history
+ * 
+ * @param options.scope Which path to list: 'full' (default), 'subjects:<ids>' or 'goal:<ids>'
+ * @param options.userId Optional learner ID (coach and admin accounts only)
+ * @returns A Promise resolving to the version summaries
+ */
+export async function fetchLearningPathHistory(options: { scope?: string; userId?: string } = {}): Promise<{
+  success: boolean;
+  data?: LearningPathVersionSummary[];
+  error?: string;
+}> {
+  try {
+    const queryParams = new URLSearchParams({ scope: options.scope || 'full' });
+    const basePath = options.userId
+      ? `/api/learning-path/users/${encodeURIComponent(options.userId)}/history`
+      : '/api/learning-path/history';
+    
+    const response = await fetch(`${basePath}?${queryParams.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+    
+    const result = await response.json();
+    
+    return {
+      success: true,
+      data: result.data,
+    };
+  } catch (error) {
+    console.error('Error fetching learning path history:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Diffs two versions of a learning path
+ * Without versions, compares the latest version with the one before it
+ * 
+ * @param options.scope Which path to diff: 'full' (default), 'subjects:<ids>' or 'goal:<ids>'
+ * @param options.from Optional older version number
+ * @param options.to Optional newer version number
+ * @param options.userId Optional learner ID (coach and admin accounts only)
+ * @returns A Promise resolving to the diff and the trigger of the newer version
+ */
+export async function fetchLearningPathDiff(
+  options: { scope?: string; from?: number; to?: number; userId?: string } = {}
+): Promise<{
+  success: boolean;
+  data?: LearningPathDiff;
+  error?: string;
+}> {
+  try {
+    const queryParams = new URLSearchParams({ scope: options.scope || 'full' });
+    if (options.from !== undefined) queryParams.set('from', String(options.from));
+    if (options.to !== undefined) queryParams.set('to', String(options.to));
+    
+    const basePath = options.userId
+      ? `/api/learning-path/users/${encodeURIComponent(options.userId)}/history/diff`
+      : '/api/learning-path/history/diff';
+    
+    const response = await fetch(`${basePath}?${queryParams.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+    
+    const result = await response.json();
+    
+    return {
+      success: true,
+      data: result.data,
+    };
+  } catch (error) {
+    console.error('Error fetching learning path diff:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Validates the curriculum dependency graph and reports any cycles
+ * Requires an admin or creator account
+ * 
+ * @param subjectIds Optional array of subject IDs to constrain the validation
+ * @returns A Promise resolving to the cycle report with suggested dependency removals
+ */
+export async function validateCurriculum(subjectIds?: string[]): Promise<{
+  success: boolean;
+  data?: CycleReport;
+  error?: string;
+}> {
+  try {
+    const queryParams = new URLSearchParams();
+    
+    if (subjectIds && subjectIds.length > 0) {
+      queryParams.set('subjects', subjectIds.join(','));
+    }
+    
+    const response = await fetch(`/api/learning-path/curriculum/validate?${queryParams.toString()}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+    
+    const result = await response.json();
+    
+    return {
+      success: true,
+      data: result.data,
+    };
+  } catch (error) {
+    console.error('Error validating curriculum:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 /**
  * Fetches the recommended next learning path based on user progress and cognitive state
  * @returns Promise with the next learning path data
@@ -76,7 +389,8 @@ export async function fetchNextPath() {
 
 /**
  * Invalidates the cached learning path for the current user
- * Call this when the user completes a subject or their performance data changes
+ * The backend already invalidates paths on lesson completion, review submission and
+ * curriculum changes, so this is only needed to force a fresh path on demand
  * 
  * @returns A Promise resolving to a success/failure status
  */
@@ -111,12 +425,15 @@ export async function invalidateLearningPathCache(): Promise<{
 /**
  * Updates the order of subjects in the user's learning path
  * This is used when the user manually reorders subjects via drag-and-drop
+ * The order is stored and merged into every regenerated path, so it survives cache expiry
  * 
  * @param subjectIds Array of subject IDs in the new order
- * @returns A Promise resolving to a success/failure status
+ * @returns A Promise resolving to the regenerated path, whose orderConflicts list any
+ *   subjects that had to stay behind their prerequisites
  */
 export async function updateLearningPathOrder(subjectIds: string[]): Promise<{
   success: boolean;
+  data?: LearningPath;
   error?: string;
 }> {
   try {
@@ -132,8 +449,11 @@ export async function updateLearningPathOrder(subjectIds: string[]): Promise<{
       throw new Error(`API error: ${response.status}`);
     }
     
+    const result = await response.json();
+    
     return {
       success: true,
+      data: result.data,
     };
   } catch (error) {
     console.error('Error updating learning path order:', error);
@@ -142,4 +462,41 @@ export async function updateLearningPathOrder(subjectIds: string[]): Promise<{
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Discards the user's manual ordering so the learning path follows the computed order again
+ * 
+ * @returns A Promise resolving to the regenerated path
+ */
+export async function resetLearningPathOrder(): Promise<{
+  success: boolean;
+  data?: LearningPath;
+  error?: string;
+}> {
+  try {
+    const response = await fetch('/api/learning-path/reorder', {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+    
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status}`);
+    }
+    
+    const result = await response.json();
+    
+    return {
+      success: true,
+      data: result.data,
+    };
+  } catch (error) {
+    console.error('Error resetting learning path order:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -49,6 +49,22 @@ export class ApiError extends AppError {
   }
 }
 
+export class AiProviderError extends AppError {
+  public readonly provider: string;
+  public readonly retryAfterMs?: number; // From the provider's Retry-After header
+
+  constructor(message: string, statusCode: number, provider: string, retryAfterMs?: number) {
+    super(message, statusCode);
+    this.provider = provider;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  // Rate limits and server errors are worth retrying; other client errors are not
+  public get retryable(): boolean {
+    return this.statusCode === 429 || this.statusCode >= 500;
+  }
+}
+
 // Error Messages
 export const ErrorMessages = {
   GENERIC: "An unexpected error has occurred.",
@@ -0,0 +1,23 @@
+/**
+ * Types for the AI provider keys users bring themselves, shared with the backend key vault
+ */
+
+// Providers users can store their own keys for
+export type AiKeyProvider = 'anthropic' | 'openai' | 'gemini' | 'grok';
+
+// A stored key as the backend reports it - never the key itself
+export interface AiKeySummary {
+  provider: AiKeyProvider;
+  providerName: string;
+  last4: string; // Last characters of the key
+  lastValidatedAt?: string; // When the provider last accepted the key
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Outcome of checking a stored key with its provider
+export interface AiKeyTestResult {
+  valid: boolean;
+  message: string;
+  key: AiKeySummary;
+}
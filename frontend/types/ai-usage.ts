@@ -0,0 +1,48 @@
+/**
+ * Types for the AI spend ledger and daily budgets, shared with the backend
+ */
+
+// Features that call AI providers
+export type AiFeature = 'tutor' | 'quiz';
+
+// Where a user stands against their daily budgets: past 'soft' requests use cheaper models, at 'hard' they are refused
+export type AiBudgetStatus = 'ok' | 'soft' | 'hard';
+
+// Daily limits in USD; 0 means no limit
+export interface AiBudgets {
+  userDailySoftUsd: number;
+  userDailyHardUsd: number;
+  organizationDailySoftUsd: number;
+  organizationDailyHardUsd: number;
+}
+
+// Outcome of the backend's budget check
+export interface AiBudgetCheck {
+  status: AiBudgetStatus;
+  message: string | null; // Explains a 'soft' or 'hard' status to the user
+  spent: { user: number; organization: number }; // Today's spend on the platform's keys
+  budgets: AiBudgets;
+  currency: string;
+  resetsAt: string; // Start of the next UTC day
+}
+
+// Requests, tokens and estimated cost over a period
+export interface AiUsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  ownKeyCost: number; // Part of the cost billed to the user's own provider keys
+}
+
+// A user's AI usage of the last days
+export interface AiUsageSummary {
+  from: string; // First day, 'YYYY-MM-DD' (UTC)
+  to: string; // Last day (today)
+  currency: string;
+  totals: AiUsageTotals;
+  features: (AiUsageTotals & { feature: AiFeature })[];
+  days: (AiUsageTotals & { day: string })[]; // Only days with requests
+  budget: AiBudgetCheck;
+}
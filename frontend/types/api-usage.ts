@@ -19,14 +19,18 @@ export interface AIServiceUsage {
     // Provider-specific metrics (optional)
     provider: {
       name: string;
+      id?: string; // Key of the provider that answered, e.g. 'openai'
       requestId?: string;
       latencyMs?: number;
+      fallbackFrom?: string[]; // Providers that failed or were skipped before this one answered
+      userKey?: boolean; // Whether the request was made with the user's own API key
     };
     
     // Cost estimation (in USD)
     cost: {
       estimated: number;
       currency: string;
+      pricingVersion?: string; // Version of the pricing table the estimate used
     };
     
     // Rate limit information
@@ -59,6 +63,7 @@ export interface AIServiceUsage {
     cost: {
       estimated: number;
       currency: string;
+      pricingVersion?: string; // Version of the pricing table the estimate used
     };
   }
   
@@ -84,6 +89,7 @@ export interface AIServiceUsage {
     cost: {
       estimated: number;
       currency: string;
+      pricingVersion?: string; // Version of the pricing table the estimate used
     };
   }
   
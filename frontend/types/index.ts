@@ -0,0 +1,213 @@
+/**
+ * Learning path types shared with the backend DynamicLearningPathService
+ */
+
+// A recommendation attached to a learning path
+export interface LearningPathRecommendation {
+  type: string;
+  message: string;
+  subjectId?: string;
+}
+
+// A single adjustment applied to a subject's base priority score
+export interface ScoreAdjustment {
+  factor: 'prior_performance' | 'remediation' | 'time_of_day' | 'attention_span';
+  reason: string;
+  delta: number;
+}
+
+// Why a subject was placed where it is in a learning path
+export interface SubjectExplanation {
+  subjectId: string;
+  position: number; // 1-based position in the path
+  baseScore: number;
+  adjustments: ScoreAdjustment[];
+  finalScore: number;
+  completed: boolean;
+  remediation: boolean; // Completed below the mastery a dependent in the path requires
+  masteryGaps: MasteryGap[]; // The subject is gated until these prerequisites are mastered
+  pinned: boolean; // Placed by hand by the user
+  prerequisites: string[]; // Prerequisites in the path that come first
+  dependents: string[]; // Subjects in the path that depend on this one
+}
+
+// A prerequisite the learner has not mastered to the level a subject requires
+export interface MasteryGap {
+  prerequisiteId: string;
+  requiredMastery: number;
+  currentScore: number | null; // Null if never attempted
+}
+
+// A completed subject to revisit because its score is below what dependents require
+export interface PrerequisiteRemediation {
+  subjectId: string;
+  currentScore: number;
+  requiredMastery: number;
+  requiredFor: string[]; // Incomplete subjects gated on the remediation
+}
+
+// A dependency edge: `subjectId` lists `prerequisiteId` in its dependencies
+export interface DependencyEdge {
+  prerequisiteId: string;
+  subjectId: string;
+}
+
+// A group of subjects whose dependencies form a cycle
+export interface DependencyCycle {
+  subjectIds: string[];
+  edges: DependencyEdge[];
+  suggestedRemovals: DependencyEdge[]; // Minimal set of edges that breaks the cycle
+}
+
+// Result of validating the curriculum dependency graph
+export interface CycleReport {
+  hasCycles: boolean;
+  cycles: DependencyCycle[];
+}
+
+// A subject the user placed by hand that prerequisites forced further down the path
+export interface ManualOrderConflict {
+  subjectId: string;
+  requestedBefore: string[]; // Subjects placed after this one by hand that now come before it
+  blockingPrerequisites: string[]; // Prerequisites that had to come first
+}
+
+// Summary of a path built to reach specific target subjects
+export interface LearningPathGoal {
+  targetSubjectIds: string[];
+  skippedSubjectIds: string[]; // Completed subjects left out of the path
+  missingSubjectIds: string[]; // IDs that do not exist in the catalog
+  estimatedTotalMinutes: number;
+}
+
+// Personalized learning path from API
+export interface LearningPath {
+  userId: string;
+  subjects: string[]; // Subject IDs in recommended order
+  explanations: SubjectExplanation[]; // One per subject, in path order
+  recommendations: LearningPathRecommendation[];
+  cycleReport: CycleReport;
+  orderConflicts: ManualOrderConflict[]; // Manual placements overridden by prerequisites
+  remediations: PrerequisiteRemediation[]; // Completed prerequisites placed back in the path
+  goal?: LearningPathGoal; // Present for goal-directed paths
+  timeZone: string; // IANA time zone the path was personalized for
+  generatedAt: string;
+  expiresAt: string;
+}
+
+// How many learners in a cohort have a subject next in their path
+export interface CohortNextSubject {
+  subjectId: string;
+  learners: number;
+}
+
+// An incomplete prerequisite that holds back other subjects across a cohort
+export interface BottleneckPrerequisite {
+  subjectId: string;
+  learnersBlocked: number; // Learners with incomplete subjects depending on it
+  subjectsBlocked: number; // Incomplete dependent subjects, summed over those learners
+  averageScore: number | null; // Of the blocked learners who attempted it
+}
+
+// Aggregate statistics over the learning paths of a cohort
+export interface CohortLearningPathStats {
+  learners: number;
+  nextSubjects: CohortNextSubject[]; // Most common first
+  bottleneckPrerequisites: BottleneckPrerequisite[]; // Holding back the most learners first
+}
+
+// Learning paths generated for a whole cohort in one pass
+export interface CohortLearningPaths {
+  paths: LearningPath[];
+  failedUserIds: string[]; // Learners whose path could not be generated
+  stats: CohortLearningPathStats;
+  generatedAt: string;
+}
+
+// A single study session in a learning schedule
+export interface StudySession {
+  subjectId: string;
+  subjectTitle: string;
+  start: string;
+  end: string;
+  durationMinutes: number;
+  part: number; // Long subjects are split into several sessions
+  totalParts: number;
+  peakHours: boolean; // Falls in one of the learner's peak performance hours
+}
+
+// The study sessions planned for one calendar day
+export interface ScheduleDay {
+  date: string; // YYYY-MM-DD
+  sessions: StudySession[];
+  totalMinutes: number;
+}
+
+// Options for planning a learning schedule
+export interface ScheduleOptions {
+  targetDate: string;
+  weeklyMinutes: number;
+  studyDays?: number[]; // 0 = Sunday; defaults to every day
+  preferredStartHour?: number;
+  targetSubjectIds?: string[]; // Plan a goal-directed path instead of the full path
+}
+
+// A learning path laid out day by day up to a target date
+export interface LearningSchedule {
+  userId: string;
+  targetDate: string;
+  weeklyMinutes: number;
+  studyDays: number[];
+  preferredStartHour: number;
+  targetSubjectIds?: string[];
+  timeZone: string; // IANA time zone the days and hours are planned in
+  days: ScheduleDay[];
+  totalMinutes: number;
+  completionDate: string | null;
+  meetsTargetDate: boolean;
+  requiredWeeklyMinutes: number; // Weekly budget needed to finish by the target date
+  generatedAt: string;
+  replanCount: number; // Times the schedule was re-planned after falling behind
+}
+
+// What caused a learning path to be regenerated
+export type LearningPathTrigger =
+  | 'initial'
+  | 'progress'
+  | 'curriculum_change'
+  | 'manual_reorder'
+  | 'expired'
+  | 'refresh';
+
+// A saved version of a learning path, as listed in its history
+export interface LearningPathVersionSummary {
+  userId: string;
+  scope: string; // 'full', 'subjects:<ids>' or 'goal:<ids>'
+  version: number;
+  triggers: LearningPathTrigger[];
+  subjects: string[];
+  createdAt: string;
+}
+
+// A subject whose position changed between two versions
+export interface SubjectMove {
+  subjectId: string;
+  fromPosition: number;
+  toPosition: number;
+}
+
+// Differences between two versions of a learning path
+export interface LearningPathDiff {
+  userId: string;
+  scope: string;
+  fromVersion: number;
+  toVersion: number;
+  triggers: LearningPathTrigger[]; // What caused the newer version
+  added: string[];
+  removed: string[];
+  moved: SubjectMove[];
+  recommendations: {
+    added: LearningPathRecommendation[];
+    removed: LearningPathRecommendation[];
+  };
+}